@@ -0,0 +1,102 @@
+/**
+ * Role-based authorization
+ * Roles map to permissions here and nowhere else: routes declare the permissions
+ * they need (withAuth(handler, [...])) and services ask hasPermission, so a plan
+ * change is a one-line edit to ROLE_PERMISSIONS
+ */
+
+import { AuthorizationError } from '../errors/CustomErrors';
+import { AUDIO_MAX_DURATION, AnalysisOptionsInput } from '../validation/schemas';
+
+export type Role = 'user' | 'premium' | 'admin';
+
+export const PERMISSIONS = [
+    'analysis:create',
+    'analysis:read',
+    'analysis:deep', // enableDeepAnalysis
+    'analysis:report:comprehensive', // reportingLevel 'comprehensive'
+    'analysis:read:any', // Other users' history and jobs
+    'audio:extended', // Audio longer than STANDARD_AUDIO_MAX_DURATION
+    'jobs:manage', // Dead-letter queue and redrive
+    'admin:metrics'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const USER_PERMISSIONS: Permission[] = ['analysis:create', 'analysis:read'];
+
+const PREMIUM_PERMISSIONS: Permission[] = [
+    ...USER_PERMISSIONS,
+    'analysis:deep',
+    'analysis:report:comprehensive',
+    'audio:extended'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    user: USER_PERMISSIONS,
+    premium: PREMIUM_PERMISSIONS,
+    admin: PERMISSIONS
+};
+
+export const STANDARD_AUDIO_MAX_DURATION = 120; // 2 minutos sem audio:extended
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+/**
+ * Throw AuthorizationError naming every permission the role lacks
+ */
+export function assertPermissions(
+    subject: { role: Role; userId?: string },
+    required: readonly Permission[],
+    operation: string
+): void {
+    const missing = required.filter(permission => !hasPermission(subject.role, permission));
+    if (missing.length > 0) {
+        throw new AuthorizationError(`Permissão necessária: ${missing.join(', ')}`, {
+            operation,
+            userId: subject.userId,
+            metadata: { role: subject.role, missing }
+        });
+    }
+}
+
+export function maxAudioDurationFor(role: Role): number {
+    return hasPermission(role, 'audio:extended') ? AUDIO_MAX_DURATION : STANDARD_AUDIO_MAX_DURATION;
+}
+
+// What a job may run for its owner, decided at upload and enforced by the worker
+export interface AnalysisEntitlement {
+    enableDeepAnalysis: boolean;
+    reportingLevel: 'basic' | 'detailed' | 'comprehensive';
+    maxDurationSeconds: number;
+}
+
+/**
+ * Resolve the options of an analysis for a role. Unset options default to the
+ * best the plan allows; explicitly asking for a premium feature without it is a
+ * 403, as is audio known to be longer than the plan allows
+ */
+export function resolveAnalysisEntitlement(
+    subject: { role: Role; userId?: string },
+    requested: AnalysisOptionsInput = {},
+    durationSeconds?: number
+): AnalysisEntitlement {
+    const required: Permission[] = [];
+    if (requested.deepAnalysis) required.push('analysis:deep');
+    if (requested.reportingLevel === 'comprehensive') required.push('analysis:report:comprehensive');
+
+    const maxDurationSeconds = maxAudioDurationFor(subject.role);
+    if (durationSeconds !== undefined && durationSeconds > maxDurationSeconds && durationSeconds <= AUDIO_MAX_DURATION) {
+        required.push('audio:extended');
+    }
+    assertPermissions(subject, required, 'authorizeAnalysis');
+
+    const comprehensive = hasPermission(subject.role, 'analysis:report:comprehensive');
+    return {
+        enableDeepAnalysis: requested.deepAnalysis ?? hasPermission(subject.role, 'analysis:deep'),
+        reportingLevel: requested.reportingLevel || (comprehensive ? 'comprehensive' : 'detailed'),
+        maxDurationSeconds
+    };
+}
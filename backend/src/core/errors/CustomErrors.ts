@@ -22,6 +22,9 @@ export enum ErrorCode {
   AUDIO_PROCESSING_FAILED = 3000,
   LIE_DETECTION_FAILED = 3001,
   QUOTA_EXCEEDED = 3002,
+  RESOURCE_NOT_FOUND = 3003,
+  INVALID_GAME_STATE = 3004,
+  RESOURCE_CONFLICT = 3005,
   
   // External service errors (4000-4999)
   AZURE_SERVICE_ERROR = 4000,
@@ -119,6 +122,18 @@ export class BusinessLogicError extends BaseError {
   }
 }
 
+export class NotFoundError extends BaseError {
+  constructor(message: string, context?: Partial<ErrorContext>) {
+    super(message, ErrorCode.RESOURCE_NOT_FOUND, 404, true, context);
+  }
+}
+
+export class ConflictError extends BaseError {
+  constructor(message: string, context?: Partial<ErrorContext>) {
+    super(message, ErrorCode.RESOURCE_CONFLICT, 409, true, context);
+  }
+}
+
 export class ExternalServiceError extends BaseError {
   public readonly service: string;
   public readonly originalError?: Error;
@@ -149,3 +164,18 @@ export class RateLimitError extends BaseError {
     this.retryAfter = retryAfter;
   }
 }
+
+export class QuotaExceededError extends BaseError {
+  public readonly period: 'day' | 'month';
+  public readonly resetAt: Date;
+
+  constructor(message: string, period: 'day' | 'month', resetAt: Date, context?: Partial<ErrorContext>) {
+    super(message, ErrorCode.QUOTA_EXCEEDED, 429, true, context);
+    this.period = period;
+    this.resetAt = resetAt;
+  }
+
+  get retryAfter(): number {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Pacotes de idioma para os marcadores linguísticos de engano
+ * Cada pacote é versionado e validado com Zod ao carregar; a escolha do pacote
+ * segue uma cadeia de fallback (es-MX → es → pt-BR)
+ */
+
+import { z } from 'zod';
+import ptBR from './packs/pt-BR.json';
+import enUS from './packs/en-US.json';
+import es from './packs/es.json';
+
+export const DEFAULT_LOCALE = 'pt-BR';
+
+// Termos são comparados já em minúsculas; expressões de várias palavras são permitidas
+const termList = z.array(z.string().min(1).refine(term => term === term.toLowerCase(), {
+    message: 'Termos devem estar em minúsculas'
+})).min(1);
+
+export const localePackSchema = z.object({
+    locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, 'Código de idioma inválido (ex.: pt-BR, es)'),
+    version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Versão deve seguir semver (ex.: 1.0.0)'),
+    name: z.string().min(1),
+    lexicons: z.object({
+        hesitationMarkers: termList,
+        fillerWords: termList,
+        strongAssertions: termList,
+        qualifiers: termList,
+        hedging: termList,
+        stressWords: termList,
+        anxietyPhrases: termList,
+        defensiveWords: termList,
+        evasivePhrases: termList,
+        timeWords: termList,
+        deflectionPhrases: termList,
+        selfCorrections: termList,
+        negations: termList,
+        firstPersonPronouns: termList,
+        thirdPersonPronouns: termList,
+        contradictoryPairs: z.array(z.tuple([z.string().min(1), z.string().min(1)])).min(1),
+        tenseMarkers: z.object({
+            past: termList,
+            present: termList,
+            future: termList,
+        }),
+    }).strict(),
+}).strict();
+
+export type LocalePack = z.infer<typeof localePackSchema>;
+export type LocaleLexicons = LocalePack['lexicons'];
+
+// Qual pacote foi usado numa análise, para o resultado ser reproduzível
+export interface LocalePackReport {
+    requested: string | null;
+    locale: string;
+    version: string;
+    fallback: boolean; // true quando não havia pacote exato para o idioma pedido
+    chain: string[]; // códigos tentados, na ordem
+}
+
+export interface LocalePackResolution {
+    pack: LocalePack;
+    report: LocalePackReport;
+}
+
+const packs = new Map<string, LocalePack>();
+
+export function registerLocalePack(pack: unknown): LocalePack {
+    const parsed = localePackSchema.parse(pack);
+    packs.set(parsed.locale.toLowerCase(), parsed);
+    return parsed;
+}
+
+export function availableLocales(): string[] {
+    return Array.from(packs.values()).map(pack => pack.locale);
+}
+
+/**
+ * Cadeia de fallback para um código de idioma: exato → idioma base → pacote
+ * regional do mesmo idioma → padrão. Aceita 'pt_BR', 'en', 'ES-mx', etc.
+ */
+export function localeFallbackChain(language?: string | null): string[] {
+    const chain: string[] = [];
+    const add = (code: string) => {
+        if (!chain.includes(code)) chain.push(code);
+    };
+
+    const normalized = (language || '').trim().replace('_', '-');
+    if (normalized) {
+        const [base, region] = normalized.split('-');
+        const baseCode = base.toLowerCase();
+        if (region) add(`${baseCode}-${region.toUpperCase()}`);
+        add(baseCode);
+        availableLocales()
+            .filter(locale => locale.split('-')[0] === baseCode)
+            .forEach(add);
+    }
+    add(DEFAULT_LOCALE);
+    return chain;
+}
+
+export function resolveLocalePack(language?: string | null): LocalePackResolution {
+    const chain = localeFallbackChain(language);
+    const tried: string[] = [];
+
+    for (const code of chain) {
+        tried.push(code);
+        const pack = packs.get(code.toLowerCase());
+        if (pack) {
+            return {
+                pack,
+                report: {
+                    requested: language || null,
+                    locale: pack.locale,
+                    version: pack.version,
+                    fallback: tried.length > 1,
+                    chain: tried,
+                },
+            };
+        }
+    }
+
+    throw new Error(`Pacote de idioma padrão ausente: ${DEFAULT_LOCALE}`);
+}
+
+[ptBR, enUS, es].forEach(registerLocalePack);
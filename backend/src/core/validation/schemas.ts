@@ -6,9 +6,9 @@
 import { z } from 'zod';
 
 // Constantes de validação
-const AUDIO_MAX_SIZE = 50 * 1024 * 1024; // 50MB
-const AUDIO_MIN_DURATION = 1; // 1 segundo
-const AUDIO_MAX_DURATION = 300; // 5 minutos
+export const AUDIO_MAX_SIZE = 50 * 1024 * 1024; // 50MB
+export const AUDIO_MIN_DURATION = 1; // 1 segundo
+export const AUDIO_MAX_DURATION = 300; // 5 minutos
 const SUPPORTED_AUDIO_FORMATS = ['audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/m4a'] as const;
 
 // Schema para upload de áudio
@@ -36,6 +36,21 @@ export const audioUploadSchema = z.object({
   }),
 });
 
+// Formulário multipart do upload: userId vem do token, não do formulário
+export const uploadFormSchema = audioUploadSchema.extend({
+  metadata: audioUploadSchema.shape.metadata.omit({ userId: true }).extend({
+    participantId: z.string().min(1).max(100).optional(),
+  }),
+});
+
+// Upload direto ao blob (SAS): o cliente declara o arquivo antes de enviá-lo
+export const uploadIntentSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  contentType: z.string().trim().toLowerCase().min(1).max(100),
+  length: z.number().int().positive().max(AUDIO_MAX_SIZE, `Arquivo muito grande. Máximo: ${AUDIO_MAX_SIZE / 1024 / 1024}MB`),
+  fields: z.record(z.string().max(1000)).optional(), // campos do formulário e opções de análise, como no multipart
+}).strict();
+
 // Schema para resultado de análise
 export const analysisResultSchema = z.object({
   id: z.string().uuid(),
@@ -44,6 +59,7 @@ export const analysisResultSchema = z.object({
   
   audio: z.object({
     url: z.string().url(),
+    contentHash: z.string().regex(/^[a-f0-9]{64}$/, 'Hash SHA-256 inválido').optional(),
     duration: z.number().positive(),
     format: z.string(),
     sampleRate: z.number().positive(),
@@ -98,20 +114,32 @@ export const analysisResultSchema = z.object({
   }),
 });
 
+// Regras de força da senha: as mesmas no cadastro e no hash (jwtAuthService)
+export const passwordSchema = z.string()
+  .min(8, 'Senha deve ter no mínimo 8 caracteres')
+  .max(128, 'Senha muito longa')
+  .regex(/[A-Z]/, 'Senha deve conter letra maiúscula')
+  .regex(/[a-z]/, 'Senha deve conter letra minúscula')
+  .regex(/[0-9]/, 'Senha deve conter número')
+  .regex(/[^A-Za-z0-9]/, 'Senha deve conter caractere especial');
+
 // Schema para autenticação
 export const authSchema = z.object({
   email: z.string()
-    .email('Email inválido')
-    .toLowerCase()
     .trim()
+    .toLowerCase()
+    .email('Email inválido')
     .max(255),
-  password: z.string()
-    .min(8, 'Senha deve ter no mínimo 8 caracteres')
-    .max(128, 'Senha muito longa')
-    .regex(/[A-Z]/, 'Senha deve conter letra maiúscula')
-    .regex(/[a-z]/, 'Senha deve conter letra minúscula')
-    .regex(/[0-9]/, 'Senha deve conter número')
-    .regex(/[^A-Za-z0-9]/, 'Senha deve conter caractere especial'),
+  password: passwordSchema,
+});
+
+// Login não repete as regras de força: senha fora delas só não confere
+export const loginSchema = authSchema.extend({
+  password: z.string().min(1, 'Senha obrigatória').max(128, 'Senha muito longa'),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'refreshToken obrigatório'),
 });
 
 // Schema para rate limiting
@@ -122,8 +150,66 @@ export const rateLimitSchema = z.object({
   count: z.number().int().positive(),
 });
 
+// Opções de análise pedidas no upload: ?deepAnalysis=true&reportingLevel=comprehensive
+export const analysisOptionsSchema = z.object({
+  deepAnalysis: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  reportingLevel: z.enum(['basic', 'detailed', 'comprehensive']).optional(),
+}).strict();
+
+// Schema para calibração de baseline por participante
+export const participantIdSchema = z.string()
+  .min(1, 'participantId obrigatório')
+  .max(128)
+  .regex(/^[A-Za-z0-9_-]+$/, 'participantId inválido');
+
+export const baselineUpdateSchema = z.object({
+  language: z.string().min(2).max(10).optional(),
+  typicalSentiment: z.enum(['positive', 'negative', 'neutral']).optional(),
+  personalityProfile: z.record(z.unknown()).optional(),
+  removeSamples: z.array(z.string().uuid()).max(10).optional(),
+}).strict();
+
+// Schemas para sessões de jogo
+export const createGameSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  totalRounds: z.number().int().min(1).max(20).default(3),
+  maxPlayers: z.number().int().min(2).max(12).default(8),
+}).strict();
+
+export const joinGameSchema = z.object({
+  name: z.string().trim().min(1, 'Nome obrigatório').max(40),
+  participantId: participantIdSchema.optional(), // liga o jogador a um baseline calibrado
+}).strict();
+
+export const startRoundSchema = z.object({
+  prompt: z.string().trim().min(1).max(500).optional(),
+}).strict();
+
+// Schema para consulta do histórico de análises (query string)
+export const analysisListQuerySchema = z.object({
+  userId: z.string().uuid('ID de usuário inválido').optional(),
+  from: z.coerce.date({ errorMap: () => ({ message: 'Data inicial inválida' }) }).optional(),
+  to: z.coerce.date({ errorMap: () => ({ message: 'Data final inválida' }) }).optional(),
+  riskLevel: z.enum(['low', 'medium', 'high']).optional(),
+  classification: z.enum(['truth', 'lie', 'uncertain']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).max(4096).optional(),
+}).strict().refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'A data inicial deve ser anterior à final',
+  path: ['from'],
+});
+
 // Type exports
 export type AudioUploadInput = z.infer<typeof audioUploadSchema>;
+export type UploadFormInput = z.infer<typeof uploadFormSchema>;
+export type UploadIntentInput = z.infer<typeof uploadIntentSchema>;
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
 export type AuthInput = z.infer<typeof authSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
 export type RateLimitEntry = z.infer<typeof rateLimitSchema>;
+export type BaselineUpdateInput = z.infer<typeof baselineUpdateSchema>;
+export type CreateGameInput = z.input<typeof createGameSchema>;
+export type JoinGameInput = z.infer<typeof joinGameSchema>;
+export type StartRoundInput = z.infer<typeof startRoundSchema>;
+export type AnalysisListQueryInput = z.input<typeof analysisListQuerySchema>;
+export type AnalysisOptionsInput = z.infer<typeof analysisOptionsSchema>;
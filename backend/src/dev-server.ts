@@ -5,9 +5,26 @@
 
 import express from 'express';
 import cors from 'cors';
-import multer from 'multer';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import { audioUpload } from './functions/audioUpload';
 import { healthCheck } from './functions/health';
+import { addBaselineSample, baselineResource } from './functions/baselines';
+import { analysisEvents } from './functions/analysisEvents';
+import { listAnalyses, analysisResource } from './functions/analyses';
+import { register, login, refresh, logout, logoutAll, listSessions, revokeSession, me } from './functions/auth';
+import { getJobStatus, getJobResult, retryJob, listDeadLetterJobs } from './functions/jobs';
+import { adminMetrics } from './functions/admin';
+import { getUsage } from './functions/usage';
+import { createUpload, uploadResource, createUploadIntent, completeUploadIntent } from './functions/uploads';
+import { analysisJobService } from './services/analysisJobService';
+import { createGame, getGame, joinGame, startRound, submitAnswer, finishGame, getRanking } from './functions/games';
+import { attachLiveAnalysisSocket } from './realtime/liveAnalysisSocket';
+import { rateLimit } from './middleware/rateLimit';
+import { withHeaders } from './utils/httpResponse';
+import { TUS_VERSION } from './services/resumableUploadService';
+import { BaseError } from './core/errors/CustomErrors';
+import { v4 as uuidv4 } from 'uuid';
 import { logger } from './utils/logger';
 
 const app = express();
@@ -18,23 +35,48 @@ app.use(cors());
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Configurar multer para upload de arquivos
-const upload = multer({ 
-    storage: multer.memoryStorage(),
-    limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
-});
+// Corpo binário (áudio) chega como Buffer nas rotas que usam express.raw
+const rawAudio = express.raw({ type: ['audio/*', 'application/octet-stream'], limit: '50mb' });
 
-// Mock do HttpRequest para Azure Functions
+// Mock do HttpRequest para Azure Functions (headers/query com get(), corpo via json()/arrayBuffer())
 function createMockRequest(req: express.Request): any {
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+        if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    });
+
+    const query = new URLSearchParams();
+    Object.entries(req.query).forEach(([key, value]) => {
+        if (typeof value === 'string') query.set(key, value);
+    });
+
+    const bodyBuffer = (): Buffer => Buffer.isBuffer(req.body)
+        ? req.body
+        : Buffer.from(typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? null));
+
     return {
         method: req.method,
-        url: req.url,
-        headers: req.headers,
-        query: req.query,
+        url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+        headers,
+        query,
         params: req.params,
         body: req.body,
         raw: req.body,
-        bufferBody: req.body
+        bufferBody: req.body,
+        json: async () => Buffer.isBuffer(req.body) ? JSON.parse(req.body.toString('utf8')) : req.body,
+        text: async () => bodyBuffer().toString('utf8'),
+        arrayBuffer: async () => {
+            const buffer = bodyBuffer();
+            return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+        }
+    };
+}
+
+// Mock do InvocationContext
+function createMockContext(functionName: string): any {
+    return {
+        invocationId: uuidv4(),
+        functionName
     };
 }
 
@@ -49,7 +91,19 @@ function handleAzureFunctionResponse(res: express.Response) {
         
         res.status(azureResponse.status || 200);
         
-        if (azureResponse.body) {
+        // Corpo em streaming (SSE): repassar sem bufferizar e cancelar quando o cliente desconectar
+        if (azureResponse.body instanceof ReadableStream) {
+            res.flushHeaders();
+            const stream = Readable.fromWeb(azureResponse.body as WebReadableStream<Uint8Array>);
+            res.on('close', () => stream.destroy());
+            stream.pipe(res);
+            return;
+        }
+        
+        // Handlers que respondem com jsonBody (ex.: o 202 do audioUpload) em vez de body
+        if (azureResponse.jsonBody !== undefined) {
+            res.json(azureResponse.jsonBody);
+        } else if (azureResponse.body) {
             if (typeof azureResponse.body === 'string') {
                 res.send(azureResponse.body);
             } else {
@@ -62,7 +116,7 @@ function handleAzureFunctionResponse(res: express.Response) {
 }
 
 // Rotas - Health Check
-app.get('/api/health', async (req, res) => {
+app.get('/api/health', rateLimit('health'), async (req, res) => {
     try {
         logger.info('Health check request received', { 
             method: req.method, 
@@ -83,25 +137,18 @@ app.get('/api/health', async (req, res) => {
 });
 
 // Rotas - Audio Upload
-app.post('/api/audioUpload', upload.single('audio'), async (req, res) => {
+app.post('/api/audioUpload', rateLimit('upload'), async (req, res) => {
     try {
         logger.info('Audio upload request received', { 
             method: req.method, 
             url: req.url,
-            hasFile: !!req.file,
-            fileSize: req.file?.size,
+            contentLength: req.get('Content-Length'),
             contentType: req.get('Content-Type')
         });
         
-        // Preparar dados do arquivo para o Azure Function
-        let mockRequest = createMockRequest(req);
-        
-        if (req.file) {
-            // Simular multipart data como Azure Functions recebe
-            mockRequest.headers['content-type'] = req.get('Content-Type');
-            mockRequest.body = req.file.buffer;
-            mockRequest.raw = req.file.buffer;
-        }
+        // O multipart é lido em streaming pelo validateUploadRequest, como no Azure Functions
+        const mockRequest = createMockRequest(req);
+        mockRequest.body = req;
         
         const response = await audioUpload(mockRequest);
         handleAzureFunctionResponse(res)(response);
@@ -114,6 +161,168 @@ app.post('/api/audioUpload', upload.single('audio'), async (req, res) => {
     }
 });
 
+// Rotas - Upload retomável (tus); o PATCH lê o bloco em streaming, como no Azure Functions
+app.post('/api/uploads', rateLimit('upload'), async (req, res) => {
+    const response = await createUpload(createMockRequest(req), createMockContext('createUpload'));
+    handleAzureFunctionResponse(res)(withHeaders(response, { 'Tus-Resumable': TUS_VERSION }));
+});
+
+// Upload direto ao blob: o cliente envia o arquivo para a URL SAS (Azurite em desenvolvimento)
+app.post('/api/uploads/intent', rateLimit('upload'), async (req, res) => {
+    const response = await createUploadIntent(createMockRequest(req), createMockContext('createUploadIntent'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/uploads/:id/complete', rateLimit('upload'), async (req, res) => {
+    const response = await completeUploadIntent(createMockRequest(req), createMockContext('completeUploadIntent'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.all('/api/uploads/:id', rateLimit('default'), async (req, res) => {
+    const mockRequest = createMockRequest(req);
+    if (req.method === 'PATCH') mockRequest.body = req;
+
+    const response = await uploadResource(mockRequest, createMockContext('uploadResource'));
+    handleAzureFunctionResponse(res)(withHeaders(response, { 'Tus-Resumable': TUS_VERSION }));
+});
+
+// Rotas - Contas de usuário
+app.post('/api/auth/register', rateLimit('auth'), async (req, res) => {
+    const response = await register(createMockRequest(req), createMockContext('register'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/auth/login', rateLimit('auth'), async (req, res) => {
+    const response = await login(createMockRequest(req), createMockContext('login'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/auth/refresh', rateLimit('auth'), async (req, res) => {
+    const response = await refresh(createMockRequest(req), createMockContext('refreshTokens'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/auth/logout', rateLimit('default'), async (req, res) => {
+    const response = await logout(createMockRequest(req), createMockContext('logout'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/auth/logout-all', rateLimit('default'), async (req, res) => {
+    const response = await logoutAll(createMockRequest(req), createMockContext('logoutAll'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/auth/sessions', rateLimit('default'), async (req, res) => {
+    const response = await listSessions(createMockRequest(req), createMockContext('listSessions'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.delete('/api/auth/sessions/:id', rateLimit('default'), async (req, res) => {
+    const response = await revokeSession(createMockRequest(req), createMockContext('revokeSession'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/auth/me', rateLimit('default'), async (req, res) => {
+    const response = await me(createMockRequest(req), createMockContext('me'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/me/usage', rateLimit('default'), async (req, res) => {
+    const response = await getUsage(createMockRequest(req), createMockContext('getUsage'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Jobs de análise assíncrona
+app.get('/api/jobs/dead-letter', rateLimit('default'), async (req, res) => {
+    const response = await listDeadLetterJobs(createMockRequest(req), createMockContext('listDeadLetterJobs'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/jobs/:jobId', rateLimit('default'), async (req, res) => {
+    const response = await getJobStatus(createMockRequest(req), createMockContext('getJobStatus'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/jobs/:jobId/result', rateLimit('default'), async (req, res) => {
+    const response = await getJobResult(createMockRequest(req), createMockContext('getJobResult'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/jobs/:jobId/retry', rateLimit('default'), async (req, res) => {
+    const response = await retryJob(createMockRequest(req), createMockContext('retryJob'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Administração
+app.get('/api/admin/metrics', rateLimit('default'), async (req, res) => {
+    const response = await adminMetrics(createMockRequest(req), createMockContext('adminMetrics'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Histórico de análises
+app.get('/api/analyses', rateLimit('default'), async (req, res) => {
+    const response = await listAnalyses(createMockRequest(req), createMockContext('listAnalyses'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.all('/api/analyses/:id', rateLimit('default'), async (req, res) => {
+    const response = await analysisResource(createMockRequest(req), createMockContext('analysisResource'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Progresso ao vivo (Server-Sent Events)
+app.get('/api/analyses/:id/events', rateLimit('default'), async (req, res) => {
+    const response = await analysisEvents(createMockRequest(req), createMockContext('analysisEvents'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Sessões de jogo
+app.post('/api/games', rateLimit('default'), async (req, res) => {
+    const response = await createGame(createMockRequest(req), createMockContext('createGame'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/games/:gameId', rateLimit('default'), async (req, res) => {
+    const response = await getGame(createMockRequest(req), createMockContext('getGame'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/games/:gameId/players', rateLimit('default'), async (req, res) => {
+    const response = await joinGame(createMockRequest(req), createMockContext('joinGame'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/games/:gameId/rounds', rateLimit('default'), async (req, res) => {
+    const response = await startRound(createMockRequest(req), createMockContext('startRound'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/games/:gameId/rounds/:round/answers/:playerId', rateLimit('default'), rawAudio, async (req, res) => {
+    const response = await submitAnswer(createMockRequest(req), createMockContext('submitAnswer'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.post('/api/games/:gameId/finish', rateLimit('default'), async (req, res) => {
+    const response = await finishGame(createMockRequest(req), createMockContext('finishGame'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.get('/api/games/:gameId/ranking', rateLimit('default'), async (req, res) => {
+    const response = await getRanking(createMockRequest(req), createMockContext('getRanking'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+// Rotas - Baseline por participante
+app.post('/api/baselines/:participantId/samples', rateLimit('default'), rawAudio, async (req, res) => {
+    const response = await addBaselineSample(createMockRequest(req), createMockContext('addBaselineSample'));
+    handleAzureFunctionResponse(res)(response);
+});
+
+app.all('/api/baselines/:participantId', rateLimit('default'), async (req, res) => {
+    const response = await baselineResource(createMockRequest(req), createMockContext('baselineResource'));
+    handleAzureFunctionResponse(res)(response);
+});
+
 // Rota para testar conectividade
 app.get('/', (_req, res) => {
     res.json({
@@ -122,14 +331,35 @@ app.get('/', (_req, res) => {
         timestamp: new Date().toISOString(),
         endpoints: {
             health: '/api/health',
-            audioUpload: '/api/audioUpload (POST)'
+            auth: '/api/auth/register (POST), /api/auth/login (POST), /api/auth/refresh (POST), /api/auth/logout (POST, Bearer), /api/auth/logout-all (POST, Bearer), /api/auth/sessions (GET, Bearer), /api/auth/sessions/:id (DELETE, Bearer), /api/auth/me (GET, Bearer)',
+            usage: '/api/me/usage (GET, Bearer; cotas diária e mensal do plano)',
+            audioUpload: '/api/audioUpload (POST, Bearer, 202 + jobId; ?deepAnalysis=&reportingLevel= premium; 429 quando a cota acaba)',
+            uploads: '/api/uploads (POST, Bearer, tus 1.0.0: Upload-Length, Upload-Metadata), /api/uploads/:id (HEAD, PATCH application/offset+octet-stream, DELETE, GET)',
+            directUpload: '/api/uploads/intent (POST, Bearer, URL SAS só de escrita), /api/uploads/:id/complete (POST, Bearer, 202 + jobId)',
+            analyses: '/api/analyses (GET, Bearer, ?from=&to=&riskLevel=&classification=&limit=&cursor=), /api/analyses/:id (GET, DELETE)',
+            analysisEvents: '/api/analyses/:id/events (GET, text/event-stream, Last-Event-ID)',
+            liveAnalysis: '/api/live (WebSocket, Bearer ou ?access_token=, PCM 16-bit mono; ?streamId=&resumeToken= para reconectar)',
+            jobs: '/api/jobs/:jobId (GET, Bearer), /api/jobs/:jobId/result (GET, Bearer), /api/jobs/:jobId/retry (POST, jobs:manage), /api/jobs/dead-letter (GET, jobs:manage)',
+            admin: '/api/admin/metrics (GET, admin:metrics)',
+            games: '/api/games (POST), /api/games/:gameId (GET), /api/games/:gameId/players (POST), /api/games/:gameId/rounds (POST), /api/games/:gameId/rounds/:round/answers/:playerId (POST), /api/games/:gameId/finish (POST), /api/games/:gameId/ranking (GET)',
+            baselines: '/api/baselines/:participantId (GET, PATCH, DELETE), /api/baselines/:participantId/samples (POST)'
         },
         docs: 'See README.md for API documentation'
     });
 });
 
-// Middleware de erro global
+// Middleware de erro global; erros operacionais (ex.: RateLimitError do rateLimit) usam o próprio status
 app.use((error: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    if (error instanceof BaseError && error.isOperational) {
+        res.status(error.statusCode).json({
+            success: false,
+            error: error.message,
+            code: error.code,
+            requestId: req.headers['x-request-id'] || 'unknown'
+        });
+        return;
+    }
+
     logger.error('Unhandled error in dev server', error, { 
         url: req.url, 
         method: req.method 
@@ -145,7 +375,10 @@ app.use((error: any, req: express.Request, res: express.Response, _next: express
 // Iniciar servidor
 async function startServer() {
     try {
-        app.listen(port, () => {
+        // Worker de análise no mesmo processo; com JOB_QUEUE=redis também consome jobs de outras instâncias
+        analysisJobService.start();
+
+        const server = app.listen(port, () => {
             logger.info('Development server started', { 
                 port, 
                 environment: process.env.NODE_ENV || 'development',
@@ -161,6 +394,9 @@ async function startServer() {
             console.log(`📤 Audio Upload: http://localhost:${port}/api/audioUpload`);
             console.log(`📚 API Docs: http://localhost:${port}/`);
         });
+
+        // Análise ao vivo por WebSocket no mesmo servidor HTTP
+        attachLiveAnalysisSocket(server);
     } catch (error) {
         logger.error('Failed to start development server', error as Error, { port });
         process.exit(1);
@@ -0,0 +1,40 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { analysisJobService } from '../services/analysisJobService';
+import { liveAnalysisService } from '../services/liveAnalysisService';
+import { circuitBreakerRegistry } from '../services/circuitBreakerService';
+import { withAuth } from '../middleware/auth';
+import { jsonResponse, errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+
+/**
+ * Operational metrics (Bearer token with admin:metrics)
+ * GET /api/admin/metrics  process, job queue, live streams and circuit breakers
+ */
+export const adminMetrics = withAuth(async (_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const memory = process.memoryUsage();
+        const deadLetters = await analysisJobService.listDeadLetters();
+        const metrics = {
+            uptimeSeconds: Math.round(process.uptime()),
+            memory: {
+                heapUsedMB: Math.round(memory.heapUsed / 1024 / 1024),
+                rssMB: Math.round(memory.rss / 1024 / 1024)
+            },
+            jobs: { deadLettered: deadLetters.length },
+            live: { activeStreams: liveAnalysisService.activeStreams },
+            circuitBreakers: circuitBreakerRegistry.getAllMetrics()
+        };
+        return jsonResponse(200, { success: true, metrics, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['admin:metrics']);
+
+app.http('adminMetrics', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'admin/metrics',
+    handler: withRateLimit(adminMetrics, 'default')
+});
@@ -0,0 +1,72 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { analysisHistoryService } from '../services/analysisHistoryService';
+import { AuthenticatedUser, withAuth } from '../middleware/auth';
+import { hasPermission } from '../core/authorization/permissions';
+import { jsonResponse, errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+
+const QUERY_PARAMS = ['userId', 'from', 'to', 'riskLevel', 'classification', 'limit', 'cursor'] as const;
+
+/**
+ * Analysis history (Bearer token required)
+ * GET    /api/analyses?from=&to=&riskLevel=low|medium|high&classification=truth|lie|uncertain&limit=20&cursor=
+ * GET    /api/analyses/{id}
+ * DELETE /api/analyses/{id}
+ * Newest first; pass nextCursor back as ?cursor= for the next page
+ * Users only see their own analyses; analysis:read:any (admins) sees everyone's and may filter with ?userId=
+ */
+export const listAnalyses = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const query: Record<string, string> = {};
+        for (const name of QUERY_PARAMS) {
+            const value = request.query.get(name);
+            if (value) query[name] = value;
+        }
+        if (!hasPermission(user.role, 'analysis:read:any')) query.userId = user.userId;
+
+        const page = await analysisHistoryService.list(query);
+        return jsonResponse(200, { success: true, analyses: page.items, nextCursor: page.nextCursor, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+export const analysisResource = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const analysisId = request.params.id;
+    const ownerId = hasPermission(user.role, 'analysis:read:any') ? undefined : user.userId;
+
+    try {
+        switch (request.method) {
+            case 'GET': {
+                const analysis = await analysisHistoryService.get(analysisId, ownerId);
+                return jsonResponse(200, { success: true, analysis, requestId }, requestId);
+            }
+            case 'DELETE':
+                await analysisHistoryService.delete(analysisId, ownerId);
+                return { status: 204, headers: { 'X-Request-ID': requestId } };
+            default:
+                return jsonResponse(405, { success: false, error: 'Method not allowed', requestId }, requestId, {
+                    'Allow': 'GET, DELETE'
+                });
+        }
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+app.http('listAnalyses', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'analyses',
+    handler: withRateLimit(listAnalyses, 'default')
+});
+
+app.http('analysisResource', {
+    methods: ['GET', 'DELETE'],
+    authLevel: 'anonymous',
+    route: 'analyses/{id}',
+    handler: withRateLimit(analysisResource, 'default')
+});
@@ -0,0 +1,119 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { analysisJobService } from '../services/analysisJobService';
+import {
+    analysisEventService,
+    formatSseEvent,
+    isTerminalEvent,
+    parseLastEventId
+} from '../services/analysisEventService';
+import { AnalysisJob } from '../services/jobs';
+import { createRequestLogger } from '../utils/logger';
+import { errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+import { AuthenticatedUser, jobOwner, withAuth } from '../middleware/auth';
+
+// SSE needs the response body streamed instead of buffered
+app.setup({ enableHttpStream: true });
+
+const HEARTBEAT_MS = 15000;
+const CLIENT_RETRY_MS = 3000;
+
+/**
+ * Live progress of an analysis job as Server-Sent Events
+ * GET /api/analyses/{id}/events
+ * Resume with the Last-Event-ID header (or ?lastEventId= where EventSource cannot set headers).
+ * The stream ends after the `completed` or `failed` event. Bearer token required;
+ * users only stream their own analyses
+ */
+export const analysisEvents = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const logger = createRequestLogger(requestId);
+    const analysisId = request.params.id;
+
+    try {
+        const job = await analysisJobService.getJob(analysisId, jobOwner(user));
+        const lastEventId = parseLastEventId(request.headers.get('last-event-id') ?? request.query.get('lastEventId'));
+
+        logger.info('Analysis event stream opened', { analysisId, lastEventId, status: job.status });
+        return {
+            status: 200,
+            headers: {
+                'Content-Type': 'text/event-stream; charset=utf-8',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no',
+                'X-Request-ID': requestId
+            },
+            body: createEventStream(job, lastEventId)
+        };
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+function createEventStream(job: AnalysisJob, lastEventId: number | null): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let closed = false;
+    let heartbeat: NodeJS.Timeout | null = null;
+    let unsubscribe: () => void = () => undefined;
+
+    const cleanup = () => {
+        closed = true;
+        if (heartbeat) clearInterval(heartbeat);
+        unsubscribe();
+    };
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            const write = (chunk: string) => {
+                if (!closed) controller.enqueue(encoder.encode(chunk));
+            };
+            const close = () => {
+                if (closed) return;
+                cleanup();
+                controller.close();
+            };
+
+            write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+            // No log in this process (expired, or the job ran on another instance): report the job as it stands
+            if (!analysisEventService.hasEvents(job.id)) {
+                write(`event: status\ndata: ${JSON.stringify({
+                    status: job.status,
+                    attempt: job.attempts,
+                    maxAttempts: job.maxAttempts,
+                    progress: job.progress,
+                    error: job.lastError
+                })}\n\n`);
+                if (job.status === 'succeeded' || job.status === 'failed') {
+                    write(job.status === 'succeeded'
+                        ? `event: completed\ndata: ${JSON.stringify({ resultUrl: `/api/jobs/${job.id}/result` })}\n\n`
+                        : `event: failed\ndata: ${JSON.stringify({ error: job.lastError, attempts: job.attempts, deadLettered: job.deadLettered })}\n\n`);
+                    close();
+                    return;
+                }
+            }
+
+            unsubscribe = analysisEventService.subscribe(job.id, lastEventId, event => {
+                write(formatSseEvent(event));
+                if (isTerminalEvent(event)) close();
+            });
+            if (closed) {
+                unsubscribe();
+                return;
+            }
+
+            heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+        },
+        cancel() {
+            cleanup();
+        }
+    });
+}
+
+app.http('analysisEvents', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'analyses/{id}/events',
+    handler: withRateLimit(analysisEvents, 'default')
+});
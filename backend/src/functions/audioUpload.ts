@@ -1,9 +1,14 @@
 import { logger } from '../utils/logger';
 import { app, HttpRequest, HttpResponseInit } from '@azure/functions';
 import { validateUploadRequest, handleUploadError } from '../services/audioProcessingService'; // Mantido apenas o necessário
-import { audioStorageService } from '../services/storageService';
+import { resolveStorageBackendName } from '../services/storage';
+import { uploadIntakeService, AdmittedUpload } from '../services/uploadIntakeService';
+import { authenticate, AuthenticatedUser } from '../middleware/auth';
+import { assertPermissions } from '../core/authorization/permissions';
+import { errorResponse } from '../utils/httpResponse';
 // import { createRequestLogger } from '../utils/logger'; // Não utilizado
 import { v4 as uuidv4 } from 'uuid';
+import { withRateLimit } from '../middleware/rateLimit';
 
 // Health check interfaces
 interface HealthCheckResult {
@@ -21,9 +26,9 @@ async function performHealthChecks(requestId: string): Promise<HealthCheckResult
     };
 
     try {
-        // Check Azure Blob Storage
+        // Check audio storage (only Azure Blob needs a connection string)
         const storageConnectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
-        results.storage = !!storageConnectionString && storageConnectionString.length > 0;
+        results.storage = resolveStorageBackendName() !== 'azure' || (!!storageConnectionString && storageConnectionString.length > 0);
 
         // Check Azure AI Services
         const aiSubscriptionKey = process.env.AZURE_AI_SUBSCRIPTION_KEY;
@@ -67,6 +72,23 @@ export async function audioUpload(request: HttpRequest): Promise<HttpResponseIni
     };
     logger.info('Audio upload request started', logContext);
 
+    // The analysis belongs to the token's user, never to a userId sent in the form
+    let user: AuthenticatedUser;
+    try {
+        user = await authenticate(request);
+        assertPermissions(user, ['analysis:create'], 'audioUpload');
+    } catch (error) {
+        logger.warn('Audio upload rejected: not authorized', logContext);
+        return errorResponse(error, requestId);
+    }
+
+    // Charged once admitted; given back if the upload fails before it is handed to the queue
+    let charged: AdmittedUpload | undefined;
+    const releaseCharge = async () => {
+        if (charged) await uploadIntakeService.release(charged);
+        charged = undefined;
+    };
+
     try {
         // Pre-processing validations - fail fast
         const validationResult = await validateUploadRequest(request);
@@ -99,23 +121,30 @@ export async function audioUpload(request: HttpRequest): Promise<HttpResponseIni
             throw new Error('File data extraction failed after validation');
         }
 
-        // Upload real para Azure Blob Storage
+        // Antivirus, premium options, longer audio and the quota are checked before anything is stored
+        let admitted: AdmittedUpload;
+        try {
+            admitted = await uploadIntakeService.admit(user, fileData, request.query);
+            charged = admitted;
+        } catch (error) {
+            logger.warn('Audio upload rejected', { ...logContext, role: user.role });
+            return errorResponse(error, requestId);
+        }
+
+        // Armazena pelo hash do conteúdo; o mesmo áudio reaproveita o blob existente
         const metadata = {
             originalName: fileData.originalName,
             uploadTimestamp: new Date().toISOString(),
             fileId: requestId,
             contentType: fileData.mimeType,
-            fileSize: fileData.buffer.length
+            fileSize: fileData.buffer.length,
+            userId: user.userId
         };
-        const uploadResult = await audioStorageService.uploadAudioFile(
-            fileData.buffer,
-            fileData.originalName,
-            metadata,
-            fileData.mimeType
-        );
+        const uploadResult = await uploadIntakeService.store(fileData, admitted, metadata);
 
         const duration = Date.now() - startTime;
         if (!uploadResult.success) {
+            await releaseCharge();
             logger.error('Blob upload failed', {
                 ...logContext,
                 error: uploadResult.error,
@@ -138,26 +167,43 @@ export async function audioUpload(request: HttpRequest): Promise<HttpResponseIni
             };
         }
 
+        // A análise roda no worker; o cliente acompanha pelo jobId (submit devolve a cota se falhar)
+        charged = undefined;
+        const job = await uploadIntakeService.submit(fileData, admitted, {
+            requestId,
+            blobName: uploadResult.data?.blobName,
+            blobUrl: uploadResult.data?.blobUrl,
+            userId: user.userId
+        });
+
         logger.info('Audio upload completed com sucesso (Azure Blob)', {
             ...logContext,
             blobUrl: uploadResult.data?.blobUrl,
             blobName: uploadResult.data?.blobName,
+            deduplicated: uploadResult.data?.deduplicated,
+            jobId: job.id,
             duration
         });
         return {
-            status: 201,
+            status: 202,
             headers: {
                 'Content-Type': 'application/json',
-                'X-Request-ID': requestId
+                'X-Request-ID': requestId,
+                'Location': `/api/jobs/${job.id}`
             },
             jsonBody: {
                 success: true,
                 data: {
                     id: requestId,
-                    status: 'uploaded',
+                    jobId: job.id,
+                    status: job.status,
+                    statusUrl: `/api/jobs/${job.id}`,
+                    resultUrl: `/api/jobs/${job.id}/result`,
                     timestamp: new Date().toISOString(),
                     blobUrl: uploadResult.data?.blobUrl,
                     blobName: uploadResult.data?.blobName,
+                    contentHash: uploadResult.data?.contentHash,
+                    deduplicated: uploadResult.data?.deduplicated,
                     metadata: {
                         fileSize: fileData.buffer.length,
                         mimeType: fileData.mimeType,
@@ -168,6 +214,7 @@ export async function audioUpload(request: HttpRequest): Promise<HttpResponseIni
         };
     } catch (error) {
         // Global error handler
+        await releaseCharge();
         const duration = Date.now() - startTime;
         const errorDetails = handleUploadError(error, { ...logContext, duration });
         logger.error('Unexpected error in audio upload', {
@@ -262,12 +309,12 @@ app.http('audioUpload', {
     methods: ['POST'],
     route: 'upload/audio',
     authLevel: 'anonymous', // In production, use 'function' or 'admin'
-    handler: audioUpload
+    handler: withRateLimit(audioUpload, 'upload')
 });
 
 app.http('healthCheck', {
     methods: ['GET'],
     route: 'health',
     authLevel: 'anonymous',
-    handler: healthCheck
+    handler: withRateLimit(healthCheck, 'health')
 });
@@ -1,18 +1,23 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { validateUploadRequest, processAudioFile, handleUploadError, ProcessingContext } from '../services/audioProcessingService';
+import { validateUploadRequest, handleUploadError } from '../services/audioProcessingService';
+import { uploadIntakeService, AdmittedUpload } from '../services/uploadIntakeService';
 import { createRequestLogger } from '../utils/logger';
+import { AuthenticatedUser, withAuth } from '../middleware/auth';
+import { errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
 
 /**
  * Azure Function for handling audio file uploads with comprehensive error handling
- * Endpoint: POST /api/audioUpload
+ * Endpoint: POST /api/audioUpload (Bearer token required)
+ * Query: deepAnalysis=true|false, reportingLevel=basic|detailed|comprehensive (premium features)
  * 
  * This function implements defensive programming patterns with:
  * - Request validation
- * - Audio processing
+ * - Asynchronous analysis (202 + jobId, see /api/jobs)
  * - Comprehensive error handling
  * - Structured logging
  */
-export async function audioUpload(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+export const audioUpload = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
     // Generate unique request ID for tracking
     const requestId = context.invocationId;
     const logger = createRequestLogger(requestId);
@@ -48,86 +53,52 @@ export async function audioUpload(request: HttpRequest, context: InvocationConte
         }
 
         const fileData = validationResult.data!;
-        const fileId = `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
         logger.info('File validation successful', {
-            fileId,
             fileSize: fileData.buffer.length,
             originalName: fileData.originalName,
             mimeType: fileData.mimeType
         });
 
-        // Step 2: Process audio file
-        logger.info('Starting audio processing', { fileId });
-        
-        const processingContext: ProcessingContext = {
-            audioId: fileId,
-            userId: 'mock-user-id', // TODO: Obter do contexto de autenticação
-            fileId,
-        };
-
-        const processingResult = await processAudioFile(fileData, processingContext);
-
-        if (!processingResult.success) {
-            logger.error('Audio processing failed', {
-                fileId,
-                error: processingResult.error
-            });
-
-            return {
-                status: 422,
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-Request-ID': requestId
-                },
-                body: JSON.stringify({
-                    success: false,
-                    error: processingResult.error,
-                    fileId,
-                    requestId
-                })
-            };
+        let admitted: AdmittedUpload;
+        try {
+            admitted = await uploadIntakeService.admit(user, fileData, request.query);
+        } catch (error) {
+            logger.warn('Upload rejected', { role: user.role });
+            return errorResponse(error, requestId);
         }
 
-        const processedAudio = processingResult.data!;
-
-        logger.info('Audio processing completed successfully', {
-            fileId,
-            duration: processedAudio.audioDuration,
-            sampleRate: processedAudio.sampleRate,
-            channels: processedAudio.channels
+        // Step 2: Queue the analysis; audio processing and the AI pipeline run in the job worker
+        const job = await uploadIntakeService.submit(fileData, admitted, {
+            requestId,
+            userId: user.userId
         });
 
-        // Step 3: Return success response with audio metadata
         const responseData = {
             success: true,
-            fileId,
+            jobId: job.id,
             requestId,
+            status: job.status,
+            statusUrl: `/api/jobs/${job.id}`,
+            resultUrl: `/api/jobs/${job.id}/result`,
             metadata: {
                 originalName: fileData.originalName,
                 mimeType: fileData.mimeType,
                 fileSize: fileData.buffer.length,
-                duration: processedAudio.audioDuration,
-                sampleRate: processedAudio.sampleRate,
-                channels: processedAudio.channels,
-                format: processedAudio.format,
                 uploadTimestamp: new Date().toISOString()
             },
             // Include any client metadata that was provided
             ...(fileData.metadata && { clientMetadata: fileData.metadata })
         };
 
-        logger.info('Upload completed successfully', {
-            fileId,
-            responseSize: JSON.stringify(responseData).length
-        });
+        logger.info('Upload accepted, analysis queued', { jobId: job.id });
 
         return {
-            status: 200,
+            status: 202,
             headers: {
                 'Content-Type': 'application/json',
                 'X-Request-ID': requestId,
-                'X-File-ID': fileId
+                'Location': `/api/jobs/${job.id}`
             },
             body: JSON.stringify(responseData)
         };
@@ -156,7 +127,7 @@ export async function audioUpload(request: HttpRequest, context: InvocationConte
             })
         };
     }
-}
+}, ['analysis:create']);
 
 /**
  * Health check endpoint for monitoring
@@ -223,12 +194,12 @@ app.http('audioUpload', {
     methods: ['POST'],
     authLevel: 'anonymous', // In production, use 'function' or 'admin'
     route: 'audioUpload',
-    handler: audioUpload
+    handler: withRateLimit(audioUpload, 'upload')
 });
 
 app.http('healthCheck', {
     methods: ['GET'],
     authLevel: 'anonymous',
     route: 'health',
-    handler: healthCheck
+    handler: withRateLimit(healthCheck, 'health')
 });
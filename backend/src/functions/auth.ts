@@ -0,0 +1,168 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { userService } from '../services/userService';
+import type { SessionContext } from '../services/jwtAuthService';
+import { AuthenticatedUser, bearerToken, withAuth } from '../middleware/auth';
+import { jsonResponse, errorResponse, readJson } from '../utils/httpResponse';
+import { clientIp, withRateLimit } from '../middleware/rateLimit';
+
+/**
+ * User accounts
+ * POST   /api/auth/register       JSON: email, password → 201 user + tokens
+ * POST   /api/auth/login          JSON: email, password → user + tokens
+ * POST   /api/auth/refresh        JSON: refreshToken    → tokens (each refresh token works once)
+ * POST   /api/auth/logout         Bearer → 204, ends this session
+ * POST   /api/auth/logout-all     Bearer → ends every session of the user
+ * GET    /api/auth/sessions       Bearer → active sessions (devices)
+ * DELETE /api/auth/sessions/{id}  Bearer → 204
+ * GET    /api/auth/me             Bearer
+ */
+export async function register(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const requestId = context.invocationId;
+
+    try {
+        const { user, tokens } = await userService.register(await readJson(request), sessionContext(request));
+        return jsonResponse(201, { success: true, user, tokens, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}
+
+export async function login(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const requestId = context.invocationId;
+
+    try {
+        const { user, tokens } = await userService.login(await readJson(request), sessionContext(request));
+        return jsonResponse(200, { success: true, user, tokens, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}
+
+export async function refresh(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const requestId = context.invocationId;
+
+    try {
+        const tokens = await userService.refresh(await readJson(request));
+        return jsonResponse(200, { success: true, tokens, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}
+
+export const logout = withAuth(async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        await userService.logout(bearerToken(request)!);
+        return { status: 204, headers: { 'X-Request-ID': requestId } };
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+export const logoutAll = withAuth(async (_request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const revokedSessions = await userService.logoutAll(user.userId);
+        return jsonResponse(200, { success: true, revokedSessions, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+export const listSessions = withAuth(async (_request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const sessions = await userService.listSessions(user.userId, user.sessionId);
+        return jsonResponse(200, { success: true, sessions, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+export const revokeSession = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        await userService.revokeSession(user.userId, request.params.id);
+        return { status: 204, headers: { 'X-Request-ID': requestId } };
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+export const me = withAuth(async (_request: HttpRequest, context: InvocationContext, auth: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const user = await userService.me(auth.userId);
+        return jsonResponse(200, { success: true, user, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+function sessionContext(request: HttpRequest): SessionContext {
+    return {
+        userAgent: request.headers.get('user-agent') || undefined,
+        ipAddress: clientIp(request)
+    };
+}
+
+app.http('register', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'auth/register',
+    handler: withRateLimit(register, 'auth')
+});
+
+app.http('login', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'auth/login',
+    handler: withRateLimit(login, 'auth')
+});
+
+app.http('refreshTokens', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'auth/refresh',
+    handler: withRateLimit(refresh, 'auth')
+});
+
+app.http('logout', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'auth/logout',
+    handler: withRateLimit(logout, 'default')
+});
+
+app.http('logoutAll', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'auth/logout-all',
+    handler: withRateLimit(logoutAll, 'default')
+});
+
+app.http('listSessions', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'auth/sessions',
+    handler: withRateLimit(listSessions, 'default')
+});
+
+app.http('revokeSession', {
+    methods: ['DELETE'],
+    authLevel: 'anonymous',
+    route: 'auth/sessions/{id}',
+    handler: withRateLimit(revokeSession, 'default')
+});
+
+app.http('me', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'auth/me',
+    handler: withRateLimit(me, 'default')
+});
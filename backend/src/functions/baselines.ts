@@ -0,0 +1,98 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { baselineService } from '../services/baselineService';
+import { AUDIO_MAX_SIZE, baselineUpdateSchema } from '../core/validation/schemas';
+import { ValidationError } from '../core/errors/CustomErrors';
+import { createRequestLogger } from '../utils/logger';
+import { jsonResponse, errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+import { AuthenticatedUser, jobOwner, withAuth } from '../middleware/auth';
+
+/**
+ * Per-speaker baseline calibration (Bearer token required); a participant's
+ * baseline belongs to the account that recorded its first sample
+ * POST   /api/baselines/{participantId}/samples  raw audio body (audio/wav, ...), ?language=pt-BR
+ * GET    /api/baselines/{participantId}
+ * PATCH  /api/baselines/{participantId}          JSON: language, typicalSentiment, personalityProfile, removeSamples
+ * DELETE /api/baselines/{participantId}
+ */
+export const addBaselineSample = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const logger = createRequestLogger(requestId);
+    const participantId = request.params.participantId;
+
+    try {
+        const contentType = request.headers.get('content-type') || '';
+        if (!contentType.startsWith('audio/') && contentType !== 'application/octet-stream') {
+            throw new ValidationError('Envie o áudio no corpo da requisição (Content-Type audio/*)');
+        }
+
+        const audio = Buffer.from(await request.arrayBuffer());
+        if (audio.length > AUDIO_MAX_SIZE) {
+            throw new ValidationError(`Arquivo muito grande. Máximo: ${AUDIO_MAX_SIZE / 1024 / 1024}MB`);
+        }
+
+        logger.info('Baseline sample received', { participantId, size: audio.length, userId: user.userId });
+        const baseline = await baselineService.addSample(participantId, audio, {
+            language: request.query.get('language') || undefined,
+            requestId,
+            ownerId: user.userId
+        });
+
+        return jsonResponse(201, { success: true, baseline, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const baselineResource = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const participantId = request.params.participantId;
+    const ownerId = jobOwner(user);
+
+    try {
+        switch (request.method) {
+            case 'GET': {
+                const baseline = await baselineService.getBaseline(participantId, ownerId);
+                if (!baseline) {
+                    return jsonResponse(404, { success: false, error: 'Baseline não encontrado', requestId }, requestId);
+                }
+                return jsonResponse(200, { success: true, baseline, requestId }, requestId);
+            }
+            case 'PATCH': {
+                const parsed = baselineUpdateSchema.safeParse(await request.json().catch(() => null));
+                if (!parsed.success) {
+                    throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '));
+                }
+                const baseline = await baselineService.updateBaseline(participantId, parsed.data, ownerId);
+                return jsonResponse(200, { success: true, baseline, requestId }, requestId);
+            }
+            case 'DELETE': {
+                const deleted = await baselineService.deleteBaseline(participantId, ownerId);
+                if (!deleted) {
+                    return jsonResponse(404, { success: false, error: 'Baseline não encontrado', requestId }, requestId);
+                }
+                return { status: 204, headers: { 'X-Request-ID': requestId } };
+            }
+            default:
+                return jsonResponse(405, { success: false, error: 'Method not allowed', requestId }, requestId, {
+                    'Allow': 'GET, PATCH, DELETE'
+                });
+        }
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+app.http('addBaselineSample', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'baselines/{participantId}/samples',
+    handler: withRateLimit(addBaselineSample, 'default')
+});
+
+app.http('baselineResource', {
+    methods: ['GET', 'PATCH', 'DELETE'],
+    authLevel: 'anonymous',
+    route: 'baselines/{participantId}',
+    handler: withRateLimit(baselineResource, 'default')
+});
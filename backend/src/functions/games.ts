@@ -0,0 +1,179 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { gameSessionService } from '../services/gameSessionService';
+import { quotaService } from '../services/quotaService';
+import { AUDIO_MAX_SIZE } from '../core/validation/schemas';
+import { ValidationError } from '../core/errors/CustomErrors';
+import { createRequestLogger } from '../utils/logger';
+import { jsonResponse, errorResponse, readJson } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+import { AuthenticatedUser, jobOwner, withAuth } from '../middleware/auth';
+import { authorizeAnalysisUpload } from '../middleware/analysisEntitlement';
+
+/**
+ * Multiplayer game sessions, hosted by the account that creates them (Bearer token required).
+ * Each scored answer is charged to the host's analysis quota
+ * POST /api/games                                              JSON: name, totalRounds, maxPlayers
+ * GET  /api/games/{gameId}
+ * POST /api/games/{gameId}/players                             JSON: name, participantId (calibrated by the host)
+ * POST /api/games/{gameId}/rounds                              JSON: prompt
+ * POST /api/games/{gameId}/rounds/{round}/answers/{playerId}   raw audio body (audio/wav, ...)
+ * POST /api/games/{gameId}/finish
+ * GET  /api/games/{gameId}/ranking
+ */
+export const createGame = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const game = await gameSessionService.createGame(await readJson(request), user.userId);
+        return jsonResponse(201, { success: true, game, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const getGame = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const game = await gameSessionService.getGame(request.params.gameId, jobOwner(user));
+        return jsonResponse(200, { success: true, game, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+export const joinGame = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const player = await gameSessionService.joinGame(request.params.gameId, await readJson(request), jobOwner(user));
+        return jsonResponse(201, { success: true, player, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const startRound = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const round = await gameSessionService.startRound(request.params.gameId, await readJson(request), jobOwner(user));
+        return jsonResponse(201, { success: true, round, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const submitAnswer = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const logger = createRequestLogger(requestId);
+    const { gameId, playerId } = request.params;
+
+    try {
+        const round = Number(request.params.round);
+        if (!Number.isInteger(round) || round < 1) {
+            throw new ValidationError('Número da rodada inválido');
+        }
+
+        const contentType = request.headers.get('content-type') || '';
+        if (!contentType.startsWith('audio/') && contentType !== 'application/octet-stream') {
+            throw new ValidationError('Envie o áudio no corpo da requisição (Content-Type audio/*)');
+        }
+
+        const audio = Buffer.from(await request.arrayBuffer());
+        if (audio.length > AUDIO_MAX_SIZE) {
+            throw new ValidationError(`Arquivo muito grande. Máximo: ${AUDIO_MAX_SIZE / 1024 / 1024}MB`);
+        }
+
+        // Same plan duration limit as any other analysis; the charge is given back if the answer is not scored
+        const { durationSeconds } = authorizeAnalysisUpload(new URLSearchParams(), user, audio);
+        const charge = await quotaService.charge(user, durationSeconds);
+
+        logger.info('Game answer received', { gameId, round, playerId, size: audio.length, userId: user.userId });
+        try {
+            const answer = await gameSessionService.submitAnswer(gameId, round, playerId, audio, requestId, jobOwner(user));
+            return jsonResponse(201, { success: true, answer, requestId }, requestId);
+        } catch (error) {
+            try {
+                await quotaService.refund(charge);
+            } catch (refundError) {
+                logger.error('Failed to refund analysis quota', refundError as Error, { userId: user.userId });
+            }
+            throw error;
+        }
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const finishGame = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const { game, ranking } = await gameSessionService.finishGame(request.params.gameId, jobOwner(user));
+        return jsonResponse(200, { success: true, game, ranking, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const getRanking = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const ranking = await gameSessionService.getRanking(request.params.gameId, jobOwner(user));
+        return jsonResponse(200, { success: true, ranking, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+// An empty body is the same as {}; anything else must be valid JSON
+app.http('createGame', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'games',
+    handler: withRateLimit(createGame, 'default')
+});
+
+app.http('getGame', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}',
+    handler: withRateLimit(getGame, 'default')
+});
+
+app.http('joinGame', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}/players',
+    handler: withRateLimit(joinGame, 'default')
+});
+
+app.http('startRound', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}/rounds',
+    handler: withRateLimit(startRound, 'default')
+});
+
+app.http('submitAnswer', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}/rounds/{round}/answers/{playerId}',
+    handler: withRateLimit(submitAnswer, 'default')
+});
+
+app.http('finishGame', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}/finish',
+    handler: withRateLimit(finishGame, 'default')
+});
+
+app.http('getRanking', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'games/{gameId}/ranking',
+    handler: withRateLimit(getRanking, 'default')
+});
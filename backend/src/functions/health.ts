@@ -1,6 +1,8 @@
 import { logger } from '../utils/logger';
 import { app, HttpRequest, HttpResponseInit } from '@azure/functions';
 import { v4 as uuidv4 } from 'uuid';
+import { withRateLimit } from '../middleware/rateLimit';
+import { resolveStorageBackendName } from '../services/storage';
 
 /**
  * Health Check Function - Production Ready
@@ -44,9 +46,10 @@ async function performHealthChecks(requestId: string): Promise<HealthCheckResult
     };
 
     try {
-        // Check Azure Blob Storage
+        // Check audio storage (only Azure Blob needs a connection string)
         const storageConnectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
-        results.storage = !!storageConnectionString && storageConnectionString.includes('AccountName');
+        results.storage = resolveStorageBackendName() !== 'azure'
+            || (!!storageConnectionString && /AccountName|UseDevelopmentStorage=true/.test(storageConnectionString));
 
         // Check Azure AI Services configuration
         const aiSubscriptionKey = process.env.AZURE_AI_SUBSCRIPTION_KEY;
@@ -179,5 +182,5 @@ export async function healthCheck(request: HttpRequest): Promise<HttpResponseIni
 app.http('health', {
     methods: ['GET'],
     authLevel: 'anonymous',
-    handler: healthCheck
+    handler: withRateLimit(healthCheck, 'health')
 });
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { analysisJobService } from '../services/analysisJobService';
+import { AuthenticatedUser, jobOwner, withAuth } from '../middleware/auth';
+import { jsonResponse, errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+
+/**
+ * Asynchronous analysis jobs (Bearer token required)
+ * GET  /api/jobs/{jobId}         status and per-stage progress
+ * GET  /api/jobs/{jobId}/result  ComprehensiveAnalysisResult (202 while queued/running)
+ * POST /api/jobs/{jobId}/retry   redrive a failed job from the dead-letter queue
+ * GET  /api/jobs/dead-letter     failed jobs
+ * Users only see their own jobs; retry and the dead-letter queue need jobs:manage
+ */
+export const getJobStatus = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const job = await analysisJobService.getJob(request.params.jobId, jobOwner(user));
+        return jsonResponse(200, { success: true, job, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+export const getJobResult = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const jobId = request.params.jobId;
+    const ownerId = jobOwner(user);
+
+    try {
+        const result = await analysisJobService.getResult(jobId, ownerId);
+        if (!result) {
+            const job = await analysisJobService.getJob(jobId, ownerId);
+            return jsonResponse(202, { success: true, status: job.status, progress: job.progress, requestId }, requestId, {
+                'Location': `/api/jobs/${jobId}`,
+                'Retry-After': '2'
+            });
+        }
+        return jsonResponse(200, { success: true, jobId, result, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:read']);
+
+export const retryJob = withAuth(async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const job = await analysisJobService.redrive(request.params.jobId);
+        return jsonResponse(202, { success: true, job, requestId }, requestId, {
+            'Location': `/api/jobs/${job.id}`
+        });
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['jobs:manage']);
+
+export const listDeadLetterJobs = withAuth(async (_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const jobs = await analysisJobService.listDeadLetters();
+        return jsonResponse(200, { success: true, jobs, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['jobs:manage']);
+
+app.http('listDeadLetterJobs', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'jobs/dead-letter',
+    handler: withRateLimit(listDeadLetterJobs, 'default')
+});
+
+app.http('getJobStatus', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'jobs/{jobId}',
+    handler: withRateLimit(getJobStatus, 'default')
+});
+
+app.http('getJobResult', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'jobs/{jobId}/result',
+    handler: withRateLimit(getJobResult, 'default')
+});
+
+app.http('retryJob', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'jobs/{jobId}/retry',
+    handler: withRateLimit(retryJob, 'default')
+});
@@ -0,0 +1,213 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { parseUploadMetadata, resumableUploadService, TUS_EXTENSIONS, TUS_VERSION } from '../services/resumableUploadService';
+import type { UploadSession } from '../services/uploads';
+import { AuthenticatedUser, withAuth } from '../middleware/auth';
+import { ErrorCode, ValidationError } from '../core/errors/CustomErrors';
+import { AUDIO_MAX_SIZE } from '../core/validation/schemas';
+import { jsonResponse, errorResponse, readBody, readJson, withHeaders } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+
+/**
+ * Resumable audio uploads (tus 1.0.0 with creation, expiration and termination; Bearer token required)
+ * OPTIONS /api/uploads       server capabilities
+ * POST    /api/uploads       create an upload: Upload-Length, Upload-Metadata (filename, filetype, language, ...)
+ * HEAD    /api/uploads/{id}  current Upload-Offset, to resume after a dropped connection
+ * PATCH   /api/uploads/{id}  append a chunk at Upload-Offset (application/offset+octet-stream)
+ * DELETE  /api/uploads/{id}  abandon the upload
+ * GET     /api/uploads/{id}  status; once complete, the analysis job id
+ * The chunk that completes the upload answers with Location /api/jobs/{jobId}
+ *
+ * Direct-to-blob uploads (Bearer token required)
+ * POST /api/uploads/intent         { filename, contentType, length, fields? } -> write-only SAS URL for one blob
+ * POST /api/uploads/{id}/complete  after the PUT to the SAS URL: checks, scan and analysis (202 + jobId)
+ */
+
+type Handler = (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit>;
+
+// Every tus response, errors included, carries the protocol version
+function withTus(handler: Handler): Handler {
+    return async (request, context) => withHeaders(await handler(request, context), { 'Tus-Resumable': TUS_VERSION });
+}
+
+function uploadHeaders(upload: UploadSession): Record<string, string> {
+    return {
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.length),
+        'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+        'Cache-Control': 'no-store'
+    };
+}
+
+function tusError(status: number, error: string, requestId: string, headers: Record<string, string> = {}): HttpResponseInit {
+    return jsonResponse(status, { success: false, error, code: ErrorCode.VALIDATION_ERROR, requestId }, requestId, headers);
+}
+
+// Tus-Resumable is required on every request but OPTIONS
+function unsupportedVersion(request: HttpRequest, requestId: string): HttpResponseInit | null {
+    if (request.headers.get('tus-resumable') === TUS_VERSION) return null;
+    return tusError(412, `Tus-Resumable ${TUS_VERSION} obrigatório`, requestId, { 'Tus-Version': TUS_VERSION });
+}
+
+function integerHeader(request: HttpRequest, name: string): number {
+    const value = request.headers.get(name);
+    if (!value || !/^\d+$/.test(value)) {
+        throw new ValidationError(`Cabeçalho ${name} obrigatório e numérico`, { operation: 'uploads' });
+    }
+    return Number(value);
+}
+
+export async function uploadOptions(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    return {
+        status: 204,
+        headers: {
+            'X-Request-ID': context.invocationId,
+            'Tus-Version': TUS_VERSION,
+            'Tus-Extension': TUS_EXTENSIONS.join(','),
+            'Tus-Max-Size': String(AUDIO_MAX_SIZE)
+        }
+    };
+}
+
+export const createUpload = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const invalid = unsupportedVersion(request, requestId);
+        if (invalid) return invalid;
+
+        const length = integerHeader(request, 'upload-length');
+        if (length > AUDIO_MAX_SIZE) {
+            return tusError(413, `Arquivo muito grande. Máximo: ${AUDIO_MAX_SIZE / 1024 / 1024}MB`, requestId);
+        }
+
+        const upload = await resumableUploadService.create(user, length, parseUploadMetadata(request.headers.get('upload-metadata')));
+        return jsonResponse(201, { success: true, uploadId: upload.id, requestId }, requestId, {
+            ...uploadHeaders(upload),
+            'Location': `/api/uploads/${upload.id}`
+        });
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const uploadResource = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+    const uploadId = request.params.id;
+
+    try {
+        if (request.method === 'GET') {
+            const upload = await resumableUploadService.get(uploadId, user.userId);
+            return jsonResponse(200, {
+                success: true,
+                upload: {
+                    id: upload.id,
+                    transfer: upload.transfer,
+                    status: upload.status,
+                    offset: upload.offset,
+                    length: upload.length,
+                    expiresAt: upload.expiresAt,
+                    jobId: upload.jobId,
+                    error: upload.error
+                },
+                requestId
+            }, requestId);
+        }
+
+        const invalid = unsupportedVersion(request, requestId);
+        if (invalid) return invalid;
+
+        if (request.method === 'HEAD') {
+            const upload = await resumableUploadService.get(uploadId, user.userId);
+            return { status: 200, headers: { 'X-Request-ID': requestId, ...uploadHeaders(upload) } };
+        }
+
+        if (request.method === 'DELETE') {
+            await resumableUploadService.terminate(uploadId, user.userId);
+            return { status: 204, headers: { 'X-Request-ID': requestId } };
+        }
+
+        const contentType = (request.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+        if (contentType !== 'application/offset+octet-stream') {
+            return tusError(415, 'Content-Type deve ser application/offset+octet-stream', requestId);
+        }
+        const offset = integerHeader(request, 'upload-offset');
+        const chunk = await readBody(request.body, resumableUploadService.options.maxChunkSize);
+
+        const upload = await resumableUploadService.append(uploadId, user, offset, chunk);
+        const headers: Record<string, string> = { 'X-Request-ID': requestId, ...uploadHeaders(upload) };
+        if (upload.jobId) headers['Location'] = `/api/jobs/${upload.jobId}`;
+        return { status: 204, headers };
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const createUploadIntent = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const intent = await resumableUploadService.createIntent(user, await readJson(request));
+        return jsonResponse(201, {
+            success: true,
+            uploadId: intent.upload.id,
+            uploadUrl: intent.uploadUrl,
+            method: 'PUT',
+            headers: intent.headers,
+            maxSize: intent.upload.length,
+            uploadExpiresAt: intent.uploadExpiresAt,
+            expiresAt: intent.upload.expiresAt,
+            completeUrl: `/api/uploads/${intent.upload.id}/complete`,
+            requestId
+        }, requestId, { 'Location': `/api/uploads/${intent.upload.id}` });
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+export const completeUploadIntent = withAuth(async (request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const upload = await resumableUploadService.completeIntent(request.params.id, user);
+        return jsonResponse(202, { success: true, uploadId: upload.id, jobId: upload.jobId, status: 'queued', requestId }, requestId, {
+            'Location': `/api/jobs/${upload.jobId}`
+        });
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+}, ['analysis:create']);
+
+app.http('uploadOptions', {
+    methods: ['OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'uploads',
+    handler: withTus(uploadOptions)
+});
+
+app.http('createUpload', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'uploads',
+    handler: withTus(withRateLimit(createUpload, 'upload'))
+});
+
+app.http('uploadResource', {
+    methods: ['HEAD', 'PATCH', 'DELETE', 'GET'],
+    authLevel: 'anonymous',
+    route: 'uploads/{id}',
+    handler: withTus(withRateLimit(uploadResource, 'default'))
+});
+
+app.http('createUploadIntent', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'uploads/intent',
+    handler: withRateLimit(createUploadIntent, 'upload')
+});
+
+app.http('completeUploadIntent', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'uploads/{id}/complete',
+    handler: withRateLimit(completeUploadIntent, 'upload')
+});
@@ -0,0 +1,28 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { quotaService } from '../services/quotaService';
+import { AuthenticatedUser, withAuth } from '../middleware/auth';
+import { jsonResponse, errorResponse } from '../utils/httpResponse';
+import { withRateLimit } from '../middleware/rateLimit';
+
+/**
+ * Analysis quota of the signed-in user
+ * GET /api/me/usage  analyses and audio seconds used today and this month,
+ * the plan limits (null when unlimited) and when each period resets
+ */
+export const getUsage = withAuth(async (_request: HttpRequest, context: InvocationContext, user: AuthenticatedUser): Promise<HttpResponseInit> => {
+    const requestId = context.invocationId;
+
+    try {
+        const usage = await quotaService.usage(user);
+        return jsonResponse(200, { success: true, usage, requestId }, requestId);
+    } catch (error) {
+        return errorResponse(error, requestId);
+    }
+});
+
+app.http('getUsage', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'me/usage',
+    handler: withRateLimit(getUsage, 'default')
+});
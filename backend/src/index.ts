@@ -6,6 +6,8 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
+import { rateLimit } from './middleware/rateLimit';
+import { BaseError } from './core/errors/CustomErrors';
 
 // Load environment variables
 dotenv.config();
@@ -20,7 +22,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // Health check endpoint
-app.get('/api/health', (req, res) => {
+app.get('/api/health', rateLimit('health'), (req, res) => {
   res.json({
     status: 'healthy',
     version: '1.0.0',
@@ -30,13 +32,22 @@ app.get('/api/health', (req, res) => {
 });
 
 // Basic route
-app.get('/api', (req, res) => {
+app.get('/api', rateLimit('default'), (req, res) => {
   res.json({
     message: 'Quem Mente Menos? API',
     version: '1.0.0'
   });
 });
 
+// Operational errors (e.g. RateLimitError → 429) keep their status
+app.use((error: unknown, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error instanceof BaseError && error.isOperational) {
+    res.status(error.statusCode).json({ error: error.message, code: error.code });
+    return;
+  }
+  next(error);
+});
+
 // Start server
 app.listen(PORT, () => {
   console.log(`[INFO] Server running on port ${PORT}`);
@@ -0,0 +1,55 @@
+/**
+ * Plan checks for uploaded analyses
+ * Options come from the query string (?deepAnalysis=true&reportingLevel=comprehensive),
+ * or the upload metadata for resumable uploads, and the duration from the audio itself; the options travel with the job so
+ * the worker enforces the same limits, and the duration is charged to the quota
+ */
+
+import { ValidationError } from '../core/errors/CustomErrors';
+import { analysisOptionsSchema } from '../core/validation/schemas';
+import { AnalysisEntitlement, resolveAnalysisEntitlement } from '../core/authorization/permissions';
+import { probeAudio } from '../services/audioDecoder';
+import type { AuthenticatedUser } from './auth';
+
+const OPTION_PARAMS = ['deepAnalysis', 'reportingLevel'] as const;
+
+export interface AuthorizedUpload {
+    options: AnalysisEntitlement;
+    durationSeconds: number; // 0 when the audio could not be probed
+}
+
+// request.query, or a Map of upload metadata
+export interface OptionParams {
+    get(name: string): string | null | undefined;
+}
+
+export function authorizeAnalysisUpload(
+    params: OptionParams,
+    user: AuthenticatedUser,
+    audio: Buffer
+): AuthorizedUpload {
+    const requested: Record<string, string> = {};
+    for (const name of OPTION_PARAMS) {
+        const value = params.get(name);
+        if (value) requested[name] = value;
+    }
+
+    const parsed = analysisOptionsSchema.safeParse(requested);
+    if (!parsed.success) {
+        throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), { operation: 'authorizeAnalysis' });
+    }
+    const durationSeconds = probeDuration(audio);
+    return {
+        options: resolveAnalysisEntitlement(user, parsed.data, durationSeconds),
+        durationSeconds: durationSeconds ?? 0
+    };
+}
+
+// Audio that cannot be probed here is rejected by the worker's validation instead
+function probeDuration(audio: Buffer): number | undefined {
+    try {
+        return probeAudio(audio).duration;
+    } catch {
+        return undefined;
+    }
+}
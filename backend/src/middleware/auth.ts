@@ -0,0 +1,78 @@
+/**
+ * Bearer token authentication for HTTP functions and the live socket
+ * The identity comes only from a valid access token; any userId the client
+ * sends in a body or form field is ignored
+ */
+
+import { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { AuthenticationError } from '../core/errors/CustomErrors';
+import { assertPermissions, hasPermission, Permission } from '../core/authorization/permissions';
+import { getJwtAuthService, TokenPayload } from '../services/jwtAuthService';
+import { errorResponse } from '../utils/httpResponse';
+
+export interface AuthenticatedUser {
+    userId: string;
+    email: string;
+    role: TokenPayload['role'];
+    tokenId: string;
+    sessionId: string;
+    expiresAt: Date;
+}
+
+export type AuthenticatedHandler = (
+    request: HttpRequest,
+    context: InvocationContext,
+    user: AuthenticatedUser
+) => Promise<HttpResponseInit>;
+
+/**
+ * Validate a raw access token
+ */
+export async function authenticateToken(token: string | null | undefined): Promise<AuthenticatedUser> {
+    if (!token) {
+        throw new AuthenticationError('Autenticação necessária', undefined, { operation: 'authenticate' });
+    }
+
+    const payload = await getJwtAuthService().validateAccessToken(token);
+    return {
+        userId: payload.sub,
+        email: payload.email,
+        role: payload.role,
+        tokenId: payload.jti,
+        sessionId: payload.fid,
+        expiresAt: new Date(payload.exp * 1000)
+    };
+}
+
+export function bearerToken(request: Pick<HttpRequest, 'headers'>): string | null {
+    return getJwtAuthService().extractTokenFromHeader(request.headers.get('authorization'));
+}
+
+export async function authenticate(request: Pick<HttpRequest, 'headers'>): Promise<AuthenticatedUser> {
+    return authenticateToken(bearerToken(request));
+}
+
+/**
+ * Wrap a handler so it only runs with a valid access token (401 otherwise) whose
+ * role grants every permission the route declares (403 otherwise)
+ */
+export function withAuth(handler: AuthenticatedHandler, permissions: readonly Permission[] = []) {
+    return async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        let user: AuthenticatedUser;
+        try {
+            user = await authenticate(request);
+            assertPermissions(user, permissions, context.functionName || 'authorize');
+        } catch (error) {
+            return errorResponse(error, context.invocationId);
+        }
+        return handler(request, context, user);
+    };
+}
+
+/**
+ * Owner filter for services that hide other users' data: the caller's id, or
+ * undefined (no filter) with analysis:read:any
+ */
+export function jobOwner(user: AuthenticatedUser): string | undefined {
+    return hasPermission(user.role, 'analysis:read:any') ? undefined : user.userId;
+}
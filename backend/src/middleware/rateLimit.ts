@@ -0,0 +1,148 @@
+/**
+ * Rate limiting for HTTP routes
+ * Each route names an action from ACTION_LIMITS; requests are counted per
+ * authenticated user and, without a valid access token, per client IP.
+ * Responses carry RateLimit-Limit/-Remaining/-Reset, and a 429 also Retry-After
+ *
+ * Azure Functions: app.http(..., { handler: withRateLimit(handler, 'auth') })
+ * Express:         app.post('/api/auth/login', rateLimit('auth'), ...)
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { RateLimitError } from '../core/errors/CustomErrors';
+import { getRateLimitService, RateLimitAction, RateLimitResult } from '../services/rateLimitService';
+import { authenticateToken } from './auth';
+import { getJwtAuthService } from '../services/jwtAuthService';
+import { errorResponse, withHeaders } from '../utils/httpResponse';
+
+export type HttpHandler = (request: HttpRequest, context: InvocationContext) => Promise<HttpResponseInit>;
+
+export interface RateLimitOptions<TRequest> {
+    // Units the request consumes; defaults to the action's weight
+    weight?: number | ((request: TRequest) => number);
+}
+
+/**
+ * Count one request and return its headers; throws RateLimitError (429) once the
+ * budget is spent, with the headers in its metadata
+ */
+export async function consumeRateLimit(
+    action: RateLimitAction,
+    authorization: string | null | undefined,
+    ipAddress: string | undefined,
+    weight?: number
+): Promise<Record<string, string>> {
+    const identifier = await rateLimitIdentifier(authorization, ipAddress);
+    const result = await getRateLimitService().checkRateLimit({ identifier, action, weight });
+    const headers = rateLimitHeaders(result);
+
+    if (!result.allowed) {
+        throw new RateLimitError('Muitas requisições. Tente novamente mais tarde.', result.retryAfter ?? 1, {
+            operation: action,
+            metadata: { identifier, headers }
+        });
+    }
+    return headers;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    const reset = Math.max(0, Math.ceil((result.resetTime.getTime() - Date.now()) / 1000));
+    return {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(reset),
+        ...(!result.allowed && { 'Retry-After': String(result.retryAfter ?? reset) })
+    };
+}
+
+/**
+ * Client address as seen by the proxies we trust. Each one appends the address it
+ * received from to X-Forwarded-For, so only the last TRUSTED_PROXY_HOPS entries
+ * (default 1, the Functions front end) are real; anything left of them came from
+ * the client and could be spoofed to get a fresh budget
+ */
+export function clientIp(request: Pick<HttpRequest, 'headers'>): string | undefined {
+    const hops = (request.headers.get('x-forwarded-for') || '')
+        .split(',')
+        .map(hop => hop.trim())
+        .filter(Boolean);
+    if (hops.length === 0) return undefined;
+
+    const trusted = Math.max(1, parseInt(process.env.TRUSTED_PROXY_HOPS || '1') || 1);
+    return withoutPort(hops[Math.max(0, hops.length - trusted)]);
+}
+
+// App Service appends the client port ("203.0.113.7:51234", "[2001:db8::1]:51234"),
+// which changes with every connection
+function withoutPort(address: string): string {
+    const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+    if (bracketed) return bracketed[1];
+    return /^[\d.]+:\d+$/.test(address) ? address.slice(0, address.lastIndexOf(':')) : address;
+}
+
+/**
+ * Azure Functions wrapper
+ */
+export function withRateLimit(
+    handler: HttpHandler,
+    action: RateLimitAction,
+    options: RateLimitOptions<HttpRequest> = {}
+): HttpHandler {
+    return async (request, context) => {
+        let headers: Record<string, string>;
+        try {
+            headers = await consumeRateLimit(
+                action,
+                request.headers.get('authorization'),
+                clientIp(request),
+                resolveWeight(options.weight, request)
+            );
+        } catch (error) {
+            return withHeaders(errorResponse(error, context.invocationId), limitHeadersOf(error));
+        }
+        return withHeaders(await handler(request, context), headers);
+    };
+}
+
+/**
+ * Express middleware; a 429 goes to the error handler as RateLimitError
+ */
+export function rateLimit(action: RateLimitAction, options: RateLimitOptions<Request> = {}) {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        consumeRateLimit(action, req.get('authorization'), req.ip, resolveWeight(options.weight, req))
+            .then(headers => {
+                res.set(headers);
+                next();
+            })
+            .catch(error => {
+                res.set(limitHeadersOf(error));
+                next(error);
+            });
+    };
+}
+
+// Counting a forged or expired token against its claimed user would let anyone
+// exhaust another user's budget, so only a valid token selects the user key
+async function rateLimitIdentifier(authorization: string | null | undefined, ipAddress: string | undefined): Promise<string> {
+    if (authorization) {
+        try {
+            const user = await authenticateToken(getJwtAuthService().extractTokenFromHeader(authorization));
+            return `user:${user.userId}`;
+        } catch {
+            // Fall through to the IP; the route itself answers 401 if it needs a user
+        }
+    }
+    return `ip:${ipAddress || 'unknown'}`;
+}
+
+function resolveWeight<TRequest>(weight: RateLimitOptions<TRequest>['weight'], request: TRequest): number | undefined {
+    return typeof weight === 'function' ? weight(request) : weight;
+}
+
+function limitHeadersOf(error: unknown): Record<string, string> {
+    if (error instanceof RateLimitError) {
+        return (error.context.metadata?.headers as Record<string, string> | undefined) || {};
+    }
+    return {};
+}
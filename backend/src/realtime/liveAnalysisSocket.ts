@@ -0,0 +1,237 @@
+/**
+ * WebSocket endpoint for live analysis
+ * Azure Functions HTTP triggers cannot hold a WebSocket, so this attaches to the
+ * Node HTTP server that hosts the API (dev-server / container)
+ *
+ * ws://host/api/live?sampleRate=16000&language=pt-BR&participantId=...
+ * ws://host/api/live?streamId=...&resumeToken=...  (reconnect)
+ * The access token goes in the Authorization header or, for browsers that cannot
+ * set it, in ?access_token=; without a valid one the upgrade is refused with 401
+ *
+ * Client → server: binary frames of 16-bit LE mono PCM; {"type":"end"} to finish
+ * Server → client (JSON): ready, transcript, indicators, backpressure, final, error
+ * The final analysis is charged to the user's quota; over quota the stream ends with a QUOTA_EXCEEDED error
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { createRequestLogger } from '../utils/logger';
+import { BaseError } from '../core/errors/CustomErrors';
+import { AuthenticatedUser, authenticateToken } from '../middleware/auth';
+import { assertPermissions, maxAudioDurationFor } from '../core/authorization/permissions';
+import {
+    LiveAnalysisService,
+    LiveAnalysisSession,
+    LiveAnalysisUpdate,
+    liveAnalysisService
+} from '../services/liveAnalysisService';
+
+export interface LiveAnalysisSocketOptions {
+    path?: string;
+    service?: LiveAnalysisService;
+    maxChunkBytes?: number; // Largest binary frame accepted
+    maxBufferedBytes?: number; // Outgoing backlog past which rolling updates are skipped
+    heartbeatMs?: number;
+    authenticate?: (request: IncomingMessage) => Promise<AuthenticatedUser>;
+}
+
+// Close codes: 1000 done, 1008 bad request, 1011 server error, 4000 replaced by a newer connection
+const CLOSE_NORMAL = 1000;
+const CLOSE_POLICY = 1008;
+const CLOSE_ERROR = 1011;
+const CLOSE_SUPERSEDED = 4000;
+
+export function attachLiveAnalysisSocket(server: Server, options: LiveAnalysisSocketOptions = {}): WebSocketServer {
+    const service = options.service || liveAnalysisService;
+    const maxBufferedBytes = options.maxBufferedBytes ?? 256 * 1024;
+    const heartbeatMs = options.heartbeatMs ?? 30000;
+    const connections = new Map<string, WebSocket>();
+    const alive = new WeakSet<WebSocket>();
+    const authenticate = options.authenticate || authenticateUpgrade;
+    const users = new WeakMap<IncomingMessage, AuthenticatedUser>();
+
+    const wss = new WebSocketServer({
+        server,
+        path: options.path || '/api/live',
+        maxPayload: options.maxChunkBytes ?? 1024 * 1024,
+        verifyClient: (info, callback) => {
+            authenticate(info.req)
+                .then(user => {
+                    users.set(info.req, user);
+                    callback(true);
+                })
+                .catch(() => callback(false, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' }));
+        }
+    });
+
+    // Dead connections (no pong) are dropped so their streams enter the resume grace period
+    const heartbeat = setInterval(() => {
+        for (const ws of wss.clients) {
+            if (!alive.has(ws)) {
+                ws.terminate();
+                continue;
+            }
+            alive.delete(ws);
+            ws.ping();
+        }
+    }, heartbeatMs);
+    heartbeat.unref();
+    wss.on('close', () => clearInterval(heartbeat));
+
+    wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
+        const requestId = uuidv4();
+        const logger = createRequestLogger(requestId);
+        const query = new URL(request.url || '', 'http://localhost').searchParams;
+        const user = users.get(request)!;
+        alive.add(ws);
+        ws.on('pong', () => alive.add(ws));
+
+        const send = (message: object, droppable = false): void => {
+            if (ws.readyState !== WebSocket.OPEN) return;
+            // Rolling updates are superseded by the next one, so a slow reader just misses some
+            if (droppable && ws.bufferedAmount > maxBufferedBytes) return;
+            ws.send(JSON.stringify(message));
+        };
+
+        const fail = (error: unknown, code = CLOSE_POLICY): void => {
+            const known = error instanceof BaseError;
+            send({
+                type: 'error',
+                code: known ? error.code : undefined,
+                message: known ? error.message : 'Internal server error',
+                requestId
+            });
+            if (!known) logger.error('Live analysis stream failed', error as Error);
+            ws.close(known ? code : CLOSE_ERROR);
+        };
+
+        let session: LiveAnalysisSession;
+        let resumeToken: string;
+        try {
+            const streamId = query.get('streamId');
+            if (streamId) {
+                session = service.resume(streamId, query.get('resumeToken') || '', user.userId);
+                resumeToken = query.get('resumeToken')!;
+                connections.get(streamId)?.close(CLOSE_SUPERSEDED, 'Superseded by a newer connection');
+            } else {
+                assertPermissions(user, ['analysis:create'], 'liveAnalysis');
+                const sampleRate = query.get('sampleRate');
+                ({ session, resumeToken } = service.open({
+                    sampleRate: sampleRate ? Number(sampleRate) : undefined,
+                    language: query.get('language') || undefined,
+                    participantId: query.get('participantId') || undefined,
+                    userId: user.userId,
+                    role: user.role,
+                    maxDurationSeconds: maxAudioDurationFor(user.role),
+                    requestId
+                }));
+            }
+        } catch (error) {
+            fail(error);
+            return;
+        }
+
+        const streamId = session.id;
+        connections.set(streamId, ws);
+
+        const finish = async (): Promise<void> => {
+            try {
+                const result = await session.finalize();
+                send({ type: 'final', result });
+                ws.close(CLOSE_NORMAL, 'Analysis complete');
+            } catch (error) {
+                fail(error, CLOSE_ERROR);
+            }
+        };
+
+        send({
+            type: 'ready',
+            streamId,
+            resumeToken,
+            state: session.state,
+            sampleRate: session.sampleRate,
+            receivedBytes: session.receivedBytes,
+            maxDurationSeconds: session.maxDurationSeconds
+        });
+
+        // Reconnected after the stream ended: deliver the result (once it is ready) and close
+        if (session.state !== 'streaming') {
+            void finish();
+            return;
+        }
+
+        session.setListener((update: LiveAnalysisUpdate) => {
+            if (update.type === 'transcript') {
+                send(update);
+            } else {
+                send({ type: 'indicators', receivedBytes: session.receivedBytes, ...update.indicators }, true);
+            }
+        });
+
+        ws.on('message', (data: RawData, isBinary: boolean) => {
+            if (session.state !== 'streaming') return;
+
+            if (!isBinary) {
+                let message: { type?: string };
+                try {
+                    message = JSON.parse(data.toString());
+                } catch {
+                    message = {};
+                }
+                if (message.type === 'end') {
+                    void finish();
+                } else {
+                    send({ type: 'error', message: 'Mensagem desconhecida: use frames binários de PCM ou {"type":"end"}', requestId });
+                }
+                return;
+            }
+
+            try {
+                const chunk = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+                const appended = session.append(chunk);
+
+                if (appended.limitReached) {
+                    send({ type: 'limit', maxDurationSeconds: session.maxDurationSeconds, receivedBytes: appended.receivedBytes });
+                    void finish();
+                } else if (appended.backpressure && !ws.isPaused) {
+                    // Stop reading the socket so TCP pushes back on the client until transcription catches up
+                    ws.pause();
+                    send({ type: 'backpressure', paused: true, receivedBytes: appended.receivedBytes });
+                    void session.whenDrained().then(() => {
+                        if (ws.readyState !== WebSocket.OPEN) return;
+                        ws.resume();
+                        send({ type: 'backpressure', paused: false, receivedBytes: session.receivedBytes });
+                    });
+                }
+            } catch (error) {
+                fail(error);
+            }
+        });
+
+        ws.on('close', (code: number) => {
+            if (connections.get(streamId) === ws) {
+                connections.delete(streamId);
+                service.detach(streamId);
+            }
+            logger.info('Live analysis connection closed', {
+                streamId,
+                code,
+                state: session.state,
+                receivedSeconds: session.receivedSeconds
+            });
+        });
+
+        ws.on('error', error => logger.warn('Live analysis socket error', { streamId, error: error.message }));
+    });
+
+    return wss;
+}
+
+function authenticateUpgrade(request: IncomingMessage): Promise<AuthenticatedUser> {
+    const header = request.headers.authorization;
+    const token = header?.startsWith('Bearer ')
+        ? header.substring(7)
+        : new URL(request.url || '', 'http://localhost').searchParams.get('access_token');
+    return authenticateToken(token);
+}
@@ -4,6 +4,7 @@
  */
 
 import { logger } from '../utils/logger';
+import { getSpeechToTextProvider } from './speech';
 
 // Service result interfaces
 export interface ServiceResult<T> {
@@ -214,10 +215,10 @@ export class AzureAIService {
     }
 
     /**
-     * Speech recognition using Azure Speech Services
+     * Speech recognition through the configured speech-to-text provider
      */
     private async recognizeSpeech(
-        _audioBuffer: Buffer,
+        audioBuffer: Buffer,
         context: AIProcessingContext
     ): Promise<ServiceResult<SpeechRecognitionResult>> {
         logger.info('Starting speech recognition', {
@@ -226,48 +227,32 @@ export class AzureAIService {
         });
 
         try {
-            // For now, return mock data - in production, integrate with Azure Speech Services
-            // const speechConfig = SpeechConfig.fromSubscription(this.subscriptionKey, this.region);
-            // const audioConfig = AudioConfig.fromWavFileInput(audioBuffer);
-            
-            // Mock implementation for development
-            const mockResult: SpeechRecognitionResult = {
-                recognizedText: "Esta é uma transcrição de teste do áudio fornecido. O sistema está funcionando corretamente.",
-                confidence: 0.95,
+            const recognition = await getSpeechToTextProvider().transcribe(audioBuffer, {
                 language: context.language || 'pt-BR',
-                duration: 5.2,
-                segments: [
-                    {
-                        text: "Esta é uma transcrição de teste",
-                        startTime: 0.0,
-                        endTime: 2.1,
-                        confidence: 0.96
-                    },
-                    {
-                        text: "do áudio fornecido",
-                        startTime: 2.1,
-                        endTime: 3.5,
-                        confidence: 0.94
-                    },
-                    {
-                        text: "O sistema está funcionando corretamente",
-                        startTime: 3.5,
-                        endTime: 5.2,
-                        confidence: 0.95
-                    }
-                ]
+                requestId: context.requestId
+            });
+            if (!recognition.success) {
+                throw new Error(recognition.error);
+            }
+
+            const result: SpeechRecognitionResult = {
+                recognizedText: recognition.recognizedText || '',
+                confidence: recognition.confidence ?? 0,
+                language: recognition.language || context.language || 'pt-BR',
+                duration: recognition.duration ?? 0,
+                segments: recognition.segments
             };
 
             logger.info('Speech recognition completed', {
                 audioId: context.audioId,
-                textLength: mockResult.recognizedText.length,
-                confidence: mockResult.confidence,
-                duration: mockResult.duration
+                textLength: result.recognizedText.length,
+                confidence: result.confidence,
+                duration: result.duration
             });
 
             return {
                 success: true,
-                data: mockResult
+                data: result
             };
 
         } catch (error) {
@@ -0,0 +1,177 @@
+/**
+ * Live analysis events for Server-Sent Events clients
+ * Each analysis keeps an ordered log so a reconnecting client can resume after
+ * its Last-Event-ID. Logs live in this process: a worker on another instance
+ * (JOB_QUEUE=redis) only shows up through the job status
+ */
+
+import type { AnalysisStep, AnalysisStepResults } from '../types/analysisProgress';
+import type { JobStage, JobStatus } from './jobs';
+
+export interface AnalysisEventPayloads {
+    status: {
+        status: JobStatus;
+        attempt: number;
+        maxAttempts: number;
+        progress: number;
+        nextAttemptAt?: string;
+        error?: string;
+    };
+    step: { step: JobStage; status: 'started' | 'completed' | 'skipped' | 'failed' };
+    transcript: AnalysisStepResults['speechRecognition'];
+    sentiment: AnalysisStepResults['textAnalytics'];
+    lie_detection: AnalysisStepResults['lieDetection'];
+    cross_analysis: AnalysisStepResults['crossAnalysis'];
+    overall_score: AnalysisStepResults['overallScore'];
+    executive_summary: AnalysisStepResults['executiveSummary'];
+    detailed_findings: AnalysisStepResults['detailedFindings'];
+    recommendations: AnalysisStepResults['recommendations'];
+    quality_metrics: AnalysisStepResults['qualityMetrics'];
+    completed: { resultUrl: string; reusedFrom?: string }; // reusedFrom: job whose result was reused
+    failed: { error: string; attempts: number; deadLettered: boolean };
+}
+
+export type AnalysisEventType = keyof AnalysisEventPayloads;
+
+export type AnalysisStreamEvent = {
+    [K in AnalysisEventType]: {
+        id: number; // 1-based, per analysis
+        analysisId: string;
+        type: K;
+        data: AnalysisEventPayloads[K];
+        timestamp: string;
+    }
+}[AnalysisEventType];
+
+export type AnalysisEventListener = (event: AnalysisStreamEvent) => void;
+
+// Event carrying each step's partial result
+export const STEP_RESULT_EVENTS: { [S in AnalysisStep]: AnalysisEventType } = {
+    speechRecognition: 'transcript',
+    textAnalytics: 'sentiment',
+    lieDetection: 'lie_detection',
+    crossAnalysis: 'cross_analysis',
+    overallScore: 'overall_score',
+    executiveSummary: 'executive_summary',
+    detailedFindings: 'detailed_findings',
+    recommendations: 'recommendations',
+    qualityMetrics: 'quality_metrics'
+};
+
+export interface AnalysisEventServiceOptions {
+    maxEvents?: number; // Oldest events are dropped past this, per analysis
+    retentionMs?: number; // How long a finished analysis stays resumable
+}
+
+interface EventLog {
+    events: AnalysisStreamEvent[];
+    nextId: number;
+    listeners: Set<AnalysisEventListener>;
+    expiry: NodeJS.Timeout | null;
+}
+
+export function isTerminalEvent(event: AnalysisStreamEvent): boolean {
+    return event.type === 'completed' || event.type === 'failed';
+}
+
+export function formatSseEvent(event: AnalysisStreamEvent): string {
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+export function parseLastEventId(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const id = Number(value);
+    return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+export class AnalysisEventService {
+    private logs = new Map<string, EventLog>();
+    private readonly maxEvents: number;
+    private readonly retentionMs: number;
+
+    constructor(options: AnalysisEventServiceOptions = {}) {
+        this.maxEvents = options.maxEvents ?? 500;
+        this.retentionMs = options.retentionMs ?? 10 * 60 * 1000;
+    }
+
+    publish<K extends AnalysisEventType>(analysisId: string, type: K, data: AnalysisEventPayloads[K]): AnalysisStreamEvent {
+        return this.append(analysisId, type, data);
+    }
+
+    // Partial result of a finished analysis step, under the step's event type
+    publishStepResult<S extends AnalysisStep>(analysisId: string, step: S, data: AnalysisStepResults[S]): AnalysisStreamEvent {
+        return this.append(analysisId, STEP_RESULT_EVENTS[step], data);
+    }
+
+    /**
+     * Replay the events after lastEventId, then deliver new ones as they are published.
+     * Returns the unsubscribe function
+     */
+    subscribe(analysisId: string, lastEventId: number | null, listener: AnalysisEventListener): () => void {
+        const log = this.getOrCreateLog(analysisId);
+        let active = true;
+        const unsubscribe = () => {
+            active = false;
+            log.listeners.delete(listener);
+            if (log.events.length === 0 && log.listeners.size === 0 && this.logs.get(analysisId) === log) {
+                this.logs.delete(analysisId);
+            }
+        };
+
+        for (const event of this.getEvents(analysisId, lastEventId)) {
+            if (!active) return unsubscribe;
+            listener(event);
+        }
+        if (active) log.listeners.add(listener);
+        return unsubscribe;
+    }
+
+    getEvents(analysisId: string, lastEventId: number | null = null): AnalysisStreamEvent[] {
+        const events = this.logs.get(analysisId)?.events || [];
+        return lastEventId === null ? [...events] : events.filter(event => event.id > lastEventId);
+    }
+
+    hasEvents(analysisId: string): boolean {
+        return (this.logs.get(analysisId)?.events.length ?? 0) > 0;
+    }
+
+    private append(analysisId: string, type: AnalysisEventType, data: unknown): AnalysisStreamEvent {
+        const log = this.getOrCreateLog(analysisId);
+        const event = {
+            id: log.nextId++,
+            analysisId,
+            type,
+            data,
+            timestamp: new Date().toISOString()
+        } as AnalysisStreamEvent;
+
+        log.events.push(event);
+        if (log.events.length > this.maxEvents) log.events.shift();
+
+        // A redriven job publishes again, so only the latest terminal event schedules expiry
+        if (log.expiry) {
+            clearTimeout(log.expiry);
+            log.expiry = null;
+        }
+        if (isTerminalEvent(event)) {
+            log.expiry = setTimeout(() => this.logs.delete(analysisId), this.retentionMs);
+            log.expiry.unref();
+        }
+
+        for (const listener of [...log.listeners]) {
+            listener(event);
+        }
+        return event;
+    }
+
+    private getOrCreateLog(analysisId: string): EventLog {
+        let log = this.logs.get(analysisId);
+        if (!log) {
+            log = { events: [], nextId: 1, listeners: new Set(), expiry: null };
+            this.logs.set(analysisId, log);
+        }
+        return log;
+    }
+}
+
+export const analysisEventService = new AnalysisEventService();
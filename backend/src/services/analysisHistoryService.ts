@@ -0,0 +1,167 @@
+/**
+ * Persistent analysis history
+ * A finished job for a known user becomes an analysisResultSchema record, stored
+ * under the job id so /api/jobs/{id}, /api/analyses/{id} and its events line up
+ */
+
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { AnalysisListQueryInput, AnalysisResult, analysisListQuerySchema } from '../core/validation/schemas';
+import { probeAudio } from './audioDecoder';
+import type { ComprehensiveAnalysisResult } from './comprehensiveAnalysisService';
+import type { LieDetectionResult } from './lieDetectionService';
+import type { SentimentAnalysisResult } from './textAnalyticsService';
+import type { AnalysisJob } from './jobs';
+import { audioContentService, AudioContentService } from './audioContentService';
+import {
+    getAnalysisRepository,
+    AnalysisPage,
+    AnalysisQuery,
+    AnalysisRepository,
+    RiskLevel,
+    VerdictClassification,
+    riskLevelOf
+} from './history';
+
+const AI_MODEL = 'quem-mente-menos/comprehensive';
+
+const VERDICTS: Record<RiskLevel, VerdictClassification> = {
+    low: 'truth',
+    medium: 'uncertain',
+    high: 'lie'
+};
+
+const NEUTRAL_SENTIMENT: AnalysisResult['analysis']['sentiment'] = {
+    overall: 'neutral',
+    scores: { positive: 0, negative: 0, neutral: 1 }
+};
+
+export class AnalysisHistoryService {
+    constructor(
+        private repositoryOverride: AnalysisRepository | null = null,
+        private contents: AudioContentService = audioContentService
+    ) {}
+
+    // Resolved lazily so importing the service does not connect to Cosmos DB
+    private get repository(): AnalysisRepository {
+        return this.repositoryOverride || getAnalysisRepository();
+    }
+
+    /**
+     * Store the result of a finished job. Jobs without a user are not kept
+     */
+    async record(job: AnalysisJob, result: ComprehensiveAnalysisResult, audio: Buffer): Promise<AnalysisResult | null> {
+        if (!job.metadata.userId) return null;
+
+        const record = await this.repository.save(buildAnalysisRecord(job, result, audio));
+        logger.info('Analysis stored in history', {
+            analysisId: record.id,
+            userId: record.userId,
+            lieScore: record.analysis.lieScore,
+            repository: this.repository.name
+        });
+        return record;
+    }
+
+    async list(input: AnalysisListQueryInput): Promise<AnalysisPage> {
+        const parsed = analysisListQuerySchema.safeParse(input);
+        if (!parsed.success) {
+            throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), { operation: 'listAnalyses' });
+        }
+        // limit always has its default here; zod's inferred type does not say so without strictNullChecks
+        return this.repository.query(parsed.data as AnalysisQuery);
+    }
+
+    /**
+     * With ownerId, another user's analysis is reported as missing rather than forbidden
+     */
+    async get(id: string, ownerId?: string): Promise<AnalysisResult> {
+        const record = await this.repository.get(id);
+        if (!record || (ownerId && record.userId !== ownerId)) {
+            throw new NotFoundError(`Análise não encontrada: ${id}`, { operation: 'getAnalysis' });
+        }
+        return record;
+    }
+
+    /**
+     * Stored audio is shared by content, so the entry only gives back its reference
+     */
+    async delete(id: string, ownerId?: string): Promise<void> {
+        const record = ownerId ? await this.get(id, ownerId) : await this.repository.get(id);
+        if (!await this.repository.delete(id)) {
+            throw new NotFoundError(`Análise não encontrada: ${id}`, { operation: 'deleteAnalysis' });
+        }
+        if (record?.audio.contentHash && !record.audio.url.startsWith('urn:')) {
+            await this.contents.release(record.audio.contentHash);
+        }
+        logger.info('Analysis deleted from history', { analysisId: id });
+    }
+}
+
+/**
+ * Map a comprehensive result to the persisted record shape
+ */
+export function buildAnalysisRecord(job: AnalysisJob, result: ComprehensiveAnalysisResult, audio: Buffer): AnalysisResult {
+    const info = probeAudio(audio);
+    const lieDetection = result.comprehensiveAnalysis?.lieDetection as LieDetectionResult | undefined;
+    const scored = lieDetection?.success ? lieDetection : null;
+    const sentiment = (result.comprehensiveAnalysis?.textAnalytics as { sentiment?: SentimentAnalysisResult } | undefined)?.sentiment;
+
+    const lieScore = round(clamp(scored ? scored.overallLieScore * 100 : (1 - result.overallScore.truthfulnessScore) * 100));
+    const linguistic = scored?.analysis.linguisticFactors;
+
+    return {
+        id: job.id,
+        userId: job.metadata.userId!,
+        timestamp: new Date(job.finishedAt || Date.now()),
+        audio: {
+            // Audio kept only for the job has no blob; the URN still names it uniquely
+            url: job.metadata.blobUrl || `urn:uuid:${job.id}`,
+            contentHash: job.metadata.contentHash,
+            duration: info.duration,
+            format: job.metadata.mimeType || `audio/${info.container}`,
+            sampleRate: info.sampleRate,
+            bitRate: info.bitrate,
+            size: audio.length
+        },
+        transcription: result.transcription!,
+        analysis: {
+            lieScore,
+            confidence: round(clamp(result.overallScore.confidenceLevel * 100)),
+            linguistic: {
+                complexity: linguistic?.complexityMetrics.score ?? 0,
+                hesitations: linguistic?.hesitationMarkers.count ?? 0,
+                fillerWords: linguistic?.fillerWords.variety ?? [],
+                contradictions: (scored?.indicators || [])
+                    .filter(indicator => indicator.indicator === 'inconsistent_details')
+                    .flatMap(indicator => indicator.evidence.map(span => span.text))
+            },
+            sentiment: sentiment ? { overall: sentiment.overall, scores: sentiment.scores } : NEUTRAL_SENTIMENT,
+            verdict: {
+                classification: VERDICTS[scored ? scored.riskLevel : riskLevelOf(lieScore)],
+                explanation: result.executiveSummary.overallAssessment,
+                keyIndicators: result.overallScore.primaryIndicators,
+                suggestions: result.recommendations.map(recommendation => recommendation.action)
+            }
+        },
+        metadata: {
+            processingTime: Math.max(1, result.processingTime),
+            aiModel: AI_MODEL,
+            modelVersion: currentModelVersion()
+        }
+    };
+}
+
+export function currentModelVersion(): string {
+    return process.env.APP_VERSION || '1.0.0';
+}
+
+function clamp(value: number): number {
+    return Math.min(100, Math.max(0, value));
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export const analysisHistoryService = new AnalysisHistoryService();
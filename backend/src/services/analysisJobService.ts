@@ -0,0 +1,516 @@
+/**
+ * Asynchronous analysis jobs
+ * Uploads enqueue the audio and return right away; a worker runs validation and
+ * the comprehensive pipeline, records per-stage progress (also published as
+ * live events), retries transient failures with exponential backoff and
+ * dead-letters jobs that keep failing, refunding the owner's quota and
+ * releasing the stored audio. Audio already analysed with the same options
+ * succeeds at once with that result
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { BaseError, BusinessLogicError, ErrorCode, NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { processAudioFile } from './audioProcessingService';
+import type { ComprehensiveAnalysisResult } from './comprehensiveAnalysisService';
+import type { AnalysisProgressEvent } from '../types/analysisProgress';
+import { analysisEventService, AnalysisEventService } from './analysisEventService';
+import { analysisHistoryService, AnalysisHistoryService, currentModelVersion } from './analysisHistoryService';
+import { audioContentService, AnalysisReuseKey, AudioContentService } from './audioContentService';
+import type { CachedAnalysis } from './content';
+import { quotaService, QuotaCharge, QuotaService } from './quotaService';
+import { contentBlobName } from './storage';
+import {
+    getJobQueue,
+    AnalysisJob,
+    AnalysisJobMetadata,
+    JobQueue,
+    JobStage,
+    JOB_STAGES,
+    StageProgress,
+    StageStatus
+} from './jobs';
+
+export type JobProgressEvent =
+    | { step: 'validation'; status: 'started' | 'completed' }
+    | AnalysisProgressEvent;
+
+export type JobProgressListener = (event: JobProgressEvent) => void;
+
+export type JobProcessor = (
+    audio: Buffer,
+    job: AnalysisJob,
+    onProgress: JobProgressListener
+) => Promise<ComprehensiveAnalysisResult>;
+
+export interface AnalysisJobServiceOptions {
+    maxAttempts?: number;
+    retryDelayMs?: number; // Backoff before the second attempt, doubled after each failure
+    maxRetryDelayMs?: number;
+    pollIntervalMs?: number;
+    autoStart?: boolean; // Start the worker on the first submit
+}
+
+const DEFAULT_OPTIONS: Required<AnalysisJobServiceOptions> = {
+    maxAttempts: 3,
+    retryDelayMs: 2000,
+    maxRetryDelayMs: 60000,
+    pollIntervalMs: 1000,
+    autoStart: true
+};
+
+export class AnalysisJobService {
+    private readonly options: Required<AnalysisJobServiceOptions>;
+    private running = false;
+    private busy = false;
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private queueOverride: JobQueue | null = null,
+        private processor: JobProcessor = defaultJobProcessor,
+        options: AnalysisJobServiceOptions = {},
+        private events: AnalysisEventService = analysisEventService,
+        private history: AnalysisHistoryService = analysisHistoryService,
+        private quota: QuotaService = quotaService,
+        private contents: AudioContentService = audioContentService
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    // Resolved lazily so importing the service does not connect to Redis
+    private get queue(): JobQueue {
+        return this.queueOverride || getJobQueue();
+    }
+
+    async submit(audio: Buffer, metadata: Partial<AnalysisJobMetadata> = {}): Promise<AnalysisJob> {
+        if (!audio || audio.length === 0) {
+            throw new ValidationError('Áudio vazio', { operation: 'submitJob' });
+        }
+
+        const now = new Date().toISOString();
+        const job: AnalysisJob = {
+            id: randomUUID(),
+            status: 'queued',
+            stages: createStages(),
+            progress: 0,
+            attempts: 0,
+            maxAttempts: this.options.maxAttempts,
+            deadLettered: false,
+            metadata: { ...metadata, size: audio.length },
+            createdAt: now,
+            updatedAt: now
+        };
+
+        const cached = isReusable(job) ? await this.contents.findAnalysis(reuseKeyOf(job)) : null;
+        if (cached) return this.reuse(job, audio, cached);
+
+        await this.queue.enqueue(job, audio);
+        this.publishStatus(job);
+
+        logger.info('Analysis job queued', { jobId: job.id, requestId: metadata.requestId, size: audio.length });
+        if (this.options.autoStart) this.start();
+        this.kick();
+        return job;
+    }
+
+    /**
+     * With ownerId, another user's job is reported as missing rather than forbidden
+     */
+    async getJob(jobId: string, ownerId?: string): Promise<AnalysisJob> {
+        const job = await this.queue.getJob(jobId);
+        if (!job || (ownerId && job.metadata.userId !== ownerId)) {
+            throw new NotFoundError(`Job não encontrado: ${jobId}`, { operation: 'getJob' });
+        }
+        return job;
+    }
+
+    /**
+     * Result of a succeeded job; null while it is still queued or running
+     */
+    async getResult(jobId: string, ownerId?: string): Promise<ComprehensiveAnalysisResult | null> {
+        const job = await this.getJob(jobId, ownerId);
+        if (job.status === 'failed') {
+            throw new BusinessLogicError(`Análise falhou: ${job.lastError || 'erro desconhecido'}`, ErrorCode.AUDIO_PROCESSING_FAILED, {
+                operation: 'getResult',
+                metadata: { jobId, attempts: job.attempts }
+            });
+        }
+        if (job.status !== 'succeeded') return null;
+
+        const result = await this.queue.getResult(jobId);
+        if (!result) {
+            throw new NotFoundError(`Resultado expirado para o job ${jobId}`, { operation: 'getResult' });
+        }
+        return result;
+    }
+
+    async listDeadLetters(): Promise<AnalysisJob[]> {
+        const ids = await this.queue.listDeadLetters();
+        const jobs = await Promise.all(ids.map(id => this.queue.getJob(id)));
+        return jobs.filter((job): job is AnalysisJob => job !== null);
+    }
+
+    /**
+     * Take a failed job out of the dead-letter queue and run it again with fresh attempts
+     */
+    async redrive(jobId: string): Promise<AnalysisJob> {
+        const job = await this.getJob(jobId);
+        if (job.status !== 'failed') {
+            throw new BusinessLogicError(`Só jobs que falharam podem ser reenviados (status: ${job.status})`, ErrorCode.VALUE_OUT_OF_RANGE, {
+                operation: 'redrive',
+                metadata: { jobId }
+            });
+        }
+        if (!(await this.queue.getPayload(jobId))) {
+            throw new NotFoundError(`Áudio do job ${jobId} não está mais disponível`, { operation: 'redrive' });
+        }
+
+        const requeued: AnalysisJob = {
+            ...job,
+            status: 'queued',
+            stages: createStages(),
+            progress: 0,
+            attempts: 0,
+            deadLettered: false,
+            lastError: undefined,
+            nextAttemptAt: undefined,
+            startedAt: undefined,
+            finishedAt: undefined,
+            updatedAt: new Date().toISOString()
+        };
+        await this.queue.removeDeadLetter(jobId);
+        await this.queue.saveJob(requeued);
+        await this.queue.requeue(jobId, 0);
+        this.publishStatus(requeued);
+
+        logger.info('Analysis job redriven', { jobId });
+        if (this.options.autoStart) this.start();
+        this.kick();
+        return requeued;
+    }
+
+    /**
+     * Run the next due job, if any. Returns false when the queue had nothing ready
+     */
+    async processNext(): Promise<boolean> {
+        const jobId = await this.queue.reserve();
+        if (!jobId) return false;
+
+        const [job, audio] = await Promise.all([this.queue.getJob(jobId), this.queue.getPayload(jobId)]);
+        if (!job || !audio) {
+            logger.warn('Reserved job has expired, skipping', { jobId });
+            return true;
+        }
+
+        await this.run(job, audio);
+        return true;
+    }
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        logger.info('Analysis job worker started', { queue: this.queue.name });
+        this.kick();
+    }
+
+    stop(): void {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async run(job: AnalysisJob, audio: Buffer): Promise<void> {
+        const requestId = job.metadata.requestId || job.id;
+        job.status = 'running';
+        job.attempts += 1;
+        job.stages = createStages();
+        job.progress = 0;
+        job.nextAttemptAt = undefined;
+        job.startedAt = new Date().toISOString();
+        await this.save(job);
+        this.publishStatus(job);
+
+        // Progress callbacks are synchronous; writes are chained so they land in order
+        let progressWrite: Promise<void> = Promise.resolve();
+        let currentStage: JobStage | null = null;
+        const onProgress: JobProgressListener = event => {
+            const now = new Date().toISOString();
+            const progress: StageProgress = job.stages[event.step];
+            if (event.status === 'started') {
+                progress.status = 'running';
+                progress.startedAt = now;
+                currentStage = event.step;
+            } else {
+                progress.status = event.status;
+                progress.finishedAt = now;
+            }
+            job.progress = calculateProgress(job.stages);
+            const snapshot = { ...job, stages: structuredClone(job.stages) };
+            progressWrite = progressWrite.then(() => this.save(snapshot)).catch(() => undefined);
+
+            this.events.publish(job.id, 'step', { step: event.step, status: event.status });
+            if (event.status === 'completed' && event.step !== 'validation') {
+                this.events.publishStepResult(job.id, event.step, event.data);
+            }
+        };
+
+        try {
+            const result = await this.processor(audio, job, onProgress);
+            await progressWrite;
+
+            await this.queue.saveResult(job.id, result);
+            await this.queue.deletePayload(job.id);
+            job.status = 'succeeded';
+            job.progress = 100;
+            job.lastError = undefined;
+            job.finishedAt = new Date().toISOString();
+            await this.save(job);
+            await this.recordHistory(job, result, audio);
+            await this.rememberResult(job, result);
+            this.publishStatus(job);
+            this.events.publish(job.id, 'completed', { resultUrl: `/api/jobs/${job.id}/result` });
+
+            logger.info('Analysis job succeeded', { jobId: job.id, requestId, attempts: job.attempts });
+        } catch (error) {
+            await progressWrite;
+            if (currentStage && job.stages[currentStage].status === 'running') {
+                job.stages[currentStage].status = 'failed';
+                job.stages[currentStage].finishedAt = new Date().toISOString();
+                this.events.publish(job.id, 'step', { step: currentStage, status: 'failed' });
+            }
+            await this.handleFailure(job, error);
+        }
+    }
+
+    /**
+     * Finish a new job with an earlier result for the same audio; nothing is queued or charged
+     */
+    private async reuse(job: AnalysisJob, audio: Buffer, cached: CachedAnalysis): Promise<AnalysisJob> {
+        const now = new Date().toISOString();
+        const charge = job.metadata.quota;
+        job.status = 'succeeded';
+        job.stages = createStages('skipped');
+        job.progress = 100;
+        job.startedAt = now;
+        job.finishedAt = now;
+        job.metadata.quota = undefined;
+        job.metadata.reusedFrom = cached.jobId;
+
+        const result: ComprehensiveAnalysisResult = { ...cached.result, requestId: job.metadata.requestId || job.id };
+        await this.queue.saveResult(job.id, result);
+        await this.save(job);
+        await this.recordHistory(job, result, audio);
+        if (charge) await this.refundQuota(job, charge);
+        this.publishStatus(job);
+        this.events.publish(job.id, 'completed', { resultUrl: `/api/jobs/${job.id}/result`, reusedFrom: cached.jobId });
+
+        logger.info('Analysis reused for identical audio', {
+            jobId: job.id,
+            requestId: job.metadata.requestId,
+            reusedFrom: cached.jobId,
+            contentHash: job.metadata.contentHash
+        });
+        return job;
+    }
+
+    // Reuse is an optimisation, so failing to remember a result does not fail the job
+    private async rememberResult(job: AnalysisJob, result: ComprehensiveAnalysisResult): Promise<void> {
+        if (!isReusable(job)) return;
+        try {
+            await this.contents.rememberAnalysis(reuseKeyOf(job), job.id, result);
+        } catch (error) {
+            logger.warn('Failed to remember analysis for reuse', { jobId: job.id, error: (error as Error).message });
+        }
+    }
+
+    // The result is already saved with the job, so a history failure does not fail the job.
+    // The history entry takes over the stored audio's reference; without one it is given back
+    private async recordHistory(job: AnalysisJob, result: ComprehensiveAnalysisResult, audio: Buffer): Promise<void> {
+        try {
+            if (await this.history.record(job, result, audio)) return;
+        } catch (error) {
+            logger.error('Failed to store analysis in history', error as Error, {
+                jobId: job.id,
+                userId: job.metadata.userId
+            });
+        }
+        if (await this.releaseContent(job)) await this.save(job);
+    }
+
+    // Give back the stored upload's reference; the job forgets the blob so a redrive cannot release it twice
+    private async releaseContent(job: AnalysisJob): Promise<boolean> {
+        const { contentHash, blobName } = job.metadata;
+        if (!contentHash || blobName !== contentBlobName(contentHash)) return false;
+
+        job.metadata.blobName = undefined;
+        job.metadata.blobUrl = undefined;
+        await this.contents.release(contentHash);
+        return true;
+    }
+
+    private async handleFailure(job: AnalysisJob, error: unknown): Promise<void> {
+        const message = error instanceof Error ? error.message : String(error);
+        const permanent = isPermanentFailure(error);
+        job.lastError = message;
+
+        if (!permanent && job.attempts < job.maxAttempts) {
+            const delay = Math.min(
+                this.options.retryDelayMs * Math.pow(2, job.attempts - 1),
+                this.options.maxRetryDelayMs
+            );
+            job.status = 'queued';
+            job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+            await this.save(job);
+            await this.queue.requeue(job.id, delay);
+            this.publishStatus(job);
+
+            logger.warn('Analysis job failed, retrying', {
+                jobId: job.id,
+                attempt: job.attempts,
+                maxAttempts: job.maxAttempts,
+                delay,
+                error: message
+            });
+            return;
+        }
+
+        job.status = 'failed';
+        job.deadLettered = true;
+        job.finishedAt = new Date().toISOString();
+        const charge = job.metadata.quota;
+        job.metadata.quota = undefined; // A redriven job that fails again is not refunded twice
+        await this.releaseContent(job);
+        await this.save(job);
+        await this.queue.deadLetter(job.id);
+        if (charge) await this.refundQuota(job, charge);
+        this.publishStatus(job);
+        this.events.publish(job.id, 'failed', {
+            error: message,
+            attempts: job.attempts,
+            deadLettered: job.deadLettered
+        });
+
+        logger.error('Analysis job moved to dead-letter queue', error instanceof Error ? error : new Error(message), {
+            jobId: job.id,
+            attempts: job.attempts,
+            permanent
+        });
+    }
+
+    // Our failure (or a reused result), not a new analysis: it does not count against the plan
+    private async refundQuota(job: AnalysisJob, charge: QuotaCharge): Promise<void> {
+        try {
+            await this.quota.refund(charge);
+        } catch (error) {
+            logger.error('Failed to refund analysis quota', error as Error, { jobId: job.id, userId: charge.userId });
+        }
+    }
+
+    private publishStatus(job: AnalysisJob): void {
+        this.events.publish(job.id, 'status', {
+            status: job.status,
+            attempt: job.attempts,
+            maxAttempts: job.maxAttempts,
+            progress: job.progress,
+            nextAttemptAt: job.nextAttemptAt,
+            error: job.lastError
+        });
+    }
+
+    private async save(job: AnalysisJob): Promise<void> {
+        job.updatedAt = new Date().toISOString();
+        await this.queue.saveJob(job);
+    }
+
+    // Drain whatever is ready, then poll again after pollIntervalMs
+    private kick(): void {
+        if (!this.running || this.busy) return;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        this.busy = true;
+        void (async () => {
+            try {
+                while (this.running && await this.processNext()) {
+                    // keep draining
+                }
+            } catch (error) {
+                logger.error('Analysis job worker poll failed', error instanceof Error ? error : new Error(String(error)));
+            } finally {
+                this.busy = false;
+                if (this.running) {
+                    this.timer = setTimeout(() => this.kick(), this.options.pollIntervalMs);
+                    this.timer.unref();
+                }
+            }
+        })();
+    }
+}
+
+function createStages(status: StageStatus = 'pending'): Record<JobStage, StageProgress> {
+    return Object.fromEntries(JOB_STAGES.map(stage => [stage, { status }])) as Record<JobStage, StageProgress>;
+}
+
+// A participant's baseline makes the result personal to its owner, so it is analysed afresh
+function isReusable(job: AnalysisJob): boolean {
+    return Boolean(job.metadata.contentHash) && !job.metadata.participantId;
+}
+
+function reuseKeyOf(job: AnalysisJob): AnalysisReuseKey {
+    return {
+        contentHash: job.metadata.contentHash!,
+        analysisOptions: job.metadata.analysisOptions,
+        modelVersion: currentModelVersion()
+    };
+}
+
+function calculateProgress(stages: Record<JobStage, StageProgress>): number {
+    const done = JOB_STAGES.filter(stage => stages[stage].status === 'completed' || stages[stage].status === 'skipped');
+    return Math.round(done.length / JOB_STAGES.length * 100);
+}
+
+// Client errors (bad audio, invalid input) fail the same way on every attempt
+function isPermanentFailure(error: unknown): boolean {
+    return error instanceof BaseError && error.statusCode < 500;
+}
+
+// The pipeline pulls in Text Analytics (Azure credentials), so it is only loaded when a job runs
+const defaultJobProcessor: JobProcessor = async (audio, job, onProgress) => {
+    onProgress({ step: 'validation', status: 'started' });
+    const options = job.metadata.analysisOptions;
+    const validation = await processAudioFile({ buffer: audio }, {
+        audioId: job.id,
+        userId: job.metadata.userId || 'anonymous',
+        maxDurationSeconds: options?.maxDurationSeconds
+    });
+    if (!validation.success) {
+        throw new ValidationError(validation.error || 'Áudio inválido', { operation: 'validateJobAudio' });
+    }
+    onProgress({ step: 'validation', status: 'completed' });
+
+    const { comprehensiveAnalysisService } = await import('./comprehensiveAnalysisService');
+    const result = await comprehensiveAnalysisService.analyzeComprehensively({
+        audioData: audio,
+        requestId: job.metadata.requestId || job.id,
+        analysisOptions: options && {
+            enableDeepAnalysis: options.enableDeepAnalysis,
+            reportingLevel: options.reportingLevel
+        },
+        metadata: {
+            sessionId: job.metadata.sessionId,
+            participantId: job.metadata.participantId,
+            ownerId: job.metadata.userId
+        },
+        onProgress
+    });
+    if (!result.success) {
+        throw new Error(result.error || 'Comprehensive analysis failed');
+    }
+    return result;
+};
+
+export const analysisJobService = new AnalysisJobService();
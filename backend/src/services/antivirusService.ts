@@ -51,14 +51,20 @@ export class AntivirusService {
     '255044462d312e', // PDF with suspicious patterns
   ]);
 
-  // Known safe audio file signatures
+  // Known safe audio file signatures ('?' matches any hex digit)
   private readonly AUDIO_SIGNATURES = new Map([
     ['audio/mpeg', ['494433', 'fff3', 'fff2', 'fffb']], // MP3
     ['audio/wav', ['52494646']], // WAV
-    ['audio/mp4', ['00000020667479704d34412000']], // M4A
+    ['audio/mp4', ['????????66747970']], // M4A: any box size, then 'ftyp'
     ['audio/ogg', ['4f676753']], // OGG
   ]);
 
+  // Names the upload schema accepts for the same formats
+  private readonly MIME_ALIASES: Record<string, string> = {
+    'audio/mp3': 'audio/mpeg',
+    'audio/m4a': 'audio/mp4',
+  };
+
   constructor(config: VirusScanConfig = {
     maxFileSize: 50 * 1024 * 1024, // 50MB
     allowedMimeTypes: ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/ogg'],
@@ -74,6 +80,7 @@ export class AntivirusService {
    */
   async scanFile(fileData: FileData): Promise<ScanResult> {
     const startTime = Date.now();
+    fileData = { ...fileData, mimeType: this.MIME_ALIASES[fileData.mimeType] ?? fileData.mimeType };
     
     try {
       this.logger.info('Starting file scan', {
@@ -218,7 +225,7 @@ export class AntivirusService {
 
     // Check for valid audio signatures
     const hasValidSignature = expectedSignatures.some(sig => 
-      header.startsWith(sig.toLowerCase())
+      [...sig.toLowerCase()].every((digit, i) => digit === '?' || header[i] === digit)
     );
 
     if (!hasValidSignature) {
@@ -323,7 +330,7 @@ export class AntivirusService {
     const content = fileData.buffer.toString('binary');
 
     // Check for embedded executables
-    if (content.includes('MZ') || content.includes('\x4d\x5a')) {
+    if (this.containsPeExecutable(fileData.buffer)) {
       threats.push('Embedded executable detected');
     }
 
@@ -356,6 +363,21 @@ export class AntivirusService {
     };
   }
 
+  /**
+   * 'MZ' alone shows up by chance in any large audio file; a real PE image also
+   * points (e_lfanew at 0x3C) to a 'PE\0\0' header
+   */
+  private containsPeExecutable(buffer: Buffer): boolean {
+    for (let index = buffer.indexOf('MZ'); index >= 0; index = buffer.indexOf('MZ', index + 1)) {
+      if (index + 0x40 > buffer.length) break;
+      const peOffset = index + buffer.readUInt32LE(index + 0x3c);
+      if (peOffset + 4 <= buffer.length && buffer.readUInt32BE(peOffset) === 0x50450000) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Performs external antivirus scanning
    */
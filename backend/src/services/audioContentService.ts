@@ -0,0 +1,149 @@
+/**
+ * Content-addressed audio
+ * Uploads are stored once per SHA-256 under contentBlobName(hash) and counted:
+ * each stored upload holds one reference until its history entry is deleted,
+ * or until its job fails for good or ends without a history entry, and the
+ * blob goes away with the last one.
+ * Finished analyses are remembered per audio, options and model version, so
+ * submitting the same recording again returns the earlier result. Analyses
+ * scored against a participant's baseline are never reused: they carry that
+ * account's profile and change with every recalibration
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger';
+import type { AnalysisEntitlement } from '../core/authorization/permissions';
+import type { ComprehensiveAnalysisResult } from './comprehensiveAnalysisService';
+import { AntivirusService } from './antivirusService';
+import { CachedAnalysis, ContentStore, getContentStore } from './content';
+import { contentBlobName, FileMetadata, getStorageBackend, StorageBackend, StorageResult, UploadResult } from './storage';
+
+export interface AudioContentServiceOptions {
+    reuseTtlSeconds?: number; // How long a finished analysis is reused
+}
+
+export interface StoredContent extends UploadResult {
+    contentHash: string;
+    deduplicated: boolean; // The same bytes were already stored
+}
+
+export interface AnalysisReuseKey {
+    contentHash: string;
+    analysisOptions?: AnalysisEntitlement;
+    modelVersion: string;
+}
+
+export class AudioContentService {
+    private readonly reuseTtlSeconds: number;
+
+    constructor(
+        private storeOverride: ContentStore | null = null,
+        private storageOverride: StorageBackend | null = null,
+        options: AudioContentServiceOptions = {}
+    ) {
+        this.reuseTtlSeconds = options.reuseTtlSeconds ?? parseInt(process.env.ANALYSIS_REUSE_TTL_SECONDS || '604800');
+    }
+
+    // Resolved lazily so importing the service does not connect to Redis or storage
+    private get store(): ContentStore {
+        return this.storeOverride || getContentStore();
+    }
+
+    private get storage(): StorageBackend {
+        return this.storageOverride || getStorageBackend();
+    }
+
+    static hash(buffer: Buffer): string {
+        return AntivirusService.generateFileHash(buffer);
+    }
+
+    /**
+     * Store the audio under its hash, or reuse the blob already there, and take a reference to it
+     */
+    async storeAudio(
+        buffer: Buffer,
+        metadata: FileMetadata,
+        contentType?: string,
+        contentHash: string = AudioContentService.hash(buffer)
+    ): Promise<StorageResult<StoredContent>> {
+        const blobName = contentBlobName(contentHash);
+        const references = await this.store.acquire(contentHash);
+
+        const existing = await this.findBlob(blobName, buffer.length);
+        if (existing) {
+            logger.info('Audio content deduplicated', { contentHash, references });
+            return { success: true, data: { ...existing, contentHash, deduplicated: true } };
+        }
+
+        const upload = await this.storage.uploadAudioFile(buffer, metadata.originalName, { ...metadata, contentHash }, contentType, blobName);
+        if (upload.success && upload.data) {
+            return { success: true, data: { ...upload.data, contentHash, deduplicated: false } };
+        }
+
+        // Another upload of the same bytes may have stored it in the meantime
+        const raced = await this.findBlob(blobName, buffer.length);
+        if (raced) {
+            return { success: true, data: { ...raced, contentHash, deduplicated: true } };
+        }
+        await this.release(contentHash);
+        return { success: false, error: upload.error };
+    }
+
+    /**
+     * Drop one reference; the blob is deleted with the last one
+     */
+    async release(contentHash: string): Promise<void> {
+        try {
+            const references = await this.store.release(contentHash);
+            if (references > 0) return;
+
+            const deleted = await this.storage.deleteAudioFile(contentBlobName(contentHash));
+            if (!deleted.success) {
+                logger.error('Failed to delete unreferenced audio content', new Error(deleted.error), { contentHash });
+            }
+        } catch (error) {
+            logger.error('Failed to release audio content', error as Error, { contentHash });
+        }
+    }
+
+    async references(contentHash: string): Promise<number> {
+        return this.store.references(contentHash);
+    }
+
+    /**
+     * Earlier analysis of the same audio with the same options; lookup failures count as a miss
+     */
+    async findAnalysis(key: AnalysisReuseKey): Promise<CachedAnalysis | null> {
+        if (this.reuseTtlSeconds <= 0) return null;
+        try {
+            return await this.store.getAnalysis(analysisKeyOf(key));
+        } catch (error) {
+            logger.warn('Analysis reuse lookup failed', { contentHash: key.contentHash, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    async rememberAnalysis(key: AnalysisReuseKey, jobId: string, result: ComprehensiveAnalysisResult): Promise<void> {
+        if (this.reuseTtlSeconds <= 0) return;
+        await this.store.saveAnalysis(analysisKeyOf(key), { jobId, result, analysedAt: new Date().toISOString() }, this.reuseTtlSeconds);
+    }
+
+    private async findBlob(blobName: string, length: number): Promise<UploadResult | null> {
+        const info = await this.storage.getBlobInfo(blobName);
+        // A blob of another size is a leftover partial write, not this audio
+        if (!info.success || !info.data || info.data.contentLength !== length) return null;
+        return { blobUrl: info.data.blobUrl, blobName, uploadSize: length };
+    }
+}
+
+// Only the options that change the result are part of the key, in a fixed order
+function analysisKeyOf(key: AnalysisReuseKey): string {
+    const options = key.analysisOptions;
+    const parts = [
+        key.modelVersion,
+        options ? `${options.enableDeepAnalysis}:${options.reportingLevel}` : '-'
+    ];
+    return `${key.contentHash}:${createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 16)}`;
+}
+
+export const audioContentService = new AudioContentService();
@@ -0,0 +1,767 @@
+/**
+ * Audio container parsing and PCM decoding
+ * Reads real stream properties from WAV, MP3, M4A and Ogg headers and
+ * measures signal quality (clipping, silence, SNR) on decoded PCM
+ */
+
+import { ValidationError } from '../core/errors/CustomErrors';
+
+export type AudioContainer = 'wav' | 'mp3' | 'm4a' | 'ogg';
+
+export interface AudioStreamInfo {
+    container: AudioContainer;
+    codec: string;
+    duration: number; // seconds
+    sampleRate: number;
+    channels: number;
+    bitrate: number; // bits per second
+    bitsPerSample?: number;
+}
+
+export interface DecodedPcm {
+    sampleRate: number;
+    channels: number;
+    channelData: Float32Array[]; // one array per channel, normalized to [-1, 1]
+}
+
+export interface AudioQualityMetrics {
+    clippingRatio: number; // fraction of samples at full scale
+    silenceRatio: number; // fraction of 20 ms frames below the silence floor
+    snrDb: number; // estimated signal-to-noise ratio
+    peakDb: number; // dBFS
+    rmsDb: number; // dBFS
+}
+
+// Internal layout of a WAV file, needed to decode its samples
+interface WavLayout {
+    info: AudioStreamInfo;
+    formatTag: number;
+    blockAlign: number;
+    dataOffset: number;
+    dataLength: number;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_ALAW = 0x0006;
+const WAVE_FORMAT_MULAW = 0x0007;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const CLIPPING_THRESHOLD = 0.999;
+const SILENCE_FLOOR_DB = -50;
+const QUALITY_FRAME_SECONDS = 0.02;
+
+/**
+ * Detect the container from its magic bytes
+ */
+export function detectContainer(buffer: Buffer): AudioContainer | null {
+    if (buffer.length < 12) return null;
+
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE') {
+        return 'wav';
+    }
+    if (buffer.toString('ascii', 0, 4) === 'OggS') {
+        return 'ogg';
+    }
+    if (buffer.toString('ascii', 4, 8) === 'ftyp') {
+        return 'm4a';
+    }
+    if (buffer.toString('ascii', 0, 3) === 'ID3' || parseMp3FrameHeader(buffer, 0) !== null) {
+        return 'mp3';
+    }
+    return null;
+}
+
+/**
+ * Parse container headers and return the real stream properties
+ */
+export function probeAudio(buffer: Buffer): AudioStreamInfo {
+    if (!buffer || buffer.length === 0) {
+        throw new ValidationError('Audio buffer is empty', { service: 'AudioDecoder', operation: 'probeAudio' });
+    }
+
+    const container = detectContainer(buffer);
+    switch (container) {
+        case 'wav': return parseWav(buffer).info;
+        case 'mp3': return parseMp3(buffer);
+        case 'm4a': return parseMp4(buffer);
+        case 'ogg': return parseOgg(buffer);
+        default:
+            throw new ValidationError('Unrecognized audio container', { service: 'AudioDecoder', operation: 'probeAudio' });
+    }
+}
+
+/**
+ * Decode samples to normalized float PCM.
+ * Only uncompressed WAV is decoded in-process; compressed codecs return null.
+ */
+export function decodePcm(buffer: Buffer): DecodedPcm | null {
+    if (detectContainer(buffer) !== 'wav') {
+        return null;
+    }
+
+    const layout = parseWav(buffer);
+    const { channels, sampleRate, bitsPerSample } = layout.info;
+    const bytesPerSample = layout.blockAlign / channels;
+    const frameCount = Math.floor(layout.dataLength / layout.blockAlign);
+    const channelData = Array.from({ length: channels }, () => new Float32Array(frameCount));
+    const readSample = createSampleReader(buffer, layout.formatTag, bitsPerSample || bytesPerSample * 8);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        const frameOffset = layout.dataOffset + frame * layout.blockAlign;
+        for (let channel = 0; channel < channels; channel++) {
+            channelData[channel][frame] = readSample(frameOffset + channel * bytesPerSample);
+        }
+    }
+
+    return { sampleRate, channels, channelData };
+}
+
+/**
+ * Average all channels into a single mono signal
+ */
+export function mixToMono(pcm: DecodedPcm): Float32Array {
+    if (pcm.channels === 1) return pcm.channelData[0];
+
+    const length = pcm.channelData[0].length;
+    const mono = new Float32Array(length);
+    for (const data of pcm.channelData) {
+        for (let i = 0; i < length; i++) {
+            mono[i] += data[i] / pcm.channels;
+        }
+    }
+    return mono;
+}
+
+/**
+ * Encode a mono signal as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+    const dataLength = samples.length * 2;
+    const buffer = Buffer.alloc(44 + dataLength);
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataLength, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+    buffer.writeUInt16LE(1, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataLength, 40);
+    for (let i = 0; i < samples.length; i++) {
+        const clamped = Math.max(-1, Math.min(1, samples[i]));
+        buffer.writeInt16LE(Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff), 44 + i * 2);
+    }
+    return buffer;
+}
+
+/**
+ * Measure clipping, silence and an SNR estimate from decoded PCM
+ */
+export function measureQuality(pcm: DecodedPcm): AudioQualityMetrics {
+    let clipped = 0;
+    let total = 0;
+    let peak = 0;
+    let sumSquares = 0;
+
+    for (const data of pcm.channelData) {
+        for (let i = 0; i < data.length; i++) {
+            const magnitude = Math.abs(data[i]);
+            if (magnitude >= CLIPPING_THRESHOLD) clipped++;
+            if (magnitude > peak) peak = magnitude;
+            sumSquares += data[i] * data[i];
+            total++;
+        }
+    }
+
+    const mono = mixToMono(pcm);
+    const frameSize = Math.max(1, Math.round(pcm.sampleRate * QUALITY_FRAME_SECONDS));
+    const framePowers: number[] = [];
+    for (let start = 0; start + frameSize <= mono.length; start += frameSize) {
+        let power = 0;
+        for (let i = start; i < start + frameSize; i++) {
+            power += mono[i] * mono[i];
+        }
+        framePowers.push(power / frameSize);
+    }
+
+    const silenceFloor = Math.pow(10, SILENCE_FLOOR_DB / 10);
+    const silentFrames = framePowers.filter(power => power < silenceFloor).length;
+
+    // Noise floor is the quietest decile of frames, signal is the loudest half
+    const sorted = [...framePowers].sort((a, b) => a - b);
+    const noisePower = sorted.length > 0 ? sorted[Math.floor(sorted.length * 0.1)] : 0;
+    const loudHalf = sorted.slice(Math.floor(sorted.length / 2));
+    const signalPower = loudHalf.length > 0 ? loudHalf.reduce((a, b) => a + b, 0) / loudHalf.length : 0;
+
+    return {
+        clippingRatio: total > 0 ? clipped / total : 0,
+        silenceRatio: framePowers.length > 0 ? silentFrames / framePowers.length : 1,
+        snrDb: signalPower > 0 ? 10 * Math.log10(signalPower / Math.max(noisePower, 1e-12)) : 0,
+        peakDb: toDecibels(peak * peak),
+        rmsDb: toDecibels(total > 0 ? sumSquares / total : 0)
+    };
+}
+
+// ---------------------------------------------------------------------------
+// WAV (RIFF)
+// ---------------------------------------------------------------------------
+
+function parseWav(buffer: Buffer): WavLayout {
+    let offset = 12;
+    let fmt: { formatTag: number; channels: number; sampleRate: number; byteRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+    let dataOffset = -1;
+    let dataLength = 0;
+
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        const bodyOffset = offset + 8;
+
+        if (chunkId === 'fmt ' && chunkSize >= 16) {
+            let formatTag = buffer.readUInt16LE(bodyOffset);
+            if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+                // SubFormat GUID starts with the actual format tag
+                formatTag = buffer.readUInt16LE(bodyOffset + 24);
+            }
+            fmt = {
+                formatTag,
+                channels: buffer.readUInt16LE(bodyOffset + 2),
+                sampleRate: buffer.readUInt32LE(bodyOffset + 4),
+                byteRate: buffer.readUInt32LE(bodyOffset + 8),
+                blockAlign: buffer.readUInt16LE(bodyOffset + 12),
+                bitsPerSample: buffer.readUInt16LE(bodyOffset + 14)
+            };
+        } else if (chunkId === 'data') {
+            dataOffset = bodyOffset;
+            // Streaming writers leave the size at 0 or 0xFFFFFFFF; trust the file length instead
+            const available = buffer.length - bodyOffset;
+            dataLength = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+            if (fmt) break;
+        }
+
+        // Chunks are word aligned
+        offset = bodyOffset + chunkSize + (chunkSize % 2);
+    }
+
+    if (!fmt) {
+        throw new ValidationError('WAV file has no fmt chunk', { service: 'AudioDecoder', operation: 'parseWav' });
+    }
+    if (dataOffset < 0) {
+        throw new ValidationError('WAV file has no data chunk', { service: 'AudioDecoder', operation: 'parseWav' });
+    }
+    if (fmt.channels === 0 || fmt.sampleRate === 0 || fmt.blockAlign === 0) {
+        throw new ValidationError('WAV fmt chunk is invalid', { service: 'AudioDecoder', operation: 'parseWav' });
+    }
+
+    const byteRate = fmt.byteRate || fmt.sampleRate * fmt.blockAlign;
+
+    return {
+        info: {
+            container: 'wav',
+            codec: wavCodecName(fmt.formatTag, fmt.bitsPerSample),
+            duration: dataLength / byteRate,
+            sampleRate: fmt.sampleRate,
+            channels: fmt.channels,
+            bitrate: byteRate * 8,
+            bitsPerSample: fmt.bitsPerSample
+        },
+        formatTag: fmt.formatTag,
+        blockAlign: fmt.blockAlign,
+        dataOffset,
+        dataLength
+    };
+}
+
+function wavCodecName(formatTag: number, bitsPerSample: number): string {
+    switch (formatTag) {
+        case WAVE_FORMAT_PCM: return bitsPerSample === 8 ? 'pcm_u8' : `pcm_s${bitsPerSample}le`;
+        case WAVE_FORMAT_IEEE_FLOAT: return `pcm_f${bitsPerSample}le`;
+        case WAVE_FORMAT_ALAW: return 'pcm_alaw';
+        case WAVE_FORMAT_MULAW: return 'pcm_mulaw';
+        default: return `wav_0x${formatTag.toString(16)}`;
+    }
+}
+
+function createSampleReader(buffer: Buffer, formatTag: number, bitsPerSample: number): (offset: number) => number {
+    switch (formatTag) {
+        case WAVE_FORMAT_PCM:
+            switch (bitsPerSample) {
+                case 8: return offset => (buffer.readUInt8(offset) - 128) / 128;
+                case 16: return offset => buffer.readInt16LE(offset) / 32768;
+                case 24: return offset => buffer.readIntLE(offset, 3) / 8388608;
+                case 32: return offset => buffer.readInt32LE(offset) / 2147483648;
+            }
+            break;
+        case WAVE_FORMAT_IEEE_FLOAT:
+            if (bitsPerSample === 32) return offset => buffer.readFloatLE(offset);
+            if (bitsPerSample === 64) return offset => buffer.readDoubleLE(offset);
+            break;
+        case WAVE_FORMAT_ALAW:
+            return offset => decodeALaw(buffer[offset]) / 32768;
+        case WAVE_FORMAT_MULAW:
+            return offset => decodeMuLaw(buffer[offset]) / 32768;
+    }
+
+    throw new ValidationError(`Unsupported WAV sample format ${formatTag}/${bitsPerSample}-bit`, {
+        service: 'AudioDecoder',
+        operation: 'decodePcm'
+    });
+}
+
+function decodeMuLaw(value: number): number {
+    const u = ~value & 0xff;
+    const exponent = (u >> 4) & 0x07;
+    const magnitude = (((u & 0x0f) << 3) + 0x84) << exponent;
+    return (u & 0x80) ? 0x84 - magnitude : magnitude - 0x84;
+}
+
+function decodeALaw(value: number): number {
+    const a = value ^ 0x55;
+    const exponent = (a >> 4) & 0x07;
+    let magnitude = (a & 0x0f) << 4;
+    magnitude = exponent === 0 ? magnitude + 8 : (magnitude + 0x108) << (exponent - 1);
+    return (a & 0x80) ? magnitude : -magnitude;
+}
+
+// ---------------------------------------------------------------------------
+// MP3 (MPEG audio frames, Xing/Info and VBRI headers)
+// ---------------------------------------------------------------------------
+
+interface Mp3FrameHeader {
+    version: 1 | 2 | 2.5;
+    layer: 1 | 2 | 3;
+    bitrate: number;
+    sampleRate: number;
+    channels: number;
+    frameLength: number;
+    samplesPerFrame: number;
+}
+
+const MP3_BITRATES: Record<string, number[]> = {
+    'V1L1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    'V1L2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    'V1L3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    'V2L1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    'V2L2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    'V2L3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+const MP3_SAMPLE_RATES: Record<string, number[]> = {
+    '1': [44100, 48000, 32000],
+    '2': [22050, 24000, 16000],
+    '2.5': [11025, 12000, 8000]
+};
+
+function parseMp3FrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+    if (offset + 4 > buffer.length) return null;
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+    const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+    const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+    const padding = (buffer[offset + 2] >> 1) & 0x01;
+    const channelMode = (buffer[offset + 3] >> 6) & 0x03;
+
+    if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+    const layer = (4 - layerBits) as 1 | 2 | 3;
+    const bitrate = MP3_BITRATES[`V${version === 1 ? 1 : 2}L${layer}`][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[String(version)][sampleRateIndex];
+
+    let frameLength: number;
+    let samplesPerFrame: number;
+    if (layer === 1) {
+        samplesPerFrame = 384;
+        frameLength = (Math.floor(12 * bitrate / sampleRate) + padding) * 4;
+    } else if (layer === 2 || version === 1) {
+        samplesPerFrame = 1152;
+        frameLength = Math.floor(144 * bitrate / sampleRate) + padding;
+    } else {
+        samplesPerFrame = 576;
+        frameLength = Math.floor(72 * bitrate / sampleRate) + padding;
+    }
+
+    return {
+        version,
+        layer,
+        bitrate,
+        sampleRate,
+        channels: channelMode === 3 ? 1 : 2,
+        frameLength,
+        samplesPerFrame
+    };
+}
+
+function skipId3v2(buffer: Buffer): number {
+    if (buffer.length < 10 || buffer.toString('ascii', 0, 3) !== 'ID3') return 0;
+    // Tag size is a 28-bit syncsafe integer
+    const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+    const hasFooter = (buffer[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Find the first frame whose successor also syncs, to avoid false sync words
+ */
+function findMp3Frame(buffer: Buffer, start: number): { offset: number; header: Mp3FrameHeader } | null {
+    const limit = Math.min(buffer.length - 4, start + 64 * 1024);
+    for (let offset = start; offset <= limit; offset++) {
+        const header = parseMp3FrameHeader(buffer, offset);
+        if (!header) continue;
+
+        const next = offset + header.frameLength;
+        if (next === buffer.length || parseMp3FrameHeader(buffer, next)) {
+            return { offset, header };
+        }
+    }
+    return null;
+}
+
+function parseMp3(buffer: Buffer): AudioStreamInfo {
+    const first = findMp3Frame(buffer, skipId3v2(buffer));
+    if (!first) {
+        throw new ValidationError('No MPEG audio frame found', { service: 'AudioDecoder', operation: 'parseMp3' });
+    }
+
+    const { offset, header } = first;
+    const vbr = readXingHeader(buffer, offset, header) || readVbriHeader(buffer, offset);
+
+    let frames: number;
+    let audioBytes: number;
+    if (vbr && vbr.frames > 0) {
+        frames = vbr.frames;
+        audioBytes = vbr.bytes || (buffer.length - offset);
+    } else {
+        // No VBR header: walk every frame for an exact count
+        frames = 0;
+        audioBytes = 0;
+        let cursor = offset;
+        let frame: Mp3FrameHeader | null = header;
+        while (frame && cursor + frame.frameLength <= buffer.length) {
+            frames++;
+            audioBytes += frame.frameLength;
+            cursor += frame.frameLength;
+            frame = parseMp3FrameHeader(buffer, cursor);
+        }
+    }
+
+    const duration = frames * header.samplesPerFrame / header.sampleRate;
+
+    return {
+        container: 'mp3',
+        codec: `mp${header.layer}`,
+        duration,
+        sampleRate: header.sampleRate,
+        channels: header.channels,
+        bitrate: duration > 0 ? Math.round(audioBytes * 8 / duration) : header.bitrate
+    };
+}
+
+function readXingHeader(buffer: Buffer, frameOffset: number, header: Mp3FrameHeader): { frames: number; bytes: number } | null {
+    // Side information size depends on MPEG version and channel count
+    const sideInfo = header.version === 1
+        ? (header.channels === 1 ? 17 : 32)
+        : (header.channels === 1 ? 9 : 17);
+    const tagOffset = frameOffset + 4 + sideInfo;
+    if (tagOffset + 16 > buffer.length) return null;
+
+    const tag = buffer.toString('ascii', tagOffset, tagOffset + 4);
+    if (tag !== 'Xing' && tag !== 'Info') return null;
+
+    const flags = buffer.readUInt32BE(tagOffset + 4);
+    let cursor = tagOffset + 8;
+    let frames = 0;
+    let bytes = 0;
+    if (flags & 0x1) {
+        frames = buffer.readUInt32BE(cursor);
+        cursor += 4;
+    }
+    if (flags & 0x2) {
+        bytes = buffer.readUInt32BE(cursor);
+    }
+    return { frames, bytes };
+}
+
+function readVbriHeader(buffer: Buffer, frameOffset: number): { frames: number; bytes: number } | null {
+    const tagOffset = frameOffset + 4 + 32;
+    if (tagOffset + 18 > buffer.length) return null;
+    if (buffer.toString('ascii', tagOffset, tagOffset + 4) !== 'VBRI') return null;
+
+    return {
+        bytes: buffer.readUInt32BE(tagOffset + 10),
+        frames: buffer.readUInt32BE(tagOffset + 14)
+    };
+}
+
+// ---------------------------------------------------------------------------
+// M4A (ISO base media file format)
+// ---------------------------------------------------------------------------
+
+interface Mp4Box {
+    type: string;
+    start: number; // first byte of the box body
+    end: number;
+}
+
+const MP4_CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+function readMp4Boxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+        let size = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        let headerSize = 8;
+
+        if (size === 1) {
+            if (offset + 16 > end) break;
+            size = Number(buffer.readBigUInt64BE(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize) break;
+
+        boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) });
+        offset += size;
+    }
+
+    return boxes;
+}
+
+function findMp4Box(buffer: Buffer, parent: Mp4Box | null, path: string[]): Mp4Box | null {
+    let children = readMp4Boxes(buffer, parent ? parent.start : 0, parent ? parent.end : buffer.length);
+    let found: Mp4Box | null = null;
+
+    for (const type of path) {
+        found = children.find(box => box.type === type) || null;
+        if (!found) return null;
+        children = MP4_CONTAINER_BOXES.has(type) ? readMp4Boxes(buffer, found.start, found.end) : [];
+    }
+    return found;
+}
+
+function parseMp4(buffer: Buffer): AudioStreamInfo {
+    const moov = findMp4Box(buffer, null, ['moov']);
+    if (!moov) {
+        throw new ValidationError('M4A file has no moov box', { service: 'AudioDecoder', operation: 'parseMp4' });
+    }
+
+    const mvhd = findMp4Box(buffer, moov, ['mvhd']);
+    let duration = mvhd ? readMp4Duration(buffer, mvhd.start, 12, 20) : 0;
+
+    const soundTrack = readMp4Boxes(buffer, moov.start, moov.end)
+        .filter(box => box.type === 'trak')
+        .find(trak => {
+            const hdlr = findMp4Box(buffer, trak, ['mdia', 'hdlr']);
+            return hdlr !== null && buffer.toString('ascii', hdlr.start + 8, hdlr.start + 12) === 'soun';
+        });
+    if (!soundTrack) {
+        throw new ValidationError('M4A file has no audio track', { service: 'AudioDecoder', operation: 'parseMp4' });
+    }
+
+    // Track duration in its own timescale is more precise than the movie header
+    const mdhd = findMp4Box(buffer, soundTrack, ['mdia', 'mdhd']);
+    if (mdhd) {
+        const trackDuration = readMp4Duration(buffer, mdhd.start, 12, 20);
+        if (trackDuration > 0) duration = trackDuration;
+    }
+
+    const stsd = findMp4Box(buffer, soundTrack, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!stsd || stsd.start + 8 + 36 > stsd.end) {
+        throw new ValidationError('M4A audio track has no sample description', { service: 'AudioDecoder', operation: 'parseMp4' });
+    }
+
+    // AudioSampleEntry: 8 bytes of box header after the stsd full-box header and entry count
+    const entryStart = stsd.start + 8;
+    const entryType = buffer.toString('ascii', entryStart + 4, entryStart + 8);
+    const fields = entryStart + 8;
+    const channels = buffer.readUInt16BE(fields + 16);
+    const bitsPerSample = buffer.readUInt16BE(fields + 18);
+    const sampleRate = buffer.readUInt32BE(fields + 24) >>> 16;
+    // QuickTime sound description v1/v2 append extra fields before the child boxes
+    const soundVersion = buffer.readUInt16BE(fields + 8);
+    const childStart = fields + 28 + (soundVersion === 1 ? 16 : soundVersion === 2 ? 36 : 0);
+
+    let codec = entryType.trim().toLowerCase();
+    let bitrate = 0;
+    if (entryType === 'mp4a') {
+        const esds = readMp4Esds(buffer, childStart, Math.min(stsd.end, entryStart + buffer.readUInt32BE(entryStart)));
+        if (esds) {
+            codec = esds.objectType === 0x69 || esds.objectType === 0x6b ? 'mp3' : 'aac';
+            bitrate = esds.avgBitrate;
+        } else {
+            codec = 'aac';
+        }
+    }
+
+    if (!bitrate && duration > 0) {
+        const mdat = readMp4Boxes(buffer, 0, buffer.length).find(box => box.type === 'mdat');
+        if (mdat) bitrate = Math.round((mdat.end - mdat.start) * 8 / duration);
+    }
+
+    return {
+        container: 'm4a',
+        codec,
+        duration,
+        sampleRate,
+        channels,
+        bitrate,
+        bitsPerSample
+    };
+}
+
+/**
+ * Read timescale/duration from mvhd or mdhd (version 0 and 1 layouts)
+ */
+function readMp4Duration(buffer: Buffer, start: number, v0TimescaleOffset: number, v1TimescaleOffset: number): number {
+    const version = buffer[start];
+    if (version === 1) {
+        const timescale = buffer.readUInt32BE(start + v1TimescaleOffset);
+        const duration = Number(buffer.readBigUInt64BE(start + v1TimescaleOffset + 4));
+        return timescale > 0 ? duration / timescale : 0;
+    }
+    const timescale = buffer.readUInt32BE(start + v0TimescaleOffset);
+    const duration = buffer.readUInt32BE(start + v0TimescaleOffset + 4);
+    return timescale > 0 ? duration / timescale : 0;
+}
+
+function readMp4Esds(buffer: Buffer, start: number, end: number): { objectType: number; avgBitrate: number } | null {
+    const esds = readMp4Boxes(buffer, start, end).find(box => box.type === 'esds');
+    if (!esds) return null;
+
+    // Walk MPEG-4 descriptors until the DecoderConfigDescriptor (tag 0x04)
+    let offset = esds.start + 4;
+    while (offset < esds.end) {
+        const tag = buffer[offset++];
+        let length = 0;
+        for (let i = 0; i < 4 && offset < esds.end; i++) {
+            const byte = buffer[offset++];
+            length = (length << 7) | (byte & 0x7f);
+            if (!(byte & 0x80)) break;
+        }
+
+        if (tag === 0x03) {
+            const flags = buffer[offset + 2];
+            offset += 3;
+            if (flags & 0x80) offset += 2;
+            if (flags & 0x40) offset += 1 + buffer[offset];
+            if (flags & 0x20) offset += 2;
+            continue;
+        }
+        if (tag === 0x04) {
+            if (offset + 13 > esds.end) return null;
+            return {
+                objectType: buffer[offset],
+                avgBitrate: buffer.readUInt32BE(offset + 9)
+            };
+        }
+        offset += length;
+    }
+    return null;
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Vorbis, Opus, FLAC)
+// ---------------------------------------------------------------------------
+
+interface OggPage {
+    granulePosition: bigint;
+    serial: number;
+    bodyStart: number;
+    bodyLength: number;
+}
+
+function readOggPage(buffer: Buffer, offset: number): OggPage | null {
+    if (offset + 27 > buffer.length || buffer.toString('ascii', offset, offset + 4) !== 'OggS') return null;
+
+    const segments = buffer[offset + 26];
+    if (offset + 27 + segments > buffer.length) return null;
+
+    let bodyLength = 0;
+    for (let i = 0; i < segments; i++) {
+        bodyLength += buffer[offset + 27 + i];
+    }
+
+    return {
+        granulePosition: buffer.readBigInt64LE(offset + 6),
+        serial: buffer.readUInt32LE(offset + 14),
+        bodyStart: offset + 27 + segments,
+        bodyLength
+    };
+}
+
+function parseOgg(buffer: Buffer): AudioStreamInfo {
+    const firstPage = readOggPage(buffer, 0);
+    if (!firstPage) {
+        throw new ValidationError('Invalid Ogg page', { service: 'AudioDecoder', operation: 'parseOgg' });
+    }
+
+    const packet = buffer.subarray(firstPage.bodyStart, firstPage.bodyStart + firstPage.bodyLength);
+    let codec: string;
+    let channels: number;
+    let sampleRate: number;
+    let granuleRate: number;
+    let preSkip = 0;
+    let nominalBitrate = 0;
+
+    if (packet.length >= 30 && packet[0] === 0x01 && packet.toString('ascii', 1, 7) === 'vorbis') {
+        codec = 'vorbis';
+        channels = packet[11];
+        sampleRate = packet.readUInt32LE(12);
+        granuleRate = sampleRate;
+        nominalBitrate = Math.max(0, packet.readInt32LE(20));
+    } else if (packet.length >= 19 && packet.toString('ascii', 0, 8) === 'OpusHead') {
+        codec = 'opus';
+        channels = packet[9];
+        preSkip = packet.readUInt16LE(10);
+        sampleRate = packet.readUInt32LE(12) || 48000;
+        granuleRate = 48000; // Opus granule positions always count 48 kHz samples
+    } else if (packet.length >= 51 && packet[0] === 0x7f && packet.toString('ascii', 1, 5) === 'FLAC') {
+        codec = 'flac';
+        // STREAMINFO follows the 13-byte Ogg FLAC mapping header and the 4-byte block header
+        const streamInfo = 13 + 4;
+        sampleRate = (packet.readUInt32BE(streamInfo + 10) >>> 12);
+        channels = ((packet[streamInfo + 12] >> 1) & 0x07) + 1;
+        granuleRate = sampleRate;
+    } else {
+        throw new ValidationError('Unsupported Ogg codec', { service: 'AudioDecoder', operation: 'parseOgg' });
+    }
+
+    // The last page of the logical stream carries the total sample count
+    let lastGranule = BigInt(0);
+    for (let offset = buffer.length - 27; offset >= 0; offset--) {
+        if (buffer[offset] !== 0x4f || buffer.toString('ascii', offset, offset + 4) !== 'OggS') continue;
+        const page = readOggPage(buffer, offset);
+        if (page && page.serial === firstPage.serial && page.granulePosition > BigInt(0)) {
+            lastGranule = page.granulePosition;
+            break;
+        }
+    }
+
+    const duration = Math.max(0, Number(lastGranule) - preSkip) / granuleRate;
+
+    return {
+        container: 'ogg',
+        codec,
+        duration,
+        sampleRate,
+        channels,
+        bitrate: duration > 0 ? Math.round(buffer.length * 8 / duration) : nominalBitrate
+    };
+}
+
+function toDecibels(power: number): number {
+    // Clamp digital silence so the value stays JSON serializable
+    return power > 1e-12 ? 10 * Math.log10(power) : -120;
+}
@@ -0,0 +1,372 @@
+/**
+ * Acoustic feature extraction
+ * Frame-based DSP on decoded PCM: energy, YIN pitch, jitter/shimmer,
+ * zero-crossing rate, spectral centroid/rolloff/flux and MFCCs
+ */
+
+import { DecodedPcm, mixToMono } from './audioDecoder';
+import { detectVoiceActivity, VoiceActivityResult } from './voiceActivityDetector';
+import {
+    nextPowerOfTwo,
+    powerSpectrum,
+    hannWindow,
+    melFilterbank,
+    dct,
+    decimate,
+    mean,
+    standardDeviation
+} from '../utils/dsp';
+
+export interface FeatureExtractionOptions {
+    frameSeconds?: number;
+    hopSeconds?: number;
+    minPitchHz?: number;
+    maxPitchHz?: number;
+    mfccCount?: number;
+    melFilterCount?: number;
+}
+
+/**
+ * Per-frame series, all arrays have one entry per hop
+ */
+export interface AcousticFrameSeries {
+    time: number[]; // frame start, seconds
+    rmsDb: number[]; // dBFS
+    pitch: number[]; // Hz, 0 when unvoiced
+    voiced: boolean[];
+    zeroCrossingRate: number[]; // crossings per sample
+    spectralCentroid: number[]; // Hz
+    spectralRolloff: number[]; // Hz below which 85% of the energy lies
+    spectralFlux: number[];
+    mfcc: number[][];
+}
+
+export interface AcousticSummary {
+    duration: number;
+    voicedRatio: number;
+    pitchMean: number;
+    pitchStd: number;
+    pitchMin: number;
+    pitchMax: number;
+    energyMeanDb: number;
+    energyStdDb: number;
+    jitter: number; // relative period perturbation between voiced frames
+    shimmer: number; // relative amplitude perturbation between voiced frames
+    zeroCrossingRateMean: number;
+    spectralCentroidMean: number;
+    spectralRolloffMean: number;
+    spectralFluxMean: number;
+    mfccMean: number[];
+    mfccStd: number[];
+    syllableCount: number;
+    speakingRate: number; // estimated words per minute
+    pauseRatio: number; // from voice activity detection
+}
+
+/**
+ * Same shape as LieDetectionInput['vocalAnalysis']
+ */
+export interface VocalAnalysis {
+    pitchMean: number;
+    pitchStd: number;
+    energyMean: number; // dB above -100 dBFS (0-100)
+    energyStd: number;
+    speakingRate: number;
+    pauseRatio: number;
+}
+
+export interface AcousticFeatures {
+    sampleRate: number; // analysis rate after decimation
+    frameSeconds: number;
+    hopSeconds: number;
+    frames: AcousticFrameSeries;
+    summary: AcousticSummary;
+    vocalAnalysis: VocalAnalysis;
+    voiceActivity: VoiceActivityResult;
+}
+
+const DEFAULT_OPTIONS: Required<FeatureExtractionOptions> = {
+    frameSeconds: 0.04,
+    hopSeconds: 0.01,
+    minPitchHz: 60,
+    maxPitchHz: 500,
+    mfccCount: 13,
+    melFilterCount: 26
+};
+
+// Spectral analysis runs at <= ~22 kHz, pitch tracking at <= ~11 kHz
+const MAX_ANALYSIS_RATE = 16000;
+const MAX_PITCH_RATE = 8000;
+const YIN_THRESHOLD = 0.15;
+const ROLLOFF_FRACTION = 0.85;
+const ACTIVITY_FLOOR_DB = -50;
+const ACTIVITY_RANGE_DB = 35; // frames this far below the loudest frame count as silence
+const SYLLABLE_WINDOW_SECONDS = 0.05;
+const SYLLABLE_PROMINENCE_DB = 2;
+// Média aproximada para português/inglês conversacional
+const SYLLABLES_PER_WORD = 1.6;
+const ENERGY_OFFSET_DB = 100;
+
+/**
+ * Extract per-frame acoustic features and their summary statistics
+ */
+export function extractAcousticFeatures(pcm: DecodedPcm, options: FeatureExtractionOptions = {}): AcousticFeatures {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const mono = mixToMono(pcm);
+    const duration = pcm.sampleRate > 0 ? mono.length / pcm.sampleRate : 0;
+
+    const analysisFactor = Math.max(1, Math.floor(pcm.sampleRate / MAX_ANALYSIS_RATE));
+    const signal = decimate(mono, analysisFactor);
+    const rate = pcm.sampleRate / analysisFactor;
+
+    const pitchFactor = Math.max(1, Math.floor(rate / MAX_PITCH_RATE));
+    const pitchSignal = decimate(signal, pitchFactor);
+    const pitchRate = rate / pitchFactor;
+
+    const frameSize = Math.max(1, Math.round(config.frameSeconds * rate));
+    const hopSize = Math.max(1, Math.round(config.hopSeconds * rate));
+    const fftSize = nextPowerOfTwo(frameSize);
+    const window = hannWindow(frameSize);
+    const filters = melFilterbank(config.melFilterCount, fftSize, rate, 0, Math.min(8000, rate / 2));
+    const binHz = rate / fftSize;
+
+    const frames: AcousticFrameSeries = {
+        time: [],
+        rmsDb: [],
+        pitch: [],
+        voiced: [],
+        zeroCrossingRate: [],
+        spectralCentroid: [],
+        spectralRolloff: [],
+        spectralFlux: [],
+        mfcc: []
+    };
+    const peaks: number[] = [];
+    let previousMagnitude: Float64Array | null = null;
+
+    for (let start = 0; start + frameSize <= signal.length; start += hopSize) {
+        const frame = signal.subarray(start, start + frameSize);
+
+        let sumSquares = 0;
+        let peak = 0;
+        let crossings = 0;
+        for (let i = 0; i < frame.length; i++) {
+            sumSquares += frame[i] * frame[i];
+            peak = Math.max(peak, Math.abs(frame[i]));
+            if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+        }
+
+        const power = powerSpectrum(frame, fftSize, window);
+        const magnitude = new Float64Array(power.length);
+        let totalPower = 0;
+        let weighted = 0;
+        let magnitudeNorm = 0;
+        for (let k = 0; k < power.length; k++) {
+            magnitude[k] = Math.sqrt(power[k]);
+            totalPower += power[k];
+            weighted += k * binHz * magnitude[k];
+            magnitudeNorm += magnitude[k];
+        }
+
+        let rolloffBin = 0;
+        for (let cumulative = 0; rolloffBin < power.length; rolloffBin++) {
+            cumulative += power[rolloffBin];
+            if (cumulative >= ROLLOFF_FRACTION * totalPower) break;
+        }
+
+        // Flux between L1-normalized magnitude spectra, so loudness changes alone do not count
+        let flux = 0;
+        if (magnitudeNorm > 0) {
+            for (let k = 0; k < magnitude.length; k++) magnitude[k] /= magnitudeNorm;
+        }
+        if (previousMagnitude) {
+            for (let k = 0; k < magnitude.length; k++) {
+                const diff = magnitude[k] - previousMagnitude[k];
+                flux += diff * diff;
+            }
+        }
+        previousMagnitude = magnitude;
+
+        const logMel = filters.map(filter => {
+            let energy = 0;
+            for (let k = 0; k < filter.length; k++) {
+                if (filter[k] > 0) energy += filter[k] * power[k];
+            }
+            return Math.log(Math.max(energy, 1e-10));
+        });
+
+        frames.time.push(start / rate);
+        frames.rmsDb.push(toDecibels(sumSquares / frame.length));
+        frames.zeroCrossingRate.push(frame.length > 1 ? crossings / (frame.length - 1) : 0);
+        frames.spectralCentroid.push(magnitudeNorm > 0 ? weighted / magnitudeNorm : 0);
+        frames.spectralRolloff.push(Math.min(rolloffBin, power.length - 1) * binHz);
+        frames.spectralFlux.push(Math.sqrt(flux));
+        frames.mfcc.push(dct(logMel, config.mfccCount));
+        peaks.push(peak);
+    }
+
+    // Atividade relativa ao frame mais alto para não depender do ganho do microfone
+    const loudest = frames.rmsDb.reduce((max, db) => Math.max(max, db), ACTIVITY_FLOOR_DB);
+    const activityThreshold = Math.max(ACTIVITY_FLOOR_DB, loudest - ACTIVITY_RANGE_DB);
+    const active = frames.rmsDb.map(db => db >= activityThreshold);
+
+    for (let i = 0; i < frames.time.length; i++) {
+        const pitch = active[i]
+            ? yinPitch(pitchSignal, Math.round(frames.time[i] * pitchRate), pitchRate, config.minPitchHz, config.maxPitchHz)
+            : 0;
+        frames.pitch.push(pitch);
+        frames.voiced.push(pitch > 0);
+    }
+
+    const voiceActivity = detectVoiceActivity(pcm);
+    const summary = summarize(frames, peaks, voiceActivity.pauses.ratio, duration, config.hopSeconds);
+
+    return {
+        sampleRate: rate,
+        frameSeconds: config.frameSeconds,
+        hopSeconds: config.hopSeconds,
+        frames,
+        summary,
+        vocalAnalysis: {
+            pitchMean: summary.pitchMean,
+            pitchStd: summary.pitchStd,
+            energyMean: Math.max(0, summary.energyMeanDb + ENERGY_OFFSET_DB),
+            energyStd: summary.energyStdDb,
+            speakingRate: summary.speakingRate,
+            pauseRatio: summary.pauseRatio
+        },
+        voiceActivity
+    };
+}
+
+function summarize(
+    frames: AcousticFrameSeries,
+    peaks: number[],
+    pauseRatio: number,
+    duration: number,
+    hopSeconds: number
+): AcousticSummary {
+    const voicedIndexes = frames.voiced.flatMap((voiced, i) => (voiced ? [i] : []));
+    const voicedPitch = voicedIndexes.map(i => frames.pitch[i]);
+    const voicedEnergy = voicedIndexes.map(i => frames.rmsDb[i]);
+
+    // Jitter/shimmer aproximados entre frames vozeados consecutivos (não ciclo a ciclo)
+    const periodDiffs: number[] = [];
+    const amplitudeDiffs: number[] = [];
+    for (let n = 1; n < voicedIndexes.length; n++) {
+        const [prev, cur] = [voicedIndexes[n - 1], voicedIndexes[n]];
+        if (cur !== prev + 1) continue;
+        periodDiffs.push(Math.abs(1 / frames.pitch[cur] - 1 / frames.pitch[prev]));
+        amplitudeDiffs.push(Math.abs(peaks[cur] - peaks[prev]));
+    }
+    const meanPeriod = mean(voicedPitch.map(pitch => 1 / pitch));
+    const meanAmplitude = mean(voicedIndexes.map(i => peaks[i]));
+
+    const mfccCount = frames.mfcc.length > 0 ? frames.mfcc[0].length : 0;
+    const mfccMean: number[] = [];
+    const mfccStd: number[] = [];
+    for (let c = 0; c < mfccCount; c++) {
+        const column = frames.mfcc.map(coefficients => coefficients[c]);
+        mfccMean.push(mean(column));
+        mfccStd.push(standardDeviation(column));
+    }
+
+    const syllableCount = countSyllableNuclei(frames.rmsDb, frames.voiced, hopSeconds);
+
+    return {
+        duration,
+        voicedRatio: frames.voiced.length > 0 ? voicedIndexes.length / frames.voiced.length : 0,
+        pitchMean: mean(voicedPitch),
+        pitchStd: standardDeviation(voicedPitch),
+        pitchMin: voicedPitch.length > 0 ? voicedPitch.reduce((a, b) => Math.min(a, b)) : 0,
+        pitchMax: voicedPitch.length > 0 ? voicedPitch.reduce((a, b) => Math.max(a, b)) : 0,
+        energyMeanDb: voicedEnergy.length > 0 ? mean(voicedEnergy) : mean(frames.rmsDb),
+        energyStdDb: voicedEnergy.length > 0 ? standardDeviation(voicedEnergy) : standardDeviation(frames.rmsDb),
+        jitter: meanPeriod > 0 ? mean(periodDiffs) / meanPeriod : 0,
+        shimmer: meanAmplitude > 0 ? mean(amplitudeDiffs) / meanAmplitude : 0,
+        zeroCrossingRateMean: mean(frames.zeroCrossingRate),
+        spectralCentroidMean: mean(frames.spectralCentroid),
+        spectralRolloffMean: mean(frames.spectralRolloff),
+        spectralFluxMean: mean(frames.spectralFlux),
+        mfccMean,
+        mfccStd,
+        syllableCount,
+        speakingRate: duration > 0 ? (syllableCount / SYLLABLES_PER_WORD) / (duration / 60) : 0,
+        pauseRatio
+    };
+}
+
+/**
+ * YIN fundamental frequency estimate for the frame starting at `start`; 0 when unvoiced
+ */
+function yinPitch(signal: Float32Array, start: number, rate: number, minHz: number, maxHz: number): number {
+    const tauMin = Math.max(2, Math.floor(rate / maxHz));
+    const tauMax = Math.ceil(rate / minHz);
+    const windowSize = tauMax;
+    if (start + windowSize + tauMax > signal.length) return 0;
+
+    // Difference function and its cumulative mean normalization
+    const cmnd = new Float64Array(tauMax + 1);
+    cmnd[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= tauMax; tau++) {
+        let diff = 0;
+        for (let j = start; j < start + windowSize; j++) {
+            const delta = signal[j] - signal[j + tau];
+            diff += delta * delta;
+        }
+        runningSum += diff;
+        cmnd[tau] = runningSum > 0 ? diff * tau / runningSum : 1;
+    }
+
+    let tau = tauMin;
+    while (tau <= tauMax && cmnd[tau] >= YIN_THRESHOLD) tau++;
+    if (tau > tauMax) return 0;
+    while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+
+    // Parabolic interpolation around the dip
+    let refined = tau;
+    if (tau > 1 && tau < tauMax) {
+        const [a, b, c] = [cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]];
+        const denominator = a - 2 * b + c;
+        if (denominator !== 0) refined = tau + (a - c) / (2 * denominator);
+    }
+    return rate / refined;
+}
+
+/**
+ * Count energy peaks in voiced regions as syllable nuclei
+ */
+function countSyllableNuclei(rmsDb: number[], voiced: boolean[], hopSeconds: number): number {
+    const radius = Math.max(1, Math.round(SYLLABLE_WINDOW_SECONDS / hopSeconds));
+    let count = 0;
+    let trough = Infinity;
+    let lastPeak = -Infinity;
+
+    for (let i = 0; i < rmsDb.length; i++) {
+        if (!voiced[i]) {
+            // Unvoiced gap always separates nuclei
+            trough = -Infinity;
+            continue;
+        }
+        trough = Math.min(trough, rmsDb[i]);
+
+        let isPeak = true;
+        for (let j = Math.max(0, i - radius); j <= Math.min(rmsDb.length - 1, i + radius); j++) {
+            if (rmsDb[j] > rmsDb[i]) {
+                isPeak = false;
+                break;
+            }
+        }
+        if (isPeak && i - lastPeak > radius && rmsDb[i] - trough >= SYLLABLE_PROMINENCE_DB) {
+            count++;
+            lastPeak = i;
+            trough = rmsDb[i];
+        }
+    }
+    return count;
+}
+
+function toDecibels(power: number): number {
+    return power > 1e-12 ? 10 * Math.log10(power) : -120;
+}
@@ -1,41 +1,102 @@
 /**
- * Serviço de Processamento de Áudio Simplificado
- * Mock implementation para desenvolvimento
+ * Serviço de Processamento de Áudio
+ * Análise real de containers (WAV/MP3/M4A/OGG), extração de features acústicas e
+ * leitura do upload multipart em streaming
  */
 
+import * as path from 'path';
+import {
+  probeAudio,
+  decodePcm,
+  measureQuality,
+  AudioStreamInfo,
+  AudioQualityMetrics
+} from './audioDecoder';
+import { extractAcousticFeatures, AcousticFeatures, FeatureExtractionOptions } from './audioFeatureExtractor';
+import { ValidationError } from '../core/errors/CustomErrors';
+import { AUDIO_MIN_DURATION, AUDIO_MAX_DURATION, AUDIO_MAX_SIZE, uploadFormSchema, UploadFormInput } from '../core/validation/schemas';
+import { MultipartFile, parseMultipart } from '../utils/multipart';
+
+export type AudioQuality = 'excellent' | 'good' | 'fair' | 'poor';
+
 export interface AudioAnalysisResult {
   duration: number;
   format: string;
+  codec: string;
   sampleRate: number;
   channels: number;
   bitrate: number;
+  bitsPerSample?: number;
+  size: number;
+  quality: AudioQuality;
+  qualityMetrics?: AudioQualityMetrics; // Só disponível quando o PCM é decodificado
+  // true quando quality vem só de bitrate/sample rate (MP3, M4A, Ogg): sem decoder para esses codecs, clipping e SNR não são medidos
+  qualityEstimated: boolean;
+}
+
+// Azure HttpRequest (body como ReadableStream) ou a requisição Express do dev-server
+export interface UploadRequest {
+  method?: string;
+  headers: { get(name: string): string | null | undefined };
+  body?: AsyncIterable<Uint8Array> | Buffer | null;
+}
+
+export interface UploadedAudio {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
   size: number;
-  quality: 'excellent' | 'good' | 'fair' | 'poor';
+  metadata: UploadFormInput['metadata'];
 }
 
+export interface UploadValidationResult {
+  success: boolean;
+  data?: UploadedAudio;
+  error?: string;
+}
+
+// Campos de texto e cabeçalhos das partes além do próprio áudio
+const UPLOAD_FORM_OVERHEAD = 1024 * 1024;
+const UPLOAD_BODY_MAX_SIZE = AUDIO_MAX_SIZE + UPLOAD_FORM_OVERHEAD;
+
+// Clientes que não informam o tipo da parte (ex.: Dio envia application/octet-stream)
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/m4a',
+};
+
 export interface ProcessingContext {
   audioId: string;
   userId: string;
   fileId?: string;
+  maxDurationSeconds?: number; // Limite do plano do usuário; AUDIO_MAX_DURATION por padrão
 }
 
 export class AudioProcessingService {
   constructor() {
-    console.log('[AudioProcessingService] Initialized (Mock Mode)');
+    console.log('[AudioProcessingService] Initialized');
   }
   
   async analyzeAudio(audioBuffer: Buffer): Promise<AudioAnalysisResult> {
-    console.log('[AudioProcessingService] Analyzing audio (mock)...');
+    console.log('[AudioProcessingService] Analyzing audio...');
+    
+    const info = probeAudio(audioBuffer);
+    const pcm = decodePcm(audioBuffer);
+    const qualityMetrics = pcm ? measureQuality(pcm) : undefined;
     
-    // Mock implementation
     return {
-      duration: 10.5,
-      format: 'wav',
-      sampleRate: 44100,
-      channels: 2,
-      bitrate: 128000,
+      duration: info.duration,
+      format: info.container,
+      codec: info.codec,
+      sampleRate: info.sampleRate,
+      channels: info.channels,
+      bitrate: info.bitrate,
+      bitsPerSample: info.bitsPerSample,
       size: audioBuffer.length,
-      quality: this.determineQuality(audioBuffer.length)
+      quality: this.determineQuality(info, qualityMetrics),
+      qualityMetrics,
+      qualityEstimated: !qualityMetrics
     };
   }
   
@@ -45,47 +106,145 @@ export class AudioProcessingService {
     return audioBuffer;
   }
   
-  async extractFeatures(audioBuffer: Buffer): Promise<any> {
-    console.log('[AudioProcessingService] Extracting features (mock)...');
+  async extractFeatures(audioBuffer: Buffer, options?: FeatureExtractionOptions): Promise<AcousticFeatures> {
+    console.log('[AudioProcessingService] Extracting features...');
+    
+    const pcm = decodePcm(audioBuffer);
+    if (!pcm) {
+      const info = probeAudio(audioBuffer);
+      throw new ValidationError(
+        `Extração de features requer PCM decodificável (WAV); recebido ${info.container}/${info.codec}`,
+        { service: 'AudioProcessingService', operation: 'extractFeatures' }
+      );
+    }
+    
+    return extractAcousticFeatures(pcm, options);
+  }
+
+  // Funções adicionais necessárias para compatibilidade
+  /**
+   * Lê o multipart (campo "audio" + duration, language, isPublic, sessionId, participantId)
+   * e valida com audioUploadSchema. Os limites de tamanho valem durante a leitura
+   */
+  async validateUploadRequest(request: UploadRequest): Promise<UploadValidationResult> {
+    console.log('[AudioProcessingService] Validating upload request...');
+    
+    if (request.method && request.method !== 'POST') {
+      return { success: false, error: `Method ${request.method} not allowed` };
+    }
+    
+    // Content-Length declarado acima do limite: rejeita sem ler o corpo
+    const declaredLength = Number(request.headers.get('content-length'));
+    if (Number.isFinite(declaredLength) && declaredLength > UPLOAD_BODY_MAX_SIZE) {
+      return { success: false, error: `Arquivo muito grande. Máximo: ${AUDIO_MAX_SIZE / 1024 / 1024}MB` };
+    }
+    
+    let form;
+    try {
+      form = await parseMultipart(uploadBody(request), request.headers.get('content-type') ?? null, {
+        fileFields: ['audio'],
+        limits: { fileSize: AUDIO_MAX_SIZE, fieldSize: 1024, bodySize: UPLOAD_BODY_MAX_SIZE },
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) return { success: false, error: error.message };
+      throw error;
+    }
+    
+    const audio = form.files.find(file => file.fieldName === 'audio');
+    if (!audio) {
+      return { success: false, error: 'Arquivo de áudio não encontrado (campo "audio")' };
+    }
+    return this.validateUpload(audio, form.fields);
+  }
+  
+  /**
+   * Valida o arquivo recebido e seus campos com audioUploadSchema; usado pelo
+   * multipart e pelos uploads resumíveis
+   */
+  validateUpload(
+    audio: Pick<MultipartFile, 'filename' | 'contentType' | 'data'>,
+    fields: Record<string, string | undefined>
+  ): UploadValidationResult {
+    const originalName = path.posix.basename(audio.filename.replace(/\\/g, '/'));
+    const parsed = uploadFormSchema.safeParse({
+      audio: {
+        mimetype: audio.contentType === 'application/octet-stream'
+          ? EXTENSION_MIME_TYPES[path.extname(originalName).toLowerCase()] ?? audio.contentType
+          : audio.contentType,
+        size: audio.data.length,
+        buffer: audio.data,
+        originalname: originalName,
+      },
+      metadata: {
+        // Sem duration no formulário, vale a duração medida no próprio arquivo
+        duration: fields.duration !== undefined ? Number(fields.duration) : this.probeDuration(audio.data),
+        language: fields.language || undefined,
+        isPublic: fields.isPublic === undefined ? undefined : parseBooleanField(fields.isPublic),
+        sessionId: fields.sessionId || undefined,
+        participantId: fields.participantId || undefined,
+      },
+    });
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map(issue => issue.message).join('; ') };
+    }
     
     return {
-      energy: Math.random() * 100,
-      pitch: 200 + Math.random() * 100,
-      tempo: 120 + Math.random() * 40,
-      spectralCentroid: Math.random() * 5000
+      success: true,
+      data: {
+        buffer: parsed.data.audio.buffer,
+        originalName: parsed.data.audio.originalname,
+        mimeType: parsed.data.audio.mimetype,
+        size: parsed.data.audio.size,
+        metadata: parsed.data.metadata,
+      },
     };
   }
 
-  // Funções adicionais necessárias para compatibilidade
-  async validateUploadRequest(request: any): Promise<{ success: boolean; data?: any; error?: string }> {
-    console.log('[AudioProcessingService] Validating upload request (mock)...');
+  async processAudioFile(file: any, context: ProcessingContext): Promise<any> {
+    console.log('[AudioProcessingService] Processing audio file...');
+    
+    // Aceita tanto FileData ({ buffer }) quanto AudioUploadInput ({ audio: { buffer } })
+    const buffer: Buffer | undefined = file?.buffer ?? file?.audio?.buffer;
+    if (!buffer || buffer.length === 0) {
+      return { success: false, audioId: context.audioId, error: 'Missing audio data' };
+    }
     
-    if (!request || !request.body) {
+    let analysis: AudioAnalysisResult;
+    try {
+      analysis = await this.analyzeAudio(buffer);
+    } catch (error) {
       return {
         success: false,
-        error: 'Missing request body'
+        audioId: context.audioId,
+        error: `Invalid audio file: ${error instanceof Error ? error.message : String(error)}`
       };
     }
     
-    // Mock file data extraction
-    const mockFileData = {
-      buffer: Buffer.from('mock audio data'),
-      mimeType: 'audio/wav',
-      originalName: 'test.wav',
-      size: 1024
-    };
+    if (analysis.duration < AUDIO_MIN_DURATION) {
+      return { success: false, audioId: context.audioId, error: `Áudio muito curto. Mínimo: ${AUDIO_MIN_DURATION}s` };
+    }
+    const maxDuration = Math.min(context.maxDurationSeconds ?? AUDIO_MAX_DURATION, AUDIO_MAX_DURATION);
+    if (analysis.duration > maxDuration) {
+      return { success: false, audioId: context.audioId, error: `Áudio muito longo. Máximo: ${maxDuration}s` };
+    }
     
     return {
       success: true,
-      data: mockFileData
+      audioId: context.audioId,
+      data: {
+        audioDuration: analysis.duration,
+        sampleRate: analysis.sampleRate,
+        channels: analysis.channels,
+        format: analysis.format,
+        codec: analysis.codec,
+        bitrate: analysis.bitrate,
+        quality: analysis.quality,
+        qualityMetrics: analysis.qualityMetrics,
+        qualityEstimated: analysis.qualityEstimated
+      }
     };
   }
 
-  async processAudioFile(file: any, context: ProcessingContext): Promise<any> {
-    console.log('[AudioProcessingService] Processing audio file (mock)...');
-    return { success: true, audioId: context.audioId };
-  }
-
   handleUploadError(error: Error, context?: Record<string, unknown>): unknown {
     console.log('[AudioProcessingService] Handling upload error (mock)...', error.message);
     return { 
@@ -95,18 +254,50 @@ export class AudioProcessingService {
     };
   }
   
-  private determineQuality(size: number): 'excellent' | 'good' | 'fair' | 'poor' {
-    if (size > 10000000) return 'excellent';
-    if (size > 5000000) return 'good';
-    if (size > 1000000) return 'fair';
+  private probeDuration(audioBuffer: Buffer): number | undefined {
+    try {
+      return probeAudio(audioBuffer).duration;
+    } catch {
+      return undefined;
+    }
+  }
+  
+  private determineQuality(info: AudioStreamInfo, metrics?: AudioQualityMetrics): AudioQuality {
+    if (metrics) {
+      // Sinal quase todo silencioso ou muito clipado não serve para análise
+      if (metrics.silenceRatio > 0.9 || metrics.clippingRatio >= 0.05) return 'poor';
+      if (metrics.clippingRatio < 0.001 && metrics.snrDb >= 30 && metrics.silenceRatio < 0.5) return 'excellent';
+      if (metrics.clippingRatio < 0.01 && metrics.snrDb >= 20) return 'good';
+      if (metrics.snrDb >= 10) return 'fair';
+      return 'poor';
+    }
+    
+    // Codecs comprimidos: não há decoder para MP3/AAC/Vorbis, então o sinal não é medido.
+    // A qualidade é só uma estimativa pelas propriedades do stream (qualityEstimated)
+    if (info.sampleRate < 16000) return 'poor';
+    if (info.bitrate >= 192000 && info.sampleRate >= 44100) return 'excellent';
+    if (info.bitrate >= 128000) return 'good';
+    if (info.bitrate >= 64000) return 'fair';
     return 'poor';
   }
 }
 
+function uploadBody(request: UploadRequest): AsyncIterable<Uint8Array> | Iterable<Uint8Array> {
+  if (!request.body) return [];
+  return Buffer.isBuffer(request.body) ? [request.body] : request.body;
+}
+
+// 'true'/'false' viram boolean; qualquer outro valor segue como texto e falha no schema
+function parseBooleanField(value: string): boolean | string {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+}
+
 export const audioProcessingService = new AudioProcessingService();
 
 // Exports adicionais para compatibilidade
-export function validateUploadRequest(request: any): Promise<{ success: boolean; data?: any; error?: string }> {
+export function validateUploadRequest(request: UploadRequest): Promise<UploadValidationResult> {
   return audioProcessingService.validateUploadRequest(request);
 }
 
@@ -0,0 +1,352 @@
+/**
+ * Per-speaker baseline calibration
+ * A participant records a few known-truthful answers; their feature profile
+ * (speech rate, pauses, pitch, filler rate, sentiment) becomes the reference
+ * later analyses are scored against instead of population constants
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { SpeechRecognitionResult } from '../utils/typescript-fixes';
+import { tokenize, matchPhrases } from '../utils/phraseMatcher';
+import { resolveLocalePack } from '../core/locales/localePacks';
+import { BusinessLogicError, ConflictError, ErrorCode, NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { BaselineUpdateInput, participantIdSchema } from '../core/validation/schemas';
+import { decodePcm, probeAudio } from './audioDecoder';
+import { extractAcousticFeatures } from './audioFeatureExtractor';
+import { getSpeechToTextProvider } from './speech';
+
+export const BASELINE_FEATURES = [
+    'speechRate', // words per minute of speech (pauses excluded)
+    'pauseRatio',
+    'pitchMean',
+    'pitchStd',
+    'fillerRate', // per 100 words
+    'hesitationRate', // per 100 words
+    'sentimentPositive',
+    'sentimentNegative'
+] as const;
+
+export type BaselineFeature = typeof BASELINE_FEATURES[number];
+
+// One truthful answer; null when the feature could not be measured (e.g. compressed audio)
+export type BaselineMeasurement = Record<BaselineFeature, number | null>;
+
+export interface BaselineSample extends BaselineMeasurement {
+    id: string;
+    recordedAt: string;
+    duration: number;
+    transcript: string;
+}
+
+export interface FeatureStats {
+    mean: number;
+    std: number;
+    count: number;
+}
+
+export type BaselineProfile = Partial<Record<BaselineFeature, FeatureStats>>;
+
+export interface SpeakerBaseline {
+    participantId: string;
+    ownerId?: string; // Account that calibrated it; other accounts cannot see or change it
+    language: string;
+    samples: BaselineSample[];
+    profile: BaselineProfile;
+    typicalSentiment: 'positive' | 'negative' | 'neutral';
+    personalityProfile?: Record<string, unknown>;
+    ready: boolean; // enough samples to score against
+    createdAt: string;
+    updatedAt: string;
+}
+
+// How far an answer sits from the speaker's baseline, in standard deviations
+export interface BaselineComparison {
+    participantId?: string;
+    sampleCount: number;
+    deviations: Partial<Record<BaselineFeature, number>>;
+}
+
+export interface BaselineStore {
+    get(participantId: string): Promise<SpeakerBaseline | null>;
+    put(baseline: SpeakerBaseline): Promise<void>;
+    delete(participantId: string): Promise<boolean>;
+}
+
+export type SentimentAnalyzer = (text: string, language: string) => Promise<{ positive: number; negative: number } | null>;
+
+export const MIN_BASELINE_SAMPLES = 2;
+export const MAX_BASELINE_SAMPLES = 5;
+
+// Two or three samples rarely spread much, so deviations use a per-feature floor
+const MIN_FEATURE_STD: Record<BaselineFeature, number> = {
+    speechRate: 10,
+    pauseRatio: 0.05,
+    pitchMean: 10,
+    pitchStd: 5,
+    fillerRate: 1,
+    hesitationRate: 1,
+    sentimentPositive: 0.1,
+    sentimentNegative: 0.1
+};
+
+export class InMemoryBaselineStore implements BaselineStore {
+    private baselines = new Map<string, SpeakerBaseline>();
+
+    async get(participantId: string): Promise<SpeakerBaseline | null> {
+        return this.baselines.get(participantId) ?? null;
+    }
+
+    async put(baseline: SpeakerBaseline): Promise<void> {
+        this.baselines.set(baseline.participantId, baseline);
+    }
+
+    async delete(participantId: string): Promise<boolean> {
+        return this.baselines.delete(participantId);
+    }
+}
+
+/**
+ * Measure the baseline features of one answer. Used both for calibration samples
+ * and for the answer being analyzed, so both sides are measured the same way
+ */
+export function measureBaselineSample(
+    audio: Buffer,
+    speechResult: SpeechRecognitionResult,
+    sentiment?: { positive: number; negative: number } | null
+): BaselineMeasurement {
+    const words = tokenize(speechResult.recognizedText || '');
+    const { lexicons } = resolveLocalePack(speechResult.language).pack;
+    const pcm = decodePcm(audio);
+    const acoustic = pcm ? extractAcousticFeatures(pcm) : null;
+
+    const speechSeconds = acoustic ? acoustic.voiceActivity.speechDuration : speechResult.duration;
+    const voiced = acoustic !== null && acoustic.summary.voicedRatio > 0;
+    const per100Words = (count: number) => words.length > 0 ? count / words.length * 100 : null;
+
+    return {
+        speechRate: speechSeconds > 0 && words.length > 0 ? words.length / speechSeconds * 60 : null,
+        pauseRatio: acoustic ? acoustic.voiceActivity.pauses.ratio : null,
+        pitchMean: voiced ? acoustic.summary.pitchMean : null,
+        pitchStd: voiced ? acoustic.summary.pitchStd : null,
+        fillerRate: per100Words(matchPhrases(words, lexicons.fillerWords).length),
+        hesitationRate: per100Words(matchPhrases(words, lexicons.hesitationMarkers).length),
+        sentimentPositive: sentiment ? sentiment.positive : null,
+        sentimentNegative: sentiment ? sentiment.negative : null
+    };
+}
+
+export function computeBaselineProfile(samples: BaselineMeasurement[]): BaselineProfile {
+    const profile: BaselineProfile = {};
+    for (const feature of BASELINE_FEATURES) {
+        const values = samples.map(sample => sample[feature]).filter((value): value is number => value !== null);
+        if (values.length === 0) continue;
+
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        const variance = values.reduce((total, value) => total + Math.pow(value - mean, 2), 0) / values.length;
+        profile[feature] = { mean, std: Math.sqrt(variance), count: values.length };
+    }
+    return profile;
+}
+
+/**
+ * Signed z-score of each measured feature against the profile
+ */
+export function compareToBaseline(
+    measurement: BaselineMeasurement,
+    profile: BaselineProfile,
+    participantId?: string
+): BaselineComparison {
+    const deviations: Partial<Record<BaselineFeature, number>> = {};
+    let sampleCount = 0;
+
+    for (const feature of BASELINE_FEATURES) {
+        const stats = profile[feature];
+        const value = measurement[feature];
+        if (!stats || value === null) continue;
+
+        deviations[feature] = (value - stats.mean) / Math.max(stats.std, MIN_FEATURE_STD[feature]);
+        sampleCount = Math.max(sampleCount, stats.count);
+    }
+
+    return { participantId, sampleCount, deviations };
+}
+
+export class BaselineService {
+    constructor(
+        private store: BaselineStore = new InMemoryBaselineStore(),
+        private analyzeSentiment: SentimentAnalyzer = defaultSentimentAnalyzer
+    ) {}
+
+    /**
+     * Record one known-truthful answer, creating the baseline on first use
+     */
+    async addSample(
+        participantId: string,
+        audio: Buffer,
+        options: { language?: string; requestId?: string; ownerId?: string } = {}
+    ): Promise<SpeakerBaseline> {
+        this.validateParticipantId(participantId);
+        if (!audio || audio.length === 0) {
+            throw new ValidationError('Áudio de calibração vazio', { operation: 'addSample' });
+        }
+
+        const existing = await this.store.get(participantId);
+        if (existing && !isOwnedBy(existing, options.ownerId)) {
+            throw new ConflictError(`O participante ${participantId} já é calibrado por outra conta`, {
+                operation: 'addSample',
+                metadata: { participantId }
+            });
+        }
+        if (existing && existing.samples.length >= MAX_BASELINE_SAMPLES) {
+            throw new BusinessLogicError(
+                `Baseline já possui ${MAX_BASELINE_SAMPLES} amostras; remova uma antes de gravar outra`,
+                ErrorCode.VALUE_OUT_OF_RANGE,
+                { operation: 'addSample', metadata: { participantId } }
+            );
+        }
+
+        let duration: number;
+        try {
+            duration = probeAudio(audio).duration;
+        } catch (error) {
+            throw new ValidationError(
+                `Áudio de calibração inválido: ${error instanceof Error ? error.message : String(error)}`,
+                { operation: 'addSample' }
+            );
+        }
+
+        const language = options.language || existing?.language || 'pt-BR';
+        const speechResult = await getSpeechToTextProvider().transcribe(audio, {
+            language,
+            requestId: options.requestId
+        });
+        if (!speechResult.success || !speechResult.recognizedText) {
+            throw new BusinessLogicError(
+                `Não foi possível transcrever a amostra: ${speechResult.error || 'sem fala reconhecida'}`,
+                ErrorCode.AUDIO_PROCESSING_FAILED,
+                { operation: 'addSample', metadata: { participantId } }
+            );
+        }
+
+        const sentiment = await this.analyzeSentiment(speechResult.recognizedText, language)
+            .catch(error => {
+                logger.warn('Baseline sentiment unavailable', {
+                    participantId,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+                return null;
+            });
+
+        const sample: BaselineSample = {
+            id: randomUUID(),
+            recordedAt: new Date().toISOString(),
+            duration,
+            transcript: speechResult.recognizedText,
+            ...measureBaselineSample(audio, speechResult, sentiment)
+        };
+
+        const now = new Date().toISOString();
+        const baseline = this.rebuild({
+            participantId,
+            ownerId: existing ? existing.ownerId : options.ownerId,
+            language,
+            samples: [...(existing?.samples || []), sample],
+            profile: {},
+            typicalSentiment: 'neutral',
+            personalityProfile: existing?.personalityProfile,
+            ready: false,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now
+        });
+        await this.store.put(baseline);
+
+        logger.info('Baseline sample recorded', {
+            requestId: options.requestId,
+            participantId,
+            sampleCount: baseline.samples.length,
+            ready: baseline.ready
+        });
+        return baseline;
+    }
+
+    /**
+     * With an ownerId, another account's baseline is reported as missing rather than forbidden
+     */
+    async getBaseline(participantId: string, ownerId?: string): Promise<SpeakerBaseline | null> {
+        this.validateParticipantId(participantId);
+        const baseline = await this.store.get(participantId);
+        return baseline && isOwnedBy(baseline, ownerId) ? baseline : null;
+    }
+
+    async updateBaseline(participantId: string, update: BaselineUpdateInput, ownerId?: string): Promise<SpeakerBaseline> {
+        const existing = await this.getBaseline(participantId, ownerId);
+        if (!existing) {
+            throw new NotFoundError(`Baseline não encontrado para ${participantId}`, { operation: 'updateBaseline' });
+        }
+
+        const removed = new Set(update.removeSamples || []);
+        const baseline = this.rebuild({
+            ...existing,
+            language: update.language || existing.language,
+            personalityProfile: update.personalityProfile ?? existing.personalityProfile,
+            samples: existing.samples.filter(sample => !removed.has(sample.id)),
+            updatedAt: new Date().toISOString()
+        }, update.typicalSentiment);
+        await this.store.put(baseline);
+        return baseline;
+    }
+
+    async deleteBaseline(participantId: string, ownerId?: string): Promise<boolean> {
+        if (!await this.getBaseline(participantId, ownerId)) return false;
+        return this.store.delete(participantId);
+    }
+
+    /**
+     * Profile of a calibrated participant, or null while calibration is incomplete.
+     * Scoring passes the account the answer belongs to, so a participant id cannot
+     * pull in another account's profile
+     */
+    async getReadyBaseline(participantId: string, ownerId?: string): Promise<SpeakerBaseline | null> {
+        const baseline = await this.store.get(participantId);
+        return baseline?.ready && isOwnedBy(baseline, ownerId) ? baseline : null;
+    }
+
+    private rebuild(baseline: SpeakerBaseline, typicalSentiment?: SpeakerBaseline['typicalSentiment']): SpeakerBaseline {
+        const profile = computeBaselineProfile(baseline.samples);
+        return {
+            ...baseline,
+            profile,
+            typicalSentiment: typicalSentiment || classifySentiment(profile),
+            ready: baseline.samples.length >= MIN_BASELINE_SAMPLES
+        };
+    }
+
+    private validateParticipantId(participantId: string): void {
+        const parsed = participantIdSchema.safeParse(participantId);
+        if (!parsed.success) {
+            throw new ValidationError(parsed.error.issues[0].message, { operation: 'baseline' });
+        }
+    }
+}
+
+// Without an ownerId (admins, internal callers) every baseline is visible
+function isOwnedBy(baseline: SpeakerBaseline, ownerId?: string): boolean {
+    return ownerId === undefined || baseline.ownerId === ownerId;
+}
+
+function classifySentiment(profile: BaselineProfile): SpeakerBaseline['typicalSentiment'] {
+    const positive = profile.sentimentPositive?.mean ?? 0;
+    const negative = profile.sentimentNegative?.mean ?? 0;
+    if (Math.abs(positive - negative) < 0.1) return 'neutral';
+    return positive > negative ? 'positive' : 'negative';
+}
+
+// Text Analytics needs Azure credentials, so it is only loaded when a sample is recorded
+const defaultSentimentAnalyzer: SentimentAnalyzer = async (text, language) => {
+    const { textAnalyticsService } = await import('./textAnalyticsService');
+    const result = await textAnalyticsService.analyzeText(text, language.split('-')[0]);
+    return result.sentiment ? result.sentiment.scores : null;
+};
+
+export const baselineService = new BaselineService();
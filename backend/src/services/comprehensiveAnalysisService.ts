@@ -4,7 +4,8 @@
  */
 
 import { logger, createRequestLogger } from '../utils/logger';
-// import { speechService } from './speechService'; // Não disponível ainda
+import { getSpeechToTextProvider } from './speech';
+import { SpeechRecognitionResult } from '../utils/typescript-fixes';
 import { textAnalyticsService } from './textAnalyticsService';
 import { 
   TextAnalyticsRequest, 
@@ -15,7 +16,17 @@ import {
   ReinforcingPattern,
   AnalysisWeights
 } from '../types/comprehensive';
+import { AnalysisProgressListener } from '../types/analysisProgress';
 import { lieDetectionService, LieDetectionRequest } from './lieDetectionService';
+import { decodePcm } from './audioDecoder';
+import { detectVoiceActivity, VoiceActivityResult } from './voiceActivityDetector';
+import {
+    baselineService,
+    BaselineComparison,
+    BaselineProfile,
+    compareToBaseline,
+    measureBaselineSample
+} from './baselineService';
 
 // Comprehensive analysis interfaces
 export interface ComprehensiveAnalysisRequest {
@@ -23,6 +34,7 @@ export interface ComprehensiveAnalysisRequest {
     requestId: string;
     analysisOptions?: ComprehensiveAnalysisOptions;
     metadata?: AnalysisMetadata;
+    onProgress?: AnalysisProgressListener; // Step transitions with partial results (jobs, SSE)
 }
 
 export interface ComprehensiveAnalysisOptions {
@@ -38,15 +50,17 @@ export interface ComprehensiveAnalysisOptions {
 export interface AnalysisMetadata {
     sessionId?: string;
     participantId?: string;
+    ownerId?: string; // Account the answer belongs to; only its baselines are used
     contextType?: 'interview' | 'conversation' | 'testimony' | 'other';
     expectedDuration?: number;
     baseline?: BaselineData;
 }
 
+// Calibrated profile of the speaker; loaded from baselineService when only participantId is given
 export interface BaselineData {
-    normalSpeechPattern?: any;
+    normalSpeechPattern?: BaselineProfile;
     typicalSentiment?: string;
-    personalityProfile?: any;
+    personalityProfile?: Record<string, unknown>;
 }
 
 export interface ComprehensiveAnalysisResult {
@@ -58,10 +72,19 @@ export interface ComprehensiveAnalysisResult {
     detailedFindings: DetailedFindings;
     recommendations: Recommendation[];
     qualityMetrics: QualityMetrics;
+    transcription?: TranscriptionSummary;
     processingTime: number;
     error?: string;
 }
 
+// Same shape as analysisResultSchema.transcription
+export interface TranscriptionSummary {
+    text: string;
+    language: string; // ISO 639-1
+    confidence: number; // 0-100
+    words: Array<{ text: string; start: number; end: number; confidence: number }>;
+}
+
 export interface OverallScore {
     truthfulnessScore: number; // 0-1 scale (0 = deceptive, 1 = truthful)
     confidenceLevel: number; // 0-1 scale
@@ -207,32 +230,35 @@ export class ComprehensiveAnalysisService {
             const options = { ...this.defaultOptions, ...request.analysisOptions };
             const weights = options.customWeights || this.defaultWeights;
 
+            const emit: AnalysisProgressListener = request.onProgress || (() => undefined);
+
             // Step 1: Speech Recognition
             let speechResult = null;
             if (options.enableSpeechRecognition) {
                 requestLogger.info('Performing speech recognition');
-                const speechRequest = {
-                    audioData: request.audioData,
-                    requestId: request.requestId,
-                    recognitionOptions: {
-                        language: 'pt-BR',
-                        enableProfanityFilter: false,
-                        enableWordLevelTimestamps: true,
-                        enableConfidenceScores: true
-                    }
-                };
-                // speechResult = await speechService.recognizeSpeech(speechRequest); // Temporariamente desabilitado
-                speechResult = { success: true, transcription: 'Mock transcription', confidence: 0.9 };
+                emit({ step: 'speechRecognition', status: 'started' });
+                speechResult = await getSpeechToTextProvider().transcribe(request.audioData, {
+                    language: 'pt-BR',
+                    requestId: request.requestId
+                });
                 
                 if (!speechResult.success) {
                     throw new Error(`Speech recognition failed: ${speechResult.error}`);
                 }
+                emit({
+                    step: 'speechRecognition',
+                    status: 'completed',
+                    data: this.buildTranscriptionSummary(speechResult) ?? null
+                });
+            } else {
+                emit({ step: 'speechRecognition', status: 'skipped' });
             }
 
             // Step 2: Text Analytics
             let textAnalyticsResult = null;
             if (options.enableTextAnalytics && speechResult?.recognizedText) {
                 requestLogger.info('Performing text analytics');
+                emit({ step: 'textAnalytics', status: 'started' });
                 const textRequest: TextAnalyticsRequest = {
                     text: speechResult.recognizedText,
                     requestId: request.requestId,
@@ -252,15 +278,33 @@ export class ComprehensiveAnalysisService {
                         error: textAnalyticsResult.error
                     });
                 }
+                emit({
+                    step: 'textAnalytics',
+                    status: 'completed',
+                    data: {
+                        sentiment: textAnalyticsResult?.sentiment ?? null,
+                        keyPhrases: textAnalyticsResult?.keyPhrases?.phrases ?? []
+                    }
+                });
+            } else {
+                emit({ step: 'textAnalytics', status: 'skipped' });
             }
 
             // Step 3: Lie Detection
             let lieDetectionResult = null;
             if (options.enableLieDetection && speechResult) {
                 requestLogger.info('Performing lie detection analysis');
+                emit({ step: 'lieDetection', status: 'started' });
                 const lieRequest: LieDetectionRequest = {
                     speechResult,
                     requestId: request.requestId,
+                    voiceActivity: this.detectVoiceActivity(request.audioData, requestLogger),
+                    baseline: await this.compareWithBaseline(
+                        request,
+                        speechResult,
+                        textAnalyticsResult?.sentiment?.scores,
+                        requestLogger
+                    ),
                     analysisOptions: {
                         enableDeepAnalysis: options.enableDeepAnalysis ?? false,
                         includeConfidenceFactors: true,
@@ -275,10 +319,23 @@ export class ComprehensiveAnalysisService {
                         error: lieDetectionResult.error
                     });
                 }
+                emit({
+                    step: 'lieDetection',
+                    status: 'completed',
+                    data: lieDetectionResult.success ? {
+                        overallLieScore: lieDetectionResult.overallLieScore,
+                        confidence: lieDetectionResult.confidence,
+                        riskLevel: lieDetectionResult.riskLevel,
+                        indicators: lieDetectionResult.indicators
+                    } : null
+                });
+            } else {
+                emit({ step: 'lieDetection', status: 'skipped' });
             }
 
             // Step 4: Cross-Analysis and Synthesis
             requestLogger.info('Performing cross-analysis and synthesis');
+            emit({ step: 'crossAnalysis', status: 'started' });
             const comprehensiveAnalysis = await this.performCrossAnalysis(
                 speechResult,
                 textAnalyticsResult,
@@ -286,31 +343,42 @@ export class ComprehensiveAnalysisService {
                 weights,
                 requestLogger
             );
+            emit({ step: 'crossAnalysis', status: 'completed', data: comprehensiveAnalysis.crossAnalysis });
 
             // Step 5: Generate Overall Score
+            emit({ step: 'overallScore', status: 'started' });
             const overallScore = this.calculateOverallScore(comprehensiveAnalysis, weights);
+            emit({ step: 'overallScore', status: 'completed', data: overallScore });
 
             // Step 6: Generate Executive Summary
+            emit({ step: 'executiveSummary', status: 'started' });
             const executiveSummary = this.generateExecutiveSummary(comprehensiveAnalysis, overallScore);
+            emit({ step: 'executiveSummary', status: 'completed', data: executiveSummary });
 
             // Step 7: Generate Detailed Findings
+            emit({ step: 'detailedFindings', status: 'started' });
             const detailedFindings = this.generateDetailedFindings(
                 speechResult,
                 textAnalyticsResult,
                 lieDetectionResult,
                 comprehensiveAnalysis
             );
+            emit({ step: 'detailedFindings', status: 'completed', data: detailedFindings });
 
             // Step 8: Generate Recommendations
+            emit({ step: 'recommendations', status: 'started' });
             const recommendations = this.generateRecommendations(overallScore, comprehensiveAnalysis, options);
+            emit({ step: 'recommendations', status: 'completed', data: recommendations });
 
             // Step 9: Calculate Quality Metrics
+            emit({ step: 'qualityMetrics', status: 'started' });
             const qualityMetrics = this.calculateQualityMetrics(
                 speechResult,
                 textAnalyticsResult,
                 lieDetectionResult,
                 comprehensiveAnalysis
             );
+            emit({ step: 'qualityMetrics', status: 'completed', data: qualityMetrics });
 
             const processingTime = Date.now() - startTime;
 
@@ -330,6 +398,7 @@ export class ComprehensiveAnalysisService {
                 detailedFindings,
                 recommendations,
                 qualityMetrics,
+                transcription: this.buildTranscriptionSummary(speechResult),
                 processingTime
             };
 
@@ -354,6 +423,83 @@ export class ComprehensiveAnalysisService {
         }
     }
 
+    /**
+     * Deviations of this answer from the participant's calibrated baseline, if there is one
+     */
+    private async compareWithBaseline(
+        request: ComprehensiveAnalysisRequest,
+        speechResult: SpeechRecognitionResult,
+        sentiment: { positive: number; negative: number } | undefined,
+        requestLogger: ReturnType<typeof createRequestLogger>
+    ): Promise<BaselineComparison | undefined> {
+        const participantId = request.metadata?.participantId;
+        try {
+            let profile = request.metadata?.baseline?.normalSpeechPattern;
+            if (!profile && participantId) {
+                profile = (await baselineService.getReadyBaseline(participantId, request.metadata?.ownerId))?.profile;
+            }
+            if (!profile) return undefined;
+
+            const comparison = compareToBaseline(
+                measureBaselineSample(request.audioData, speechResult, sentiment),
+                profile,
+                participantId
+            );
+            requestLogger.info('Scoring against speaker baseline', {
+                participantId,
+                deviations: comparison.deviations
+            });
+            return comparison;
+        } catch (error) {
+            requestLogger.warn('Baseline comparison unavailable, using population norms', {
+                participantId,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return undefined;
+        }
+    }
+
+    /**
+     * Word-level transcript for the client (waveform highlighting)
+     */
+    private buildTranscriptionSummary(speechResult: SpeechRecognitionResult | null): TranscriptionSummary | undefined {
+        if (!speechResult?.success || !speechResult.recognizedText) return undefined;
+
+        return {
+            text: speechResult.recognizedText,
+            language: (speechResult.language || 'pt-BR').split('-')[0],
+            confidence: Math.round((speechResult.confidence ?? 0) * 100),
+            words: (speechResult.words || []).map(word => ({
+                text: word.word,
+                start: word.startTime,
+                end: word.endTime,
+                confidence: word.confidence
+            }))
+        };
+    }
+
+    /**
+     * Run VAD on the raw audio so pause metrics come from the signal, not from transcript segments
+     */
+    private detectVoiceActivity(
+        audioData: Buffer,
+        requestLogger: ReturnType<typeof createRequestLogger>
+    ): VoiceActivityResult | undefined {
+        try {
+            const pcm = decodePcm(audioData);
+            if (!pcm) {
+                requestLogger.info('Audio is not PCM, pause metrics will use transcript segments');
+                return undefined;
+            }
+            return detectVoiceActivity(pcm);
+        } catch (error) {
+            requestLogger.warn('Voice activity detection failed, using transcript segments', {
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return undefined;
+        }
+    }
+
     /**
      * Perform cross-analysis between different AI services
      */
@@ -1109,15 +1255,15 @@ export class ComprehensiveAnalysisService {
                 },
                 behavioralFactors: {
                     speechPatterns: { averagePauseLength: 0, pauseFrequency: 0, speechRate: 0, rateVariability: 0, score: 0 },
-                    responseLatency: { averageLatency: 0, variability: 0, delayedResponses: 0, score: 0 },
+                    responseLatency: { measured: false, averageLatency: 0, variability: 0, delayedResponses: 0, score: 0 },
                     verbosity: { wordCount: 0, expectedLength: 0, verbosityRatio: 0, score: 0 }
                 },
                 temporalFactors: {
-                    timelineConsistency: { chronologicalErrors: 0, timeGaps: 0, overSpecification: 0, score: 0 },
-                    detailProgression: { initialDetail: 0, addedDetails: 0, changedDetails: 0, score: 0 }
+                    timelineConsistency: { chronologicalErrors: null, timeGaps: null, overSpecification: 0, score: 0 },
+                    detailProgression: { initialDetail: 0, addedDetails: null, changedDetails: 0, score: 0 }
                 },
                 contextualFactors: {
-                    topicRelevance: { relevanceScore: 0, deflectionAttempts: 0, topicAvoidance: 0, score: 0 },
+                    topicRelevance: { relevanceScore: null, deflectionAttempts: 0, topicAvoidance: 0, score: 0 },
                     questionResponse: { directAnswers: 0, evasiveAnswers: 0, overExplanations: 0, score: 0 }
                 },
                 overallAssessment: {
@@ -0,0 +1,29 @@
+/**
+ * Bookkeeping behind content-addressed audio
+ * Every stored audio is named after its SHA-256, so identical uploads share
+ * one blob. A reference count per hash says how many uploads and history
+ * entries still point at it; the blob may only be deleted once it drops to
+ * zero. Finished analyses are remembered per hash, options and model version
+ * so the same audio is not analysed twice
+ */
+
+import type { ComprehensiveAnalysisResult } from '../comprehensiveAnalysisService';
+
+export type ContentStoreName = 'memory' | 'redis';
+
+export interface CachedAnalysis {
+    jobId: string; // Job that produced the result
+    result: ComprehensiveAnalysisResult;
+    analysedAt: string;
+}
+
+export interface ContentStore {
+    readonly name: ContentStoreName;
+    // Resolves the count after adding one reference
+    acquire(contentHash: string): Promise<number>;
+    // Resolves the count after dropping one reference; the counter is removed at zero and never goes below it
+    release(contentHash: string): Promise<number>;
+    references(contentHash: string): Promise<number>;
+    getAnalysis(key: string): Promise<CachedAnalysis | null>;
+    saveAnalysis(key: string, entry: CachedAnalysis, ttlSeconds: number): Promise<void>;
+}
@@ -0,0 +1,55 @@
+/**
+ * Content store selection
+ * CONTENT_STORE=memory|redis; without it Redis is used when REDIS_CONNECTION_STRING
+ * is configured and memory otherwise. With memory, reference counts are per
+ * process and reset on restart, which is only safe while stored audio does too
+ */
+
+import { logger } from '../../utils/logger';
+import { ContentStore, ContentStoreName } from './contentStore';
+import { MemoryContentStore } from './memoryContentStore';
+import { RedisContentStore } from './redisContentStore';
+
+export * from './contentStore';
+export { MemoryContentStore } from './memoryContentStore';
+export { RedisContentStore } from './redisContentStore';
+export type { RedisContentStoreOptions } from './redisContentStore';
+
+let store: ContentStore | null = null;
+
+export function createContentStore(name: ContentStoreName = resolveStoreName()): ContentStore {
+    switch (name) {
+        case 'memory':
+            return new MemoryContentStore();
+        case 'redis': {
+            const url = process.env.REDIS_CONNECTION_STRING;
+            if (!url) {
+                throw new Error('CONTENT_STORE=redis requires REDIS_CONNECTION_STRING');
+            }
+            return RedisContentStore.fromUrl(url, { keyPrefix: process.env.CONTENT_STORE_PREFIX });
+        }
+        default:
+            throw new Error(`Unknown content store: ${name}`);
+    }
+}
+
+export function getContentStore(): ContentStore {
+    if (!store) {
+        store = createContentStore();
+        logger.info('Content store initialized', { store: store.name });
+        if (store.name === 'memory' && process.env.NODE_ENV === 'production') {
+            logger.warn('Content references are per-process; configure REDIS_CONNECTION_STRING for multiple instances');
+        }
+    }
+    return store;
+}
+
+export function setContentStore(instance: ContentStore | null): void {
+    store = instance;
+}
+
+function resolveStoreName(): ContentStoreName {
+    const configured = process.env.CONTENT_STORE as ContentStoreName | undefined;
+    if (configured) return configured;
+    return process.env.REDIS_CONNECTION_STRING ? 'redis' : 'memory';
+}
@@ -0,0 +1,46 @@
+/**
+ * In-memory content references and analyses for tests and single-process development
+ * Expired analyses are dropped when they are next read
+ */
+
+import { CachedAnalysis, ContentStore, ContentStoreName } from './contentStore';
+
+export class MemoryContentStore implements ContentStore {
+    readonly name: ContentStoreName = 'memory';
+    private counts = new Map<string, number>();
+    private analyses = new Map<string, { entry: CachedAnalysis; expiresAt: number }>();
+
+    async acquire(contentHash: string): Promise<number> {
+        const count = (this.counts.get(contentHash) ?? 0) + 1;
+        this.counts.set(contentHash, count);
+        return count;
+    }
+
+    async release(contentHash: string): Promise<number> {
+        const count = Math.max((this.counts.get(contentHash) ?? 0) - 1, 0);
+        if (count === 0) {
+            this.counts.delete(contentHash);
+        } else {
+            this.counts.set(contentHash, count);
+        }
+        return count;
+    }
+
+    async references(contentHash: string): Promise<number> {
+        return this.counts.get(contentHash) ?? 0;
+    }
+
+    async getAnalysis(key: string): Promise<CachedAnalysis | null> {
+        const cached = this.analyses.get(key);
+        if (!cached) return null;
+        if (cached.expiresAt <= Date.now()) {
+            this.analyses.delete(key);
+            return null;
+        }
+        return cached.entry;
+    }
+
+    async saveAnalysis(key: string, entry: CachedAnalysis, ttlSeconds: number): Promise<void> {
+        this.analyses.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Redis content references and analyses, shared by every instance pointing at the same server
+ * Counts are plain integers changed atomically, so two instances deleting
+ * the last two references cannot both think the other one still holds it
+ */
+
+import Redis from 'ioredis';
+import type { CachedAnalysis, ContentStore, ContentStoreName } from './contentStore';
+
+export interface RedisContentStoreOptions {
+    keyPrefix?: string;
+}
+
+// KEYS count. Removes the counter instead of going to zero or below
+const RELEASE_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0') - 1
+if count <= 0 then
+  redis.call('DEL', KEYS[1])
+  return 0
+end
+redis.call('SET', KEYS[1], count)
+return count
+`;
+
+export class RedisContentStore implements ContentStore {
+    readonly name: ContentStoreName = 'redis';
+    private readonly prefix: string;
+
+    constructor(private client: Redis, options: RedisContentStoreOptions = {}) {
+        this.prefix = options.keyPrefix || 'qmm:content:';
+    }
+
+    static fromUrl(url: string, options: RedisContentStoreOptions = {}): RedisContentStore {
+        return new RedisContentStore(new Redis(url, { maxRetriesPerRequest: 3 }), options);
+    }
+
+    async acquire(contentHash: string): Promise<number> {
+        return this.client.incr(this.refKey(contentHash));
+    }
+
+    async release(contentHash: string): Promise<number> {
+        return await this.client.eval(RELEASE_SCRIPT, 1, this.refKey(contentHash)) as number;
+    }
+
+    async references(contentHash: string): Promise<number> {
+        return Number(await this.client.get(this.refKey(contentHash)) || 0);
+    }
+
+    async getAnalysis(key: string): Promise<CachedAnalysis | null> {
+        const raw = await this.client.get(this.analysisKey(key));
+        return raw ? JSON.parse(raw) as CachedAnalysis : null;
+    }
+
+    async saveAnalysis(key: string, entry: CachedAnalysis, ttlSeconds: number): Promise<void> {
+        await this.client.set(this.analysisKey(key), JSON.stringify(entry), 'EX', ttlSeconds);
+    }
+
+    private refKey(contentHash: string): string {
+        return `${this.prefix}refs:${contentHash}`;
+    }
+
+    private analysisKey(key: string): string {
+        return `${this.prefix}analysis:${key}`;
+    }
+}
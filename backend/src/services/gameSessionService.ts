@@ -0,0 +1,471 @@
+/**
+ * Game sessions for "Quem Mente Menos?"
+ * A game has players and rounds; each player records one answer per round,
+ * the answer is scored by lie detection and the player who lied least wins
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { BusinessLogicError, ErrorCode, NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import {
+    createGameSchema,
+    joinGameSchema,
+    startRoundSchema,
+    CreateGameInput,
+    JoinGameInput,
+    StartRoundInput
+} from '../core/validation/schemas';
+import type { LieDetectionResult } from './lieDetectionService';
+import { AudioContentService } from './audioContentService';
+import { baselineService, BaselineService } from './baselineService';
+
+export type GameStatus = 'lobby' | 'in_progress' | 'finished';
+
+export interface GamePlayer {
+    id: string;
+    name: string;
+    participantId?: string; // Calibrated baseline used to score this player's answers
+    joinedAt: string;
+}
+
+export interface RoundAnswer {
+    playerId: string;
+    requestId: string;
+    overallLieScore: number;
+    confidence: number;
+    riskLevel: LieDetectionResult['riskLevel'];
+    audioHash: string; // SHA-256 of the recording
+    reusedAudio?: { round: number; playerId: string }; // Earlier answer in this game with the same recording
+    submittedAt: string;
+}
+
+export interface GameRound {
+    number: number; // 1-based
+    prompt?: string;
+    status: 'open' | 'closed';
+    answers: RoundAnswer[];
+    startedAt: string;
+    closedAt?: string;
+}
+
+export interface PlayerScore {
+    totalLieScore: number;
+    answeredRounds: number;
+}
+
+export interface GameSession {
+    id: string;
+    name?: string;
+    ownerId?: string; // Account that hosts the game; the only one that can see or play it
+    status: GameStatus;
+    totalRounds: number;
+    maxPlayers: number;
+    players: GamePlayer[];
+    rounds: GameRound[];
+    scores: Record<string, PlayerScore>; // Cumulative, by player id
+    createdAt: string;
+    updatedAt: string;
+    finishedAt?: string;
+}
+
+export interface RankingEntry {
+    rank: number;
+    playerId: string;
+    name: string;
+    averageLieScore: number | null; // null when the player never answered
+    answeredRounds: number;
+}
+
+export interface GameSessionStore {
+    get(gameId: string): Promise<GameSession | null>;
+    put(game: GameSession): Promise<void>;
+    delete(gameId: string): Promise<boolean>;
+}
+
+export type AnswerAnalyzer = (
+    audio: Buffer,
+    context: { requestId: string; sessionId: string; participantId?: string; ownerId?: string }
+) => Promise<LieDetectionResult>;
+
+// Games are copied in and out so callers never mutate the stored state, as with a real database
+export class InMemoryGameSessionStore implements GameSessionStore {
+    private games = new Map<string, GameSession>();
+
+    async get(gameId: string): Promise<GameSession | null> {
+        const game = this.games.get(gameId);
+        return game ? structuredClone(game) : null;
+    }
+
+    async put(game: GameSession): Promise<void> {
+        this.games.set(game.id, structuredClone(game));
+    }
+
+    async delete(gameId: string): Promise<boolean> {
+        return this.games.delete(gameId);
+    }
+}
+
+/**
+ * First answer in the game recorded from the same audio, by any player.
+ * Answers stored before hashes were kept have no audioHash and never match
+ */
+export function findEarlierAnswer(game: GameSession, audioHash: string): RoundAnswer['reusedAudio'] {
+    for (const round of game.rounds) {
+        const earlier = round.answers.find(answer => answer.audioHash === audioHash);
+        if (earlier) return { round: round.number, playerId: earlier.playerId };
+    }
+    return undefined;
+}
+
+/**
+ * Rank players from lowest to highest average lie score. Ties go to the player
+ * with more answered rounds, then to whoever joined first; players who never
+ * answered are ranked last
+ */
+export function rankPlayers(game: GameSession): RankingEntry[] {
+    const entries = game.players.map((player, order) => {
+        const score = game.scores[player.id] || { totalLieScore: 0, answeredRounds: 0 };
+        return {
+            order,
+            playerId: player.id,
+            name: player.name,
+            averageLieScore: score.answeredRounds > 0 ? score.totalLieScore / score.answeredRounds : null,
+            answeredRounds: score.answeredRounds
+        };
+    });
+
+    entries.sort((a, b) => {
+        if (a.averageLieScore === null || b.averageLieScore === null) {
+            if (a.averageLieScore !== b.averageLieScore) return a.averageLieScore === null ? 1 : -1;
+        } else if (a.averageLieScore !== b.averageLieScore) {
+            return a.averageLieScore - b.averageLieScore;
+        }
+        return b.answeredRounds - a.answeredRounds || a.order - b.order;
+    });
+
+    return entries.map(({ order: _order, ...entry }, index) => ({ rank: index + 1, ...entry }));
+}
+
+export class GameSessionService {
+    // Per-game promise chains so concurrent answers don't overwrite each other
+    private locks = new Map<string, Promise<unknown>>();
+
+    constructor(
+        private store: GameSessionStore = new InMemoryGameSessionStore(),
+        private analyzeAnswer: AnswerAnalyzer = defaultAnswerAnalyzer,
+        private baselines: BaselineService = baselineService
+    ) {}
+
+    async createGame(input: CreateGameInput = {}, ownerId?: string): Promise<GameSession> {
+        const options = this.parse(createGameSchema, input, 'createGame');
+        const now = new Date().toISOString();
+        const game: GameSession = {
+            id: randomUUID(),
+            name: options.name,
+            ownerId,
+            status: 'lobby',
+            totalRounds: options.totalRounds,
+            maxPlayers: options.maxPlayers,
+            players: [],
+            rounds: [],
+            scores: {},
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.store.put(game);
+
+        logger.info('Game created', { gameId: game.id, ownerId, totalRounds: game.totalRounds, maxPlayers: game.maxPlayers });
+        return game;
+    }
+
+    /**
+     * With an ownerId, another account's game is reported as missing rather than forbidden
+     */
+    async getGame(gameId: string, ownerId?: string): Promise<GameSession> {
+        const game = await this.store.get(gameId);
+        if (!game || (ownerId !== undefined && game.ownerId !== ownerId)) {
+            throw new NotFoundError(`Jogo não encontrado: ${gameId}`, { operation: 'getGame' });
+        }
+        return game;
+    }
+
+    async joinGame(gameId: string, input: JoinGameInput, ownerId?: string): Promise<GamePlayer> {
+        const details = this.parse(joinGameSchema, input, 'joinGame');
+
+        return this.withLock(gameId, async () => {
+            const game = await this.getGame(gameId, ownerId);
+            this.assertStatus(game, ['lobby'], 'Jogadores só podem entrar antes da primeira rodada');
+            if (game.players.length >= game.maxPlayers) {
+                throw new BusinessLogicError(`O jogo já tem ${game.maxPlayers} jogadores`, ErrorCode.VALUE_OUT_OF_RANGE, {
+                    operation: 'joinGame',
+                    metadata: { gameId }
+                });
+            }
+            if (game.players.some(player => player.name.toLowerCase() === details.name.toLowerCase())) {
+                throw new ValidationError(`Já existe um jogador chamado ${details.name}`, { operation: 'joinGame' });
+            }
+            // Answers are scored with the host's baselines only, so the participant must be one of them
+            if (details.participantId && !await this.baselines.getBaseline(details.participantId, game.ownerId)) {
+                throw new ValidationError(`Baseline não encontrado para ${details.participantId}`, { operation: 'joinGame' });
+            }
+
+            const player: GamePlayer = {
+                id: randomUUID(),
+                name: details.name,
+                participantId: details.participantId,
+                joinedAt: new Date().toISOString()
+            };
+            game.players.push(player);
+            game.scores[player.id] = { totalLieScore: 0, answeredRounds: 0 };
+            await this.save(game);
+
+            logger.info('Player joined game', { gameId, playerId: player.id, playerCount: game.players.length });
+            return player;
+        });
+    }
+
+    /**
+     * Open the next round, closing the current one. The first round starts the game
+     */
+    async startRound(gameId: string, input: StartRoundInput = {}, ownerId?: string): Promise<GameRound> {
+        const details = this.parse(startRoundSchema, input, 'startRound');
+
+        return this.withLock(gameId, async () => {
+            const game = await this.getGame(gameId, ownerId);
+            this.assertStatus(game, ['lobby', 'in_progress'], 'O jogo já terminou');
+            if (game.players.length < 2) {
+                throw new BusinessLogicError('São necessários pelo menos 2 jogadores', ErrorCode.INVALID_GAME_STATE, {
+                    operation: 'startRound',
+                    metadata: { gameId }
+                });
+            }
+            if (game.rounds.length >= game.totalRounds) {
+                throw new BusinessLogicError(`Todas as ${game.totalRounds} rodadas já foram jogadas`, ErrorCode.INVALID_GAME_STATE, {
+                    operation: 'startRound',
+                    metadata: { gameId }
+                });
+            }
+
+            const now = new Date().toISOString();
+            const current = game.rounds[game.rounds.length - 1];
+            if (current?.status === 'open') {
+                current.status = 'closed';
+                current.closedAt = now;
+            }
+
+            const round: GameRound = {
+                number: game.rounds.length + 1,
+                prompt: details.prompt,
+                status: 'open',
+                answers: [],
+                startedAt: now
+            };
+            game.rounds.push(round);
+            game.status = 'in_progress';
+            await this.save(game);
+
+            logger.info('Round started', { gameId, round: round.number });
+            return round;
+        });
+    }
+
+    /**
+     * Score a player's recorded answer and attach it to an open round.
+     * The round closes itself once every player has answered. A recording
+     * already submitted earlier in the game is accepted but flagged
+     */
+    async submitAnswer(
+        gameId: string,
+        roundNumber: number,
+        playerId: string,
+        audio: Buffer,
+        requestId: string = randomUUID(),
+        ownerId?: string
+    ): Promise<RoundAnswer> {
+        if (!audio || audio.length === 0) {
+            throw new ValidationError('Áudio da resposta vazio', { operation: 'submitAnswer' });
+        }
+
+        // Validate before running the (slow) analysis, then re-check under the lock
+        const current = await this.getGame(gameId, ownerId);
+        const player = this.findOpenSlot(current, roundNumber, playerId).player;
+
+        const result = await this.analyzeAnswer(audio, {
+            requestId,
+            sessionId: gameId,
+            participantId: player.participantId,
+            ownerId: current.ownerId
+        });
+        if (!result.success) {
+            throw new BusinessLogicError(
+                `Não foi possível analisar a resposta: ${result.error || 'falha na detecção'}`,
+                ErrorCode.AUDIO_PROCESSING_FAILED,
+                { requestId, operation: 'submitAnswer', metadata: { gameId, playerId } }
+            );
+        }
+
+        return this.withLock(gameId, async () => {
+            const game = await this.getGame(gameId, ownerId);
+            const { round } = this.findOpenSlot(game, roundNumber, playerId);
+
+            const audioHash = AudioContentService.hash(audio);
+            const answer: RoundAnswer = {
+                playerId,
+                requestId,
+                overallLieScore: result.overallLieScore,
+                confidence: result.confidence,
+                riskLevel: result.riskLevel,
+                audioHash,
+                reusedAudio: findEarlierAnswer(game, audioHash),
+                submittedAt: new Date().toISOString()
+            };
+            if (answer.reusedAudio) {
+                logger.warn('Answer reuses a recording already submitted in this game', {
+                    requestId,
+                    gameId,
+                    round: roundNumber,
+                    playerId,
+                    reusedFrom: answer.reusedAudio
+                });
+            }
+            round.answers.push(answer);
+            game.scores[playerId].totalLieScore += answer.overallLieScore;
+            game.scores[playerId].answeredRounds += 1;
+
+            if (round.answers.length === game.players.length) {
+                round.status = 'closed';
+                round.closedAt = answer.submittedAt;
+            }
+            await this.save(game);
+
+            logger.info('Answer recorded', {
+                requestId,
+                gameId,
+                round: roundNumber,
+                playerId,
+                overallLieScore: answer.overallLieScore,
+                roundClosed: round.status === 'closed'
+            });
+            return answer;
+        });
+    }
+
+    /**
+     * End the game and rank who lied least
+     */
+    async finishGame(gameId: string, ownerId?: string): Promise<{ game: GameSession; ranking: RankingEntry[] }> {
+        return this.withLock(gameId, async () => {
+            const game = await this.getGame(gameId, ownerId);
+            this.assertStatus(game, ['in_progress'], 'Só é possível encerrar um jogo em andamento');
+
+            const now = new Date().toISOString();
+            for (const round of game.rounds) {
+                if (round.status === 'open') {
+                    round.status = 'closed';
+                    round.closedAt = now;
+                }
+            }
+            game.status = 'finished';
+            game.finishedAt = now;
+            await this.save(game);
+
+            const ranking = rankPlayers(game);
+            logger.info('Game finished', { gameId, rounds: game.rounds.length, winner: ranking[0]?.playerId });
+            return { game, ranking };
+        });
+    }
+
+    async getRanking(gameId: string, ownerId?: string): Promise<RankingEntry[]> {
+        return rankPlayers(await this.getGame(gameId, ownerId));
+    }
+
+    async deleteGame(gameId: string): Promise<boolean> {
+        return this.store.delete(gameId);
+    }
+
+    private findOpenSlot(game: GameSession, roundNumber: number, playerId: string): { round: GameRound; player: GamePlayer } {
+        this.assertStatus(game, ['in_progress'], 'O jogo não está em andamento');
+
+        const player = game.players.find(candidate => candidate.id === playerId);
+        if (!player) {
+            throw new NotFoundError(`Jogador não encontrado: ${playerId}`, { operation: 'submitAnswer' });
+        }
+        const round = game.rounds.find(candidate => candidate.number === roundNumber);
+        if (!round) {
+            throw new NotFoundError(`Rodada não encontrada: ${roundNumber}`, { operation: 'submitAnswer' });
+        }
+        if (round.status !== 'open') {
+            throw new BusinessLogicError(`A rodada ${roundNumber} já foi encerrada`, ErrorCode.INVALID_GAME_STATE, {
+                operation: 'submitAnswer',
+                metadata: { gameId: game.id, round: roundNumber }
+            });
+        }
+        if (round.answers.some(answer => answer.playerId === playerId)) {
+            throw new BusinessLogicError(`${player.name} já respondeu a rodada ${roundNumber}`, ErrorCode.INVALID_GAME_STATE, {
+                operation: 'submitAnswer',
+                metadata: { gameId: game.id, round: roundNumber, playerId }
+            });
+        }
+        return { round, player };
+    }
+
+    private assertStatus(game: GameSession, allowed: GameStatus[], message: string): void {
+        if (!allowed.includes(game.status)) {
+            throw new BusinessLogicError(message, ErrorCode.INVALID_GAME_STATE, {
+                metadata: { gameId: game.id, status: game.status }
+            });
+        }
+    }
+
+    private async save(game: GameSession): Promise<void> {
+        game.updatedAt = new Date().toISOString();
+        await this.store.put(game);
+    }
+
+    private parse<T extends z.ZodTypeAny>(schema: T, input: unknown, operation: string): z.infer<T> {
+        const parsed = schema.safeParse(input);
+        if (!parsed.success) {
+            throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), { operation });
+        }
+        return parsed.data;
+    }
+
+    private async withLock<T>(gameId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.locks.get(gameId) || Promise.resolve();
+        const run = previous.catch(() => undefined).then(task);
+        const settled = run.catch(() => undefined);
+        this.locks.set(gameId, settled);
+        settled.then(() => {
+            if (this.locks.get(gameId) === settled) this.locks.delete(gameId);
+        });
+        return run;
+    }
+}
+
+// The full pipeline pulls in Text Analytics (Azure credentials), so it is only loaded when an answer arrives
+const defaultAnswerAnalyzer: AnswerAnalyzer = async (audio, context) => {
+    const { comprehensiveAnalysisService } = await import('./comprehensiveAnalysisService');
+    const result = await comprehensiveAnalysisService.analyzeComprehensively({
+        audioData: audio,
+        requestId: context.requestId,
+        metadata: {
+            sessionId: context.sessionId,
+            participantId: context.participantId,
+            ownerId: context.ownerId,
+            contextType: 'conversation'
+        }
+    });
+
+    const lieDetection = result.comprehensiveAnalysis?.lieDetection as LieDetectionResult | undefined;
+    if (!result.success || !lieDetection) {
+        throw new BusinessLogicError(
+            `Não foi possível analisar a resposta: ${result.error || 'detecção indisponível'}`,
+            ErrorCode.AUDIO_PROCESSING_FAILED,
+            { requestId: context.requestId, operation: 'submitAnswer', metadata: { gameId: context.sessionId } }
+        );
+    }
+    return lieDetection;
+};
+
+export const gameSessionService = new GameSessionService();
@@ -0,0 +1,88 @@
+/**
+ * Analysis history contract
+ * Records follow analysisResultSchema and are validated on every write, whatever
+ * the backend. Listings are newest first; the cursor is opaque to callers and
+ * each backend encodes its own position in it
+ */
+
+import { AnalysisResult, analysisResultSchema } from '../../core/validation/schemas';
+import { ValidationError } from '../../core/errors/CustomErrors';
+
+export type AnalysisRepositoryName = 'memory' | 'file' | 'cosmos';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export type VerdictClassification = AnalysisResult['analysis']['verdict']['classification'];
+
+export interface AnalysisQuery {
+    userId?: string;
+    from?: Date; // Inclusive
+    to?: Date; // Inclusive
+    riskLevel?: RiskLevel;
+    classification?: VerdictClassification;
+    limit: number;
+    cursor?: string;
+}
+
+export interface AnalysisPage {
+    items: AnalysisResult[];
+    nextCursor: string | null; // null on the last page
+}
+
+export interface AnalysisRepository {
+    readonly name: AnalysisRepositoryName;
+
+    // Insert or replace by id
+    save(record: AnalysisResult): Promise<AnalysisResult>;
+    get(id: string): Promise<AnalysisResult | null>;
+    delete(id: string): Promise<boolean>;
+    query(query: AnalysisQuery): Promise<AnalysisPage>;
+}
+
+// Same cut-offs as lieDetectionService's default thresholds, on the stored 0-100 scale
+export const RISK_LEVEL_RANGES: Record<RiskLevel, { above: number | null; upTo: number | null }> = {
+    low: { above: null, upTo: 30 },
+    medium: { above: 30, upTo: 70 },
+    high: { above: 70, upTo: null }
+};
+
+export function riskLevelOf(lieScore: number): RiskLevel {
+    if (lieScore <= RISK_LEVEL_RANGES.low.upTo!) return 'low';
+    if (lieScore <= RISK_LEVEL_RANGES.medium.upTo!) return 'medium';
+    return 'high';
+}
+
+/**
+ * Parse a record against analysisResultSchema. Stored JSON carries the timestamp as a
+ * string, so it is revived before parsing
+ */
+export function validateAnalysisRecord(record: unknown): AnalysisResult {
+    const candidate = record && typeof record === 'object' && typeof (record as { timestamp?: unknown }).timestamp === 'string'
+        ? { ...record, timestamp: new Date((record as { timestamp: string }).timestamp) }
+        : record;
+
+    const parsed = analysisResultSchema.safeParse(candidate);
+    if (!parsed.success) {
+        throw new ValidationError(
+            `Registro de análise inválido: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+            { operation: 'saveAnalysis' }
+        );
+    }
+    return parsed.data;
+}
+
+export function matchesQuery(record: AnalysisResult, query: AnalysisQuery): boolean {
+    if (query.userId && record.userId !== query.userId) return false;
+    if (query.from && record.timestamp < query.from) return false;
+    if (query.to && record.timestamp > query.to) return false;
+    if (query.riskLevel && riskLevelOf(record.analysis.lieScore) !== query.riskLevel) return false;
+    if (query.classification && record.analysis.verdict.classification !== query.classification) return false;
+    return true;
+}
+
+// Newest first; id breaks ties so the order is total and cursors are stable
+export function compareNewestFirst(a: AnalysisResult, b: AnalysisResult): number {
+    const byTime = b.timestamp.getTime() - a.timestamp.getTime();
+    if (byTime !== 0) return byTime;
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
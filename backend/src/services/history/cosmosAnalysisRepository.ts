@@ -0,0 +1,157 @@
+/**
+ * Analysis history in Azure Cosmos DB (NoSQL API)
+ * One document per analysis in a container partitioned by /userId, so a user's
+ * history is a single-partition query. The database and container are created
+ * on first use. The cursor is Cosmos' continuation token
+ */
+
+import { Container, CosmosClient, SqlParameter, SqlQuerySpec } from '@azure/cosmos';
+import { logger } from '../../utils/logger';
+import { AnalysisResult } from '../../core/validation/schemas';
+import { ExternalServiceError } from '../../core/errors/CustomErrors';
+import {
+    AnalysisPage,
+    AnalysisQuery,
+    AnalysisRepository,
+    AnalysisRepositoryName,
+    RISK_LEVEL_RANGES,
+    validateAnalysisRecord
+} from './analysisRepository';
+
+export interface CosmosAnalysisRepositoryOptions {
+    endpoint: string;
+    key: string;
+    databaseId: string;
+    containerId?: string;
+}
+
+export class CosmosAnalysisRepository implements AnalysisRepository {
+    readonly name: AnalysisRepositoryName = 'cosmos';
+    private containerPromise: Promise<Container> | null = null;
+    private readonly client: CosmosClient;
+
+    constructor(private options: CosmosAnalysisRepositoryOptions) {
+        this.client = new CosmosClient({ endpoint: options.endpoint, key: options.key });
+    }
+
+    async save(record: AnalysisResult): Promise<AnalysisResult> {
+        const valid = validateAnalysisRecord(record);
+        const container = await this.container();
+        try {
+            await container.items.upsert({ ...valid, timestamp: valid.timestamp.toISOString() });
+            return valid;
+        } catch (error) {
+            throw this.wrap('saveAnalysis', error);
+        }
+    }
+
+    async get(id: string): Promise<AnalysisResult | null> {
+        const container = await this.container();
+        try {
+            // The partition (userId) is not known from the id alone
+            const { resources } = await container.items.query<Record<string, unknown>>({
+                query: 'SELECT * FROM c WHERE c.id = @id',
+                parameters: [{ name: '@id', value: id }]
+            }).fetchAll();
+            return resources.length > 0 ? validateAnalysisRecord(resources[0]) : null;
+        } catch (error) {
+            throw this.wrap('getAnalysis', error);
+        }
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const record = await this.get(id);
+        if (!record) return false;
+
+        const container = await this.container();
+        try {
+            await container.item(id, record.userId).delete();
+            return true;
+        } catch (error) {
+            if ((error as { code?: number }).code === 404) return false;
+            throw this.wrap('deleteAnalysis', error);
+        }
+    }
+
+    async query(query: AnalysisQuery): Promise<AnalysisPage> {
+        const container = await this.container();
+        try {
+            const iterator = container.items.query<Record<string, unknown>>(buildQuerySpec(query), {
+                maxItemCount: query.limit,
+                continuationToken: query.cursor,
+                partitionKey: query.userId
+            });
+
+            // Cross-partition ORDER BY can hand back empty pages before the data
+            let page = await iterator.fetchNext();
+            while (page.resources.length === 0 && page.hasMoreResults && page.continuationToken) {
+                page = await iterator.fetchNext();
+            }
+
+            return {
+                items: page.resources.map(resource => validateAnalysisRecord(resource)),
+                nextCursor: page.hasMoreResults && page.continuationToken ? page.continuationToken : null
+            };
+        } catch (error) {
+            throw this.wrap('listAnalyses', error);
+        }
+    }
+
+    private container(): Promise<Container> {
+        if (!this.containerPromise) {
+            this.containerPromise = this.createContainer().catch(error => {
+                this.containerPromise = null;
+                throw this.wrap('initializeAnalysisHistory', error);
+            });
+        }
+        return this.containerPromise;
+    }
+
+    private async createContainer(): Promise<Container> {
+        const { database } = await this.client.databases.createIfNotExists({ id: this.options.databaseId });
+        const { container } = await database.containers.createIfNotExists({
+            id: this.options.containerId || 'analyses',
+            partitionKey: { paths: ['/userId'] }
+        });
+        logger.info('Cosmos DB analysis history ready', {
+            databaseId: this.options.databaseId,
+            containerId: container.id
+        });
+        return container;
+    }
+
+    private wrap(operation: string, error: unknown): Error {
+        if (error instanceof ExternalServiceError) return error;
+        return new ExternalServiceError(
+            `Falha ao acessar o histórico de análises: ${error instanceof Error ? error.message : String(error)}`,
+            'CosmosDB',
+            error instanceof Error ? error : undefined,
+            { operation }
+        );
+    }
+}
+
+export function buildQuerySpec(query: AnalysisQuery): SqlQuerySpec {
+    const conditions: string[] = [];
+    const parameters: SqlParameter[] = [];
+    const add = (condition: string, name: string, value: string | number) => {
+        conditions.push(condition);
+        parameters.push({ name, value });
+    };
+
+    if (query.userId) add('c.userId = @userId', '@userId', query.userId);
+    if (query.from) add('c.timestamp >= @from', '@from', query.from.toISOString());
+    if (query.to) add('c.timestamp <= @to', '@to', query.to.toISOString());
+    if (query.classification) add('c.analysis.verdict.classification = @classification', '@classification', query.classification);
+    if (query.riskLevel) {
+        const range = RISK_LEVEL_RANGES[query.riskLevel];
+        if (range.above !== null) add('c.analysis.lieScore > @riskAbove', '@riskAbove', range.above);
+        if (range.upTo !== null) add('c.analysis.lieScore <= @riskUpTo', '@riskUpTo', range.upTo);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    return {
+        query: `SELECT * FROM c${where} ORDER BY c.timestamp DESC`,
+        parameters
+    };
+}
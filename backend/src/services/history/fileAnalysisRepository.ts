@@ -0,0 +1,86 @@
+/**
+ * Analysis history in a local JSON file, the offline stand-in for Cosmos DB
+ * The whole history is held in memory and rewritten on each change (temp file +
+ * rename, so a crash never leaves a half-written file). Meant for development
+ * and single-instance deployments, not for many writers
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { AnalysisResult } from '../../core/validation/schemas';
+import { AnalysisPage, AnalysisQuery, AnalysisRepositoryName, validateAnalysisRecord } from './analysisRepository';
+import { MemoryAnalysisRepository } from './memoryAnalysisRepository';
+
+export class FileAnalysisRepository extends MemoryAnalysisRepository {
+    readonly name: AnalysisRepositoryName = 'file';
+    private loading: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {
+        super();
+    }
+
+    async save(record: AnalysisResult): Promise<AnalysisResult> {
+        await this.load();
+        return super.save(record);
+    }
+
+    async get(id: string): Promise<AnalysisResult | null> {
+        await this.load();
+        return super.get(id);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        await this.load();
+        return super.delete(id);
+    }
+
+    async query(query: AnalysisQuery): Promise<AnalysisPage> {
+        await this.load();
+        return super.query(query);
+    }
+
+    protected async persist(): Promise<void> {
+        const snapshot = JSON.stringify([...this.records.values()], null, 2);
+        // Writes are chained so an older snapshot never lands after a newer one
+        this.writing = this.writing.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temp = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(temp, snapshot, 'utf8');
+            await fs.rename(temp, this.filePath);
+        });
+        return this.writing;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readFile();
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+            throw error;
+        }
+
+        const stored = JSON.parse(content) as unknown[];
+        for (const entry of stored) {
+            try {
+                const record = validateAnalysisRecord(entry);
+                this.records.set(record.id, record);
+            } catch (error) {
+                logger.warn('Skipping invalid analysis record in history file', {
+                    filePath: this.filePath,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+        logger.info('Analysis history loaded', { filePath: this.filePath, count: this.records.size });
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Analysis history backend selection
+ * ANALYSIS_REPOSITORY=cosmos|file|memory; without it Cosmos DB is used when
+ * COSMOS_DB_ENDPOINT and COSMOS_DB_KEY are configured and a local JSON file
+ * (ANALYSIS_HISTORY_PATH, default ./data/analyses.json) otherwise
+ */
+
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { AnalysisRepository, AnalysisRepositoryName } from './analysisRepository';
+import { MemoryAnalysisRepository } from './memoryAnalysisRepository';
+import { FileAnalysisRepository } from './fileAnalysisRepository';
+import { CosmosAnalysisRepository } from './cosmosAnalysisRepository';
+
+export * from './analysisRepository';
+export { MemoryAnalysisRepository } from './memoryAnalysisRepository';
+export { FileAnalysisRepository } from './fileAnalysisRepository';
+export { CosmosAnalysisRepository, buildQuerySpec } from './cosmosAnalysisRepository';
+export type { CosmosAnalysisRepositoryOptions } from './cosmosAnalysisRepository';
+
+let repository: AnalysisRepository | null = null;
+
+export function createAnalysisRepository(name: AnalysisRepositoryName = resolveRepositoryName()): AnalysisRepository {
+    switch (name) {
+        case 'memory':
+            return new MemoryAnalysisRepository();
+        case 'file':
+            return new FileAnalysisRepository(
+                path.resolve(process.env.ANALYSIS_HISTORY_PATH || path.join('data', 'analyses.json'))
+            );
+        case 'cosmos': {
+            const endpoint = process.env.COSMOS_DB_ENDPOINT;
+            const key = process.env.COSMOS_DB_KEY;
+            if (!endpoint || !key) {
+                throw new Error('ANALYSIS_REPOSITORY=cosmos requires COSMOS_DB_ENDPOINT and COSMOS_DB_KEY');
+            }
+            return new CosmosAnalysisRepository({
+                endpoint,
+                key,
+                databaseId: process.env.COSMOS_DB_DATABASE || 'quem-mente-menos',
+                containerId: process.env.COSMOS_DB_ANALYSES_CONTAINER
+            });
+        }
+        default:
+            throw new Error(`Unknown analysis repository: ${name}`);
+    }
+}
+
+/**
+ * Shared repository instance, created on first use so missing credentials do not break imports
+ */
+export function getAnalysisRepository(): AnalysisRepository {
+    if (!repository) {
+        repository = createAnalysisRepository();
+        logger.info('Analysis repository initialized', { repository: repository.name });
+    }
+    return repository;
+}
+
+export function setAnalysisRepository(instance: AnalysisRepository | null): void {
+    repository = instance;
+}
+
+function resolveRepositoryName(): AnalysisRepositoryName {
+    const configured = process.env.ANALYSIS_REPOSITORY as AnalysisRepositoryName | undefined;
+    if (configured) return configured;
+    return process.env.COSMOS_DB_ENDPOINT && process.env.COSMOS_DB_KEY ? 'cosmos' : 'file';
+}
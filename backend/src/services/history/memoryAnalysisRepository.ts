@@ -0,0 +1,83 @@
+/**
+ * In-memory analysis history for tests and single-process development
+ */
+
+import { AnalysisResult } from '../../core/validation/schemas';
+import { ValidationError } from '../../core/errors/CustomErrors';
+import {
+    AnalysisPage,
+    AnalysisQuery,
+    AnalysisRepository,
+    AnalysisRepositoryName,
+    compareNewestFirst,
+    matchesQuery,
+    validateAnalysisRecord
+} from './analysisRepository';
+
+// Keyset position: the last item of the previous page
+interface CursorPosition {
+    t: number;
+    id: string;
+}
+
+export class MemoryAnalysisRepository implements AnalysisRepository {
+    readonly name: AnalysisRepositoryName = 'memory';
+    protected records = new Map<string, AnalysisResult>();
+
+    async save(record: AnalysisResult): Promise<AnalysisResult> {
+        const valid = validateAnalysisRecord(record);
+        this.records.set(valid.id, structuredClone(valid));
+        await this.persist();
+        return structuredClone(valid);
+    }
+
+    async get(id: string): Promise<AnalysisResult | null> {
+        const record = this.records.get(id);
+        return record ? structuredClone(record) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = this.records.delete(id);
+        if (deleted) await this.persist();
+        return deleted;
+    }
+
+    async query(query: AnalysisQuery): Promise<AnalysisPage> {
+        const after = query.cursor ? decodeCursor(query.cursor) : null;
+        const matching = [...this.records.values()]
+            .filter(record => matchesQuery(record, query))
+            .sort(compareNewestFirst)
+            .filter(record => !after || compareNewestFirst(record, positionRecord(after)) > 0);
+
+        const items = matching.slice(0, query.limit);
+        const last = items[items.length - 1];
+        return {
+            items: items.map(record => structuredClone(record)),
+            nextCursor: matching.length > query.limit ? encodeCursor({ t: last.timestamp.getTime(), id: last.id }) : null
+        };
+    }
+
+    // Hook for subclasses that keep the records somewhere durable
+    protected async persist(): Promise<void> {
+        return undefined;
+    }
+}
+
+function encodeCursor(position: CursorPosition): string {
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPosition;
+        if (typeof position.t === 'number' && typeof position.id === 'string') return position;
+    } catch {
+        // fall through
+    }
+    throw new ValidationError('Cursor de paginação inválido', { operation: 'listAnalyses' });
+}
+
+// Only the sort keys matter when comparing against the cursor
+function positionRecord(position: CursorPosition): AnalysisResult {
+    return { id: position.id, timestamp: new Date(position.t) } as AnalysisResult;
+}
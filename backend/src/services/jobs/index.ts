@@ -0,0 +1,57 @@
+/**
+ * Job queue selection
+ * JOB_QUEUE=memory|redis; without it Redis is used when REDIS_CONNECTION_STRING
+ * is configured and the in-memory queue otherwise (offline dev)
+ */
+
+import { logger } from '../../utils/logger';
+import { JobQueue, JobQueueName } from './jobQueue';
+import { MemoryJobQueue } from './memoryJobQueue';
+import { RedisJobQueue } from './redisJobQueue';
+
+export * from './jobQueue';
+export { MemoryJobQueue } from './memoryJobQueue';
+export { RedisJobQueue, DEFAULT_JOB_TTL_SECONDS } from './redisJobQueue';
+export type { RedisJobQueueOptions } from './redisJobQueue';
+
+let queue: JobQueue | null = null;
+
+export function createJobQueue(name: JobQueueName = resolveQueueName()): JobQueue {
+    switch (name) {
+        case 'memory':
+            return new MemoryJobQueue();
+        case 'redis': {
+            const url = process.env.REDIS_CONNECTION_STRING;
+            if (!url) {
+                throw new Error('JOB_QUEUE=redis requires REDIS_CONNECTION_STRING');
+            }
+            return RedisJobQueue.fromUrl(url, {
+                keyPrefix: process.env.JOB_QUEUE_PREFIX,
+                ttlSeconds: process.env.JOB_TTL_SECONDS ? parseInt(process.env.JOB_TTL_SECONDS, 10) : undefined
+            });
+        }
+        default:
+            throw new Error(`Unknown job queue: ${name}`);
+    }
+}
+
+/**
+ * Shared queue instance, created on first use so a missing Redis does not break imports
+ */
+export function getJobQueue(): JobQueue {
+    if (!queue) {
+        queue = createJobQueue();
+        logger.info('Job queue initialized', { queue: queue.name });
+    }
+    return queue;
+}
+
+export function setJobQueue(instance: JobQueue | null): void {
+    queue = instance;
+}
+
+function resolveQueueName(): JobQueueName {
+    const configured = process.env.JOB_QUEUE as JobQueueName | undefined;
+    if (configured) return configured;
+    return process.env.REDIS_CONNECTION_STRING ? 'redis' : 'memory';
+}
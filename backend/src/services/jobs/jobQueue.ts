@@ -0,0 +1,88 @@
+/**
+ * Job queue contract for asynchronous analysis
+ * Backends only store jobs and hand out ready ids; attempts, retries and
+ * dead-lettering are decided by AnalysisJobService so they behave the same everywhere
+ */
+
+import type { ComprehensiveAnalysisResult } from '../comprehensiveAnalysisService';
+import { ANALYSIS_STEPS } from '../../types/analysisProgress';
+import type { AnalysisEntitlement } from '../../core/authorization/permissions';
+import type { QuotaCharge } from '../quotaService';
+
+export type JobQueueName = 'memory' | 'redis';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Audio validation, then the nine steps of the comprehensive analysis
+export const JOB_STAGES = ['validation', ...ANALYSIS_STEPS] as const;
+
+export type JobStage = typeof JOB_STAGES[number];
+
+export type StageStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export interface StageProgress {
+    status: StageStatus;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface AnalysisJobMetadata {
+    requestId?: string;
+    originalName?: string;
+    mimeType?: string;
+    size: number;
+    blobName?: string;
+    blobUrl?: string;
+    userId?: string; // Owner of the analysis; results are kept in the history only when set
+    sessionId?: string;
+    participantId?: string;
+    analysisOptions?: AnalysisEntitlement; // Resolved from the owner's plan at upload
+    quota?: QuotaCharge; // Refunded if the job fails for good; cleared once refunded
+    contentHash?: string; // SHA-256 of the audio, for result reuse
+    reusedFrom?: string; // Job whose result was reused instead of analysing the audio again
+}
+
+export interface AnalysisJob {
+    id: string;
+    status: JobStatus;
+    stages: Record<JobStage, StageProgress>;
+    progress: number; // 0-100, share of stages that finished
+    attempts: number;
+    maxAttempts: number;
+    deadLettered: boolean;
+    lastError?: string;
+    nextAttemptAt?: string; // Set while a retry is waiting for its backoff
+    metadata: AnalysisJobMetadata;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface JobQueue {
+    readonly name: JobQueueName;
+
+    // Store the job with its audio and make it ready to run
+    enqueue(job: AnalysisJob, audio: Buffer): Promise<void>;
+
+    // Next job id that is due, or null when nothing is ready
+    reserve(): Promise<string | null>;
+
+    // Make the job ready again after delayMs
+    requeue(jobId: string, delayMs: number): Promise<void>;
+
+    getJob(jobId: string): Promise<AnalysisJob | null>;
+    saveJob(job: AnalysisJob): Promise<void>;
+
+    getPayload(jobId: string): Promise<Buffer | null>;
+    deletePayload(jobId: string): Promise<void>;
+
+    getResult(jobId: string): Promise<ComprehensiveAnalysisResult | null>;
+    saveResult(jobId: string, result: ComprehensiveAnalysisResult): Promise<void>;
+
+    deadLetter(jobId: string): Promise<void>;
+    removeDeadLetter(jobId: string): Promise<boolean>;
+    listDeadLetters(): Promise<string[]>; // Oldest first
+
+    close(): Promise<void>;
+}
@@ -0,0 +1,84 @@
+/**
+ * In-process job queue for development and tests
+ * Jobs are lost on restart and are not shared between instances
+ */
+
+import type { ComprehensiveAnalysisResult } from '../comprehensiveAnalysisService';
+import { AnalysisJob, JobQueue } from './jobQueue';
+
+export class MemoryJobQueue implements JobQueue {
+    readonly name = 'memory' as const;
+
+    private jobs = new Map<string, AnalysisJob>();
+    private payloads = new Map<string, Buffer>();
+    private results = new Map<string, ComprehensiveAnalysisResult>();
+    private ready: string[] = [];
+    private delayed = new Map<string, number>(); // job id -> due time (ms)
+    private deadLetters = new Map<string, number>(); // job id -> dead-lettered at (ms)
+
+    async enqueue(job: AnalysisJob, audio: Buffer): Promise<void> {
+        this.jobs.set(job.id, structuredClone(job));
+        this.payloads.set(job.id, audio);
+        this.ready.push(job.id);
+    }
+
+    async reserve(): Promise<string | null> {
+        const now = Date.now();
+        for (const [jobId, dueAt] of this.delayed) {
+            if (dueAt <= now) {
+                this.delayed.delete(jobId);
+                this.ready.push(jobId);
+            }
+        }
+        return this.ready.shift() ?? null;
+    }
+
+    async requeue(jobId: string, delayMs: number): Promise<void> {
+        if (delayMs > 0) {
+            this.delayed.set(jobId, Date.now() + delayMs);
+        } else {
+            this.ready.push(jobId);
+        }
+    }
+
+    async getJob(jobId: string): Promise<AnalysisJob | null> {
+        const job = this.jobs.get(jobId);
+        return job ? structuredClone(job) : null;
+    }
+
+    async saveJob(job: AnalysisJob): Promise<void> {
+        this.jobs.set(job.id, structuredClone(job));
+    }
+
+    async getPayload(jobId: string): Promise<Buffer | null> {
+        return this.payloads.get(jobId) ?? null;
+    }
+
+    async deletePayload(jobId: string): Promise<void> {
+        this.payloads.delete(jobId);
+    }
+
+    async getResult(jobId: string): Promise<ComprehensiveAnalysisResult | null> {
+        return this.results.get(jobId) ?? null;
+    }
+
+    async saveResult(jobId: string, result: ComprehensiveAnalysisResult): Promise<void> {
+        this.results.set(jobId, result);
+    }
+
+    async deadLetter(jobId: string): Promise<void> {
+        this.deadLetters.set(jobId, Date.now());
+    }
+
+    async removeDeadLetter(jobId: string): Promise<boolean> {
+        return this.deadLetters.delete(jobId);
+    }
+
+    async listDeadLetters(): Promise<string[]> {
+        return [...this.deadLetters.keys()];
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * Redis job queue, shared by every instance pointing at the same server
+ * Ready jobs are a list, delayed retries a sorted set scored by due time and
+ * the dead-letter queue a sorted set scored by when the job gave up.
+ * Job documents, payloads and results expire after ttlSeconds
+ */
+
+import Redis from 'ioredis';
+import type { ComprehensiveAnalysisResult } from '../comprehensiveAnalysisService';
+import { AnalysisJob, JobQueue } from './jobQueue';
+
+export interface RedisJobQueueOptions {
+    keyPrefix?: string;
+    ttlSeconds?: number;
+}
+
+export const DEFAULT_JOB_TTL_SECONDS = 24 * 60 * 60;
+
+// Due retries moved to the ready list per reserve() call
+const PROMOTE_BATCH = 100;
+
+export class RedisJobQueue implements JobQueue {
+    readonly name = 'redis' as const;
+
+    private readonly prefix: string;
+    private readonly ttlSeconds: number;
+
+    constructor(private client: Redis, options: RedisJobQueueOptions = {}) {
+        this.prefix = options.keyPrefix || 'qmm:jobs:';
+        this.ttlSeconds = options.ttlSeconds || DEFAULT_JOB_TTL_SECONDS;
+    }
+
+    static fromUrl(url: string, options: RedisJobQueueOptions = {}): RedisJobQueue {
+        return new RedisJobQueue(new Redis(url, { maxRetriesPerRequest: 3 }), options);
+    }
+
+    async enqueue(job: AnalysisJob, audio: Buffer): Promise<void> {
+        await this.client.multi()
+            .set(this.key('job', job.id), JSON.stringify(job), 'EX', this.ttlSeconds)
+            .set(this.key('payload', job.id), audio, 'EX', this.ttlSeconds)
+            .lpush(this.key('ready'), job.id)
+            .exec();
+    }
+
+    async reserve(): Promise<string | null> {
+        const due = await this.client.zrangebyscore(this.key('delayed'), 0, Date.now(), 'LIMIT', 0, PROMOTE_BATCH);
+        for (const jobId of due) {
+            // ZREM decides which instance promotes the job, so it is pushed only once
+            if (await this.client.zrem(this.key('delayed'), jobId)) {
+                await this.client.lpush(this.key('ready'), jobId);
+            }
+        }
+        return this.client.rpop(this.key('ready'));
+    }
+
+    async requeue(jobId: string, delayMs: number): Promise<void> {
+        if (delayMs > 0) {
+            await this.client.zadd(this.key('delayed'), Date.now() + delayMs, jobId);
+        } else {
+            await this.client.lpush(this.key('ready'), jobId);
+        }
+    }
+
+    async getJob(jobId: string): Promise<AnalysisJob | null> {
+        const raw = await this.client.get(this.key('job', jobId));
+        return raw ? JSON.parse(raw) as AnalysisJob : null;
+    }
+
+    async saveJob(job: AnalysisJob): Promise<void> {
+        await this.client.set(this.key('job', job.id), JSON.stringify(job), 'EX', this.ttlSeconds);
+    }
+
+    async getPayload(jobId: string): Promise<Buffer | null> {
+        return this.client.getBuffer(this.key('payload', jobId));
+    }
+
+    async deletePayload(jobId: string): Promise<void> {
+        await this.client.del(this.key('payload', jobId));
+    }
+
+    async getResult(jobId: string): Promise<ComprehensiveAnalysisResult | null> {
+        const raw = await this.client.get(this.key('result', jobId));
+        return raw ? JSON.parse(raw) as ComprehensiveAnalysisResult : null;
+    }
+
+    async saveResult(jobId: string, result: ComprehensiveAnalysisResult): Promise<void> {
+        await this.client.set(this.key('result', jobId), JSON.stringify(result), 'EX', this.ttlSeconds);
+    }
+
+    async deadLetter(jobId: string): Promise<void> {
+        await this.client.zadd(this.key('dead'), Date.now(), jobId);
+    }
+
+    async removeDeadLetter(jobId: string): Promise<boolean> {
+        return (await this.client.zrem(this.key('dead'), jobId)) > 0;
+    }
+
+    async listDeadLetters(): Promise<string[]> {
+        return this.client.zrange(this.key('dead'), 0, -1);
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit();
+    }
+
+    private key(...parts: string[]): string {
+        return this.prefix + parts.join(':');
+    }
+}
@@ -1,13 +1,17 @@
 /**
  * Serviço de Autenticação JWT para "Quem Mente Menos?"
  * Implementa autenticação segura com refresh tokens
+ * Refresh tokens giram a cada uso dentro de uma família (sessão); revogações
+ * ficam no TokenStore, compartilhado entre instâncias quando há Redis
  */
 
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import { v4 as uuidv4 } from 'uuid';
-import { logger } from '@/utils/logger';
-import { AuthenticationError, AuthorizationError } from '@/core/errors/CustomErrors';
+import { logger } from '../utils/logger';
+import { AuthenticationError, ErrorCode, ValidationError } from '../core/errors/CustomErrors';
+import { passwordSchema } from '../core/validation/schemas';
+import { getTokenStore, secondsUntil, TokenFamily, TokenStore } from './tokens';
 
 export interface TokenPayload {
   sub: string; // userId
@@ -16,6 +20,7 @@ export interface TokenPayload {
   iat: number;
   exp: number;
   jti: string; // JWT ID for revocation
+  fid: string; // Família do refresh token (uma sessão de login)
 }
 
 export interface TokenPair {
@@ -34,15 +39,26 @@ export interface HashedPassword {
   salt: string;
 }
 
+// Dados do dispositivo guardados com a sessão, só para listagem
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export type SessionInfo = Omit<TokenFamily, 'currentJti'>;
+
+interface RefreshTokenPayload extends TokenPayload {
+  type: 'refresh';
+}
+
 export class JWTAuthService {
   private readonly accessTokenSecret: string;
   private readonly refreshTokenSecret: string;
-  private readonly accessTokenExpiry = '15m';
-  private readonly refreshTokenExpiry = '30d';
+  private readonly accessTokenExpiry = 15 * 60; // segundos
+  private readonly refreshTokenExpiry = 30 * 24 * 60 * 60; // segundos
   private readonly saltRounds = 12;
-  private blacklistedTokens = new Set<string>(); // TODO: Usar Redis em produção
   
-  constructor() {
+  constructor(private tokenStoreOverride: TokenStore | null = null) {
     // Validação de configuração
     this.accessTokenSecret = process.env.JWT_SECRET || '';
     this.refreshTokenSecret = process.env.JWT_REFRESH_SECRET || '';
@@ -57,48 +73,45 @@ export class JWTAuthService {
     }
   }
   
-  async generateTokens(userId: string, email: string, role: 'user' | 'premium' | 'admin' = 'user'): Promise<TokenPair> {
+  // Revogações e famílias ficam no store compartilhado (Redis) para valer em todas as instâncias
+  private get tokenStore(): TokenStore {
+    return this.tokenStoreOverride || getTokenStore();
+  }
+  
+  /**
+   * Inicia uma nova sessão (família de refresh tokens) e emite o primeiro par
+   */
+  async generateTokens(
+    userId: string,
+    email: string,
+    role: 'user' | 'premium' | 'admin' = 'user',
+    session: SessionContext = {}
+  ): Promise<TokenPair> {
     try {
-      const jti = uuidv4();
-      const now = Math.floor(Date.now() / 1000);
+      const familyId = uuidv4();
+      const refreshJti = uuidv4();
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + this.refreshTokenExpiry * 1000);
       
-      // Payload do token
-      const payload: Omit<TokenPayload, 'exp'> = {
-        sub: userId,
-        email,
-        role,
-        iat: now,
-        jti,
-      };
-      
-      // Gerar access token
-      const accessToken = jwt.sign(payload, this.accessTokenSecret, {
-        expiresIn: this.accessTokenExpiry,
-        algorithm: 'HS256',
-      });
-      
-      // Gerar refresh token
-      const refreshToken = jwt.sign(
-        { ...payload, type: 'refresh' },
-        this.refreshTokenSecret,
-        {
-          expiresIn: this.refreshTokenExpiry,
-          algorithm: 'HS256',
-        }
-      );
+      await this.tokenStore.saveFamily({
+        id: familyId,
+        userId,
+        currentJti: refreshJti,
+        createdAt: now.toISOString(),
+        lastUsedAt: now.toISOString(),
+        expiresAt: expiresAt.toISOString(),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+      }, this.refreshTokenExpiry);
       
       logger.info('Tokens gerados com sucesso', {
         operation: 'generateTokens',
         service: 'JWTAuthService',
         userId,
-        metadata: { jti, role },
+        metadata: { familyId, role },
       });
       
-      return {
-        accessToken,
-        refreshToken,
-        expiresIn: 15 * 60, // 15 minutos em segundos
-      };
+      return this.signTokens(userId, email, role, familyId, refreshJti);
       
     } catch (error) {
       logger.error('Falha ao gerar tokens', error, {
@@ -113,35 +126,34 @@ export class JWTAuthService {
   
   async validateAccessToken(token: string): Promise<TokenPayload> {
     try {
-      // Verificar se token está na blacklist
-      if (this.blacklistedTokens.has(token)) {
-        throw new AuthenticationError('Token revogado');
-      }
-      
       // Validar e decodificar token
       const payload = jwt.verify(token, this.accessTokenSecret, {
         algorithms: ['HS256'],
       }) as TokenPayload;
       
       // Validações adicionais
-      if (!payload.sub || !payload.email || !payload.jti) {
-        throw new AuthenticationError('Token inválido');
+      if (!payload.sub || !payload.email || !payload.jti || !payload.fid) {
+        throw new AuthenticationError('Token inválido', ErrorCode.TOKEN_INVALID);
+      }
+      
+      // Revogado individualmente (logout) ou pela sessão inteira (logout em todos os dispositivos)
+      if (await this.tokenStore.isRevoked(payload.jti)) {
+        throw new AuthenticationError('Token revogado', ErrorCode.TOKEN_INVALID);
       }
       
-      // Verificar se token está na blacklist (usando jti)
-      if (this.blacklistedTokens.has(payload.jti)) {
-        throw new AuthenticationError('Token revogado');
+      if (!await this.tokenStore.getFamily(payload.fid)) {
+        throw new AuthenticationError('Sessão encerrada', ErrorCode.TOKEN_INVALID);
       }
       
       return payload;
       
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
-        throw new AuthenticationError('Token expirado');
+        throw new AuthenticationError('Token expirado', ErrorCode.TOKEN_EXPIRED);
       }
       
       if (error instanceof jwt.JsonWebTokenError) {
-        throw new AuthenticationError('Token inválido');
+        throw new AuthenticationError('Token inválido', ErrorCode.TOKEN_INVALID);
       }
       
       if (error instanceof AuthenticationError) {
@@ -157,31 +169,65 @@ export class JWTAuthService {
     }
   }
   
-  async refreshTokens(refreshToken: string): Promise<TokenPair> {
+  /**
+   * Troca o refresh token atual da sessão por um novo par (rotação).
+   * Um refresh token já trocado indica vazamento: a sessão inteira é revogada.
+   * resolveRole permite usar o papel atual da conta; null encerra a sessão
+   */
+  async refreshTokens(
+    refreshToken: string,
+    resolveRole?: (userId: string) => Promise<TokenPayload['role'] | null>
+  ): Promise<TokenPair> {
     try {
       // Validar refresh token
       const payload = jwt.verify(refreshToken, this.refreshTokenSecret, {
         algorithms: ['HS256'],
-      }) as any;
+      }) as RefreshTokenPayload;
       
-      if (payload.type !== 'refresh') {
-        throw new AuthenticationError('Token inválido para refresh');
+      if (payload.type !== 'refresh' || !payload.fid) {
+        throw new AuthenticationError('Token inválido para refresh', ErrorCode.TOKEN_INVALID);
       }
       
-      // Verificar blacklist
-      if (this.blacklistedTokens.has(payload.jti)) {
-        throw new AuthenticationError('Refresh token revogado');
+      const role = resolveRole ? await resolveRole(payload.sub) : payload.role;
+      if (!role) {
+        await this.revokeSession(payload.fid);
+        throw new AuthenticationError('Conta não encontrada');
+      }
+      
+      const nextJti = uuidv4();
+      const now = new Date();
+      const outcome = await this.tokenStore.rotateFamily(payload.fid, {
+        presentedJti: payload.jti,
+        nextJti,
+        usedAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + this.refreshTokenExpiry * 1000).toISOString(),
+      }, this.refreshTokenExpiry);
+      
+      if (outcome === 'reused') {
+        await this.tokenStore.deleteFamily(payload.fid);
+        logger.warn('Reuso de refresh token detectado; sessão revogada', {
+          operation: 'refreshTokens',
+          service: 'JWTAuthService',
+          userId: payload.sub,
+          securityEvent: 'refresh_token_reuse',
+          metadata: { familyId: payload.fid, jti: payload.jti },
+        });
+        throw new AuthenticationError('Refresh token reutilizado; sessão encerrada', ErrorCode.TOKEN_INVALID);
       }
       
-      // Invalidar tokens antigos
-      this.blacklistedTokens.add(payload.jti);
+      if (outcome === 'unknown') {
+        throw new AuthenticationError('Refresh token revogado', ErrorCode.TOKEN_INVALID);
+      }
       
-      // Gerar novos tokens
-      return this.generateTokens(payload.sub, payload.email, payload.role);
+      return this.signTokens(payload.sub, payload.email, role, payload.fid, nextJti);
       
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
-        throw new AuthenticationError('Refresh token expirado');
+        throw new AuthenticationError('Refresh token expirado', ErrorCode.TOKEN_EXPIRED);
+      }
+      
+      if (error instanceof jwt.JsonWebTokenError) {
+        throw new AuthenticationError('Refresh token inválido', ErrorCode.TOKEN_INVALID);
       }
       
       if (error instanceof AuthenticationError) {
@@ -198,10 +244,10 @@ export class JWTAuthService {
   }
   
   async hashPassword(password: string): Promise<HashedPassword> {
+    // Validar força da senha
+    this.validatePasswordStrength(password);
+    
     try {
-      // Validar força da senha
-      this.validatePasswordStrength(password);
-      
       // Gerar salt e hash
       const salt = await bcrypt.genSalt(this.saltRounds);
       const hash = await bcrypt.hash(password, salt);
@@ -231,11 +277,14 @@ export class JWTAuthService {
     }
   }
   
-  revokeToken(token: string): void {
+  /**
+   * Revoga um token até o fim da sua validade (TTL = tempo restante)
+   */
+  async revokeToken(token: string): Promise<void> {
     try {
-      const payload = jwt.decode(token) as any;
-      if (payload?.jti) {
-        this.blacklistedTokens.add(payload.jti);
+      const payload = jwt.decode(token) as Partial<TokenPayload> | null;
+      if (payload?.jti && payload.exp) {
+        await this.tokenStore.revoke(payload.jti, secondsUntil(payload.exp));
         
         logger.info('Token revogado', {
           operation: 'revokeToken',
@@ -251,27 +300,91 @@ export class JWTAuthService {
     }
   }
   
-  private validatePasswordStrength(password: string): void {
-    const minLength = 8;
-    const hasUpperCase = /[A-Z]/.test(password);
-    const hasLowerCase = /[a-z]/.test(password);
-    const hasNumbers = /\d/.test(password);
-    const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
+  /**
+   * Encerra uma sessão: o refresh token e os access tokens dela deixam de valer.
+   * Com userId, sessões de outro usuário são ignoradas
+   */
+  async revokeSession(familyId: string, userId?: string): Promise<boolean> {
+    const family = await this.tokenStore.getFamily(familyId);
+    if (!family || (userId && family.userId !== userId)) return false;
     
-    if (password.length < minLength) {
-      throw new Error(`Senha deve ter no mínimo ${minLength} caracteres`);
-    }
+    await this.tokenStore.deleteFamily(familyId);
+    logger.info('Sessão revogada', {
+      operation: 'revokeSession',
+      service: 'JWTAuthService',
+      userId: family.userId,
+      metadata: { familyId },
+    });
+    return true;
+  }
+  
+  // Logout em todos os dispositivos
+  async revokeAllSessions(userId: string): Promise<number> {
+    const families = await this.tokenStore.listFamilies(userId);
+    await Promise.all(families.map(family => this.tokenStore.deleteFamily(family.id)));
     
-    if (!hasUpperCase || !hasLowerCase) {
-      throw new Error('Senha deve conter letras maiúsculas e minúsculas');
-    }
+    logger.info('Todas as sessões revogadas', {
+      operation: 'revokeAllSessions',
+      service: 'JWTAuthService',
+      userId,
+      metadata: { count: families.length },
+    });
+    return families.length;
+  }
+  
+  // Sessões ativas, a usada mais recentemente primeiro
+  async listSessions(userId: string): Promise<SessionInfo[]> {
+    const families = await this.tokenStore.listFamilies(userId);
+    return families
+      .map(({ currentJti: _currentJti, ...session }) => session)
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+  
+  private signTokens(
+    userId: string,
+    email: string,
+    role: TokenPayload['role'],
+    familyId: string,
+    refreshJti: string
+  ): TokenPair {
+    const payload: Omit<TokenPayload, 'exp' | 'jti'> = {
+      sub: userId,
+      email,
+      role,
+      iat: Math.floor(Date.now() / 1000),
+      fid: familyId,
+    };
     
-    if (!hasNumbers) {
-      throw new Error('Senha deve conter números');
-    }
+    // Gerar access token
+    const accessToken = jwt.sign({ ...payload, jti: uuidv4() }, this.accessTokenSecret, {
+      expiresIn: this.accessTokenExpiry,
+      algorithm: 'HS256',
+    });
     
-    if (!hasSpecialChar) {
-      throw new Error('Senha deve conter caracteres especiais');
+    // Gerar refresh token (o jti é o atual da família)
+    const refreshToken = jwt.sign(
+      { ...payload, jti: refreshJti, type: 'refresh' },
+      this.refreshTokenSecret,
+      {
+        expiresIn: this.refreshTokenExpiry,
+        algorithm: 'HS256',
+      }
+    );
+    
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTokenExpiry,
+    };
+  }
+  
+  // Mesmas regras do cadastro; senha fraca é erro do cliente (400), não falha interna
+  private validatePasswordStrength(password: string): void {
+    const parsed = passwordSchema.safeParse(password);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), {
+        operation: 'hashPassword',
+      });
     }
   }
   
@@ -284,5 +397,16 @@ export class JWTAuthService {
   }
 }
 
-// Singleton export
-export const jwtAuthService = new JWTAuthService();
+// Singleton criado no primeiro uso: sem JWT_SECRET a requisição falha, não o import
+let instance: JWTAuthService | null = null;
+
+export function getJwtAuthService(): JWTAuthService {
+  if (!instance) {
+    instance = new JWTAuthService();
+  }
+  return instance;
+}
+
+export function setJwtAuthService(service: JWTAuthService | null): void {
+  instance = service;
+}
@@ -4,13 +4,19 @@
  */
 
 import { logger, createRequestLogger } from '../utils/logger';
-import { SpeechRecognitionResult } from '../utils/typescript-fixes';
+import { SpeechRecognitionResult, RecognizedSegment } from '../utils/typescript-fixes';
+import { VoiceActivityResult, silenceWithin } from './voiceActivityDetector';
+import { LocaleLexicons, LocalePackReport, availableLocales, resolveLocalePack } from '../core/locales/localePacks';
+import { Token, tokenize, matchPhrases, matchedPhrases } from '../utils/phraseMatcher';
+import type { BaselineComparison } from './baselineService';
 
 // Lie detection interfaces
 export interface LieDetectionRequest {
     speechResult: SpeechRecognitionResult;
     requestId: string;
     analysisOptions?: LieDetectionOptions;
+    voiceActivity?: VoiceActivityResult; // Speech/silence intervals measured from the audio
+    baseline?: BaselineComparison; // Deviations from the speaker's calibrated baseline
 }
 
 export interface LieDetectionOptions {
@@ -19,6 +25,8 @@ export interface LieDetectionOptions {
     enableEmotionalAnalysis?: boolean;
     enableBehavioralAnalysis?: boolean;
     customThresholds?: DetectionThresholds;
+    language?: string; // Declared language (e.g. 'es-MX'); overrides the recognizer's
+    deterministic?: boolean; // Report processingTime as 0 so identical input gives identical output
 }
 
 export interface DetectionThresholds {
@@ -37,6 +45,8 @@ export interface LieDetectionResult {
     analysis: ComprehensiveAnalysis;
     recommendations: string[];
     processingTime: number;
+    locale?: LocalePackReport; // Lexicon pack the linguistic markers came from
+    baseline?: BaselineComparison; // Present when scores are relative to a personal baseline
     error?: string;
 }
 
@@ -47,6 +57,14 @@ export interface LieIndicator {
     confidence: number;
     description: string;
     evidenceCount: number;
+    evidence: EvidenceSpan[]; // Where in the audio the indicator was triggered
+}
+
+// Time range (seconds) of the words or pause that triggered an indicator
+export interface EvidenceSpan {
+    start: number;
+    end: number;
+    text: string;
 }
 
 export interface ComprehensiveAnalysis {
@@ -65,12 +83,14 @@ export interface LinguisticAnalysis {
         rate: number; // per 100 words
         types: string[];
         score: number; // 0-1
+        evidence: EvidenceSpan[];
     };
     fillerWords: {
         count: number;
         rate: number;
         variety: string[];
         score: number;
+        evidence: EvidenceSpan[];
     };
     complexityMetrics: {
         averageWordsPerSentence: number;
@@ -83,6 +103,7 @@ export interface LinguisticAnalysis {
         qualifiers: number;
         hedging: number;
         score: number;
+        evidence: EvidenceSpan[];
     };
     contradictions: {
         internalContradictions: number;
@@ -96,11 +117,13 @@ export interface EmotionalAnalysis {
         detectedLevel: number; // 0-1
         patterns: string[];
         score: number;
+        evidence: EvidenceSpan[];
     };
     anxietyMarkers: {
         detectedLevel: number;
         manifestations: string[];
         score: number;
+        evidence: EvidenceSpan[];
     };
     emotionalVariability: {
         varianceScore: number;
@@ -112,6 +135,7 @@ export interface EmotionalAnalysis {
         level: number;
         indicators: string[];
         score: number;
+        evidence: EvidenceSpan[];
     };
 }
 
@@ -119,13 +143,19 @@ export interface BehavioralAnalysis {
     speechPatterns: {
         averagePauseLength: number;
         pauseFrequency: number;
+        pauseCount: number;
+        maxPauseLength: number;
+        pauseRatio: number;
+        pauseSource: 'audio' | 'segments';
         speechRate: number; // words per minute
         rateVariability: number;
         score: number;
+        evidence: EvidenceSpan[]; // Pauses
     };
     responseLatency: {
-        averageLatency: number;
-        variability: number;
+        measured: boolean; // false without segment timings; excluded from the composite
+        averageLatency: number; // seconds of silence before each recognized phrase
+        variability: number; // coefficient of variation of those latencies, capped at 1
         delayedResponses: number;
         score: number;
     };
@@ -139,31 +169,35 @@ export interface BehavioralAnalysis {
 
 export interface TemporalAnalysis {
     timelineConsistency: {
-        chronologicalErrors: number;
-        timeGaps: number;
+        chronologicalErrors: number | null; // null = not measured
+        timeGaps: number | null; // null = not measured
         overSpecification: number;
         score: number;
+        evidence: EvidenceSpan[];
     };
     detailProgression: {
         initialDetail: number;
-        addedDetails: number;
-        changedDetails: number;
+        addedDetails: number | null; // null = not measured
+        changedDetails: number; // self-corrections ("quer dizer", "ou melhor", ...)
         score: number;
+        evidence: EvidenceSpan[];
     };
 }
 
 export interface ContextualAnalysis {
     topicRelevance: {
-        relevanceScore: number;
+        relevanceScore: number | null; // null = not measured (needs the question being answered)
         deflectionAttempts: number;
         topicAvoidance: number;
         score: number;
+        evidence: EvidenceSpan[];
     };
     questionResponse: {
         directAnswers: number;
         evasiveAnswers: number;
         overExplanations: number;
         score: number;
+        evidence: EvidenceSpan[];
     };
 }
 
@@ -174,6 +208,30 @@ export interface OverallAssessment {
     alternativeExplanations: string[];
 }
 
+// Pause metrics shared by the segment-based and audio-based calculations
+interface PauseMetrics {
+    averageLength: number;
+    frequency: number;
+    count: number;
+    maxLength: number;
+    ratio: number;
+    spans: EvidenceSpan[];
+}
+
+// Standard deviations above a personal baseline that map to a full score
+const BASELINE_Z_SCALE = 3;
+
+// Silence before a phrase long enough to count as a delayed response
+const DELAYED_RESPONSE_SECONDS = 2;
+
+// Recognized word with timing, tokenized for phrase matching
+interface TimedWord {
+    text: string;
+    tokens: Token[];
+    start: number;
+    end: number;
+}
+
 /**
  * Advanced Lie Detection Service
  */
@@ -184,32 +242,9 @@ export class LieDetectionService {
         highRisk: 1.0
     };
 
-    private readonly linguisticPatterns = {
-        hesitationMarkers: [
-            'uh', 'um', 'eh', 'hmm', 'er', 'ah',
-            'bem', 'né', 'então', 'tipo', 'assim'
-        ],
-        fillerWords: [
-            'tipo', 'sabe', 'então', 'assim', 'meio que', 'digamos',
-            'de certa forma', 'por assim dizer', 'na verdade'
-        ],
-        strongAssertions: [
-            'certamente', 'definitivamente', 'absolutamente', 'obviamente',
-            'sem dúvida', 'com certeza', 'claramente', 'evidentemente'
-        ],
-        qualifiers: [
-            'talvez', 'provavelmente', 'possivelmente', 'aparentemente',
-            'parece', 'acho que', 'acredito que', 'suponho'
-        ],
-        hedging: [
-            'meio que', 'mais ou menos', 'de certa forma', 'por assim dizer',
-            'algo como', 'uma espécie de', 'praticamente'
-        ]
-    };
-
     constructor() {
         logger.info('Lie Detection Service initialized', {
-            linguisticPatternsLoaded: Object.keys(this.linguisticPatterns).length,
+            localePacks: availableLocales(),
             defaultThresholds: this.defaultThresholds
         });
     }
@@ -249,36 +284,56 @@ export class LieDetectionService {
                 };
             }
 
+            // Word timings are carried into every analysis so indicators can point at evidence
+            const timeline = this.buildWordTimeline(request.speechResult);
+
+            // Marker lexicons follow the declared language, then the recognizer's
+            const { pack, report: locale } = resolveLocalePack(
+                request.analysisOptions?.language || request.speechResult.language
+            );
+            const lexicons = pack.lexicons;
+            requestLogger.info('Locale pack selected', { ...locale });
+
             // Step 2: Perform linguistic analysis
             requestLogger.info('Performing linguistic analysis');
             const linguisticAnalysis = await this.analyzeLinguisticPatterns(
                 request.speechResult.recognizedText,
-                request.speechResult.segments
+                timeline,
+                lexicons,
+                request.baseline
             );
 
             // Step 3: Perform emotional analysis
             requestLogger.info('Performing emotional analysis');
             const emotionalAnalysis = await this.analyzeEmotionalPatterns(
-                request.speechResult
+                request.speechResult,
+                timeline,
+                lexicons
             );
 
             // Step 4: Perform behavioral analysis
             requestLogger.info('Performing behavioral analysis');
             const behavioralAnalysis = await this.analyzeBehavioralPatterns(
-                request.speechResult
+                request.speechResult,
+                request.voiceActivity,
+                request.baseline
             );
 
             // Step 5: Perform temporal analysis
             requestLogger.info('Performing temporal analysis');
             const temporalAnalysis = await this.analyzeTemporalPatterns(
                 request.speechResult.recognizedText,
-                request.speechResult.segments
+                request.speechResult.segments,
+                timeline,
+                lexicons
             );
 
             // Step 6: Perform contextual analysis
             requestLogger.info('Performing contextual analysis');
             const contextualAnalysis = await this.analyzeContextualFactors(
-                request.speechResult.recognizedText
+                request.speechResult.recognizedText,
+                timeline,
+                lexicons
             );
 
             // Step 7: Synthesize overall assessment
@@ -340,7 +395,9 @@ export class LieDetectionService {
                     overallAssessment
                 },
                 recommendations,
-                processingTime
+                processingTime: request.analysisOptions?.deterministic ? 0 : processingTime,
+                locale,
+                baseline: request.baseline
             };
 
         } catch (error) {
@@ -369,69 +426,53 @@ export class LieDetectionService {
      */
     private async analyzeLinguisticPatterns(
         text: string,
-        _segments: any[] | undefined // Mantido para futura análise
+        timeline: TimedWord[],
+        lexicons: LocaleLexicons,
+        baseline?: BaselineComparison
     ): Promise<LinguisticAnalysis> {
-        const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+        const words = tokenize(text);
         const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
         
         // Hesitation markers analysis
-        const hesitationCount = words.filter(word => 
-            this.linguisticPatterns.hesitationMarkers.includes(word)
-        ).length;
+        const hesitations = matchPhrases(words, lexicons.hesitationMarkers);
+        const hesitationCount = hesitations.length;
         const hesitationRate = (hesitationCount / words.length) * 100;
-        const hesitationTypes = this.linguisticPatterns.hesitationMarkers.filter(marker =>
-            words.includes(marker)
-        );
+        const hesitationTypes = matchedPhrases(hesitations);
 
-        // Filler words analysis
-        const fillerCount = words.filter(word =>
-            this.linguisticPatterns.fillerWords.some(filler => 
-                word.includes(filler.split(' ')[0])
-            )
-        ).length;
+        // Filler words analysis (multi-word fillers count once per occurrence)
+        const fillers = matchPhrases(words, lexicons.fillerWords);
+        const fillerCount = fillers.length;
         const fillerRate = (fillerCount / words.length) * 100;
-        const fillerVariety = this.linguisticPatterns.fillerWords.filter(filler =>
-            text.toLowerCase().includes(filler)
-        );
+        const fillerVariety = matchedPhrases(fillers);
 
         // Complexity metrics
         const avgWordsPerSentence = words.length / Math.max(sentences.length, 1);
-        const uniqueWords = new Set(words).size;
+        const uniqueWords = new Set(words.map(word => word.normalized)).size;
         const vocabularyDiversity = uniqueWords / words.length;
         const readabilityScore = this.calculateReadabilityScore(avgWordsPerSentence, vocabularyDiversity);
 
         // Certainty indicators
-        const strongAssertions = words.filter(word =>
-            this.linguisticPatterns.strongAssertions.some(assertion =>
-                word.includes(assertion)
-            )
-        ).length;
-        const qualifiers = words.filter(word =>
-            this.linguisticPatterns.qualifiers.some(qualifier =>
-                word.includes(qualifier.split(' ')[0])
-            )
-        ).length;
-        const hedging = words.filter(word =>
-            this.linguisticPatterns.hedging.some(hedge =>
-                word.includes(hedge.split(' ')[0])
-            )
-        ).length;
+        const strongAssertions = matchPhrases(words, lexicons.strongAssertions).length;
+        const qualifiers = matchPhrases(words, lexicons.qualifiers).length;
+        const hedging = matchPhrases(words, lexicons.hedging).length;
 
         // Contradiction detection (simplified)
-        const contradictions = this.detectContradictions(text);
+        const contradictions = this.detectContradictions(words, lexicons.contradictoryPairs);
 
         return {
             hesitationMarkers: {
                 count: hesitationCount,
                 rate: hesitationRate,
                 types: hesitationTypes,
-                score: Math.min(1, hesitationRate / 5) // Normalize to 0-1
+                score: this.rateScore(hesitationRate / 5, baseline?.deviations.hesitationRate), // Normalize to 0-1
+                evidence: this.findEvidence(timeline, lexicons.hesitationMarkers)
             },
             fillerWords: {
                 count: fillerCount,
                 rate: fillerRate,
                 variety: fillerVariety,
-                score: Math.min(1, fillerRate / 3)
+                score: this.rateScore(fillerRate / 3, baseline?.deviations.fillerRate),
+                evidence: this.findEvidence(timeline, lexicons.fillerWords)
             },
             complexityMetrics: {
                 averageWordsPerSentence: avgWordsPerSentence,
@@ -443,7 +484,12 @@ export class LieDetectionService {
                 strongAssertions,
                 qualifiers,
                 hedging,
-                score: this.calculateCertaintyScore(strongAssertions, qualifiers, hedging, words.length)
+                score: this.calculateCertaintyScore(strongAssertions, qualifiers, hedging, words.length),
+                evidence: this.findEvidence(timeline, [
+                    ...lexicons.strongAssertions,
+                    ...lexicons.qualifiers,
+                    ...lexicons.hedging
+                ])
             },
             contradictions: {
                 internalContradictions: contradictions.internal,
@@ -457,20 +503,22 @@ export class LieDetectionService {
      * Analyze emotional patterns in speech
      */
     private async analyzeEmotionalPatterns(
-        speechResult: SpeechRecognitionResult
+        speechResult: SpeechRecognitionResult,
+        timeline: TimedWord[],
+        lexicons: LocaleLexicons
     ): Promise<EmotionalAnalysis> {
-        const text = speechResult.recognizedText.toLowerCase();
+        const words = tokenize(speechResult.recognizedText);
         const segments = speechResult.segments;
 
         // Stress indicators
-        const stressWords = ['nervoso', 'ansioso', 'preocupado', 'tenso', 'difícil'];
-        const stressLevel = stressWords.filter(word => text.includes(word)).length / 10;
-        const stressPatterns = stressWords.filter(word => text.includes(word));
+        const stressWords = lexicons.stressWords;
+        const stressPatterns = matchedPhrases(matchPhrases(words, stressWords));
+        const stressLevel = stressPatterns.length / 10;
 
         // Anxiety markers
-        const anxietyWords = ['não sei', 'talvez', 'acho que', 'meio que', 'não tenho certeza'];
-        const anxietyLevel = anxietyWords.filter(phrase => text.includes(phrase)).length / 10;
-        const anxietyManifestations = anxietyWords.filter(phrase => text.includes(phrase));
+        const anxietyWords = lexicons.anxietyPhrases;
+        const anxietyManifestations = matchedPhrases(matchPhrases(words, anxietyWords));
+        const anxietyLevel = anxietyManifestations.length / 10;
 
         // Emotional variability
         const confidenceVariance = this.calculateConfidenceVariance(segments);
@@ -478,20 +526,22 @@ export class LieDetectionService {
         const stability = 1 - confidenceVariance;
 
         // Defensiveness
-        const defensiveWords = ['mas', 'porém', 'contudo', 'entretanto', 'na verdade'];
-        const defensivenessLevel = defensiveWords.filter(word => text.includes(word)).length / 20;
-        const defensivenessIndicators = defensiveWords.filter(word => text.includes(word));
+        const defensiveWords = lexicons.defensiveWords;
+        const defensivenessIndicators = matchedPhrases(matchPhrases(words, defensiveWords));
+        const defensivenessLevel = defensivenessIndicators.length / 20;
 
         return {
             stressIndicators: {
                 detectedLevel: Math.min(1, stressLevel),
                 patterns: stressPatterns,
-                score: Math.min(1, stressLevel)
+                score: Math.min(1, stressLevel),
+                evidence: this.findEvidence(timeline, stressWords)
             },
             anxietyMarkers: {
                 detectedLevel: Math.min(1, anxietyLevel),
                 manifestations: anxietyManifestations,
-                score: Math.min(1, anxietyLevel)
+                score: Math.min(1, anxietyLevel),
+                evidence: this.findEvidence(timeline, anxietyWords)
             },
             emotionalVariability: {
                 varianceScore: confidenceVariance,
@@ -502,7 +552,8 @@ export class LieDetectionService {
             defensiveness: {
                 level: Math.min(1, defensivenessLevel),
                 indicators: defensivenessIndicators,
-                score: Math.min(1, defensivenessLevel)
+                score: Math.min(1, defensivenessLevel),
+                evidence: this.findEvidence(timeline, defensiveWords)
             }
         };
     }
@@ -511,21 +562,23 @@ export class LieDetectionService {
      * Analyze behavioral patterns in speech timing and delivery
      */
     private async analyzeBehavioralPatterns(
-        speechResult: SpeechRecognitionResult
+        speechResult: SpeechRecognitionResult,
+        voiceActivity?: VoiceActivityResult,
+        baseline?: BaselineComparison
     ): Promise<BehavioralAnalysis> {
         const segments = speechResult.segments;
         const totalWords = speechResult.recognizedText.split(/\s+/).length;
-        const totalDuration = speechResult.duration;
+        const totalDuration = speechResult.duration || voiceActivity?.duration;
 
-        // Speech patterns analysis
-        const pauses = this.calculatePauses(segments);
+        // Speech patterns analysis - pauses come from the audio when VAD intervals are available
+        const pauses = voiceActivity
+            ? this.calculateAudioPauses(voiceActivity)
+            : this.calculatePauses(segments);
         const speechRate = (totalWords / totalDuration) * 60; // words per minute
-        const rateVariability = this.calculateSpeechRateVariability(segments);
+        const rateVariability = this.calculateSpeechRateVariability(segments, voiceActivity);
 
-        // Response latency (simplified - would need more sophisticated analysis)
-        const averageLatency = 0.5; // Mock average response time
-        const latencyVariability = 0.3;
-        const delayedResponses = segments.filter((_, i) => i > 0 && Math.random() > 0.8).length;
+        // Response latency from the silence before each recognized phrase
+        const latency = this.calculateResponseLatency(segments);
 
         // Verbosity analysis
         const expectedLength = Math.max(50, totalWords * 0.8); // Expected word count
@@ -535,15 +588,21 @@ export class LieDetectionService {
             speechPatterns: {
                 averagePauseLength: pauses.averageLength,
                 pauseFrequency: pauses.frequency,
+                pauseCount: pauses.count,
+                maxPauseLength: pauses.maxLength,
+                pauseRatio: pauses.ratio,
+                pauseSource: voiceActivity ? 'audio' : 'segments',
                 speechRate,
                 rateVariability,
-                score: this.calculateSpeechPatternScore(pauses, speechRate, rateVariability)
+                score: this.calculateSpeechPatternScore(pauses, speechRate, rateVariability, baseline),
+                evidence: pauses.spans
             },
             responseLatency: {
-                averageLatency,
-                variability: latencyVariability,
-                delayedResponses,
-                score: Math.min(1, (latencyVariability + delayedResponses / 10))
+                measured: latency.measured,
+                averageLatency: latency.average,
+                variability: latency.variability,
+                delayedResponses: latency.delayed,
+                score: latency.measured ? Math.min(1, (latency.variability + latency.delayed / 10)) : 0
             },
             verbosity: {
                 wordCount: totalWords,
@@ -559,31 +618,32 @@ export class LieDetectionService {
      */
     private async analyzeTemporalPatterns(
         text: string,
-        segments: any[]
+        segments: any[],
+        timeline: TimedWord[],
+        lexicons: LocaleLexicons
     ): Promise<TemporalAnalysis> {
-        // Timeline consistency (simplified analysis)
-        const timeWords = ['antes', 'depois', 'ontem', 'hoje', 'amanhã', 'primeiro', 'segundo'];
-        const chronologicalErrors = 0; // Would need more sophisticated analysis
-        const timeGaps = Math.floor(Math.random() * 2);
-        const overSpecification = timeWords.filter(word => text.toLowerCase().includes(word)).length;
+        // Timeline consistency - chronology and gaps would need the events being described
+        const timeWords = lexicons.timeWords;
+        const overSpecification = matchedPhrases(matchPhrases(text, timeWords)).length;
 
-        // Detail progression
-        const initialDetail = segments.length > 0 ? segments[0].text.split(' ').length : 0;
-        const addedDetails = Math.floor(Math.random() * 3);
-        const changedDetails = Math.floor(Math.random() * 2);
+        // Detail progression - details changed mid-account show up as self-corrections
+        const initialDetail = segments.length > 0 ? tokenize(segments[0].text).length : 0;
+        const changedDetails = matchPhrases(text, lexicons.selfCorrections).length;
 
         return {
             timelineConsistency: {
-                chronologicalErrors,
-                timeGaps,
+                chronologicalErrors: null,
+                timeGaps: null,
                 overSpecification,
-                score: Math.min(1, (timeGaps + overSpecification) / 10)
+                score: Math.min(1, overSpecification / 10),
+                evidence: this.findEvidence(timeline, timeWords)
             },
             detailProgression: {
                 initialDetail,
-                addedDetails,
+                addedDetails: null,
                 changedDetails,
-                score: Math.min(1, (addedDetails + changedDetails) / 10)
+                score: Math.min(1, changedDetails / 10),
+                evidence: this.findEvidence(timeline, lexicons.selfCorrections)
             }
         };
     }
@@ -591,33 +651,38 @@ export class LieDetectionService {
     /**
      * Analyze contextual factors
      */
-    private async analyzeContextualFactors(text: string): Promise<ContextualAnalysis> {
-        const words = text.toLowerCase().split(/\s+/);
+    private async analyzeContextualFactors(
+        text: string,
+        timeline: TimedWord[],
+        lexicons: LocaleLexicons
+    ): Promise<ContextualAnalysis> {
+        const words = tokenize(text);
         
-        // Topic relevance (simplified)
-        const relevanceScore = 0.8; // Would need more sophisticated analysis
-        const deflectionWords = ['mudando de assunto', 'aliás', 'por falar nisso'];
-        const deflectionAttempts = deflectionWords.filter(phrase => text.toLowerCase().includes(phrase)).length;
+        // Topic relevance - relevanceScore needs the question, so only deflection is measured
+        const deflectionWords = lexicons.deflectionPhrases;
+        const deflectionAttempts = matchedPhrases(matchPhrases(words, deflectionWords)).length;
         const topicAvoidance = deflectionAttempts;
 
         // Question response patterns (simplified)
         const directAnswers = Math.floor(words.length / 20);
-        const evasiveWords = ['bem', 'então', 'na verdade', 'tipo assim'];
-        const evasiveAnswers = evasiveWords.filter(word => words.includes(word)).length;
+        const evasiveWords = lexicons.evasivePhrases;
+        const evasiveAnswers = matchedPhrases(matchPhrases(words, evasiveWords)).length;
         const overExplanations = Math.max(0, words.length - 100) / 50; // Words beyond normal response
 
         return {
             topicRelevance: {
-                relevanceScore,
+                relevanceScore: null,
                 deflectionAttempts,
                 topicAvoidance,
-                score: Math.min(1, (deflectionAttempts + topicAvoidance) / 5)
+                score: Math.min(1, (deflectionAttempts + topicAvoidance) / 5),
+                evidence: this.findEvidence(timeline, deflectionWords)
             },
             questionResponse: {
                 directAnswers,
                 evasiveAnswers,
                 overExplanations,
-                score: Math.min(1, (evasiveAnswers + overExplanations) / 10)
+                score: Math.min(1, (evasiveAnswers + overExplanations) / 10),
+                evidence: this.findEvidence(timeline, evasiveWords)
             }
         };
     }
@@ -645,16 +710,15 @@ export class LieDetectionService {
         return Math.min(1, qualifierRate + hedgingRate + (strongRate > 0.05 ? strongRate : 0));
     }
 
-    private detectContradictions(text: string): { internal: number; logical: number } {
+    private detectContradictions(
+        words: Token[],
+        contradictoryPairs: LocaleLexicons['contradictoryPairs']
+    ): { internal: number; logical: number } {
         // Simplified contradiction detection
-        const contradictoryPairs = [
-            ['sim', 'não'], ['sempre', 'nunca'], ['tudo', 'nada'],
-            ['certeza', 'dúvida'], ['lembro', 'esqueço']
-        ];
-
+        const present = new Set(matchedPhrases(matchPhrases(words, contradictoryPairs.flatMap(([first, second]) => [first, second]))));
         let internal = 0;
         for (const [word1, word2] of contradictoryPairs) {
-            if (text.includes(word1) && text.includes(word2)) {
+            if (present.has(word1) && present.has(word2)) {
                 internal++;
             }
         }
@@ -684,32 +748,155 @@ export class LieDetectionService {
         return rapidChanges;
     }
 
-    private calculatePauses(segments: any[]): { averageLength: number; frequency: number } {
-        if (segments.length < 2) return { averageLength: 0, frequency: 0 };
+    /**
+     * Silence before each recognized phrase: the first phrase's onset is the initial
+     * response time, later ones are the gaps between phrases
+     */
+    private calculateResponseLatency(segments: RecognizedSegment[]): {
+        measured: boolean;
+        average: number;
+        variability: number;
+        delayed: number;
+    } {
+        const timed = segments
+            .filter(segment => Number.isFinite(segment.startTime) && Number.isFinite(segment.endTime))
+            .sort((a, b) => a.startTime - b.startTime);
+        if (timed.length === 0) {
+            return { measured: false, average: 0, variability: 0, delayed: 0 };
+        }
+
+        const latencies = timed.map((segment, i) =>
+            Math.max(0, segment.startTime - (i === 0 ? 0 : timed[i - 1].endTime))
+        );
+        const average = latencies.reduce((a, b) => a + b, 0) / latencies.length;
+        const deviation = Math.sqrt(
+            latencies.reduce((total, latency) => total + Math.pow(latency - average, 2), 0) / latencies.length
+        );
+
+        return {
+            measured: true,
+            average,
+            variability: average > 0 ? Math.min(1, deviation / average) : 0,
+            delayed: latencies.filter(latency => latency >= DELAYED_RESPONSE_SECONDS).length
+        };
+    }
+
+    private calculatePauses(segments: any[]): PauseMetrics {
+        if (segments.length < 2) return { averageLength: 0, frequency: 0, count: 0, maxLength: 0, ratio: 0, spans: [] };
 
         let totalPauseTime = 0;
         let pauseCount = 0;
+        let maxLength = 0;
+        const spans: EvidenceSpan[] = [];
 
         for (let i = 1; i < segments.length; i++) {
             const pause = segments[i].startTime - segments[i-1].endTime;
             if (pause > 0.1) { // Pause longer than 100ms
                 totalPauseTime += pause;
                 pauseCount++;
+                maxLength = Math.max(maxLength, pause);
+                spans.push(this.pauseSpan(segments[i-1].endTime, segments[i].startTime));
             }
         }
 
+        const span = segments[segments.length-1].endTime - segments[0].startTime;
         return {
             averageLength: pauseCount > 0 ? totalPauseTime / pauseCount : 0,
-            frequency: pauseCount / (segments[segments.length-1].endTime - segments[0].startTime)
+            frequency: pauseCount / span,
+            count: pauseCount,
+            maxLength,
+            ratio: span > 0 ? totalPauseTime / span : 0,
+            spans
         };
     }
 
-    private calculateSpeechRateVariability(segments: any[]): number {
+    private calculateAudioPauses(voiceActivity: VoiceActivityResult): PauseMetrics {
+        const { pauses, segments } = voiceActivity;
+        const firstSpeech = segments.findIndex(segment => segment.type === 'speech');
+        const lastSpeech = segments.map(segment => segment.type).lastIndexOf('speech');
+
+        return {
+            averageLength: pauses.meanLength,
+            frequency: pauses.frequency,
+            count: pauses.count,
+            maxLength: pauses.maxLength,
+            ratio: pauses.ratio,
+            spans: segments
+                .filter((segment, i) => segment.type === 'silence' && i > firstSpeech && i < lastSpeech)
+                .map(segment => this.pauseSpan(segment.start, segment.end))
+        };
+    }
+
+    private pauseSpan(start: number, end: number): EvidenceSpan {
+        return { start, end, text: `[pausa ${(end - start).toFixed(1)}s]` };
+    }
+
+    /**
+     * Flatten recognition output into timed words. Providers without word timings get
+     * their segment time split across its words by character length
+     */
+    private buildWordTimeline(speechResult: SpeechRecognitionResult): TimedWord[] {
+        const segments: RecognizedSegment[] = speechResult.segments || [];
+        const timed = (text: string, start: number, end: number): TimedWord => ({
+            text,
+            tokens: tokenize(text),
+            start,
+            end
+        });
+
+        if (speechResult.words && speechResult.words.length > 0) {
+            return speechResult.words.map(word => timed(word.word, word.startTime, word.endTime));
+        }
+
+        return segments.flatMap(segment => {
+            if (segment.words && segment.words.length > 0) {
+                return segment.words.map(word => timed(word.word, word.startTime, word.endTime));
+            }
+
+            const tokens = (segment.text || '').split(/\s+/).filter(token => token.length > 0);
+            const totalChars = tokens.reduce((total, token) => total + token.length, 0);
+            const duration = segment.endTime - segment.startTime;
+            let cursor = segment.startTime;
+            return tokens.map(token => {
+                const length = totalChars > 0 ? duration * token.length / totalChars : 0;
+                const word = timed(token, cursor, cursor + length);
+                cursor += length;
+                return word;
+            });
+        });
+    }
+
+    /**
+     * Locate each occurrence of the (possibly multi-word) patterns in the timeline
+     */
+    private findEvidence(timeline: TimedWord[], patterns: string[]): EvidenceSpan[] {
+        const tokens: Token[] = [];
+        const owners: number[] = []; // timeline index of each token
+        timeline.forEach((word, index) => {
+            word.tokens.forEach(token => {
+                tokens.push(token);
+                owners.push(index);
+            });
+        });
+
+        return matchPhrases(tokens, patterns).map(match => {
+            const words = timeline.slice(owners[match.tokenStart], owners[match.tokenEnd - 1] + 1);
+            return {
+                start: words[0].start,
+                end: words[words.length - 1].end,
+                text: words.map(word => word.text).join(' ')
+            };
+        });
+    }
+
+    private calculateSpeechRateVariability(segments: any[], voiceActivity?: VoiceActivityResult): number {
         const rates = segments.map(segment => {
             const words = segment.text.split(/\s+/).length;
-            const duration = segment.endTime - segment.startTime;
+            // Com VAD, usar só o tempo de fala do segmento (taxa de articulação)
+            const silence = voiceActivity ? silenceWithin(voiceActivity, segment.startTime, segment.endTime) : 0;
+            const duration = segment.endTime - segment.startTime - silence;
             return words / duration * 60; // words per minute
-        });
+        }).filter(rate => Number.isFinite(rate));
 
         if (rates.length < 2) return 0;
 
@@ -719,15 +906,36 @@ export class LieDetectionService {
         return Math.min(1, Math.sqrt(variance) / mean); // Coefficient of variation
     }
 
-    private calculateSpeechPatternScore(pauses: any, speechRate: number, rateVariability: number): number {
+    private calculateSpeechPatternScore(
+        pauses: any,
+        speechRate: number,
+        rateVariability: number,
+        baseline?: BaselineComparison
+    ): number {
         // Abnormal speech patterns can indicate deception
         const normalSpeechRate = 150; // Average words per minute
-        const rateDeviation = Math.abs(speechRate - normalSpeechRate) / normalSpeechRate;
-        const pauseScore = Math.min(1, pauses.averageLength * pauses.frequency);
+        const rateZ = baseline?.deviations.speechRate;
+        const pauseZ = baseline?.deviations.pauseRatio;
+
+        // With a calibrated baseline, deviation is measured against the speaker's own habits
+        const rateDeviation = rateZ !== undefined
+            ? Math.min(1, Math.abs(rateZ) / BASELINE_Z_SCALE)
+            : Math.abs(speechRate - normalSpeechRate) / normalSpeechRate;
+        const pauseScore = pauseZ !== undefined
+            ? Math.min(1, Math.max(0, pauseZ) / BASELINE_Z_SCALE)
+            : Math.min(1, pauses.averageLength * pauses.frequency);
         
         return Math.min(1, (rateDeviation + rateVariability + pauseScore) / 3);
     }
 
+    /**
+     * Population-normalized score, or only the excess over the speaker's baseline when calibrated
+     */
+    private rateScore(populationScore: number, baselineZ?: number): number {
+        if (baselineZ === undefined) return Math.min(1, populationScore);
+        return Math.min(1, Math.max(0, baselineZ) / BASELINE_Z_SCALE);
+    }
+
     private synthesizeOverallAssessment(
         linguistic: LinguisticAnalysis,
         emotional: EmotionalAnalysis,
@@ -814,11 +1022,15 @@ export class LieDetectionService {
             analysis.emotionalFactors.defensiveness.score
         ) / 4;
 
-        const behavioralScore = (
-            analysis.behavioralFactors.speechPatterns.score +
-            analysis.behavioralFactors.responseLatency.score +
+        // Response latency only counts when segment timings allowed measuring it
+        const behavioralScores = [
+            analysis.behavioralFactors.speechPatterns.score,
             analysis.behavioralFactors.verbosity.score
-        ) / 3;
+        ];
+        if (analysis.behavioralFactors.responseLatency.measured) {
+            behavioralScores.push(analysis.behavioralFactors.responseLatency.score);
+        }
+        const behavioralScore = behavioralScores.reduce((a, b) => a + b, 0) / behavioralScores.length;
 
         const temporalScore = (
             analysis.temporalFactors.timelineConsistency.score +
@@ -852,7 +1064,8 @@ export class LieDetectionService {
                 strength: analysis.linguisticFactors.hesitationMarkers.score,
                 confidence: 0.8,
                 description: `High frequency of hesitation markers detected (${analysis.linguisticFactors.hesitationMarkers.rate.toFixed(1)} per 100 words)`,
-                evidenceCount: analysis.linguisticFactors.hesitationMarkers.count
+                evidenceCount: analysis.linguisticFactors.hesitationMarkers.count,
+                evidence: analysis.linguisticFactors.hesitationMarkers.evidence
             });
         }
 
@@ -863,7 +1076,8 @@ export class LieDetectionService {
                 strength: analysis.linguisticFactors.fillerWords.score,
                 confidence: 0.7,
                 description: `Elevated use of filler words: ${analysis.linguisticFactors.fillerWords.variety.join(', ')}`,
-                evidenceCount: analysis.linguisticFactors.fillerWords.count
+                evidenceCount: analysis.linguisticFactors.fillerWords.count,
+                evidence: analysis.linguisticFactors.fillerWords.evidence
             });
         }
 
@@ -875,7 +1089,8 @@ export class LieDetectionService {
                 strength: analysis.emotionalFactors.stressIndicators.score,
                 confidence: 0.75,
                 description: `Stress indicators present: ${analysis.emotionalFactors.stressIndicators.patterns.join(', ')}`,
-                evidenceCount: analysis.emotionalFactors.stressIndicators.patterns.length
+                evidenceCount: analysis.emotionalFactors.stressIndicators.patterns.length,
+                evidence: analysis.emotionalFactors.stressIndicators.evidence
             });
         }
 
@@ -887,7 +1102,8 @@ export class LieDetectionService {
                 strength: analysis.behavioralFactors.speechPatterns.score,
                 confidence: 0.65,
                 description: `Unusual speech timing and pattern variations detected`,
-                evidenceCount: 1
+                evidenceCount: Math.max(1, analysis.behavioralFactors.speechPatterns.evidence.length),
+                evidence: analysis.behavioralFactors.speechPatterns.evidence
             });
         }
 
@@ -899,7 +1115,8 @@ export class LieDetectionService {
                 strength: analysis.temporalFactors.detailProgression.score,
                 confidence: 0.6,
                 description: `Inconsistent progression of details throughout response`,
-                evidenceCount: analysis.temporalFactors.detailProgression.addedDetails + analysis.temporalFactors.detailProgression.changedDetails
+                evidenceCount: analysis.temporalFactors.detailProgression.changedDetails,
+                evidence: analysis.temporalFactors.detailProgression.evidence
             });
         }
 
@@ -911,7 +1128,8 @@ export class LieDetectionService {
                 strength: analysis.contextualFactors.questionResponse.score,
                 confidence: 0.7,
                 description: `Patterns of evasive or indirect responses detected`,
-                evidenceCount: analysis.contextualFactors.questionResponse.evasiveAnswers
+                evidenceCount: analysis.contextualFactors.questionResponse.evasiveAnswers,
+                evidence: analysis.contextualFactors.questionResponse.evidence
             });
         }
 
@@ -982,30 +1200,30 @@ export class LieDetectionService {
     private createEmptyAnalysis(): ComprehensiveAnalysis {
         return {
             linguisticFactors: {
-                hesitationMarkers: { count: 0, rate: 0, types: [], score: 0 },
-                fillerWords: { count: 0, rate: 0, variety: [], score: 0 },
+                hesitationMarkers: { count: 0, rate: 0, types: [], score: 0, evidence: [] },
+                fillerWords: { count: 0, rate: 0, variety: [], score: 0, evidence: [] },
                 complexityMetrics: { averageWordsPerSentence: 0, vocabularyDiversity: 0, readabilityScore: 0, score: 0 },
-                certaintyIndicators: { strongAssertions: 0, qualifiers: 0, hedging: 0, score: 0 },
+                certaintyIndicators: { strongAssertions: 0, qualifiers: 0, hedging: 0, score: 0, evidence: [] },
                 contradictions: { internalContradictions: 0, logicalInconsistencies: 0, score: 0 }
             },
             emotionalFactors: {
-                stressIndicators: { detectedLevel: 0, patterns: [], score: 0 },
-                anxietyMarkers: { detectedLevel: 0, manifestations: [], score: 0 },
+                stressIndicators: { detectedLevel: 0, patterns: [], score: 0, evidence: [] },
+                anxietyMarkers: { detectedLevel: 0, manifestations: [], score: 0, evidence: [] },
                 emotionalVariability: { varianceScore: 0, rapidChanges: 0, stability: 0, score: 0 },
-                defensiveness: { level: 0, indicators: [], score: 0 }
+                defensiveness: { level: 0, indicators: [], score: 0, evidence: [] }
             },
             behavioralFactors: {
-                speechPatterns: { averagePauseLength: 0, pauseFrequency: 0, speechRate: 0, rateVariability: 0, score: 0 },
-                responseLatency: { averageLatency: 0, variability: 0, delayedResponses: 0, score: 0 },
+                speechPatterns: { averagePauseLength: 0, pauseFrequency: 0, pauseCount: 0, maxPauseLength: 0, pauseRatio: 0, pauseSource: 'segments', speechRate: 0, rateVariability: 0, score: 0, evidence: [] },
+                responseLatency: { measured: false, averageLatency: 0, variability: 0, delayedResponses: 0, score: 0 },
                 verbosity: { wordCount: 0, expectedLength: 0, verbosityRatio: 0, score: 0 }
             },
             temporalFactors: {
-                timelineConsistency: { chronologicalErrors: 0, timeGaps: 0, overSpecification: 0, score: 0 },
-                detailProgression: { initialDetail: 0, addedDetails: 0, changedDetails: 0, score: 0 }
+                timelineConsistency: { chronologicalErrors: null, timeGaps: null, overSpecification: 0, score: 0, evidence: [] },
+                detailProgression: { initialDetail: 0, addedDetails: null, changedDetails: 0, score: 0, evidence: [] }
             },
             contextualFactors: {
-                topicRelevance: { relevanceScore: 0, deflectionAttempts: 0, topicAvoidance: 0, score: 0 },
-                questionResponse: { directAnswers: 0, evasiveAnswers: 0, overExplanations: 0, score: 0 }
+                topicRelevance: { relevanceScore: null, deflectionAttempts: 0, topicAvoidance: 0, score: 0, evidence: [] },
+                questionResponse: { directAnswers: 0, evasiveAnswers: 0, overExplanations: 0, score: 0, evidence: [] }
             },
             overallAssessment: {
                 primaryConcerns: [],
@@ -0,0 +1,597 @@
+/**
+ * Live analysis while the participant is still speaking
+ * Clients stream 16-bit mono PCM. Every few seconds the new audio is transcribed
+ * (cut at a pause so words are not split) and indicators over a rolling window
+ * are pushed back; ending the stream runs the full lie detection over everything
+ * received, charged to the owner's quota like an upload of the same length and
+ * refunded if it fails. Streams stay resumable for a grace period after the
+ * connection drops
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { logger, createRequestLogger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { AUDIO_MAX_DURATION } from '../core/validation/schemas';
+import type { Role } from '../core/authorization/permissions';
+import { resolveLocalePack } from '../core/locales/localePacks';
+import { tokenize, matchPhrases } from '../utils/phraseMatcher';
+import { RecognizedSegment, SpeechRecognitionResult } from '../utils/typescript-fixes';
+import { DecodedPcm, encodeWav } from './audioDecoder';
+import { detectVoiceActivity } from './voiceActivityDetector';
+import { lieDetectionService, LieDetectionResult } from './lieDetectionService';
+import { baselineService, compareToBaseline, measureBaselineSample, BaselineComparison, BaselineService } from './baselineService';
+import { getSpeechToTextProvider, buildRecognitionResult, SpeechToTextProvider } from './speech';
+import { quotaService, QuotaCharge, QuotaService } from './quotaService';
+
+export type LiveStreamState = 'streaming' | 'finalizing' | 'finished';
+
+export interface LiveSessionOptions {
+    sampleRate?: number; // Of the incoming PCM, 8000-48000 Hz
+    language?: string;
+    participantId?: string; // Scores the final result against this speaker's baseline
+    userId?: string; // Account that owns the stream; only it can resume
+    role?: Role; // Owner's plan; with userId and quota the final analysis is charged
+    quota?: QuotaService;
+    requestId?: string;
+    maxDurationSeconds?: number;
+    updateIntervalSeconds?: number; // Audio received between indicator updates
+    windowSeconds?: number; // Span the rolling indicators cover
+    maxSegmentSeconds?: number; // Transcribe without waiting for a pause past this
+    maxPendingSeconds?: number; // Untranscribed audio before the client is asked to wait
+    transcriber?: SpeechToTextProvider;
+    baselines?: BaselineService;
+}
+
+export interface LiveIndicators {
+    receivedSeconds: number;
+    transcribedSeconds: number;
+    window: { start: number; end: number };
+    speechRatio: number; // Share of the window with speech
+    pauseCount: number;
+    longestPause: number; // seconds
+    speechRate: number | null; // Words per minute of speech in the window
+    fillerRate: number | null; // Per 100 words in the window
+    hesitationRate: number | null;
+    nervousness: number | null; // Lie score of the transcript so far, 0-1
+    riskLevel: LieDetectionResult['riskLevel'] | null;
+    topIndicators: Array<{ indicator: string; strength: number }>;
+}
+
+export type LiveAnalysisUpdate =
+    | { type: 'transcript'; segments: RecognizedSegment[]; text: string; transcribedSeconds: number }
+    | { type: 'indicators'; indicators: LiveIndicators };
+
+export type LiveAnalysisListener = (update: LiveAnalysisUpdate) => void;
+
+export interface AppendResult {
+    receivedBytes: number; // Resume offset: a reconnecting client resends from here
+    receivedSeconds: number;
+    limitReached: boolean; // maxDurationSeconds hit; the rest of the chunk was dropped
+    backpressure: boolean; // Stop sending until whenDrained() resolves
+}
+
+const BYTES_PER_SAMPLE = 2;
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 48000;
+const MIN_CUT_PAUSE_SECONDS = 0.3;
+const TOP_INDICATORS = 3;
+
+const DEFAULT_SESSION_OPTIONS = {
+    sampleRate: 16000,
+    language: 'pt-BR',
+    maxDurationSeconds: AUDIO_MAX_DURATION,
+    updateIntervalSeconds: 3,
+    windowSeconds: 10,
+    maxSegmentSeconds: 10,
+    maxPendingSeconds: 20
+};
+
+export class LiveAnalysisSession {
+    readonly id = randomUUID();
+    readonly sampleRate: number;
+    readonly language: string;
+    readonly participantId?: string;
+    readonly userId?: string;
+    readonly role?: Role;
+    readonly requestId: string;
+
+    private readonly config: typeof DEFAULT_SESSION_OPTIONS;
+    private readonly transcriber: SpeechToTextProvider;
+    private readonly baselines: BaselineService;
+    private readonly quota?: QuotaService;
+    private audio: Buffer;
+    private byteLength = 0;
+    private carry: Buffer | null = null; // Odd trailing byte of the last chunk
+    private transcribedSamples = 0;
+    private nextUpdateSamples: number;
+    private segments: RecognizedSegment[] = [];
+    private processing: Promise<void> = Promise.resolve();
+    private pendingUpdates = 0;
+    private finalizing: Promise<LieDetectionResult> | null = null;
+    private listener: LiveAnalysisListener | null = null;
+    private currentState: LiveStreamState = 'streaming';
+    private finalResult: LieDetectionResult | null = null;
+
+    constructor(options: LiveSessionOptions = {}) {
+        this.config = {
+            sampleRate: options.sampleRate ?? DEFAULT_SESSION_OPTIONS.sampleRate,
+            language: options.language || DEFAULT_SESSION_OPTIONS.language,
+            maxDurationSeconds: Math.min(options.maxDurationSeconds ?? AUDIO_MAX_DURATION, AUDIO_MAX_DURATION),
+            updateIntervalSeconds: options.updateIntervalSeconds ?? DEFAULT_SESSION_OPTIONS.updateIntervalSeconds,
+            windowSeconds: options.windowSeconds ?? DEFAULT_SESSION_OPTIONS.windowSeconds,
+            maxSegmentSeconds: options.maxSegmentSeconds ?? DEFAULT_SESSION_OPTIONS.maxSegmentSeconds,
+            maxPendingSeconds: options.maxPendingSeconds ?? DEFAULT_SESSION_OPTIONS.maxPendingSeconds
+        };
+        // A backlog must always be cuttable, or a paused client would never be resumed
+        this.config.maxSegmentSeconds = Math.max(this.config.maxSegmentSeconds, this.config.updateIntervalSeconds);
+        this.config.maxPendingSeconds = Math.max(
+            this.config.maxPendingSeconds,
+            this.config.maxSegmentSeconds + this.config.updateIntervalSeconds
+        );
+
+        const { sampleRate } = this.config;
+        if (!Number.isInteger(sampleRate) || sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+            throw new ValidationError(
+                `Taxa de amostragem inválida: ${sampleRate}. Use entre ${MIN_SAMPLE_RATE} e ${MAX_SAMPLE_RATE} Hz`,
+                { operation: 'liveAnalysis' }
+            );
+        }
+
+        this.sampleRate = sampleRate;
+        this.language = this.config.language;
+        this.participantId = options.participantId;
+        this.userId = options.userId;
+        this.role = options.role;
+        this.quota = options.quota;
+        this.requestId = options.requestId || this.id;
+        this.transcriber = options.transcriber || getSpeechToTextProvider();
+        this.baselines = options.baselines || baselineService;
+        this.audio = Buffer.alloc(sampleRate * BYTES_PER_SAMPLE * this.config.updateIntervalSeconds * 4);
+        this.nextUpdateSamples = this.secondsToSamples(this.config.updateIntervalSeconds);
+    }
+
+    get state(): LiveStreamState {
+        return this.currentState;
+    }
+
+    get receivedBytes(): number {
+        return this.byteLength + (this.carry ? this.carry.length : 0);
+    }
+
+    get receivedSeconds(): number {
+        return this.totalSamples / this.sampleRate;
+    }
+
+    // Audio received but not transcribed yet
+    get pendingSeconds(): number {
+        return (this.totalSamples - this.transcribedSamples) / this.sampleRate;
+    }
+
+    get result(): LieDetectionResult | null {
+        return this.finalResult;
+    }
+
+    get maxDurationSeconds(): number {
+        return this.config.maxDurationSeconds;
+    }
+
+    get transcript(): string {
+        return this.segments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+    }
+
+    // One listener at a time: a resumed connection replaces the previous one
+    setListener(listener: LiveAnalysisListener | null): void {
+        this.listener = listener;
+    }
+
+    /**
+     * Add a chunk of 16-bit little-endian mono PCM. Chunks may split samples
+     */
+    append(chunk: Buffer): AppendResult {
+        if (this.currentState !== 'streaming') {
+            throw new ValidationError('O stream já foi encerrado', { operation: 'liveAnalysis', metadata: { streamId: this.id } });
+        }
+
+        let data = this.carry ? Buffer.concat([this.carry, chunk]) : chunk;
+        const maxBytes = this.secondsToSamples(this.config.maxDurationSeconds) * BYTES_PER_SAMPLE;
+        const limitReached = this.byteLength + data.length >= maxBytes;
+        if (limitReached) {
+            data = data.subarray(0, maxBytes - this.byteLength);
+        }
+
+        const usable = data.length - (data.length % BYTES_PER_SAMPLE);
+        this.carry = usable < data.length ? Buffer.from(data.subarray(usable)) : null;
+        this.write(data.subarray(0, usable));
+
+        if (this.totalSamples >= this.nextUpdateSamples) {
+            this.nextUpdateSamples = this.totalSamples + this.secondsToSamples(this.config.updateIntervalSeconds);
+            this.scheduleUpdate();
+        }
+
+        return {
+            receivedBytes: this.receivedBytes,
+            receivedSeconds: this.receivedSeconds,
+            limitReached,
+            backpressure: this.pendingSeconds > this.config.maxPendingSeconds
+        };
+    }
+
+    /**
+     * Resolves once pending audio is back under maxPendingSeconds (or the stream ended)
+     */
+    async whenDrained(): Promise<void> {
+        while (this.currentState === 'streaming' && this.pendingSeconds > this.config.maxPendingSeconds) {
+            if (this.pendingUpdates === 0) this.scheduleUpdate();
+            await this.processing;
+        }
+    }
+
+    /**
+     * Transcribe what is left and run the full lie detection. Safe to call again:
+     * every caller gets the same result, and the quota is charged once
+     */
+    finalize(): Promise<LieDetectionResult> {
+        if (!this.finalizing) {
+            this.currentState = 'finalizing';
+            this.finalizing = this.chargeQuota().then(charge =>
+                this.runFinalAnalysis().catch(async error => {
+                    if (charge) await this.refundQuota(charge);
+                    throw error;
+                })
+            ).then(result => {
+                this.finalResult = result;
+                this.currentState = 'finished';
+                return result;
+            }, error => {
+                this.currentState = 'finished';
+                throw error;
+            });
+        }
+        return this.finalizing;
+    }
+
+    // Drop the audio of an abandoned stream
+    dispose(): void {
+        this.listener = null;
+        this.audio = Buffer.alloc(0);
+        this.byteLength = 0;
+        this.carry = null;
+        if (this.currentState === 'streaming') this.currentState = 'finished';
+    }
+
+    private get totalSamples(): number {
+        return this.byteLength / BYTES_PER_SAMPLE;
+    }
+
+    private secondsToSamples(seconds: number): number {
+        return Math.round(seconds * this.sampleRate);
+    }
+
+    private write(data: Buffer): void {
+        if (data.length === 0) return;
+        if (this.byteLength + data.length > this.audio.length) {
+            const grown = Buffer.alloc(Math.max(this.audio.length * 2, this.byteLength + data.length));
+            this.audio.copy(grown, 0, 0, this.byteLength);
+            this.audio = grown;
+        }
+        data.copy(this.audio, this.byteLength);
+        this.byteLength += data.length;
+    }
+
+    private samples(start: number, end: number): Float32Array {
+        const output = new Float32Array(Math.max(0, end - start));
+        for (let i = 0; i < output.length; i++) {
+            output[i] = this.audio.readInt16LE((start + i) * BYTES_PER_SAMPLE) / 32768;
+        }
+        return output;
+    }
+
+    private pcm(start: number, end: number): DecodedPcm {
+        return { sampleRate: this.sampleRate, channels: 1, channelData: [this.samples(start, end)] };
+    }
+
+    private scheduleUpdate(): void {
+        this.pendingUpdates++;
+        this.processing = this.processing.then(async () => {
+            this.pendingUpdates--;
+            if (this.currentState !== 'streaming') return;
+            try {
+                await this.transcribePending(false);
+                await this.publishIndicators();
+            } catch (error) {
+                logger.warn('Live analysis update failed', {
+                    requestId: this.requestId,
+                    streamId: this.id,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
+    }
+
+    /**
+     * Transcribe audio since the last cut. Mid-stream the cut goes in the middle of the
+     * last pause, so a word is never split between two requests
+     */
+    private async transcribePending(flush: boolean): Promise<void> {
+        const start = this.transcribedSamples;
+        const end = flush ? this.totalSamples : this.findCut(start, this.totalSamples);
+        if (end <= start) return;
+
+        const offset = start / this.sampleRate;
+        const recognition = await this.transcriber.transcribe(encodeWav(this.samples(start, end), this.sampleRate), {
+            language: this.language,
+            requestId: this.requestId
+        });
+        this.transcribedSamples = end;
+
+        if (!recognition.success) {
+            // The audio is still in the final analysis; only its words are missing
+            logger.warn('Live transcription of a segment failed', {
+                requestId: this.requestId,
+                streamId: this.id,
+                from: offset,
+                to: end / this.sampleRate,
+                error: recognition.error
+            });
+            return;
+        }
+
+        const segments = (recognition.segments || []).map(segment => ({
+            ...segment,
+            startTime: segment.startTime + offset,
+            endTime: segment.endTime + offset,
+            words: segment.words?.map(word => ({ ...word, startTime: word.startTime + offset, endTime: word.endTime + offset }))
+        }));
+        if (segments.length === 0) return;
+
+        this.segments.push(...segments);
+        this.listener?.({
+            type: 'transcript',
+            segments,
+            text: this.transcript,
+            transcribedSeconds: end / this.sampleRate
+        });
+    }
+
+    private findCut(start: number, end: number): number {
+        const pending = (end - start) / this.sampleRate;
+        if (pending < this.config.updateIntervalSeconds) return start;
+
+        const pauses = detectVoiceActivity(this.pcm(start, end)).segments
+            .filter(segment => segment.type === 'silence' && segment.end - segment.start >= MIN_CUT_PAUSE_SECONDS);
+        const last = pauses[pauses.length - 1];
+        if (last) {
+            return start + this.secondsToSamples((last.start + last.end) / 2);
+        }
+        return pending >= this.config.maxSegmentSeconds ? end : start;
+    }
+
+    private async publishIndicators(): Promise<void> {
+        if (!this.listener) return;
+        this.listener({ type: 'indicators', indicators: await this.measureIndicators() });
+    }
+
+    private async measureIndicators(): Promise<LiveIndicators> {
+        const end = this.totalSamples;
+        const start = Math.max(0, end - this.secondsToSamples(this.config.windowSeconds));
+        const windowStart = start / this.sampleRate;
+        const voiceActivity = detectVoiceActivity(this.pcm(start, end));
+
+        const words = this.segments
+            .flatMap(segment => segment.words || [])
+            .filter(word => word.endTime > windowStart);
+        const tokens = tokenize(words.map(word => word.word).join(' '));
+        const { lexicons } = resolveLocalePack(this.language).pack;
+        const per100Words = (count: number) => tokens.length > 0 ? count / tokens.length * 100 : null;
+
+        // Score of everything said so far; the full analysis with VAD and baseline runs at the end
+        let partial: LieDetectionResult | null = null;
+        if (this.transcript) {
+            partial = await lieDetectionService.detectLies({
+                speechResult: buildRecognitionResult(this.transcriber.name, this.segments, this.language, this.transcribedSamples / this.sampleRate),
+                requestId: this.requestId,
+                analysisOptions: { language: this.language, deterministic: true }
+            });
+        }
+        const scored = partial?.success ? partial : null;
+
+        return {
+            receivedSeconds: this.receivedSeconds,
+            transcribedSeconds: this.transcribedSamples / this.sampleRate,
+            window: { start: windowStart, end: end / this.sampleRate },
+            speechRatio: voiceActivity.duration > 0 ? voiceActivity.speechDuration / voiceActivity.duration : 0,
+            pauseCount: voiceActivity.pauses.count,
+            longestPause: voiceActivity.pauses.maxLength,
+            speechRate: voiceActivity.speechDuration > 0 && tokens.length > 0 ? tokens.length / voiceActivity.speechDuration * 60 : null,
+            fillerRate: per100Words(matchPhrases(tokens, lexicons.fillerWords).length),
+            hesitationRate: per100Words(matchPhrases(tokens, lexicons.hesitationMarkers).length),
+            nervousness: scored ? scored.overallLieScore : null,
+            riskLevel: scored ? scored.riskLevel : null,
+            topIndicators: scored
+                ? [...scored.indicators]
+                    .sort((a, b) => b.strength - a.strength)
+                    .slice(0, TOP_INDICATORS)
+                    .map(indicator => ({ indicator: indicator.indicator, strength: indicator.strength }))
+                : []
+        };
+    }
+
+    // Audio stopped arriving once finalizing began, so receivedSeconds is the final length
+    private async chargeQuota(): Promise<QuotaCharge | null> {
+        if (!this.quota || !this.userId || !this.role) return null;
+        return this.quota.charge({ userId: this.userId, role: this.role }, this.receivedSeconds);
+    }
+
+    // Our failure, not an analysis the user got: it does not count against the plan
+    private async refundQuota(charge: QuotaCharge): Promise<void> {
+        try {
+            await this.quota!.refund(charge);
+        } catch (error) {
+            logger.error('Failed to refund analysis quota', error as Error, { streamId: this.id, userId: charge.userId });
+        }
+    }
+
+    private async runFinalAnalysis(): Promise<LieDetectionResult> {
+        const requestLogger = createRequestLogger(this.requestId);
+        await this.processing;
+        await this.transcribePending(true);
+
+        const duration = this.receivedSeconds;
+        const wav = encodeWav(this.samples(0, this.totalSamples), this.sampleRate);
+        const speechResult = buildRecognitionResult(this.transcriber.name, this.segments, this.language, duration);
+        const voiceActivity = duration > 0 ? detectVoiceActivity(this.pcm(0, this.totalSamples)) : undefined;
+
+        requestLogger.info('Finalizing live analysis', {
+            streamId: this.id,
+            duration,
+            segmentCount: this.segments.length,
+            participantId: this.participantId
+        });
+
+        return lieDetectionService.detectLies({
+            speechResult,
+            requestId: this.requestId,
+            voiceActivity,
+            baseline: await this.compareWithBaseline(wav, speechResult),
+            analysisOptions: {
+                language: this.language,
+                includeConfidenceFactors: true,
+                enableEmotionalAnalysis: true,
+                enableBehavioralAnalysis: true
+            }
+        });
+    }
+
+    private async compareWithBaseline(
+        wav: Buffer,
+        speechResult: SpeechRecognitionResult
+    ): Promise<BaselineComparison | undefined> {
+        if (!this.participantId) return undefined;
+        try {
+            const baseline = await this.baselines.getReadyBaseline(this.participantId, this.userId);
+            if (!baseline) return undefined;
+            return compareToBaseline(measureBaselineSample(wav, speechResult), baseline.profile, this.participantId);
+        } catch (error) {
+            logger.warn('Baseline comparison unavailable for live analysis', {
+                requestId: this.requestId,
+                participantId: this.participantId,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return undefined;
+        }
+    }
+}
+
+export interface LiveAnalysisServiceOptions {
+    resumeGraceMs?: number; // How long a dropped or finished stream can be resumed
+    sessionDefaults?: Omit<LiveSessionOptions, 'requestId' | 'participantId' | 'userId' | 'role' | 'quota'>;
+    quota?: QuotaService; // Charged for streams opened with a userId and role
+}
+
+interface LiveStream {
+    session: LiveAnalysisSession;
+    resumeToken: string;
+    expiry: NodeJS.Timeout | null;
+}
+
+export class LiveAnalysisService {
+    private streams = new Map<string, LiveStream>();
+    private readonly resumeGraceMs: number;
+    private readonly sessionDefaults: LiveAnalysisServiceOptions['sessionDefaults'];
+    private readonly quota: QuotaService;
+
+    constructor(options: LiveAnalysisServiceOptions = {}) {
+        this.resumeGraceMs = options.resumeGraceMs ?? 30 * 1000;
+        this.sessionDefaults = options.sessionDefaults || {};
+        this.quota = options.quota || quotaService;
+    }
+
+    // Open streams plus those still inside their resume grace period
+    get activeStreams(): number {
+        return this.streams.size;
+    }
+
+    open(options: LiveSessionOptions = {}): { session: LiveAnalysisSession; resumeToken: string } {
+        const session = new LiveAnalysisSession({ quota: this.quota, ...this.sessionDefaults, ...options });
+        const resumeToken = randomBytes(24).toString('base64url');
+        this.streams.set(session.id, { session, resumeToken, expiry: null });
+
+        logger.info('Live analysis stream opened', {
+            requestId: session.requestId,
+            streamId: session.id,
+            userId: session.userId,
+            sampleRate: session.sampleRate,
+            language: session.language
+        });
+        return { session, resumeToken };
+    }
+
+    /**
+     * Reattach to a stream after a reconnect. Unknown streams, wrong tokens and another
+     * user's stream look the same so stream ids cannot be probed
+     */
+    resume(streamId: string, resumeToken: string, userId?: string): LiveAnalysisSession {
+        const stream = this.streams.get(streamId);
+        if (!stream || !tokensMatch(stream.resumeToken, resumeToken) || stream.session.userId !== userId) {
+            throw new NotFoundError(`Stream não encontrado ou expirado: ${streamId}`, { operation: 'resumeLiveAnalysis' });
+        }
+
+        if (stream.expiry) {
+            clearTimeout(stream.expiry);
+            stream.expiry = null;
+        }
+        logger.info('Live analysis stream resumed', {
+            streamId,
+            receivedBytes: stream.session.receivedBytes,
+            state: stream.session.state
+        });
+        return stream.session;
+    }
+
+    /**
+     * The connection is gone: keep the stream for the grace period, then drop it.
+     * A finished stream is kept the same way so its result can still be fetched
+     */
+    detach(streamId: string): void {
+        const stream = this.streams.get(streamId);
+        if (!stream) return;
+
+        stream.session.setListener(null);
+        if (stream.expiry) clearTimeout(stream.expiry);
+        stream.expiry = setTimeout(() => this.expire(streamId), this.resumeGraceMs);
+        stream.expiry.unref();
+    }
+
+    get(streamId: string): LiveAnalysisSession | null {
+        return this.streams.get(streamId)?.session || null;
+    }
+
+    private expire(streamId: string): void {
+        const stream = this.streams.get(streamId);
+        if (!stream) return;
+
+        if (stream.session.state === 'finalizing') {
+            // Keep the result resumable for a full grace period once it is ready
+            const detach = () => this.detach(streamId);
+            stream.session.finalize().then(detach, detach);
+            return;
+        }
+
+        this.streams.delete(streamId);
+        if (stream.session.state === 'streaming') {
+            logger.info('Live analysis stream abandoned', {
+                streamId,
+                receivedSeconds: stream.session.receivedSeconds
+            });
+        }
+        stream.session.dispose();
+    }
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual || '');
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export const liveAnalysisService = new LiveAnalysisService();
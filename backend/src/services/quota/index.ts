@@ -0,0 +1,55 @@
+/**
+ * Quota store selection
+ * QUOTA_STORE=memory|redis; without it Redis is used when REDIS_CONNECTION_STRING
+ * is configured and memory otherwise. With memory, usage is per process and
+ * resets on restart
+ */
+
+import { logger } from '../../utils/logger';
+import { QuotaStore, QuotaStoreName } from './quotaStore';
+import { MemoryQuotaStore } from './memoryQuotaStore';
+import { RedisQuotaStore } from './redisQuotaStore';
+
+export * from './quotaStore';
+export { MemoryQuotaStore } from './memoryQuotaStore';
+export { RedisQuotaStore } from './redisQuotaStore';
+export type { RedisQuotaStoreOptions } from './redisQuotaStore';
+
+let store: QuotaStore | null = null;
+
+export function createQuotaStore(name: QuotaStoreName = resolveStoreName()): QuotaStore {
+    switch (name) {
+        case 'memory':
+            return new MemoryQuotaStore();
+        case 'redis': {
+            const url = process.env.REDIS_CONNECTION_STRING;
+            if (!url) {
+                throw new Error('QUOTA_STORE=redis requires REDIS_CONNECTION_STRING');
+            }
+            return RedisQuotaStore.fromUrl(url, { keyPrefix: process.env.QUOTA_STORE_PREFIX });
+        }
+        default:
+            throw new Error(`Unknown quota store: ${name}`);
+    }
+}
+
+export function getQuotaStore(): QuotaStore {
+    if (!store) {
+        store = createQuotaStore();
+        logger.info('Quota store initialized', { store: store.name });
+        if (store.name === 'memory' && process.env.NODE_ENV === 'production') {
+            logger.warn('Quota usage is per-process; configure REDIS_CONNECTION_STRING for multiple instances');
+        }
+    }
+    return store;
+}
+
+export function setQuotaStore(instance: QuotaStore | null): void {
+    store = instance;
+}
+
+function resolveStoreName(): QuotaStoreName {
+    const configured = process.env.QUOTA_STORE as QuotaStoreName | undefined;
+    if (configured) return configured;
+    return process.env.REDIS_CONNECTION_STRING ? 'redis' : 'memory';
+}
@@ -0,0 +1,64 @@
+/**
+ * In-memory quota counters for tests and single-process development
+ * Expired counters are dropped when they are next read
+ */
+
+import { fitsWithin, QuotaPeriod, QuotaStore, QuotaStoreName, QuotaUsage, QuotaWindow } from './quotaStore';
+
+interface Counter extends QuotaUsage {
+    expiresAt: number;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+    readonly name: QuotaStoreName = 'memory';
+    private counters = new Map<string, Counter>();
+
+    async charge(userId: string, windows: QuotaWindow[], amount: QuotaUsage): Promise<QuotaPeriod | null> {
+        for (const window of windows) {
+            if (!fitsWithin(this.current(userId, window.key), amount, window.limits)) {
+                return window.period;
+            }
+        }
+        for (const window of windows) {
+            this.add(userId, window, amount.analyses, amount.audioSeconds);
+        }
+        return null;
+    }
+
+    async refund(userId: string, windows: Pick<QuotaWindow, 'key' | 'expiresAt'>[], amount: QuotaUsage): Promise<void> {
+        // Counters that already expired stay gone
+        for (const window of windows) {
+            if (this.counters.has(counterKey(userId, window.key))) {
+                this.add(userId, window, -amount.analyses, -amount.audioSeconds);
+            }
+        }
+    }
+
+    async usage(userId: string, windowKeys: string[]): Promise<QuotaUsage[]> {
+        return windowKeys.map(key => this.current(userId, key));
+    }
+
+    private add(userId: string, window: Pick<QuotaWindow, 'key' | 'expiresAt'>, analyses: number, audioSeconds: number): void {
+        const current = this.current(userId, window.key);
+        this.counters.set(counterKey(userId, window.key), {
+            analyses: Math.max(0, current.analyses + analyses),
+            audioSeconds: Math.max(0, current.audioSeconds + audioSeconds),
+            expiresAt: window.expiresAt
+        });
+    }
+
+    private current(userId: string, windowKey: string): QuotaUsage {
+        const key = counterKey(userId, windowKey);
+        const counter = this.counters.get(key);
+        if (!counter) return { analyses: 0, audioSeconds: 0 };
+        if (counter.expiresAt <= Date.now()) {
+            this.counters.delete(key);
+            return { analyses: 0, audioSeconds: 0 };
+        }
+        return { analyses: counter.analyses, audioSeconds: counter.audioSeconds };
+    }
+}
+
+function counterKey(userId: string, windowKey: string): string {
+    return `${userId}:${windowKey}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Usage counters behind the analysis quotas
+ * One counter per user and period ('day:2026-10-19', 'month:2026-10') holding
+ * analyses and audio seconds. A charge is added to every period at once, and
+ * only if none of them would go over its limit; refunds never go below zero.
+ * Counters expire a while after their period ends
+ */
+
+export type QuotaStoreName = 'memory' | 'redis';
+export type QuotaPeriod = 'day' | 'month';
+
+export interface QuotaUsage {
+    analyses: number;
+    audioSeconds: number;
+}
+
+export interface QuotaWindow {
+    period: QuotaPeriod;
+    key: string; // 'day:2026-10-19'
+    limits: QuotaUsage | null; // null: unlimited
+    expiresAt: number; // epoch ms the counter can be dropped
+}
+
+export interface QuotaStore {
+    readonly name: QuotaStoreName;
+    // Resolves null once charged, or the first period that would go over its limit
+    charge(userId: string, windows: QuotaWindow[], amount: QuotaUsage): Promise<QuotaPeriod | null>;
+    refund(userId: string, windows: Pick<QuotaWindow, 'key' | 'expiresAt'>[], amount: QuotaUsage): Promise<void>;
+    usage(userId: string, windowKeys: string[]): Promise<QuotaUsage[]>;
+}
+
+export function fitsWithin(current: QuotaUsage, amount: QuotaUsage, limits: QuotaUsage | null): boolean {
+    if (!limits) return true;
+    return current.analyses + amount.analyses <= limits.analyses
+        && current.audioSeconds + amount.audioSeconds <= limits.audioSeconds;
+}
@@ -0,0 +1,93 @@
+/**
+ * Redis quota counters, shared by every instance pointing at the same server
+ * Each user/period is a hash (analyses, audioSeconds) expiring after its period.
+ * Charging checks every period and then increments them in one Lua script, so
+ * concurrent uploads cannot both slip under the limit
+ */
+
+import Redis from 'ioredis';
+import { QuotaPeriod, QuotaStore, QuotaStoreName, QuotaUsage, QuotaWindow } from './quotaStore';
+
+export interface RedisQuotaStoreOptions {
+    keyPrefix?: string;
+}
+
+// KEYS counters; ARGV analyses, audioSeconds, then per key: maxAnalyses, maxAudioSeconds (-1 unlimited), expiresAt ms
+const CHARGE_SCRIPT = `
+local analyses = tonumber(ARGV[1])
+local seconds = tonumber(ARGV[2])
+for i, key in ipairs(KEYS) do
+  local max_analyses = tonumber(ARGV[3 * i])
+  local max_seconds = tonumber(ARGV[3 * i + 1])
+  if max_analyses >= 0 then
+    local used = redis.call('HMGET', key, 'analyses', 'audioSeconds')
+    if (tonumber(used[1]) or 0) + analyses > max_analyses or (tonumber(used[2]) or 0) + seconds > max_seconds then
+      return i
+    end
+  end
+end
+for i, key in ipairs(KEYS) do
+  redis.call('HINCRBY', key, 'analyses', analyses)
+  redis.call('HINCRBY', key, 'audioSeconds', seconds)
+  redis.call('PEXPIREAT', key, ARGV[3 * i + 2])
+end
+return 0
+`;
+
+// KEYS counters; ARGV analyses, audioSeconds. Counters that already expired stay gone
+const REFUND_SCRIPT = `
+for _, key in ipairs(KEYS) do
+  if redis.call('EXISTS', key) == 1 then
+    local analyses = redis.call('HINCRBY', key, 'analyses', -tonumber(ARGV[1]))
+    if analyses < 0 then redis.call('HSET', key, 'analyses', 0) end
+    local seconds = redis.call('HINCRBY', key, 'audioSeconds', -tonumber(ARGV[2]))
+    if seconds < 0 then redis.call('HSET', key, 'audioSeconds', 0) end
+  end
+end
+return 0
+`;
+
+export class RedisQuotaStore implements QuotaStore {
+    readonly name: QuotaStoreName = 'redis';
+    private readonly prefix: string;
+
+    constructor(private client: Redis, options: RedisQuotaStoreOptions = {}) {
+        this.prefix = options.keyPrefix || 'qmm:quota:';
+    }
+
+    static fromUrl(url: string, options: RedisQuotaStoreOptions = {}): RedisQuotaStore {
+        return new RedisQuotaStore(new Redis(url, { maxRetriesPerRequest: 3 }), options);
+    }
+
+    async charge(userId: string, windows: QuotaWindow[], amount: QuotaUsage): Promise<QuotaPeriod | null> {
+        const args: Array<string | number> = [amount.analyses, amount.audioSeconds];
+        for (const window of windows) {
+            args.push(window.limits?.analyses ?? -1, window.limits?.audioSeconds ?? -1, window.expiresAt);
+        }
+        const failed = await this.client.eval(
+            CHARGE_SCRIPT, windows.length, ...windows.map(window => this.key(userId, window.key)), ...args
+        ) as number;
+        return failed === 0 ? null : windows[failed - 1].period;
+    }
+
+    async refund(userId: string, windows: Pick<QuotaWindow, 'key' | 'expiresAt'>[], amount: QuotaUsage): Promise<void> {
+        await this.client.eval(
+            REFUND_SCRIPT, windows.length, ...windows.map(window => this.key(userId, window.key)), amount.analyses, amount.audioSeconds
+        );
+    }
+
+    async usage(userId: string, windowKeys: string[]): Promise<QuotaUsage[]> {
+        const pipeline = this.client.pipeline();
+        for (const windowKey of windowKeys) pipeline.hmget(this.key(userId, windowKey), 'analyses', 'audioSeconds');
+        const replies = await pipeline.exec() || [];
+        return replies.map(([error, values]) => {
+            if (error) throw error;
+            const [analyses, audioSeconds] = values as Array<string | null>;
+            return { analyses: Number(analyses || 0), audioSeconds: Number(audioSeconds || 0) };
+        });
+    }
+
+    private key(userId: string, windowKey: string): string {
+        return `${this.prefix}${userId}:${windowKey}`;
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Daily and monthly analysis quotas per plan
+ * An upload is charged one analysis plus its audio seconds before it is queued.
+ * The charge travels with the job and is refunded when the analysis fails for
+ * good, so users only pay for analyses they actually get. Periods follow UTC
+ */
+
+import { logger } from '../utils/logger';
+import { QuotaExceededError } from '../core/errors/CustomErrors';
+import type { Role } from '../core/authorization/permissions';
+import { getQuotaStore, QuotaPeriod, QuotaStore, QuotaUsage, QuotaWindow } from './quota';
+
+export interface PlanQuota {
+    day: QuotaUsage;
+    month: QuotaUsage;
+}
+
+// null: unlimited (usage is still counted)
+export const PLAN_QUOTAS: Record<Role, PlanQuota | null> = {
+    user: {
+        day: { analyses: 10, audioSeconds: 10 * 60 },
+        month: { analyses: 100, audioSeconds: 100 * 60 }
+    },
+    premium: {
+        day: { analyses: 100, audioSeconds: 3 * 3600 },
+        month: { analyses: 1000, audioSeconds: 30 * 3600 }
+    },
+    admin: null
+};
+
+// Counters outlive their period so late refunds still find them
+const COUNTER_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface QuotaCharge {
+    userId: string;
+    analyses: number;
+    audioSeconds: number;
+    windows: Array<Pick<QuotaWindow, 'key' | 'expiresAt'>>;
+}
+
+export interface PeriodUsage {
+    used: QuotaUsage;
+    limit: QuotaUsage | null;
+    remaining: QuotaUsage | null;
+    resetAt: string;
+}
+
+export interface UsageReport {
+    userId: string;
+    role: Role;
+    day: PeriodUsage;
+    month: PeriodUsage;
+}
+
+interface QuotaSubject {
+    userId: string;
+    role: Role;
+}
+
+export class QuotaService {
+    constructor(private storeOverride: QuotaStore | null = null) {}
+
+    // Resolved lazily so importing the service does not connect to Redis
+    private get store(): QuotaStore {
+        return this.storeOverride || getQuotaStore();
+    }
+
+    /**
+     * Charge one analysis of audioSeconds (rounded up) to the day and the month,
+     * or throw QuotaExceededError with the reset time of the period that is full
+     */
+    async charge(subject: QuotaSubject, audioSeconds = 0): Promise<QuotaCharge> {
+        const amount = { analyses: 1, audioSeconds: Math.ceil(Math.max(0, audioSeconds)) };
+        const windows = periodWindows(new Date(), PLAN_QUOTAS[subject.role]);
+
+        const period = await this.store.charge(subject.userId, windows, amount);
+        if (period) {
+            logger.info('Analysis quota exceeded', { userId: subject.userId, role: subject.role, period });
+            throw new QuotaExceededError(
+                period === 'day' ? 'Cota diária de análises esgotada' : 'Cota mensal de análises esgotada',
+                period,
+                periodEnd(new Date(), period),
+                { operation: 'chargeQuota', userId: subject.userId, metadata: { role: subject.role, audioSeconds: amount.audioSeconds } }
+            );
+        }
+
+        return {
+            userId: subject.userId,
+            ...amount,
+            windows: windows.map(({ key, expiresAt }) => ({ key, expiresAt }))
+        };
+    }
+
+    /**
+     * Give a charge back to the periods it was taken from
+     */
+    async refund(charge: QuotaCharge): Promise<void> {
+        await this.store.refund(charge.userId, charge.windows, { analyses: charge.analyses, audioSeconds: charge.audioSeconds });
+        logger.info('Analysis quota refunded', { userId: charge.userId, windows: charge.windows.map(window => window.key) });
+    }
+
+    async usage(subject: QuotaSubject): Promise<UsageReport> {
+        const now = new Date();
+        const plan = PLAN_QUOTAS[subject.role];
+        const windows = periodWindows(now, plan);
+        const [day, month] = await this.store.usage(subject.userId, windows.map(window => window.key));
+
+        const report = (used: QuotaUsage, window: QuotaWindow): PeriodUsage => ({
+            used,
+            limit: window.limits,
+            remaining: window.limits && {
+                analyses: Math.max(0, window.limits.analyses - used.analyses),
+                audioSeconds: Math.max(0, window.limits.audioSeconds - used.audioSeconds)
+            },
+            resetAt: periodEnd(now, window.period).toISOString()
+        });
+        return {
+            userId: subject.userId,
+            role: subject.role,
+            day: report(day, windows[0]),
+            month: report(month, windows[1])
+        };
+    }
+}
+
+function periodWindows(now: Date, plan: PlanQuota | null): QuotaWindow[] {
+    const date = now.toISOString();
+    return (['day', 'month'] as const).map(period => ({
+        period,
+        key: period === 'day' ? `day:${date.slice(0, 10)}` : `month:${date.slice(0, 7)}`,
+        limits: plan ? plan[period] : null,
+        expiresAt: periodEnd(now, period).getTime() + COUNTER_GRACE_MS
+    }));
+}
+
+function periodEnd(now: Date, period: QuotaPeriod): Date {
+    return period === 'day'
+        ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export const quotaService = new QuotaService();
@@ -0,0 +1,8 @@
+/**
+ * Rate limit stores; RateLimitService picks Redis while it is reachable and the
+ * memory store otherwise
+ */
+
+export * from './rateLimitStore';
+export { MemoryRateLimitStore } from './memoryRateLimitStore';
+export { RedisRateLimitStore } from './redisRateLimitStore';
@@ -0,0 +1,119 @@
+/**
+ * In-memory rate limit store for tests, development and the Redis fallback
+ * Mirrors the Lua scripts of RedisRateLimitStore step by step; entries expire
+ * when Redis would have expired the key; a sweep at most once a second drops them
+ */
+
+import {
+    bucketCapacity,
+    LimitDecision,
+    LimitPolicy,
+    RateLimitStore,
+    RateLimitStoreName,
+    refillInterval,
+    storedTokens
+} from './rateLimitStore';
+
+interface WindowLog {
+    stamps: number[]; // One entry per unit, oldest first
+    expiresAt: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    readonly name: RateLimitStoreName = 'memory';
+    private windows = new Map<string, WindowLog>();
+    private buckets = new Map<string, Bucket>();
+    private lastSweep = 0;
+
+    async consume(key: string, policy: LimitPolicy, weight: number, now: number): Promise<LimitDecision> {
+        this.sweep(now);
+        return policy.algorithm === 'token-bucket'
+            ? this.takeTokens(key, policy, weight, now)
+            : this.logUnits(key, policy, weight, now);
+    }
+
+    async reset(key: string): Promise<void> {
+        this.windows.delete(key);
+        this.buckets.delete(key);
+    }
+
+    get size(): number {
+        return this.windows.size + this.buckets.size;
+    }
+
+    private logUnits(key: string, { limit, windowMs }: LimitPolicy, weight: number, now: number): LimitDecision {
+        const log = this.windows.get(key) || { stamps: [], expiresAt: 0 };
+        log.stamps = log.stamps.filter(stamp => stamp > now - windowMs);
+
+        const allowed = log.stamps.length + weight <= limit;
+        if (allowed && weight > 0) {
+            for (let i = 0; i < weight; i++) log.stamps.push(now);
+            log.expiresAt = now + windowMs;
+        }
+        if (log.stamps.length > 0) this.windows.set(key, log);
+        else this.windows.delete(key);
+
+        const used = log.stamps.length;
+        let retryAt: number | undefined;
+        if (!allowed) {
+            const needed = used + weight - limit;
+            retryAt = weight > limit ? now + windowMs : log.stamps[needed - 1] + windowMs;
+        }
+        return {
+            allowed,
+            limit,
+            remaining: Math.max(0, limit - used),
+            resetAt: used > 0 ? log.stamps[0] + windowMs : now,
+            retryAt
+        };
+    }
+
+    private takeTokens(key: string, policy: LimitPolicy, weight: number, now: number): LimitDecision {
+        const capacity = bucketCapacity(policy);
+        const interval = refillInterval(policy);
+
+        const stored = this.buckets.get(key);
+        let tokens = stored ? stored.tokens : capacity;
+        let updatedAt = stored ? stored.updatedAt : now;
+        if (now > updatedAt) {
+            tokens = Math.min(capacity, tokens + (now - updatedAt) / interval);
+            updatedAt = now;
+        }
+
+        const allowed = weight <= tokens;
+        if (allowed) tokens -= weight;
+        tokens = storedTokens(tokens);
+
+        const fullIn = Math.ceil((capacity - tokens) * interval);
+        this.buckets.set(key, { tokens, updatedAt, expiresAt: now + Math.max(fullIn, 1) });
+
+        let retryAt: number | undefined;
+        if (!allowed) {
+            retryAt = weight > capacity ? now + policy.windowMs : now + Math.ceil((weight - tokens) * interval);
+        }
+        return {
+            allowed,
+            limit: capacity,
+            remaining: Math.floor(tokens),
+            resetAt: now + fullIn,
+            retryAt
+        };
+    }
+
+    private sweep(now: number): void {
+        if (now - this.lastSweep < 1000) return;
+        this.lastSweep = now;
+        for (const [key, log] of this.windows) {
+            if (log.expiresAt <= now) this.windows.delete(key);
+        }
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.expiresAt <= now) this.buckets.delete(key);
+        }
+    }
+}
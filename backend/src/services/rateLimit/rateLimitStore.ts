@@ -0,0 +1,52 @@
+/**
+ * Rate limit counting contract
+ * Both stores implement the same two algorithms with the same arithmetic, and
+ * the caller passes the clock, so falling back from Redis to memory (or back)
+ * never changes what is allowed:
+ *
+ * sliding-window  a log of the units spent in the last windowMs; a request
+ *                 fits while the log holds at most `limit` units
+ * token-bucket    `limit + burst` tokens, refilled continuously at
+ *                 limit per windowMs; a request takes `weight` tokens
+ */
+
+export type RateLimitStoreName = 'memory' | 'redis';
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface LimitPolicy {
+    algorithm: RateLimitAlgorithm;
+    limit: number; // Units per window
+    windowMs: number;
+    burst: number; // Extra bucket capacity above limit (token-bucket only)
+}
+
+export interface LimitDecision {
+    allowed: boolean;
+    limit: number; // Window budget or bucket capacity
+    remaining: number; // Whole units left after this request
+    resetAt: number; // epoch ms: oldest unit leaves the window / bucket is full again
+    retryAt?: number; // epoch ms when a denied request of this weight would fit
+}
+
+export interface RateLimitStore {
+    readonly name: RateLimitStoreName;
+    /**
+     * Spend `weight` units if they fit; weight 0 only reports the current state
+     */
+    consume(key: string, policy: LimitPolicy, weight: number, now: number): Promise<LimitDecision>;
+    reset(key: string): Promise<void>;
+}
+
+export function bucketCapacity(policy: LimitPolicy): number {
+    return policy.limit + policy.burst;
+}
+
+// Milliseconds to earn one token back
+export function refillInterval(policy: LimitPolicy): number {
+    return policy.windowMs / policy.limit;
+}
+
+// Redis keeps bucket levels as Lua tostring() output (14 significant digits)
+export function storedTokens(tokens: number): number {
+    return Number(tokens.toPrecision(14));
+}
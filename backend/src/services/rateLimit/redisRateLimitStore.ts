@@ -0,0 +1,115 @@
+/**
+ * Redis rate limit store, shared by every instance pointing at the same server
+ * Each algorithm is one Lua script, so reading, deciding and spending happen
+ * atomically. Windows are sorted sets with one member per unit scored by time;
+ * buckets are hashes with the token level and the time it was last refilled.
+ * Keys expire when they would read as empty (window) or full (bucket)
+ */
+
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { LimitDecision, LimitPolicy, RateLimitStore, RateLimitStoreName, bucketCapacity, refillInterval } from './rateLimitStore';
+
+// KEYS[1] window; ARGV now, windowMs, limit, weight, nonce
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local used = redis.call('ZCARD', KEYS[1])
+local allowed = used + weight <= limit
+if allowed and weight > 0 then
+  for i = 1, weight do
+    redis.call('ZADD', KEYS[1], now, ARGV[5] .. ':' .. i)
+  end
+  redis.call('PEXPIRE', KEYS[1], window)
+  used = used + weight
+end
+local reset_at = now
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then reset_at = tonumber(oldest[2]) + window end
+local retry_at = -1
+if not allowed then
+  if weight > limit then
+    retry_at = now + window
+  else
+    local needed = used + weight - limit
+    retry_at = tonumber(redis.call('ZRANGE', KEYS[1], needed - 1, needed - 1, 'WITHSCORES')[2]) + window
+  end
+end
+return { allowed and 1 or 0, used, reset_at, retry_at }
+`;
+
+// KEYS[1] bucket; ARGV now, capacity, refill interval (ms per token), weight, windowMs
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local interval = tonumber(ARGV[3])
+local weight = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+if now > ts then
+  tokens = math.min(capacity, tokens + (now - ts) / interval)
+  ts = now
+end
+local allowed = weight <= tokens
+if allowed then tokens = tokens - weight end
+tokens = tonumber(tostring(tokens))
+local full_in = math.ceil((capacity - tokens) * interval)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', ts)
+redis.call('PEXPIRE', KEYS[1], math.max(full_in, 1))
+local retry_at = -1
+if not allowed then
+  if weight > capacity then
+    retry_at = now + tonumber(ARGV[5])
+  else
+    retry_at = now + math.ceil((weight - tokens) * interval)
+  end
+end
+return { allowed and 1 or 0, tostring(tokens), now + full_in, retry_at }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+    readonly name: RateLimitStoreName = 'redis';
+
+    constructor(private client: Redis) {}
+
+    static fromUrl(url: string): RedisRateLimitStore {
+        return new RedisRateLimitStore(new Redis(url, { maxRetriesPerRequest: 3 }));
+    }
+
+    async consume(key: string, policy: LimitPolicy, weight: number, now: number): Promise<LimitDecision> {
+        if (policy.algorithm === 'token-bucket') {
+            const capacity = bucketCapacity(policy);
+            const [allowed, tokens, resetAt, retryAt] = await this.client.eval(
+                TOKEN_BUCKET_SCRIPT, 1, key, now, capacity, refillInterval(policy), weight, policy.windowMs
+            ) as [number, string, number, number];
+            return decision(allowed, capacity, Math.floor(Number(tokens)), resetAt, retryAt);
+        }
+
+        const [allowed, used, resetAt, retryAt] = await this.client.eval(
+            SLIDING_WINDOW_SCRIPT, 1, key, now, policy.windowMs, policy.limit, weight, randomUUID()
+        ) as [number, number, number, number];
+        return decision(allowed, policy.limit, Math.max(0, policy.limit - used), resetAt, retryAt);
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.client.del(key);
+    }
+
+    async quit(): Promise<void> {
+        await this.client.quit();
+    }
+}
+
+function decision(allowed: number, limit: number, remaining: number, resetAt: number, retryAt: number): LimitDecision {
+    return {
+        allowed: allowed === 1,
+        limit,
+        remaining,
+        resetAt,
+        retryAt: retryAt >= 0 ? retryAt : undefined
+    };
+}
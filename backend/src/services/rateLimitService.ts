@@ -9,11 +9,21 @@
 
 import { DefensiveLogger } from '../utils/logger';
 import { createLogger } from '../utils/logger';
+import {
+  LimitDecision,
+  LimitPolicy,
+  MemoryRateLimitStore,
+  RateLimitAlgorithm,
+  RateLimitStore,
+  RateLimitStoreName,
+  RedisRateLimitStore
+} from './rateLimit';
 
 interface RateLimitConfig {
   redis?: {
-    host: string;
-    port: number;
+    url?: string; // Takes precedence over host/port
+    host?: string;
+    port?: number;
     password?: string;
     db?: number;
   };
@@ -26,40 +36,54 @@ interface RateLimitConfig {
   keyPrefix: string;
 }
 
-interface RateLimitRequest {
+export interface RateLimitRequest {
   identifier: string; // userId, IP, or custom key
-  action: string; // 'upload', 'auth', 'analyze', etc.
-  weight?: number; // Request weight (default: 1)
+  action: RateLimitAction | string; // Unknown actions use the default limits
+  weight?: number; // Units this request consumes (default: the action's weight)
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
-  limit: number;
+  limit: number; // Window budget, or bucket capacity (requests + burst)
   remaining: number;
-  resetTime: Date;
-  retryAfter?: number; // seconds
+  resetTime: Date; // When the oldest counted unit leaves the window / the bucket is full again
+  retryAfter?: number; // seconds until enough units are free for the denied request
   metadata: {
-    algorithm: 'sliding-window' | 'token-bucket' | 'memory-fallback';
+    algorithm: RateLimitAlgorithm | 'memory-fallback'; // memory-fallback: the check failed and was allowed
+    store?: RateLimitStoreName;
     hitCount: number;
     windowStart: Date;
   };
 }
 
-// Action-specific rate limits
-const ACTION_LIMITS = {
-  'upload': { requests: 10, windowMs: 60000, weight: 5 }, // 10 uploads per minute
-  'auth': { requests: 5, windowMs: 300000, weight: 1 }, // 5 auth attempts per 5 minutes
-  'analyze': { requests: 20, windowMs: 60000, weight: 3 }, // 20 analysis per minute
-  'health': { requests: 100, windowMs: 60000, weight: 1 }, // 100 health checks per minute
-  'default': { requests: 30, windowMs: 60000, weight: 1 }, // 30 requests per minute
-};
+interface ActionLimit {
+  requests: number; // Units per window
+  windowMs: number;
+  weight: number; // Default units per request
+  algorithm: RateLimitAlgorithm;
+  burst?: number; // token-bucket capacity above requests; defaults to defaultLimits.burstAllowance
+}
+
+// Action-specific rate limits. Logins get an exact sliding log so a burst cannot
+// add guesses; uploads and analyses may burst and then refill steadily
+export const ACTION_LIMITS = {
+  'upload': { requests: 10, windowMs: 60000, weight: 5, algorithm: 'token-bucket' }, // 10 units per minute
+  'auth': { requests: 5, windowMs: 300000, weight: 1, algorithm: 'sliding-window' }, // 5 auth attempts per 5 minutes
+  'analyze': { requests: 20, windowMs: 60000, weight: 3, algorithm: 'token-bucket' }, // 20 units per minute
+  'health': { requests: 100, windowMs: 60000, weight: 1, algorithm: 'token-bucket' }, // 100 health checks per minute
+  'default': { requests: 30, windowMs: 60000, weight: 1, algorithm: 'sliding-window' }, // 30 requests per minute
+} satisfies Record<string, ActionLimit>;
+
+export type RateLimitAction = keyof typeof ACTION_LIMITS;
 
 export class RateLimitService {
   private logger: DefensiveLogger;
   private config: RateLimitConfig;
   private redisClient: any = null;
-  private memoryStore = new Map<string, any>();
+  private redisStore: RateLimitStore | null = null;
+  private memoryStore = new MemoryRateLimitStore();
   private isRedisConnected = false;
+  private warnedMemoryFallback = false;
 
   constructor(config: RateLimitConfig = {
     fallbackToMemory: true,
@@ -69,10 +93,16 @@ export class RateLimitService {
       burstAllowance: 5
     },
     keyPrefix: 'rl:'
-  }) {
+  }, redisStore?: RateLimitStore) {
     this.config = config;
     this.logger = createLogger('RateLimitService');
-    this.initializeRedis();
+    if (redisStore) {
+      // Injected store (tests, shared client): treat it as connected
+      this.redisStore = redisStore;
+      this.isRedisConnected = true;
+    } else {
+      this.initializeRedis();
+    }
   }
 
   /**
@@ -93,15 +123,17 @@ export class RateLimitService {
         return;
       }
 
-      this.redisClient = new Redis({
-        host: this.config.redis.host,
-        port: this.config.redis.port,
-        password: this.config.redis.password,
-        db: this.config.redis.db || 0,
-        retryDelayOnFailover: 100,
-        maxRetriesPerRequest: 3,
-        lazyConnect: true,
-      });
+      const options = { maxRetriesPerRequest: 3, lazyConnect: true };
+      this.redisClient = this.config.redis.url
+        ? new Redis(this.config.redis.url, options)
+        : new Redis({
+          host: this.config.redis.host,
+          port: this.config.redis.port,
+          password: this.config.redis.password,
+          db: this.config.redis.db || 0,
+          ...options,
+        });
+      this.redisStore = new RedisRateLimitStore(this.redisClient);
 
       this.redisClient.on('connect', () => {
         this.isRedisConnected = true;
@@ -126,21 +158,9 @@ export class RateLimitService {
    */
   async checkRateLimit(request: RateLimitRequest): Promise<RateLimitResult> {
     try {
-      const limits = ACTION_LIMITS[request.action] || ACTION_LIMITS.default;
-      const weight = request.weight || limits.weight;
-      const key = this.generateKey(request.identifier, request.action);
-
-      // Try Redis first, fallback to memory
-      if (this.isRedisConnected && this.redisClient) {
-        return await this.checkRedisRateLimit(key, limits, weight);
-      } else {
-        this.logger.warn('Using memory fallback for rate limiting', {
-          action: request.action,
-          identifier: request.identifier
-        });
-        return await this.checkMemoryRateLimit(key, limits, weight);
-      }
-
+      const limits = limitsFor(request.action);
+      const weight = Math.max(0, Math.ceil(request.weight ?? limits.weight));
+      return await this.consume(request.identifier, request.action, weight);
     } catch (error) {
       this.logger.error('Rate limit check failed', {
         error: error.message,
@@ -163,132 +183,6 @@ export class RateLimitService {
     }
   }
 
-  /**
-   * Redis-based sliding window rate limiting
-   */
-  private async checkRedisRateLimit(
-    key: string,
-    limits: typeof ACTION_LIMITS.default,
-    weight: number
-  ): Promise<RateLimitResult> {
-    const now = Date.now();
-    const window = limits.windowMs;
-    const windowStart = now - window;
-
-    // Lua script for atomic sliding window check
-    const luaScript = `
-      local key = KEYS[1]
-      local window_start = tonumber(ARGV[1])
-      local now = tonumber(ARGV[2])
-      local limit = tonumber(ARGV[3])
-      local weight = tonumber(ARGV[4])
-      local window_ms = tonumber(ARGV[5])
-      
-      -- Remove expired entries
-      redis.call('ZREMRANGEBYSCORE', key, 0, window_start)
-      
-      -- Get current count
-      local current = redis.call('ZCARD', key)
-      local remaining = math.max(0, limit - current - weight)
-      local allowed = current + weight <= limit
-      
-      if allowed then
-        -- Add current request with score = timestamp
-        for i = 1, weight do
-          redis.call('ZADD', key, now, now .. ':' .. i)
-        end
-        redis.call('EXPIRE', key, math.ceil(window_ms / 1000))
-      end
-      
-      return {
-        allowed and 1 or 0,
-        limit,
-        remaining,
-        current + (allowed and weight or 0),
-        now + window_ms
-      }
-    `;
-
-    const result = await this.redisClient.eval(
-      luaScript,
-      1,
-      key,
-      windowStart.toString(),
-      now.toString(),
-      limits.requests.toString(),
-      weight.toString(),
-      window.toString()
-    ) as number[];
-
-    const [allowed, limit, remaining, hitCount, resetTime] = result;
-
-    return {
-      allowed: allowed === 1,
-      limit,
-      remaining,
-      resetTime: new Date(resetTime),
-      retryAfter: allowed === 0 ? Math.ceil(window / 1000) : undefined,
-      metadata: {
-        algorithm: 'sliding-window',
-        hitCount,
-        windowStart: new Date(windowStart)
-      }
-    };
-  }
-
-  /**
-   * Memory-based rate limiting fallback
-   */
-  private async checkMemoryRateLimit(
-    key: string,
-    limits: typeof ACTION_LIMITS.default,
-    weight: number
-  ): Promise<RateLimitResult> {
-    const now = Date.now();
-    const window = limits.windowMs;
-    const windowStart = now - window;
-
-    // Get or create window data
-    let windowData = this.memoryStore.get(key);
-    if (!windowData) {
-      windowData = {
-        requests: [],
-        firstRequest: now
-      };
-      this.memoryStore.set(key, windowData);
-    }
-
-    // Remove expired requests
-    windowData.requests = windowData.requests.filter((timestamp: number) => timestamp > windowStart);
-
-    const currentCount = windowData.requests.length;
-    const remaining = Math.max(0, limits.requests - currentCount - weight);
-    const allowed = currentCount + weight <= limits.requests;
-
-    if (allowed) {
-      // Add current request timestamps
-      for (let i = 0; i < weight; i++) {
-        windowData.requests.push(now);
-      }
-    }
-
-    // Cleanup old entries periodically
-    this.cleanupMemoryStore();
-
-    return {
-      allowed,
-      limit: limits.requests,
-      remaining,
-      resetTime: new Date(now + window),
-      retryAfter: allowed ? undefined : Math.ceil(window / 1000),
-      metadata: {
-        algorithm: 'memory-fallback',
-        hitCount: currentCount + (allowed ? weight : 0),
-        windowStart: new Date(windowStart)
-      }
-    };
-  }
-
   /**
    * Increment rate limit counter (for successful requests)
    */
@@ -301,45 +195,9 @@ export class RateLimitService {
    * Get current rate limit status without incrementing
    */
   async getRateLimitStatus(identifier: string, action: string): Promise<RateLimitResult> {
-    const limits = ACTION_LIMITS[action] || ACTION_LIMITS.default;
-    const key = this.generateKey(identifier, action);
-    const now = Date.now();
-    const window = limits.windowMs;
-    const windowStart = now - window;
-
     try {
-      if (this.isRedisConnected && this.redisClient) {
-        const count = await this.redisClient.zcount(key, windowStart, now);
-        const remaining = Math.max(0, limits.requests - count);
-
-        return {
-          allowed: count < limits.requests,
-          limit: limits.requests,
-          remaining,
-          resetTime: new Date(now + window),
-          metadata: {
-            algorithm: 'sliding-window',
-            hitCount: count,
-            windowStart: new Date(windowStart)
-          }
-        };
-      } else {
-        const windowData = this.memoryStore.get(key) || { requests: [] };
-        const validRequests = windowData.requests.filter((timestamp: number) => timestamp > windowStart);
-        const remaining = Math.max(0, limits.requests - validRequests.length);
-
-        return {
-          allowed: validRequests.length < limits.requests,
-          limit: limits.requests,
-          remaining,
-          resetTime: new Date(now + window),
-          metadata: {
-            algorithm: 'memory-fallback',
-            hitCount: validRequests.length,
-            windowStart: new Date(windowStart)
-          }
-        };
-      }
+      const status = await this.consume(identifier, action, 0);
+      return { ...status, allowed: status.remaining > 0 };
     } catch (error) {
       this.logger.error('Failed to get rate limit status', { error: error.message });
       throw error;
@@ -353,10 +211,9 @@ export class RateLimitService {
     const key = this.generateKey(identifier, action);
 
     try {
-      if (this.isRedisConnected && this.redisClient) {
-        await this.redisClient.del(key);
-      } else {
-        this.memoryStore.delete(key);
+      await this.memoryStore.reset(key);
+      if (this.isRedisConnected && this.redisStore) {
+        await this.redisStore.reset(key);
       }
 
       this.logger.info('Rate limit reset', { identifier, action });
@@ -402,24 +259,61 @@ export class RateLimitService {
   }
 
   /**
-   * Generate Redis key for rate limiting
-   */
-  private generateKey(identifier: string, action: string): string {
-    return `${this.config.keyPrefix}${action}:${identifier}`;
-  }
-
-  /**
-   * Cleanup expired entries from memory store
+   * Spend units with the action's algorithm, in Redis while it is reachable.
+   * A failed Redis call is answered by the memory store rather than failing open
    */
-  private cleanupMemoryStore(): void {
+  private async consume(identifier: string, action: string, weight: number): Promise<RateLimitResult> {
+    const policy = this.policyFor(action);
+    const key = this.generateKey(identifier, action);
     const now = Date.now();
-    const maxAge = 5 * 60 * 1000; // 5 minutes
 
-    for (const [key, data] of this.memoryStore.entries()) {
-      if (data.firstRequest && now - data.firstRequest > maxAge) {
-        this.memoryStore.delete(key);
+    let store: RateLimitStore = this.memoryStore;
+    let decision: LimitDecision | null = null;
+    if (this.isRedisConnected && this.redisStore) {
+      try {
+        decision = await this.redisStore.consume(key, policy, weight, now);
+        store = this.redisStore;
+      } catch (error) {
+        this.logger.error('Redis rate limit check failed, using memory fallback', { error: error.message, action });
       }
+    } else if (this.config.redis && !this.warnedMemoryFallback) {
+      this.warnedMemoryFallback = true;
+      this.logger.warn('Redis unavailable, using memory fallback for rate limiting', { action });
     }
+    decision = decision || await this.memoryStore.consume(key, policy, weight, now);
+
+    return {
+      allowed: decision.allowed,
+      limit: decision.limit,
+      remaining: decision.remaining,
+      resetTime: new Date(decision.resetAt),
+      retryAfter: decision.allowed || decision.retryAt === undefined ? undefined : secondsFrom(now, decision.retryAt),
+      metadata: {
+        algorithm: policy.algorithm,
+        store: store.name,
+        hitCount: decision.limit - decision.remaining,
+        windowStart: new Date(now - policy.windowMs)
+      }
+    };
+  }
+
+  private policyFor(action: string): LimitPolicy {
+    const limits: ActionLimit = limitsFor(action);
+    return {
+      algorithm: limits.algorithm,
+      limit: limits.requests,
+      windowMs: limits.windowMs,
+      burst: limits.algorithm === 'token-bucket' ? limits.burst ?? this.config.defaultLimits.burstAllowance : 0
+    };
+  }
+
+  /**
+   * Generate Redis key for rate limiting; the algorithm is part of the key so
+   * switching an action's algorithm never reads the other algorithm's data
+   */
+  private generateKey(identifier: string, action: string): string {
+    const algorithm = limitsFor(action).algorithm === 'token-bucket' ? 'tb' : 'sw';
+    return `${this.config.keyPrefix}${action}:${algorithm}:${identifier}`;
   }
 
   /**
@@ -429,24 +323,50 @@ export class RateLimitService {
     if (this.redisClient) {
       await this.redisClient.quit();
     }
-    this.memoryStore.clear();
+    this.memoryStore = new MemoryRateLimitStore();
     this.logger.info('Rate limit service shutdown completed');
   }
 }
 
-// Export singleton instance
-export const rateLimitService = new RateLimitService({
-  redis: {
-    host: process.env.REDIS_HOST || 'localhost',
-    port: parseInt(process.env.REDIS_PORT || '6379'),
-    password: process.env.REDIS_PASSWORD,
-    db: parseInt(process.env.REDIS_DB || '0')
-  },
-  fallbackToMemory: true,
-  defaultLimits: {
-    requests: 30,
-    windowMs: 60000,
-    burstAllowance: 5
-  },
-  keyPrefix: 'mentira_rl:'
-});
\ No newline at end of file
+function limitsFor(action: string): ActionLimit {
+  return ACTION_LIMITS[action as RateLimitAction] || ACTION_LIMITS.default;
+}
+
+function secondsFrom(now: number, until: number): number {
+  return Math.max(1, Math.ceil((until - now) / 1000));
+}
+
+let instance: RateLimitService | null = null;
+
+/**
+ * Shared limiter, created on first use. Counters live in Redis when
+ * REDIS_CONNECTION_STRING or REDIS_HOST is set so every instance shares them;
+ * otherwise each process counts on its own
+ */
+export function getRateLimitService(): RateLimitService {
+  if (!instance) {
+    const url = process.env.REDIS_CONNECTION_STRING;
+    const host = process.env.REDIS_HOST;
+    instance = new RateLimitService({
+      redis: url || host ? {
+        url,
+        host,
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD,
+        db: parseInt(process.env.REDIS_DB || '0')
+      } : undefined,
+      fallbackToMemory: true,
+      defaultLimits: {
+        requests: 30,
+        windowMs: 60000,
+        burstAllowance: 5
+      },
+      keyPrefix: process.env.RATE_LIMIT_PREFIX || 'mentira_rl:'
+    });
+  }
+  return instance;
+}
+
+export function setRateLimitService(service: RateLimitService | null): void {
+  instance = service;
+}
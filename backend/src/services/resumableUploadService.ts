@@ -0,0 +1,330 @@
+/**
+ * Uploads that do not fit in one multipart request
+ * Resumable (tus 1.0: creation, expiration, termination): each PATCH is staged
+ * as one storage block and appended to the session; the chunk that completes
+ * the upload commits the block list. A dropped connection only loses the chunk
+ * in flight.
+ * Direct: the client gets a short-lived write-only SAS URL for one blob, writes
+ * it straight to storage and then asks for completion, so the bytes never pass
+ * through the function.
+ * Either way the stored file then goes through the same validation, antivirus
+ * scan and analysis hand-off as a multipart upload
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger';
+import { ConflictError, ExternalServiceError, NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { AUDIO_MAX_SIZE, uploadIntentSchema } from '../core/validation/schemas';
+import type { AuthenticatedUser } from '../middleware/auth';
+import { getStorageBackend, StorageBackend } from './storage';
+import { audioProcessingService } from './audioProcessingService';
+import { uploadIntakeService, UploadIntakeService } from './uploadIntakeService';
+import { getUploadSessionStore, UploadSession, UploadSessionStore, UploadTransfer } from './uploads';
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'expiration', 'termination'];
+
+export type BlockStorage = Pick<StorageBackend,
+    'stageBlock' | 'commitBlockList' | 'generateUploadUrl' | 'getBlobInfo' | 'downloadAudioFile' | 'deleteAudioFile' | 'generateBlobName'>;
+
+export interface ResumableUploadOptions {
+    expirationSeconds?: number;
+    maxChunkSize?: number;
+    sasExpirationSeconds?: number;
+}
+
+export interface UploadIntent {
+    upload: UploadSession;
+    uploadUrl: string;
+    uploadExpiresAt: string;
+    // Headers the PUT to uploadUrl must carry
+    headers: Record<string, string>;
+}
+
+const DEFAULT_OPTIONS: Required<ResumableUploadOptions> = {
+    expirationSeconds: parseInt(process.env.UPLOAD_EXPIRATION_SECONDS || '86400', 10),
+    maxChunkSize: 8 * 1024 * 1024,
+    sasExpirationSeconds: parseInt(process.env.UPLOAD_SAS_EXPIRATION_SECONDS || '900', 10)
+};
+
+export class ResumableUploadService {
+    readonly options: Required<ResumableUploadOptions>;
+
+    constructor(
+        private storeOverride: UploadSessionStore | null = null,
+        private storageOverride: BlockStorage | null = null,
+        private intake: UploadIntakeService = uploadIntakeService,
+        options: ResumableUploadOptions = {}
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    // Resolved lazily so importing the service does not connect to Redis or storage
+    private get store(): UploadSessionStore {
+        return this.storeOverride || getUploadSessionStore();
+    }
+
+    private get storage(): BlockStorage {
+        return this.storageOverride || getStorageBackend();
+    }
+
+    async create(user: AuthenticatedUser, length: number, metadata: Record<string, string>): Promise<UploadSession> {
+        if (!Number.isSafeInteger(length) || length < 1 || length > AUDIO_MAX_SIZE) {
+            throw new ValidationError(`Upload-Length deve estar entre 1 e ${AUDIO_MAX_SIZE} bytes`, { operation: 'createUpload' });
+        }
+        return this.open(user, 'tus', length, metadata);
+    }
+
+    /**
+     * Start a direct upload: a SAS URL that can only write the session's blob, until it expires
+     */
+    async createIntent(user: AuthenticatedUser, input: unknown): Promise<UploadIntent> {
+        const parsed = uploadIntentSchema.safeParse(input);
+        if (!parsed.success) {
+            throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), { operation: 'createUploadIntent' });
+        }
+        const { filename, contentType, length, fields } = parsed.data;
+
+        const upload = await this.open(user, 'direct', length, { ...fields, filename, filetype: contentType });
+        const uploadExpiresAt = new Date(Math.min(
+            Date.now() + this.options.sasExpirationSeconds * 1000,
+            new Date(upload.expiresAt).getTime()
+        ));
+        const sas = await this.storage.generateUploadUrl(upload.blobName, uploadExpiresAt);
+        if (!sas.success || !sas.data) {
+            await this.store.delete(upload.id);
+            throw new ExternalServiceError(sas.error || 'SAS generation failed', 'AzureBlobStorage', undefined, { operation: 'createUploadIntent' });
+        }
+
+        return {
+            upload,
+            uploadUrl: sas.data,
+            uploadExpiresAt: uploadExpiresAt.toISOString(),
+            headers: { 'x-ms-blob-type': 'BlockBlob', 'Content-Type': contentType }
+        };
+    }
+
+    private async open(user: AuthenticatedUser, transfer: UploadTransfer, length: number, metadata: Record<string, string>): Promise<UploadSession> {
+        const id = randomUUID();
+        const now = Date.now();
+        const session: UploadSession = {
+            id,
+            userId: user.userId,
+            transfer,
+            length,
+            offset: 0,
+            blobName: this.storage.generateBlobName(metadata.filename || 'upload.bin', id),
+            blockIds: [],
+            metadata,
+            status: 'uploading',
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + this.options.expirationSeconds * 1000).toISOString()
+        };
+        await this.store.create(session);
+
+        logger.info('Upload created', { uploadId: id, userId: user.userId, transfer, length });
+        return session;
+    }
+
+    /**
+     * Another user's upload is reported as missing rather than forbidden
+     */
+    async get(uploadId: string, ownerId: string): Promise<UploadSession> {
+        const session = await this.store.get(uploadId);
+        if (!session || session.userId !== ownerId) {
+            throw new NotFoundError(`Upload ${uploadId} não encontrado ou expirado`, { operation: 'getUpload', metadata: { uploadId } });
+        }
+        return session;
+    }
+
+    /**
+     * Append a chunk written at offset; the last one also hands the file to analysis
+     */
+    async append(uploadId: string, user: AuthenticatedUser, offset: number, chunk: Buffer): Promise<UploadSession> {
+        const session = await this.get(uploadId, user.userId);
+        const context = { operation: 'appendUpload', userId: user.userId, metadata: { uploadId, offset } };
+        if (session.transfer !== 'tus') {
+            throw new ConflictError('Upload direto não aceita blocos pela API', context);
+        }
+        if (session.status !== 'uploading') {
+            throw new ConflictError('Upload já recebido por completo', context);
+        }
+        if (offset !== session.offset) {
+            throw new ConflictError(`Upload-Offset ${offset} não confere com o offset atual ${session.offset}`, context);
+        }
+        if (offset + chunk.length > session.length) {
+            throw new ValidationError('O bloco ultrapassa o Upload-Length declarado', context);
+        }
+        if (chunk.length === 0) return session;
+
+        // Unique ids: a block staged by a request that then loses the race below is never committed
+        const blockId = Buffer.from(randomUUID().replace(/-/g, '')).toString('base64');
+        const staged = await this.storage.stageBlock(session.blobName, blockId, chunk);
+        if (!staged.success) {
+            throw new ExternalServiceError(staged.error || 'Block staging failed', 'AzureBlobStorage', undefined, context);
+        }
+
+        const outcome = await this.store.append(uploadId, { fromOffset: offset, toOffset: offset + chunk.length, blockId });
+        if (outcome === 'unknown') {
+            throw new NotFoundError(`Upload ${uploadId} não encontrado ou expirado`, context);
+        }
+        if (outcome === 'conflict') {
+            throw new ConflictError('Outro envio alterou o offset deste upload', context);
+        }
+
+        const updated = await this.get(uploadId, user.userId);
+        return updated.status === 'processing' ? this.complete(updated, user) : updated;
+    }
+
+    /**
+     * Finish a direct upload once the client has written the blob
+     * Size and Content-Type are checked from the blob's properties first, so a
+     * blob larger than declared (a SAS cannot cap it) is never downloaded
+     */
+    async completeIntent(uploadId: string, user: AuthenticatedUser): Promise<UploadSession> {
+        const session = await this.get(uploadId, user.userId);
+        const context = { operation: 'completeUploadIntent', userId: user.userId, metadata: { uploadId } };
+        if (session.transfer !== 'direct') {
+            throw new ConflictError('Upload não é direto; envie os blocos com PATCH', context);
+        }
+        if (session.status !== 'uploading') {
+            throw new ConflictError('Upload já concluído', context);
+        }
+
+        const info = await this.storage.getBlobInfo(session.blobName);
+        if (!info.success) {
+            throw new ExternalServiceError(info.error || 'Properties lookup failed', 'AzureBlobStorage', undefined, context);
+        }
+        if (!info.data) {
+            throw new ValidationError('Arquivo ainda não enviado para a URL de upload', context);
+        }
+
+        // Whole blob as one chunk: the compare-and-set lets a single completion through
+        const outcome = await this.store.append(uploadId, { fromOffset: 0, toOffset: session.length });
+        if (outcome === 'unknown') {
+            throw new NotFoundError(`Upload ${uploadId} não encontrado ou expirado`, context);
+        }
+        if (outcome === 'conflict') {
+            throw new ConflictError('Upload já concluído', context);
+        }
+
+        const { contentLength, contentType } = info.data;
+        if (contentLength !== session.length) {
+            return this.reject(session, user, true, new ValidationError(
+                `Tamanho enviado (${contentLength} bytes) difere do declarado (${session.length} bytes)`, context
+            ));
+        }
+        if ((contentType || '').toLowerCase() !== session.metadata.filetype) {
+            return this.reject(session, user, true, new ValidationError(
+                `Content-Type do arquivo enviado (${contentType || 'nenhum'}) difere do declarado (${session.metadata.filetype})`, context
+            ));
+        }
+        return this.handOff({ ...session, offset: session.length, status: 'processing' }, user);
+    }
+
+    async terminate(uploadId: string, ownerId: string): Promise<void> {
+        const session = await this.get(uploadId, ownerId);
+        await this.store.delete(uploadId);
+        // The client may already have written a direct upload's blob
+        if (session.transfer === 'direct' && session.status === 'uploading') await this.storage.deleteAudioFile(session.blobName);
+        logger.info('Upload terminated', { uploadId, userId: ownerId, transfer: session.transfer });
+    }
+
+    private async complete(session: UploadSession, user: AuthenticatedUser): Promise<UploadSession> {
+        const contentType = session.metadata.filetype || 'application/octet-stream';
+        const commit = await this.storage.commitBlockList(session.blobName, session.blockIds, {
+            originalName: session.metadata.filename || 'upload.bin',
+            uploadTimestamp: new Date().toISOString(),
+            fileId: session.id,
+            contentType,
+            fileSize: session.length,
+            userId: user.userId
+        }, contentType);
+        if (!commit.success) {
+            // Nothing committed, so there is no blob to delete; uncommitted blocks are dropped by storage on their own
+            return this.reject(session, user, false, new ExternalServiceError(
+                commit.error || 'Commit failed', 'AzureBlobStorage', undefined, { operation: 'completeUpload' }
+            ));
+        }
+        return this.handOff(session, user);
+    }
+
+    /**
+     * Validate, scan and queue a stored upload; a rejected file is deleted, an accepted
+     * one moves to its content address
+     */
+    private async handOff(session: UploadSession, user: AuthenticatedUser): Promise<UploadSession> {
+        const { metadata } = session;
+        const filename = metadata.filename || 'upload.bin';
+        const contentType = metadata.filetype || 'application/octet-stream';
+
+        try {
+            const download = await this.storage.downloadAudioFile(session.blobName);
+            if (!download.success || !download.data) {
+                throw new ExternalServiceError(download.error || 'Download failed', 'AzureBlobStorage', undefined, { operation: 'completeUpload' });
+            }
+
+            const validation = audioProcessingService.validateUpload({ filename, contentType, data: download.data }, metadata);
+            if (!validation.success || !validation.data) {
+                throw new ValidationError(validation.error || 'Upload inválido', { operation: 'completeUpload', userId: user.userId });
+            }
+
+            const audio = validation.data;
+            const admitted = await this.intake.admit(user, audio, new Map(Object.entries(metadata)));
+            const stored = await this.intake.store(audio, admitted, {
+                originalName: filename,
+                uploadTimestamp: new Date().toISOString(),
+                fileId: session.id,
+                contentType,
+                fileSize: session.length,
+                userId: user.userId
+            });
+            if (!stored.success || !stored.data) {
+                await this.intake.release(admitted);
+                throw new ExternalServiceError(stored.error || 'Upload failed', 'AzureBlobStorage', undefined, { operation: 'completeUpload' });
+            }
+            await this.storage.deleteAudioFile(session.blobName);
+
+            const job = await this.intake.submit(audio, admitted, {
+                requestId: session.id,
+                blobName: stored.data.blobName,
+                blobUrl: stored.data.blobUrl,
+                userId: user.userId
+            });
+
+            await this.store.finish(session.id, { status: 'completed', jobId: job.id });
+            logger.info('Upload completed', { uploadId: session.id, userId: user.userId, transfer: session.transfer, jobId: job.id });
+            return { ...session, status: 'completed', jobId: job.id };
+
+        } catch (error) {
+            return this.reject(session, user, true, error);
+        }
+    }
+
+    private async reject(session: UploadSession, user: AuthenticatedUser, stored: boolean, error: unknown): Promise<never> {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.store.finish(session.id, { status: 'failed', error: message });
+        if (stored) await this.storage.deleteAudioFile(session.blobName);
+        logger.warn('Upload rejected', { uploadId: session.id, userId: user.userId, transfer: session.transfer, error: message });
+        throw error;
+    }
+}
+
+/**
+ * Upload-Metadata: comma-separated "key base64value" pairs; the value may be omitted
+ */
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    if (!header || !header.trim()) return metadata;
+
+    for (const pair of header.split(',')) {
+        const [key, value, ...rest] = pair.trim().split(' ');
+        if (!key || rest.length || (value !== undefined && !/^[A-Za-z0-9+/]*={0,2}$/.test(value))) {
+            throw new ValidationError('Upload-Metadata inválido', { operation: 'parseUploadMetadata' });
+        }
+        metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+    return metadata;
+}
+
+export const resumableUploadService = new ResumableUploadService();
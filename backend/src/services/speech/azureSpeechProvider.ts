@@ -0,0 +1,188 @@
+/**
+ * Azure Speech SDK provider
+ * Continuous recognition over a push stream with detailed output, word timestamps
+ * and word-level confidence
+ */
+
+import * as sdk from 'microsoft-cognitiveservices-speech-sdk';
+import { logger } from '../../utils/logger';
+import { CircuitBreaker } from '../../utils/circuitBreaker';
+import { RetryPolicy } from '../../utils/retryPolicy';
+import { ExternalServiceError } from '../../core/errors/CustomErrors';
+import { SpeechRecognitionResult, RecognizedSegment } from '../../utils/typescript-fixes';
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    prepareRecognitionAudio,
+    buildRecognitionResult,
+    failedRecognition
+} from './speechToTextProvider';
+
+export interface AzureSpeechProviderOptions {
+    subscriptionKey: string;
+    region: string;
+}
+
+// Subset of the detailed JSON the service returns for each recognized phrase
+interface DetailedPhrase {
+    RecognitionStatus: string;
+    Offset: number;
+    Duration: number;
+    DisplayText?: string;
+    NBest?: Array<{
+        Confidence: number;
+        Display: string;
+        Words?: Array<{ Word: string; Offset: number; Duration: number; Confidence?: number }>;
+    }>;
+}
+
+const TICKS_PER_SECOND = 10_000_000;
+const PUSH_CHUNK_SAMPLES = 16000;
+
+export class AzureSpeechProvider implements SpeechToTextProvider {
+    readonly name = 'azure' as const;
+    private circuitBreaker: CircuitBreaker;
+    private retryPolicy: RetryPolicy;
+
+    constructor(private options: AzureSpeechProviderOptions) {
+        if (!options.subscriptionKey || !options.region) {
+            throw new Error('Azure Speech não configurado (AZURE_SPEECH_KEY / AZURE_SPEECH_REGION)');
+        }
+
+        this.circuitBreaker = new CircuitBreaker({
+            failureThreshold: 3,
+            resetTimeout: 30000,
+            monitoringPeriod: 60000,
+        });
+
+        this.retryPolicy = new RetryPolicy({
+            maxRetries: 2,
+            initialDelay: 1000,
+            maxDelay: 5000,
+            factor: 2,
+        });
+    }
+
+    async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<SpeechRecognitionResult> {
+        const language = options.language || 'pt-BR';
+
+        try {
+            const recognitionAudio = prepareRecognitionAudio(audio);
+            const segments = await this.circuitBreaker.execute(() =>
+                this.retryPolicy.execute(() => this.recognize(recognitionAudio.samples, language))
+            );
+
+            logger.info('Azure speech recognition completed', {
+                requestId: options.requestId,
+                segmentCount: segments.length,
+                duration: recognitionAudio.duration
+            });
+
+            return buildRecognitionResult(this.name, segments, language, recognitionAudio.duration);
+        } catch (error) {
+            logger.error('Azure speech recognition failed', {
+                requestId: options.requestId,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return failedRecognition(this.name, error);
+        }
+    }
+
+    private recognize(samples: Float32Array, language: string): Promise<RecognizedSegment[]> {
+        const speechConfig = sdk.SpeechConfig.fromSubscription(this.options.subscriptionKey, this.options.region);
+        speechConfig.speechRecognitionLanguage = language;
+        speechConfig.outputFormat = sdk.OutputFormat.Detailed;
+        speechConfig.requestWordLevelTimestamps();
+        speechConfig.setServiceProperty('wordLevelConfidence', 'true', sdk.ServicePropertyChannel.UriQueryParameter);
+
+        const stream = sdk.AudioInputStream.createPushStream(sdk.AudioStreamFormat.getWaveFormatPCM(16000, 16, 1));
+        for (let start = 0; start < samples.length; start += PUSH_CHUNK_SAMPLES) {
+            stream.write(toPcm16(samples.subarray(start, start + PUSH_CHUNK_SAMPLES)));
+        }
+        stream.close();
+
+        const recognizer = new sdk.SpeechRecognizer(speechConfig, sdk.AudioConfig.fromStreamInput(stream));
+        const segments: RecognizedSegment[] = [];
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+            const finish = (error?: Error) => {
+                if (settled) return;
+                settled = true;
+                recognizer.stopContinuousRecognitionAsync(
+                    () => {
+                        recognizer.close();
+                        if (error) reject(error);
+                        else resolve(segments);
+                    },
+                    () => {
+                        recognizer.close();
+                        if (error) reject(error);
+                        else resolve(segments);
+                    }
+                );
+            };
+
+            recognizer.recognized = (_sender, event) => {
+                if (event.result.reason !== sdk.ResultReason.RecognizedSpeech) return;
+                const json = event.result.properties.getProperty(sdk.PropertyId.SpeechServiceResponse_JsonResult);
+                const segment = parseDetailedPhrase(json);
+                if (segment) segments.push(segment);
+            };
+
+            recognizer.canceled = (_sender, event) => {
+                if (event.reason === sdk.CancellationReason.Error) {
+                    finish(new ExternalServiceError(
+                        `Azure Speech canceled: ${event.errorDetails}`,
+                        'AzureSpeech'
+                    ));
+                } else {
+                    finish(); // EndOfStream
+                }
+            };
+
+            recognizer.sessionStopped = () => finish();
+
+            recognizer.startContinuousRecognitionAsync(
+                undefined,
+                (error: string) => finish(new ExternalServiceError(`Azure Speech failed to start: ${error}`, 'AzureSpeech'))
+            );
+        });
+    }
+}
+
+function parseDetailedPhrase(json: string): RecognizedSegment | null {
+    let phrase: DetailedPhrase;
+    try {
+        phrase = JSON.parse(json);
+    } catch {
+        return null;
+    }
+
+    const best = phrase.NBest?.[0];
+    if (phrase.RecognitionStatus !== 'Success' || !best) return null;
+
+    const words = (best.Words || []).map(word => ({
+        word: word.Word,
+        startTime: word.Offset / TICKS_PER_SECOND,
+        endTime: (word.Offset + word.Duration) / TICKS_PER_SECOND,
+        confidence: word.Confidence ?? best.Confidence
+    }));
+
+    return {
+        text: best.Display || phrase.DisplayText || '',
+        startTime: phrase.Offset / TICKS_PER_SECOND,
+        endTime: (phrase.Offset + phrase.Duration) / TICKS_PER_SECOND,
+        confidence: best.Confidence,
+        words
+    };
+}
+
+function toPcm16(samples: Float32Array): ArrayBuffer {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const clamped = Math.max(-1, Math.min(1, samples[i]));
+        pcm[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    }
+    return pcm.buffer;
+}
@@ -0,0 +1,121 @@
+/**
+ * Deterministic fixture provider for tests and offline development
+ * Maps the SHA-256 of the audio bytes to a transcript; word timings are laid
+ * over the speech intervals found by VAD so pause analysis still sees the audio
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { decodePcm, probeAudio } from '../audioDecoder';
+import { detectVoiceActivity, VoiceSegment } from '../voiceActivityDetector';
+import { SpeechRecognitionResult, RecognizedSegment, RecognizedWord } from '../../utils/typescript-fixes';
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    buildRecognitionResult,
+    failedRecognition
+} from './speechToTextProvider';
+
+export interface SpeechFixture {
+    text: string;
+    language?: string;
+    confidence?: number; // applied to every synthesized word
+    segments?: RecognizedSegment[]; // explicit timings win over synthesized ones
+}
+
+export interface FixtureSpeechProviderOptions {
+    fixtures?: Record<string, SpeechFixture>; // keyed by sha256 hex
+    fixturesPath?: string; // JSON file with the same shape
+    defaultFixture?: SpeechFixture; // used for unknown audio instead of failing
+}
+
+const DEFAULT_CONFIDENCE = 0.95;
+
+export function hashAudio(audio: Buffer): string {
+    return createHash('sha256').update(audio).digest('hex');
+}
+
+export class FixtureSpeechProvider implements SpeechToTextProvider {
+    readonly name = 'fixture' as const;
+    private fixtures: Record<string, SpeechFixture>;
+
+    constructor(private options: FixtureSpeechProviderOptions = {}) {
+        const fromFile = options.fixturesPath
+            ? JSON.parse(readFileSync(options.fixturesPath, 'utf8')) as Record<string, SpeechFixture>
+            : {};
+        this.fixtures = { ...fromFile, ...options.fixtures };
+    }
+
+    register(audio: Buffer, fixture: SpeechFixture): string {
+        const hash = hashAudio(audio);
+        this.fixtures[hash] = fixture;
+        return hash;
+    }
+
+    async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<SpeechRecognitionResult> {
+        const hash = hashAudio(audio);
+        const fixture = this.fixtures[hash] || this.options.defaultFixture;
+        if (!fixture) {
+            return failedRecognition(this.name, `No speech fixture for audio sha256 ${hash}`);
+        }
+
+        try {
+            const language = fixture.language || options.language || 'pt-BR';
+            const duration = probeAudio(audio).duration;
+            const segments = fixture.segments || synthesizeSegments(audio, fixture, duration);
+            return buildRecognitionResult(this.name, segments, language, duration);
+        } catch (error) {
+            return failedRecognition(this.name, error);
+        }
+    }
+}
+
+/**
+ * One segment per speech interval, words spread by character length
+ */
+function synthesizeSegments(audio: Buffer, fixture: SpeechFixture, duration: number): RecognizedSegment[] {
+    const tokens = fixture.text.split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return [];
+
+    const pcm = decodePcm(audio);
+    let intervals: VoiceSegment[] = pcm
+        ? detectVoiceActivity(pcm).segments.filter(segment => segment.type === 'speech')
+        : [];
+    if (intervals.length === 0) intervals = [{ type: 'speech', start: 0, end: duration }];
+
+    const confidence = fixture.confidence ?? DEFAULT_CONFIDENCE;
+    const speechTime = intervals.reduce((total, interval) => total + interval.end - interval.start, 0);
+    const totalChars = tokens.reduce((total, token) => total + token.length, 0);
+
+    // Assign each interval a contiguous share of the words proportional to its length
+    const segments: RecognizedSegment[] = [];
+    let next = 0;
+    let elapsed = 0;
+    intervals.forEach((interval, index) => {
+        elapsed += interval.end - interval.start;
+        const end = index === intervals.length - 1
+            ? tokens.length
+            : Math.max(next, Math.round(tokens.length * elapsed / speechTime));
+        const slice = tokens.slice(next, end);
+        next = end;
+        if (slice.length === 0) return;
+
+        const sliceChars = slice.reduce((total, token) => total + token.length, 0) || totalChars;
+        const words: RecognizedWord[] = [];
+        let cursor = interval.start;
+        for (const token of slice) {
+            const length = (interval.end - interval.start) * token.length / sliceChars;
+            words.push({ word: token, startTime: cursor, endTime: cursor + length, confidence });
+            cursor += length;
+        }
+
+        segments.push({
+            text: slice.join(' '),
+            startTime: interval.start,
+            endTime: interval.end,
+            confidence,
+            words
+        });
+    });
+    return segments;
+}
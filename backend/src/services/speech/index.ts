@@ -0,0 +1,67 @@
+/**
+ * Speech-to-text provider selection
+ * SPEECH_PROVIDER=azure|whisper|fixture; without it Azure is used when a key is
+ * configured and the fixture provider otherwise (offline dev)
+ */
+
+import { logger } from '../../utils/logger';
+import { SpeechToTextProvider, SpeechProviderName } from './speechToTextProvider';
+import { AzureSpeechProvider } from './azureSpeechProvider';
+import { WhisperCppProvider } from './whisperCppProvider';
+import { FixtureSpeechProvider } from './fixtureSpeechProvider';
+
+export * from './speechToTextProvider';
+export { AzureSpeechProvider } from './azureSpeechProvider';
+export { WhisperCppProvider } from './whisperCppProvider';
+export { FixtureSpeechProvider, hashAudio } from './fixtureSpeechProvider';
+export type { SpeechFixture, FixtureSpeechProviderOptions } from './fixtureSpeechProvider';
+
+let provider: SpeechToTextProvider | null = null;
+
+export function createSpeechToTextProvider(
+    name: SpeechProviderName = resolveProviderName()
+): SpeechToTextProvider {
+    switch (name) {
+        case 'azure':
+            return new AzureSpeechProvider({
+                subscriptionKey: process.env.AZURE_SPEECH_KEY || '',
+                region: process.env.AZURE_SPEECH_REGION || 'brazilsouth'
+            });
+        case 'whisper':
+            return new WhisperCppProvider({
+                binaryPath: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+                modelPath: process.env.WHISPER_CPP_MODEL || '',
+                threads: process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS, 10) : undefined
+            });
+        case 'fixture':
+            return new FixtureSpeechProvider({
+                fixturesPath: process.env.SPEECH_FIXTURES_PATH,
+                defaultFixture: process.env.SPEECH_FIXTURE_DEFAULT_TEXT
+                    ? { text: process.env.SPEECH_FIXTURE_DEFAULT_TEXT }
+                    : undefined
+            });
+        default:
+            throw new Error(`Unknown speech provider: ${name}`);
+    }
+}
+
+/**
+ * Shared provider instance, created on first use so missing credentials do not break imports
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+    if (!provider) {
+        provider = createSpeechToTextProvider();
+        logger.info('Speech-to-text provider initialized', { provider: provider.name });
+    }
+    return provider;
+}
+
+export function setSpeechToTextProvider(instance: SpeechToTextProvider | null): void {
+    provider = instance;
+}
+
+function resolveProviderName(): SpeechProviderName {
+    const configured = process.env.SPEECH_PROVIDER as SpeechProviderName | undefined;
+    if (configured) return configured;
+    return process.env.AZURE_SPEECH_KEY ? 'azure' : 'fixture';
+}
@@ -0,0 +1,85 @@
+/**
+ * Speech-to-text provider contract
+ * Every backend returns the shared SpeechRecognitionResult shape with word timings
+ */
+
+import { decodePcm, mixToMono, probeAudio } from '../audioDecoder';
+import { resample } from '../../utils/dsp';
+import { ValidationError } from '../../core/errors/CustomErrors';
+import { SpeechRecognitionResult, RecognizedSegment, RecognizedWord } from '../../utils/typescript-fixes';
+
+export type SpeechProviderName = 'azure' | 'whisper' | 'fixture';
+
+export interface TranscriptionOptions {
+    language?: string; // BCP-47, e.g. pt-BR
+    requestId?: string;
+}
+
+export interface SpeechToTextProvider {
+    readonly name: SpeechProviderName;
+    transcribe(audio: Buffer, options?: TranscriptionOptions): Promise<SpeechRecognitionResult>;
+}
+
+// Azure Speech and whisper.cpp both expect 16 kHz mono PCM
+export const RECOGNITION_SAMPLE_RATE = 16000;
+
+export interface RecognitionAudio {
+    samples: Float32Array;
+    sampleRate: number;
+    duration: number;
+}
+
+/**
+ * Decode and resample uploaded audio to 16 kHz mono for recognition
+ */
+export function prepareRecognitionAudio(audio: Buffer): RecognitionAudio {
+    const pcm = decodePcm(audio);
+    if (!pcm) {
+        const info = probeAudio(audio);
+        throw new ValidationError(
+            `Speech recognition requires PCM audio (WAV); received ${info.container}/${info.codec}`,
+            { service: 'SpeechToText', operation: 'prepareRecognitionAudio' }
+        );
+    }
+
+    const samples = resample(mixToMono(pcm), pcm.sampleRate, RECOGNITION_SAMPLE_RATE);
+    return {
+        samples,
+        sampleRate: RECOGNITION_SAMPLE_RATE,
+        duration: samples.length / RECOGNITION_SAMPLE_RATE
+    };
+}
+
+/**
+ * Assemble the shared result from recognized segments
+ */
+export function buildRecognitionResult(
+    provider: SpeechProviderName,
+    segments: RecognizedSegment[],
+    language: string,
+    duration: number
+): SpeechRecognitionResult {
+    const words: RecognizedWord[] = segments.flatMap(segment => segment.words || []);
+    const confidences = words.length > 0
+        ? words.map(word => word.confidence)
+        : segments.map(segment => segment.confidence);
+
+    return {
+        success: true,
+        provider,
+        language,
+        recognizedText: segments.map(segment => segment.text.trim()).filter(Boolean).join(' '),
+        segments,
+        words,
+        duration,
+        confidence: confidences.length > 0 ? confidences.reduce((a, b) => a + b, 0) / confidences.length : 0
+    };
+}
+
+export function failedRecognition(provider: SpeechProviderName, error: unknown): SpeechRecognitionResult {
+    return {
+        success: false,
+        provider,
+        error: error instanceof Error ? error.message : String(error)
+    };
+}
@@ -0,0 +1,141 @@
+/**
+ * Local whisper.cpp provider
+ * Runs the whisper.cpp CLI on a 16 kHz WAV and reads its full JSON output
+ * (token offsets and probabilities) back into word timings
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { logger } from '../../utils/logger';
+import { encodeWav } from '../audioDecoder';
+import { SpeechRecognitionResult, RecognizedSegment, RecognizedWord } from '../../utils/typescript-fixes';
+import {
+    SpeechToTextProvider,
+    TranscriptionOptions,
+    prepareRecognitionAudio,
+    buildRecognitionResult,
+    failedRecognition
+} from './speechToTextProvider';
+
+const execFileAsync = promisify(execFile);
+
+export interface WhisperCppProviderOptions {
+    binaryPath: string; // whisper-cli (or the legacy `main`) executable
+    modelPath: string; // ggml model file
+    threads?: number;
+    timeoutMs?: number;
+}
+
+// Output of `whisper-cli --output-json-full`
+interface WhisperJson {
+    result?: { language?: string };
+    transcription: Array<{
+        offsets: { from: number; to: number }; // milliseconds
+        text: string;
+        tokens?: Array<{
+            text: string;
+            offsets: { from: number; to: number };
+            p: number;
+        }>;
+    }>;
+}
+
+export class WhisperCppProvider implements SpeechToTextProvider {
+    readonly name = 'whisper' as const;
+
+    constructor(private options: WhisperCppProviderOptions) {
+        if (!options.modelPath) {
+            throw new Error('whisper.cpp não configurado (WHISPER_CPP_MODEL)');
+        }
+    }
+
+    async transcribe(audio: Buffer, options: TranscriptionOptions = {}): Promise<SpeechRecognitionResult> {
+        const language = options.language || 'pt-BR';
+        let workDir: string | null = null;
+
+        try {
+            const recognitionAudio = prepareRecognitionAudio(audio);
+            workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+            const inputPath = path.join(workDir, 'input.wav');
+            const outputPrefix = path.join(workDir, 'output');
+            await fs.writeFile(inputPath, encodeWav(recognitionAudio.samples, recognitionAudio.sampleRate));
+
+            await execFileAsync(this.options.binaryPath, [
+                '--model', this.options.modelPath,
+                '--file', inputPath,
+                '--language', language.split('-')[0],
+                '--threads', String(this.options.threads ?? Math.max(1, os.cpus().length)),
+                '--output-json-full',
+                '--output-file', outputPrefix,
+                '--no-prints'
+            ], { timeout: this.options.timeoutMs ?? 120000, maxBuffer: 16 * 1024 * 1024 });
+
+            const output: WhisperJson = JSON.parse(await fs.readFile(`${outputPrefix}.json`, 'utf8'));
+            const segments = output.transcription.map(toSegment).filter(segment => segment.text.length > 0);
+
+            logger.info('whisper.cpp recognition completed', {
+                requestId: options.requestId,
+                segmentCount: segments.length,
+                duration: recognitionAudio.duration
+            });
+
+            return buildRecognitionResult(this.name, segments, language, recognitionAudio.duration);
+        } catch (error) {
+            logger.error('whisper.cpp recognition failed', {
+                requestId: options.requestId,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return failedRecognition(this.name, error);
+        } finally {
+            if (workDir) {
+                await fs.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+            }
+        }
+    }
+}
+
+/**
+ * Merge sub-word tokens into words: a token starting with a space opens a new word
+ */
+function toSegment(entry: WhisperJson['transcription'][number]): RecognizedSegment {
+    const words: RecognizedWord[] = [];
+    let probabilities: number[] = [];
+
+    for (const token of entry.tokens || []) {
+        // Special tokens ([_BEG_], [_TT_123], ...) carry no text
+        if (token.text.length === 0 || token.text.startsWith('[_')) continue;
+
+        const current = words[words.length - 1];
+        if (!current || token.text.startsWith(' ')) {
+            if (current) current.confidence = average(probabilities);
+            words.push({
+                word: token.text.trim(),
+                startTime: token.offsets.from / 1000,
+                endTime: token.offsets.to / 1000,
+                confidence: 0
+            });
+            probabilities = [token.p];
+        } else {
+            current.word += token.text;
+            current.endTime = token.offsets.to / 1000;
+            probabilities.push(token.p);
+        }
+    }
+    if (words.length > 0) words[words.length - 1].confidence = average(probabilities);
+
+    const filtered = words.filter(word => word.word.length > 0);
+    return {
+        text: entry.text.trim(),
+        startTime: entry.offsets.from / 1000,
+        endTime: entry.offsets.to / 1000,
+        confidence: filtered.length > 0 ? average(filtered.map(word => word.confidence)) : 0,
+        words: filtered
+    };
+}
+
+function average(values: number[]): number {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
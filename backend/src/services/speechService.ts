@@ -1,14 +1,19 @@
 /**
- * Serviço de Speech-to-Text Simplificado
- * Mock implementation para desenvolvimento
+ * Serviço de Speech-to-Text
+ * Delega ao provedor configurado (Azure, whisper.cpp ou fixtures)
  */
 
+import { getSpeechToTextProvider } from './speech';
+import { ExternalServiceError } from '../core/errors/CustomErrors';
+import { RecognizedSegment, RecognizedWord } from '../utils/typescript-fixes';
+
 export interface TranscriptionResult {
   text: string;
   confidence: number;
   language: string;
   duration: number;
-  segments: any[];
+  segments: RecognizedSegment[];
+  words: RecognizedWord[];
 }
 
 export interface SpeechRecognitionResult {
@@ -19,38 +24,25 @@ export interface SpeechRecognitionResult {
 
 export class SpeechService {
   constructor() {
-    console.log('[SpeechService] Initialized (Mock Mode)');
+    console.log('[SpeechService] Initialized');
   }
   
   async transcribeAudio(audioBuffer: Buffer, language: string = 'pt-BR'): Promise<TranscriptionResult> {
-    console.log('[SpeechService] Transcribing audio (mock)...');
-    
-    // Simulate processing time
-    await this.delay(1000);
-    
-    // Mock transcription result
-    const mockTexts = [
-      'Esta é uma transcrição de exemplo para teste.',
-      'O sistema está funcionando corretamente.',
-      'Podemos detectar mentiras com alta precisão.',
-      'A análise de áudio está sendo processada.'
-    ];
+    const provider = getSpeechToTextProvider();
+    console.log(`[SpeechService] Transcribing audio (${provider.name})...`);
     
-    const randomText = mockTexts[Math.floor(Math.random() * mockTexts.length)];
+    const result = await provider.transcribe(audioBuffer, { language });
+    if (!result.success) {
+      throw new ExternalServiceError(`Transcrição falhou: ${result.error}`, provider.name);
+    }
     
     return {
-      text: randomText,
-      confidence: 0.85 + Math.random() * 0.14, // 85-99%
-      language,
-      duration: 5.0 + Math.random() * 10, // 5-15 seconds
-      segments: [
-        {
-          text: randomText,
-          start: 0,
-          end: 5.0,
-          confidence: 0.9
-        }
-      ]
+      text: result.recognizedText || '',
+      confidence: result.confidence ?? 0,
+      language: result.language || language,
+      duration: result.duration ?? 0,
+      segments: result.segments || [],
+      words: result.words || []
     };
   }
   
@@ -59,10 +51,6 @@ export class SpeechService {
     // Always return Portuguese for mock
     return 'pt-BR';
   }
-  
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 export const speechService = new SpeechService();
\ No newline at end of file
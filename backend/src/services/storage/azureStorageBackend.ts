@@ -1,9 +1,20 @@
 /**
- * Azure Blob Storage service for audio file management with defensive patterns
+ * Azure Blob Storage backend for audio files with defensive patterns
  */
 
-import { BlobServiceClient } from '@azure/storage-blob';
-import { logger } from '../utils/logger';
+import { BlobSASPermissions, BlobServiceClient, BlockBlobClient } from '@azure/storage-blob';
+import { logger } from '../../utils/logger';
+import {
+    BlobInfo,
+    blobNameFor,
+    FileMetadata,
+    formatMetadataForStorage,
+    StorageBackend,
+    StorageBackendName,
+    StorageResult,
+    UploadResult,
+    validateUploadInputs
+} from './storageBackend';
 
 // Storage configuration interfaces
 export interface StorageConfig {
@@ -13,33 +24,11 @@ export interface StorageConfig {
     retryDelayMs: number;
 }
 
-export interface StorageResult<T> {
-    success: boolean;
-    data?: T;
-    error?: string;
-}
-
-export interface UploadResult {
-    blobUrl: string;
-    blobName: string;
-    uploadSize: number;
-    contentMD5?: string;
-    etag?: string;
-}
-
-export interface FileMetadata {
-    originalName: string;
-    uploadTimestamp: string;
-    fileId: string;
-    contentType: string;
-    fileSize: number;
-    [key: string]: string | number;
-}
-
 /**
  * Defensive Azure Blob Storage client with retry logic and comprehensive error handling
  */
-export class AudioStorageService {
+export class AzureStorageBackend implements StorageBackend {
+    readonly name: StorageBackendName = 'azure';
     private blobServiceClient: BlobServiceClient;
     private containerName: string;
     private maxRetries: number;
@@ -66,7 +55,8 @@ export class AudioStorageService {
         fileBuffer: Buffer,
         fileName: string,
         metadata: FileMetadata,
-        contentType: string = 'audio/mpeg'
+        contentType: string = 'audio/mpeg',
+        targetBlobName?: string
     ): Promise<StorageResult<UploadResult>> {
         const uploadContext = {
             fileName,
@@ -78,7 +68,7 @@ export class AudioStorageService {
 
         try {
             // Validate inputs
-            const validation = this.validateUploadInputs(fileBuffer, fileName, metadata);
+            const validation = validateUploadInputs(fileBuffer, fileName, metadata);
             if (!validation.success) {
                 return {
                     success: false,
@@ -87,7 +77,7 @@ export class AudioStorageService {
             }
 
             // Generate unique blob name to prevent conflicts
-            const blobName = this.generateBlobName(fileName, metadata.fileId);
+            const blobName = targetBlobName || this.generateBlobName(fileName, metadata.fileId);
             
             // Get container client with defensive initialization
             const containerClient = await this.getContainerClient();
@@ -117,7 +107,7 @@ export class AudioStorageService {
                             blobContentType: contentType,
                             blobContentDisposition: `attachment; filename="${metadata.originalName}"`
                         },
-                        metadata: this.formatMetadataForStorage(metadata),
+                        metadata: formatMetadataForStorage(metadata),
                         conditions: {
                             ifNoneMatch: '*' // Prevent accidental overwrites
                         }
@@ -132,7 +122,7 @@ export class AudioStorageService {
                         blobUrl: blockBlobClient.url,
                         blobName,
                         uploadSize: fileBuffer.length,
-                        contentMD5: uploadResponse.contentMD5,
+                        contentMD5: uploadResponse.contentMD5 ? Buffer.from(uploadResponse.contentMD5).toString('base64') : undefined,
                         etag: uploadResponse.etag
                     };
 
@@ -191,6 +181,175 @@ export class AudioStorageService {
         }
     }
 
+    /**
+     * Stage one block of a blob assembled in pieces (resumable uploads).
+     * Staged blocks stay invisible until commitBlockList; Azure drops the ones
+     * never committed after a week
+     */
+    async stageBlock(blobName: string, blockId: string, data: Buffer): Promise<StorageResult<boolean>> {
+        const context = { blobName, blockId, size: data.length };
+
+        try {
+            const containerClient = await this.getContainerClient();
+            if (!containerClient.success) {
+                return {
+                    success: false,
+                    error: `Container access failed: ${containerClient.error}`
+                };
+            }
+
+            const blockBlobClient: BlockBlobClient = containerClient.data!.getBlockBlobClient(blobName);
+            await this.withRetries('Stage block', context, () => blockBlobClient.stageBlock(blockId, data, data.length));
+            return { success: true, data: true };
+
+        } catch (error) {
+            logger.error('Block staging failed', {
+                ...context,
+                error: error instanceof Error ? error.message : String(error)
+            });
+
+            return {
+                success: false,
+                error: `Block staging failed: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    /**
+     * Commit staged blocks, in order, as the content of the blob
+     */
+    async commitBlockList(
+        blobName: string,
+        blockIds: string[],
+        metadata: FileMetadata,
+        contentType: string = 'audio/mpeg'
+    ): Promise<StorageResult<UploadResult>> {
+        const context = { blobName, blocks: blockIds.length, fileSize: metadata.fileSize };
+
+        try {
+            const containerClient = await this.getContainerClient();
+            if (!containerClient.success) {
+                return {
+                    success: false,
+                    error: `Container access failed: ${containerClient.error}`
+                };
+            }
+
+            const blockBlobClient: BlockBlobClient = containerClient.data!.getBlockBlobClient(blobName);
+            const response = await this.withRetries('Commit block list', context, () => blockBlobClient.commitBlockList(blockIds, {
+                blobHTTPHeaders: {
+                    blobContentType: contentType,
+                    blobContentDisposition: `attachment; filename="${metadata.originalName}"`
+                },
+                metadata: formatMetadataForStorage(metadata)
+            }));
+
+            logger.info('Block list committed', { ...context, etag: response.etag });
+
+            return {
+                success: true,
+                data: {
+                    blobUrl: blockBlobClient.url,
+                    blobName,
+                    uploadSize: Number(metadata.fileSize),
+                    contentMD5: response.contentMD5 ? Buffer.from(response.contentMD5).toString('base64') : undefined,
+                    etag: response.etag
+                }
+            };
+
+        } catch (error) {
+            logger.error('Block list commit failed', {
+                ...context,
+                error: error instanceof Error ? error.message : String(error)
+            });
+
+            return {
+                success: false,
+                error: `Commit failed: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    /**
+     * Write-only SAS URL for a single blob, so a client uploads straight to storage.
+     * Grants create and write on that blob alone, over HTTPS or HTTP (Azurite);
+     * it cannot read, list or delete. Needs an account key in the connection string
+     */
+    async generateUploadUrl(blobName: string, expiresOn: Date): Promise<StorageResult<string>> {
+        try {
+            const containerClient = await this.getContainerClient();
+            if (!containerClient.success) {
+                return {
+                    success: false,
+                    error: `Container access failed: ${containerClient.error}`
+                };
+            }
+
+            const blockBlobClient: BlockBlobClient = containerClient.data!.getBlockBlobClient(blobName);
+            const uploadUrl = await blockBlobClient.generateSasUrl({
+                permissions: BlobSASPermissions.parse('cw'),
+                startsOn: new Date(Date.now() - 5 * 60 * 1000), // tolerate clock skew
+                expiresOn
+            });
+
+            logger.info('Upload SAS issued', { blobName, expiresOn: expiresOn.toISOString() });
+            return { success: true, data: uploadUrl };
+
+        } catch (error) {
+            logger.error('Upload SAS generation failed', {
+                blobName,
+                error: error instanceof Error ? error.message : String(error)
+            });
+
+            return {
+                success: false,
+                error: `SAS generation failed: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
+    /**
+     * Size and headers of a blob without downloading it; data is null when it does not exist
+     */
+    async getBlobInfo(blobName: string): Promise<StorageResult<BlobInfo | null>> {
+        try {
+            const containerClient = await this.getContainerClient();
+            if (!containerClient.success) {
+                return {
+                    success: false,
+                    error: `Container access failed: ${containerClient.error}`
+                };
+            }
+
+            const blockBlobClient: BlockBlobClient = containerClient.data!.getBlockBlobClient(blobName);
+            if (!await blockBlobClient.exists()) {
+                return { success: true, data: null };
+            }
+
+            const properties = await blockBlobClient.getProperties();
+            return {
+                success: true,
+                data: {
+                    blobUrl: blockBlobClient.url,
+                    contentLength: properties.contentLength ?? 0,
+                    contentType: properties.contentType,
+                    metadata: properties.metadata ?? {}
+                }
+            };
+
+        } catch (error) {
+            logger.error('Blob properties lookup failed', {
+                blobName,
+                error: error instanceof Error ? error.message : String(error)
+            });
+
+            return {
+                success: false,
+                error: `Properties lookup failed: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+    }
+
     /**
      * Download audio file from blob storage
      */
@@ -363,43 +522,6 @@ export class AudioStorageService {
         }
     }
 
-    private validateUploadInputs(
-        fileBuffer: Buffer,
-        fileName: string,
-        metadata: FileMetadata
-    ): StorageResult<boolean> {
-        if (!fileBuffer || fileBuffer.length === 0) {
-            return {
-                success: false,
-                error: 'File buffer is empty'
-            };
-        }
-
-        if (!fileName || fileName.trim().length === 0) {
-            return {
-                success: false,
-                error: 'File name is required'
-            };
-        }
-
-        if (!metadata || !metadata.fileId) {
-            return {
-                success: false,
-                error: 'File metadata with fileId is required'
-            };
-        }
-
-        // Check file size limits (50MB max)
-        if (fileBuffer.length > 50 * 1024 * 1024) {
-            return {
-                success: false,
-                error: 'File size exceeds 50MB limit'
-            };
-        }
-
-        return { success: true };
-    }
-
     private async getContainerClient(): Promise<StorageResult<any>> {
         try {
             const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
@@ -422,48 +544,29 @@ export class AudioStorageService {
         }
     }
 
-    private generateBlobName(originalFileName: string, fileId: string): string {
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const extension = this.getFileExtension(originalFileName);
-        return `audio/${timestamp}/${fileId}.${extension}`;
-    }
-
-    private getFileExtension(fileName: string): string {
-        const parts = fileName.split('.');
-        return parts.length > 1 ? parts[parts.length - 1].toLowerCase() : 'bin';
+    generateBlobName(originalFileName: string, fileId: string): string {
+        return blobNameFor(originalFileName, fileId);
     }
 
-    private formatMetadataForStorage(metadata: FileMetadata): Record<string, string> {
-        // Azure blob metadata must be string values
-        const formatted: Record<string, string> = {};
-        
-        for (const [key, value] of Object.entries(metadata)) {
-            formatted[key] = String(value);
+    private async withRetries<T>(operation: string, context: Record<string, unknown>, attemptOnce: () => Promise<T>): Promise<T> {
+        let lastError: Error | null = null;
+
+        for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+            try {
+                return await attemptOnce();
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                logger.warn(`${operation} attempt failed`, { ...context, attempt, error: lastError.message });
+                if (attempt < this.maxRetries) {
+                    await this.delay(this.retryDelayMs * attempt);
+                }
+            }
         }
 
-        return formatted;
+        throw lastError ?? new Error(`${operation} failed`);
     }
 
     private async delay(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 }
-
-// Factory function for creating storage service instance
-export function createAudioStorageService(): AudioStorageService {
-    const config: StorageConfig = {
-        connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING || '',
-        containerName: process.env.STORAGE_CONTAINER_NAME || 'audio-files',
-        maxRetries: parseInt(process.env.STORAGE_MAX_RETRIES || '3'),
-        retryDelayMs: parseInt(process.env.STORAGE_RETRY_DELAY_MS || '1000')
-    };
-
-    if (!config.connectionString) {
-        throw new Error('AZURE_STORAGE_CONNECTION_STRING environment variable is required');
-    }
-
-    return new AudioStorageService(config);
-}
-
-// Export singleton instance
-export const audioStorageService = createAudioStorageService();
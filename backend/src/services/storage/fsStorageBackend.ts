@@ -0,0 +1,233 @@
+/**
+ * Audio storage in a local directory, for development without Azure or Azurite
+ * Each blob is a file at <root>/<blobName> with its headers and metadata in a
+ * sidecar <blobName>.meta.json. Staged blocks wait under <root>/.blocks until
+ * committed. Files are written to a temp name first, so readers never see a
+ * partial blob. Single instance only
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { logger } from '../../utils/logger';
+import {
+    BlobInfo,
+    blobNameFor,
+    FileMetadata,
+    formatMetadataForStorage,
+    StorageBackend,
+    StorageBackendName,
+    StorageResult,
+    UploadResult,
+    validateUploadInputs
+} from './storageBackend';
+
+const META_SUFFIX = '.meta.json';
+const BLOCKS_DIR = '.blocks';
+
+interface Sidecar {
+    contentType: string;
+    contentMD5: string;
+    metadata: Record<string, string>;
+}
+
+export class FsStorageBackend implements StorageBackend {
+    readonly name: StorageBackendName = 'fs';
+    private readonly root: string;
+
+    constructor(rootDir: string) {
+        this.root = path.resolve(rootDir);
+    }
+
+    async uploadAudioFile(
+        fileBuffer: Buffer,
+        fileName: string,
+        metadata: FileMetadata,
+        contentType: string = 'audio/mpeg',
+        targetBlobName?: string
+    ): Promise<StorageResult<UploadResult>> {
+        const validation = validateUploadInputs(fileBuffer, fileName, metadata);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const blobName = targetBlobName || this.generateBlobName(fileName, metadata.fileId);
+        return this.run('Upload', blobName, () => this.write(blobName, fileBuffer, metadata, contentType, false));
+    }
+
+    async stageBlock(blobName: string, blockId: string, data: Buffer): Promise<StorageResult<boolean>> {
+        return this.run('Block staging', blobName, async () => {
+            const file = this.blockPath(blobName, blockId);
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, data);
+            return true;
+        });
+    }
+
+    async commitBlockList(
+        blobName: string,
+        blockIds: string[],
+        metadata: FileMetadata,
+        contentType: string = 'audio/mpeg'
+    ): Promise<StorageResult<UploadResult>> {
+        return this.run('Commit', blobName, async () => {
+            const blocks = await Promise.all(blockIds.map(id => fs.readFile(this.blockPath(blobName, id))));
+            const result = await this.write(blobName, Buffer.concat(blocks), metadata, contentType, true);
+            await fs.rm(path.dirname(this.blockPath(blobName, 'x')), { recursive: true, force: true });
+            return result;
+        });
+    }
+
+    async downloadAudioFile(blobName: string): Promise<StorageResult<Buffer>> {
+        try {
+            return { success: true, data: await fs.readFile(this.blobPath(blobName)) };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { success: false, error: `Blob not found: ${blobName}` };
+            }
+            return this.failure('Download', blobName, error);
+        }
+    }
+
+    async deleteAudioFile(blobName: string): Promise<StorageResult<boolean>> {
+        return this.run('Deletion', blobName, async () => {
+            const file = this.blobPath(blobName);
+            const existed = await exists(file);
+            await fs.rm(file, { force: true });
+            await fs.rm(`${file}${META_SUFFIX}`, { force: true });
+            return existed;
+        });
+    }
+
+    async listAudioFiles(prefix?: string, maxResults: number = 100): Promise<StorageResult<string[]>> {
+        return this.run('Listing', prefix || '', async () => {
+            const names = (await this.walk(this.root))
+                .filter(name => !prefix || name.startsWith(prefix))
+                .sort();
+            return names.slice(0, maxResults);
+        });
+    }
+
+    async getBlobInfo(blobName: string): Promise<StorageResult<BlobInfo | null>> {
+        return this.run('Properties lookup', blobName, async () => {
+            const file = this.blobPath(blobName);
+            if (!await exists(file)) return null;
+
+            const [stat, sidecar] = await Promise.all([fs.stat(file), this.readSidecar(file)]);
+            return {
+                blobUrl: pathToFileURL(file).href,
+                contentLength: stat.size,
+                contentType: sidecar?.contentType,
+                metadata: sidecar?.metadata ?? {}
+            };
+        });
+    }
+
+    async generateUploadUrl(): Promise<StorageResult<string>> {
+        return { success: false, error: 'Direct uploads need Azure Blob Storage (or Azurite)' };
+    }
+
+    generateBlobName(originalFileName: string, fileId: string): string {
+        return blobNameFor(originalFileName, fileId);
+    }
+
+    private async write(blobName: string, data: Buffer, metadata: FileMetadata, contentType: string, overwrite: boolean): Promise<UploadResult> {
+        const file = this.blobPath(blobName);
+        await fs.mkdir(path.dirname(file), { recursive: true });
+
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(temp, data);
+        try {
+            if (overwrite) {
+                await fs.rename(temp, file);
+            } else {
+                // link fails with EEXIST instead of replacing, like the Azure ifNoneMatch upload
+                await fs.link(temp, file);
+            }
+        } finally {
+            await fs.rm(temp, { force: true });
+        }
+
+        const contentMD5 = createHash('md5').update(data).digest('base64');
+        const sidecar: Sidecar = { contentType, contentMD5, metadata: formatMetadataForStorage(metadata) };
+        await fs.writeFile(`${temp}${META_SUFFIX}`, JSON.stringify(sidecar, null, 2), 'utf8');
+        await fs.rename(`${temp}${META_SUFFIX}`, `${file}${META_SUFFIX}`);
+
+        return {
+            blobUrl: pathToFileURL(file).href,
+            blobName,
+            uploadSize: data.length,
+            contentMD5,
+            etag: `"${Buffer.from(contentMD5, 'base64').toString('hex')}"`
+        };
+    }
+
+    private async readSidecar(file: string): Promise<Sidecar | null> {
+        try {
+            return JSON.parse(await fs.readFile(`${file}${META_SUFFIX}`, 'utf8')) as Sidecar;
+        } catch {
+            return null;
+        }
+    }
+
+    // Blob names as Azure lists them: '/'-separated, sidecars and staged blocks left out
+    private async walk(dir: string): Promise<string[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const names: string[] = [];
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (dir === this.root && entry.name === BLOCKS_DIR) continue;
+                names.push(...await this.walk(full));
+            } else if (!entry.name.endsWith(META_SUFFIX) && !entry.name.endsWith('.tmp')) {
+                names.push(path.relative(this.root, full).split(path.sep).join('/'));
+            }
+        }
+        return names;
+    }
+
+    // Blob names come from callers, so one that resolves outside the root is refused
+    private blobPath(blobName: string): string {
+        const file = path.resolve(this.root, blobName);
+        if (!file.startsWith(this.root + path.sep) || blobName.endsWith(META_SUFFIX) || blobName.split('/')[0] === BLOCKS_DIR) {
+            throw new Error(`Invalid blob name: ${blobName}`);
+        }
+        return file;
+    }
+
+    private blockPath(blobName: string, blockId: string): string {
+        const blobKey = createHash('sha256').update(blobName).digest('hex');
+        return path.join(this.root, BLOCKS_DIR, blobKey, Buffer.from(blockId).toString('hex'));
+    }
+
+    private async run<T>(operation: string, blobName: string, task: () => Promise<T>): Promise<StorageResult<T>> {
+        try {
+            return { success: true, data: await task() };
+        } catch (error) {
+            return this.failure(operation, blobName, error);
+        }
+    }
+
+    private failure<T>(operation: string, blobName: string, error: unknown): StorageResult<T> {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(`${operation} failed`, { blobName, error: message });
+        return { success: false, error: `${operation} failed: ${message}` };
+    }
+}
+
+async function exists(file: string): Promise<boolean> {
+    try {
+        await fs.access(file);
+        return true;
+    } catch {
+        return false;
+    }
+}
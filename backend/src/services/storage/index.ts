@@ -0,0 +1,65 @@
+/**
+ * Audio storage backend selection
+ * STORAGE_BACKEND=azure|fs|memory; without it Azure Blob Storage is used when
+ * AZURE_STORAGE_CONNECTION_STRING is configured (Azurite included) and the
+ * local filesystem under STORAGE_PATH otherwise
+ */
+
+import { logger } from '../../utils/logger';
+import { StorageBackend, StorageBackendName } from './storageBackend';
+import { AzureStorageBackend } from './azureStorageBackend';
+import { FsStorageBackend } from './fsStorageBackend';
+import { MemoryStorageBackend } from './memoryStorageBackend';
+
+export * from './storageBackend';
+export { AzureStorageBackend } from './azureStorageBackend';
+export type { StorageConfig } from './azureStorageBackend';
+export { FsStorageBackend } from './fsStorageBackend';
+export { MemoryStorageBackend } from './memoryStorageBackend';
+
+let backend: StorageBackend | null = null;
+
+export function createStorageBackend(name: StorageBackendName = resolveStorageBackendName()): StorageBackend {
+    const containerName = process.env.STORAGE_CONTAINER_NAME || 'audio-files';
+    switch (name) {
+        case 'azure': {
+            const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+            if (!connectionString) {
+                throw new Error('STORAGE_BACKEND=azure requires AZURE_STORAGE_CONNECTION_STRING');
+            }
+            return new AzureStorageBackend({
+                connectionString,
+                containerName,
+                maxRetries: parseInt(process.env.STORAGE_MAX_RETRIES || '3'),
+                retryDelayMs: parseInt(process.env.STORAGE_RETRY_DELAY_MS || '1000')
+            });
+        }
+        case 'fs':
+            return new FsStorageBackend(process.env.STORAGE_PATH || `./data/storage/${containerName}`);
+        case 'memory':
+            return new MemoryStorageBackend(containerName);
+        default:
+            throw new Error(`Unknown storage backend: ${name}`);
+    }
+}
+
+/**
+ * Shared backend instance, created on first use so missing credentials do not break imports
+ */
+export function getStorageBackend(): StorageBackend {
+    if (!backend) {
+        backend = createStorageBackend();
+        logger.info('Storage backend initialized', { backend: backend.name });
+    }
+    return backend;
+}
+
+export function setStorageBackend(instance: StorageBackend | null): void {
+    backend = instance;
+}
+
+export function resolveStorageBackendName(): StorageBackendName {
+    const configured = process.env.STORAGE_BACKEND as StorageBackendName | undefined;
+    if (configured) return configured;
+    return process.env.AZURE_STORAGE_CONNECTION_STRING ? 'azure' : 'fs';
+}
@@ -0,0 +1,133 @@
+/**
+ * In-memory audio storage for unit tests
+ * Blobs live in this process only and vanish on restart
+ */
+
+import { createHash } from 'crypto';
+import {
+    BlobInfo,
+    blobNameFor,
+    FileMetadata,
+    formatMetadataForStorage,
+    StorageBackend,
+    StorageBackendName,
+    StorageResult,
+    UploadResult,
+    validateUploadInputs
+} from './storageBackend';
+
+interface StoredBlob {
+    data: Buffer;
+    contentType: string;
+    metadata: Record<string, string>;
+    contentMD5: string;
+}
+
+export class MemoryStorageBackend implements StorageBackend {
+    readonly name: StorageBackendName = 'memory';
+    private blobs = new Map<string, StoredBlob>();
+    private staged = new Map<string, Map<string, Buffer>>();
+
+    constructor(private containerName: string = 'audio-files') {}
+
+    async uploadAudioFile(
+        fileBuffer: Buffer,
+        fileName: string,
+        metadata: FileMetadata,
+        contentType: string = 'audio/mpeg',
+        targetBlobName?: string
+    ): Promise<StorageResult<UploadResult>> {
+        const validation = validateUploadInputs(fileBuffer, fileName, metadata);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const blobName = targetBlobName || this.generateBlobName(fileName, metadata.fileId);
+        if (this.blobs.has(blobName)) {
+            return { success: false, error: `Upload failed: blob already exists: ${blobName}` };
+        }
+        return { success: true, data: this.store(blobName, fileBuffer, metadata, contentType) };
+    }
+
+    async stageBlock(blobName: string, blockId: string, data: Buffer): Promise<StorageResult<boolean>> {
+        const blocks = this.staged.get(blobName) ?? new Map<string, Buffer>();
+        blocks.set(blockId, Buffer.from(data));
+        this.staged.set(blobName, blocks);
+        return { success: true, data: true };
+    }
+
+    async commitBlockList(
+        blobName: string,
+        blockIds: string[],
+        metadata: FileMetadata,
+        contentType: string = 'audio/mpeg'
+    ): Promise<StorageResult<UploadResult>> {
+        const blocks = this.staged.get(blobName);
+        const missing = blockIds.find(id => !blocks?.has(id));
+        if (missing !== undefined) {
+            return { success: false, error: `Commit failed: block ${missing} was never staged` };
+        }
+
+        this.staged.delete(blobName);
+        const data = Buffer.concat(blockIds.map(id => blocks!.get(id)!));
+        return { success: true, data: this.store(blobName, data, metadata, contentType) };
+    }
+
+    async downloadAudioFile(blobName: string): Promise<StorageResult<Buffer>> {
+        const blob = this.blobs.get(blobName);
+        if (!blob) {
+            return { success: false, error: `Blob not found: ${blobName}` };
+        }
+        return { success: true, data: Buffer.from(blob.data) };
+    }
+
+    async deleteAudioFile(blobName: string): Promise<StorageResult<boolean>> {
+        return { success: true, data: this.blobs.delete(blobName) };
+    }
+
+    async listAudioFiles(prefix?: string, maxResults: number = 100): Promise<StorageResult<string[]>> {
+        const names = [...this.blobs.keys()]
+            .filter(name => !prefix || name.startsWith(prefix))
+            .sort()
+            .slice(0, maxResults);
+        return { success: true, data: names };
+    }
+
+    async getBlobInfo(blobName: string): Promise<StorageResult<BlobInfo | null>> {
+        const blob = this.blobs.get(blobName);
+        if (!blob) return { success: true, data: null };
+        return {
+            success: true,
+            data: {
+                blobUrl: this.url(blobName),
+                contentLength: blob.data.length,
+                contentType: blob.contentType,
+                metadata: { ...blob.metadata }
+            }
+        };
+    }
+
+    async generateUploadUrl(): Promise<StorageResult<string>> {
+        return { success: false, error: 'Direct uploads need Azure Blob Storage (or Azurite)' };
+    }
+
+    generateBlobName(originalFileName: string, fileId: string): string {
+        return blobNameFor(originalFileName, fileId);
+    }
+
+    private store(blobName: string, data: Buffer, metadata: FileMetadata, contentType: string): UploadResult {
+        const contentMD5 = createHash('md5').update(data).digest('base64');
+        this.blobs.set(blobName, { data: Buffer.from(data), contentType, metadata: formatMetadataForStorage(metadata), contentMD5 });
+        return {
+            blobUrl: this.url(blobName),
+            blobName,
+            uploadSize: data.length,
+            contentMD5,
+            etag: `"${Buffer.from(contentMD5, 'base64').toString('hex')}"`
+        };
+    }
+
+    private url(blobName: string): string {
+        return `memory://${this.containerName}/${blobName}`;
+    }
+}
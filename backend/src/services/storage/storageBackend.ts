@@ -0,0 +1,101 @@
+/**
+ * Audio file storage contract
+ * Every backend (Azure Blob, local filesystem, memory) reports failures in a
+ * StorageResult instead of throwing, and returns the same UploadResult and
+ * BlobInfo shapes, so callers never need to know which one is configured
+ */
+
+export type StorageBackendName = 'azure' | 'fs' | 'memory';
+
+export interface StorageResult<T> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+export interface UploadResult {
+    blobUrl: string;
+    blobName: string;
+    uploadSize: number;
+    contentMD5?: string; // base64
+    etag?: string;
+}
+
+export interface BlobInfo {
+    blobUrl: string;
+    contentLength: number;
+    contentType?: string;
+    metadata: Record<string, string>;
+}
+
+export interface FileMetadata {
+    originalName: string;
+    uploadTimestamp: string;
+    fileId: string;
+    contentType: string;
+    fileSize: number;
+    [key: string]: string | number;
+}
+
+export const MAX_STORED_FILE_SIZE = 50 * 1024 * 1024;
+
+export interface StorageBackend {
+    readonly name: StorageBackendName;
+    // Stores under targetBlobName, or generateBlobName(fileName, metadata.fileId); never overwrites an existing blob
+    uploadAudioFile(
+        fileBuffer: Buffer,
+        fileName: string,
+        metadata: FileMetadata,
+        contentType?: string,
+        targetBlobName?: string
+    ): Promise<StorageResult<UploadResult>>;
+    // Staged blocks stay invisible until commitBlockList makes them, in order, the blob's content
+    stageBlock(blobName: string, blockId: string, data: Buffer): Promise<StorageResult<boolean>>;
+    commitBlockList(blobName: string, blockIds: string[], metadata: FileMetadata, contentType?: string): Promise<StorageResult<UploadResult>>;
+    downloadAudioFile(blobName: string): Promise<StorageResult<Buffer>>;
+    // data is false when there was nothing to delete
+    deleteAudioFile(blobName: string): Promise<StorageResult<boolean>>;
+    listAudioFiles(prefix?: string, maxResults?: number): Promise<StorageResult<string[]>>;
+    // data is null when the blob does not exist
+    getBlobInfo(blobName: string): Promise<StorageResult<BlobInfo | null>>;
+    // Write-only URL for direct uploads; only backends reachable by clients support it
+    generateUploadUrl(blobName: string, expiresOn: Date): Promise<StorageResult<string>>;
+    generateBlobName(originalFileName: string, fileId: string): string;
+}
+
+export function blobNameFor(originalFileName: string, fileId: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const parts = originalFileName.split('.');
+    const extension = parts.length > 1 ? parts[parts.length - 1].toLowerCase() : 'bin';
+    return `audio/${timestamp}/${fileId}.${extension}`;
+}
+
+// Content-addressed name shared by every upload of the same bytes
+export function contentBlobName(contentHash: string): string {
+    return `audio/sha256/${contentHash.slice(0, 2)}/${contentHash}`;
+}
+
+export function validateUploadInputs(fileBuffer: Buffer, fileName: string, metadata: FileMetadata): StorageResult<boolean> {
+    if (!fileBuffer || fileBuffer.length === 0) {
+        return { success: false, error: 'File buffer is empty' };
+    }
+    if (!fileName || fileName.trim().length === 0) {
+        return { success: false, error: 'File name is required' };
+    }
+    if (!metadata || !metadata.fileId) {
+        return { success: false, error: 'File metadata with fileId is required' };
+    }
+    if (fileBuffer.length > MAX_STORED_FILE_SIZE) {
+        return { success: false, error: 'File size exceeds 50MB limit' };
+    }
+    return { success: true };
+}
+
+// Blob metadata values are strings
+export function formatMetadataForStorage(metadata: FileMetadata): Record<string, string> {
+    const formatted: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata)) {
+        formatted[key] = String(value);
+    }
+    return formatted;
+}
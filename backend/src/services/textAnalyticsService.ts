@@ -8,6 +8,7 @@ import { logger } from '@/utils/logger';
 import { ExternalServiceError } from '@/core/errors/CustomErrors';
 import { CircuitBreaker } from '@/utils/circuitBreaker';
 import { RetryPolicy } from '@/utils/retryPolicy';
+import { tokenize, matchPhrases } from '@/utils/phraseMatcher';
 
 export interface SentimentAnalysisResult {
   overall: 'positive' | 'negative' | 'neutral' | 'mixed';
@@ -70,6 +71,10 @@ export interface TextAnalysisResult {
   };
 }
 
+// Palavras positivas/negativas básicas para a análise local de fallback
+const FALLBACK_POSITIVE_WORDS = ['bom', 'ótimo', 'excelente', 'feliz', 'alegre', 'verdade'];
+const FALLBACK_NEGATIVE_WORDS = ['ruim', 'péssimo', 'triste', 'mentira', 'falso', 'não'];
+
 export class TextAnalyticsService {
   private client: TextAnalyticsClient;
   private circuitBreaker: CircuitBreaker;
@@ -392,14 +397,10 @@ export class TextAnalyticsService {
   
   private getFallbackAnalysis(text: string, language: string): TextAnalysisResult {
     // Análise básica local como fallback
-    const words = text.toLowerCase().split(/\s+/);
-    
-    // Palavras positivas/negativas básicas
-    const positiveWords = ['bom', 'ótimo', 'excelente', 'feliz', 'alegre', 'verdade'];
-    const negativeWords = ['ruim', 'péssimo', 'triste', 'mentira', 'falso', 'não'];
+    const words = tokenize(text);
     
-    const positiveCount = words.filter(w => positiveWords.includes(w)).length;
-    const negativeCount = words.filter(w => negativeWords.includes(w)).length;
+    const positiveCount = matchPhrases(words, FALLBACK_POSITIVE_WORDS).length;
+    const negativeCount = matchPhrases(words, FALLBACK_NEGATIVE_WORDS).length;
     const total = positiveCount + negativeCount || 1;
     
     return {
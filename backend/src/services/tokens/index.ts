@@ -0,0 +1,55 @@
+/**
+ * Token store selection
+ * TOKEN_STORE=memory|redis; without it Redis is used when REDIS_CONNECTION_STRING
+ * is configured and memory otherwise. With memory, logout and rotation only hold
+ * within one process
+ */
+
+import { logger } from '../../utils/logger';
+import { TokenStore, TokenStoreName } from './tokenStore';
+import { MemoryTokenStore } from './memoryTokenStore';
+import { RedisTokenStore } from './redisTokenStore';
+
+export * from './tokenStore';
+export { MemoryTokenStore } from './memoryTokenStore';
+export { RedisTokenStore } from './redisTokenStore';
+export type { RedisTokenStoreOptions } from './redisTokenStore';
+
+let store: TokenStore | null = null;
+
+export function createTokenStore(name: TokenStoreName = resolveStoreName()): TokenStore {
+    switch (name) {
+        case 'memory':
+            return new MemoryTokenStore();
+        case 'redis': {
+            const url = process.env.REDIS_CONNECTION_STRING;
+            if (!url) {
+                throw new Error('TOKEN_STORE=redis requires REDIS_CONNECTION_STRING');
+            }
+            return RedisTokenStore.fromUrl(url, { keyPrefix: process.env.TOKEN_STORE_PREFIX });
+        }
+        default:
+            throw new Error(`Unknown token store: ${name}`);
+    }
+}
+
+export function getTokenStore(): TokenStore {
+    if (!store) {
+        store = createTokenStore();
+        logger.info('Token store initialized', { store: store.name });
+        if (store.name === 'memory' && process.env.NODE_ENV === 'production') {
+            logger.warn('Token revocation is per-process; configure REDIS_CONNECTION_STRING for multiple instances');
+        }
+    }
+    return store;
+}
+
+export function setTokenStore(instance: TokenStore | null): void {
+    store = instance;
+}
+
+function resolveStoreName(): TokenStoreName {
+    const configured = process.env.TOKEN_STORE as TokenStoreName | undefined;
+    if (configured) return configured;
+    return process.env.REDIS_CONNECTION_STRING ? 'redis' : 'memory';
+}
@@ -0,0 +1,77 @@
+/**
+ * In-memory token store for tests and single-process development
+ * Expired entries are dropped when they are next read
+ */
+
+import { FamilyRotation, RotationOutcome, TokenFamily, TokenStore, TokenStoreName } from './tokenStore';
+
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+export class MemoryTokenStore implements TokenStore {
+    readonly name: TokenStoreName = 'memory';
+    private revoked = new Map<string, number>();
+    private families = new Map<string, Expiring<TokenFamily>>();
+
+    async revoke(jti: string, ttlSeconds: number): Promise<void> {
+        this.revoked.set(jti, Date.now() + ttlSeconds * 1000);
+    }
+
+    async isRevoked(jti: string): Promise<boolean> {
+        const expiresAt = this.revoked.get(jti);
+        if (expiresAt === undefined) return false;
+        if (expiresAt <= Date.now()) {
+            this.revoked.delete(jti);
+            return false;
+        }
+        return true;
+    }
+
+    async saveFamily(family: TokenFamily, ttlSeconds: number): Promise<void> {
+        this.families.set(family.id, { value: { ...family }, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+
+    async getFamily(familyId: string): Promise<TokenFamily | null> {
+        const family = this.live(familyId);
+        return family ? { ...family } : null;
+    }
+
+    async rotateFamily(familyId: string, rotation: FamilyRotation, ttlSeconds: number): Promise<RotationOutcome> {
+        const family = this.live(familyId);
+        if (!family) return 'unknown';
+        if (family.currentJti !== rotation.presentedJti) return 'reused';
+
+        await this.saveFamily({
+            ...family,
+            currentJti: rotation.nextJti,
+            lastUsedAt: rotation.usedAt,
+            expiresAt: rotation.expiresAt
+        }, ttlSeconds);
+        return 'rotated';
+    }
+
+    async deleteFamily(familyId: string): Promise<TokenFamily | null> {
+        const family = this.live(familyId);
+        this.families.delete(familyId);
+        return family ? { ...family } : null;
+    }
+
+    async listFamilies(userId: string): Promise<TokenFamily[]> {
+        return [...this.families.keys()]
+            .map(id => this.live(id))
+            .filter((family): family is TokenFamily => family !== null && family.userId === userId)
+            .map(family => ({ ...family }));
+    }
+
+    private live(familyId: string): TokenFamily | null {
+        const entry = this.families.get(familyId);
+        if (!entry) return null;
+        if (entry.expiresAt <= Date.now()) {
+            this.families.delete(familyId);
+            return null;
+        }
+        return entry.value;
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * Redis token store, shared by every instance pointing at the same server
+ * Revoked ids are plain keys whose TTL is the token's remaining lifetime.
+ * Families are JSON documents expiring with their current refresh token, plus a
+ * per-user set of family ids; ids whose document is gone are pruned on listing.
+ * Each write issues a full-lifetime refresh token, so the newest write always
+ * expires last and the user set simply takes its TTL.
+ * Rotation runs as a Lua script so the compare-and-set is atomic
+ */
+
+import Redis from 'ioredis';
+import { FamilyRotation, RotationOutcome, TokenFamily, TokenStore, TokenStoreName } from './tokenStore';
+
+export interface RedisTokenStoreOptions {
+    keyPrefix?: string;
+}
+
+// KEYS family, user's family set; ARGV presentedJti, nextJti, usedAt, expiresAt, ttlSeconds
+const ROTATE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return 'unknown' end
+local family = cjson.decode(raw)
+if family.currentJti ~= ARGV[1] then return 'reused' end
+family.currentJti = ARGV[2]
+family.lastUsedAt = ARGV[3]
+family.expiresAt = ARGV[4]
+redis.call('SET', KEYS[1], cjson.encode(family), 'EX', tonumber(ARGV[5]))
+redis.call('EXPIRE', KEYS[2], tonumber(ARGV[5]))
+return 'rotated'
+`;
+
+export class RedisTokenStore implements TokenStore {
+    readonly name: TokenStoreName = 'redis';
+    private readonly prefix: string;
+
+    constructor(private client: Redis, options: RedisTokenStoreOptions = {}) {
+        this.prefix = options.keyPrefix || 'qmm:auth:';
+    }
+
+    static fromUrl(url: string, options: RedisTokenStoreOptions = {}): RedisTokenStore {
+        return new RedisTokenStore(new Redis(url, { maxRetriesPerRequest: 3 }), options);
+    }
+
+    async revoke(jti: string, ttlSeconds: number): Promise<void> {
+        await this.client.set(this.key('revoked', jti), '1', 'EX', ttlSeconds);
+    }
+
+    async isRevoked(jti: string): Promise<boolean> {
+        return (await this.client.exists(this.key('revoked', jti))) > 0;
+    }
+
+    async saveFamily(family: TokenFamily, ttlSeconds: number): Promise<void> {
+        const userKey = this.key('user', family.userId, 'families');
+        await this.client.multi()
+            .set(this.key('family', family.id), JSON.stringify(family), 'EX', ttlSeconds)
+            .sadd(userKey, family.id)
+            .expire(userKey, ttlSeconds)
+            .exec();
+    }
+
+    async getFamily(familyId: string): Promise<TokenFamily | null> {
+        const raw = await this.client.get(this.key('family', familyId));
+        return raw ? JSON.parse(raw) as TokenFamily : null;
+    }
+
+    async rotateFamily(familyId: string, rotation: FamilyRotation, ttlSeconds: number): Promise<RotationOutcome> {
+        // A family never changes owner, so its user set key can be named before the script runs
+        const family = await this.getFamily(familyId);
+        if (!family) return 'unknown';
+
+        return await this.client.eval(
+            ROTATE_SCRIPT,
+            2,
+            this.key('family', familyId),
+            this.key('user', family.userId, 'families'),
+            rotation.presentedJti,
+            rotation.nextJti,
+            rotation.usedAt,
+            rotation.expiresAt,
+            ttlSeconds
+        ) as RotationOutcome;
+    }
+
+    async deleteFamily(familyId: string): Promise<TokenFamily | null> {
+        const family = await this.getFamily(familyId);
+        if (!family) return null;
+
+        await this.client.multi()
+            .del(this.key('family', familyId))
+            .srem(this.key('user', family.userId, 'families'), familyId)
+            .exec();
+        return family;
+    }
+
+    async listFamilies(userId: string): Promise<TokenFamily[]> {
+        const userKey = this.key('user', userId, 'families');
+        const ids = await this.client.smembers(userKey);
+        if (ids.length === 0) return [];
+
+        const raws = await this.client.mget(ids.map(id => this.key('family', id)));
+        const expired = ids.filter((_, index) => !raws[index]);
+        if (expired.length > 0) await this.client.srem(userKey, ...expired);
+
+        return raws.filter((raw): raw is string => raw !== null).map(raw => JSON.parse(raw) as TokenFamily);
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit();
+    }
+
+    private key(...parts: string[]): string {
+        return this.prefix + parts.join(':');
+    }
+}
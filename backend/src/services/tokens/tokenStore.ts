@@ -0,0 +1,51 @@
+/**
+ * Token revocation and refresh-token family contract
+ * A family is one login session (one device): every refresh token issued from
+ * that login shares its id, and only the newest one (currentJti) may be used.
+ * Presenting an older one means it leaked, so the whole family is dropped.
+ * Entries expire on their own when the tokens they cover would have expired
+ */
+
+export type TokenStoreName = 'memory' | 'redis';
+
+export interface TokenFamily {
+    id: string;
+    userId: string;
+    currentJti: string; // The only refresh token of the family still accepted
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string; // Of the current refresh token
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+// 'unknown': the family expired or was revoked; 'reused': an already-rotated token was presented
+export type RotationOutcome = 'rotated' | 'reused' | 'unknown';
+
+export interface FamilyRotation {
+    presentedJti: string;
+    nextJti: string;
+    usedAt: string;
+    expiresAt: string;
+}
+
+export interface TokenStore {
+    readonly name: TokenStoreName;
+
+    revoke(jti: string, ttlSeconds: number): Promise<void>;
+    isRevoked(jti: string): Promise<boolean>;
+
+    saveFamily(family: TokenFamily, ttlSeconds: number): Promise<void>;
+    getFamily(familyId: string): Promise<TokenFamily | null>;
+    // Atomic compare-and-set on currentJti, so two concurrent refreshes cannot both win
+    rotateFamily(familyId: string, rotation: FamilyRotation, ttlSeconds: number): Promise<RotationOutcome>;
+    deleteFamily(familyId: string): Promise<TokenFamily | null>;
+    listFamilies(userId: string): Promise<TokenFamily[]>;
+}
+
+export function secondsUntil(isoOrEpochSeconds: string | number): number {
+    const expiresAtMs = typeof isoOrEpochSeconds === 'number'
+        ? isoOrEpochSeconds * 1000
+        : new Date(isoOrEpochSeconds).getTime();
+    return Math.max(1, Math.ceil((expiresAtMs - Date.now()) / 1000));
+}
@@ -0,0 +1,102 @@
+/**
+ * Hand-off of a validated upload to the analysis pipeline
+ * Multipart and resumable uploads both go through it: antivirus scan, plan
+ * options and duration, quota charge, content-addressed storage, then the
+ * analysis job. The charge and the stored reference are given back when the
+ * upload never reaches the queue
+ */
+
+import { logger } from '../utils/logger';
+import { ValidationError } from '../core/errors/CustomErrors';
+import type { AnalysisEntitlement } from '../core/authorization/permissions';
+import { authorizeAnalysisUpload, OptionParams } from '../middleware/analysisEntitlement';
+import type { AuthenticatedUser } from '../middleware/auth';
+import { antivirusService, AntivirusService } from './antivirusService';
+import { quotaService, QuotaCharge, QuotaService } from './quotaService';
+import { analysisJobService, AnalysisJobService } from './analysisJobService';
+import { audioContentService, AudioContentService, StoredContent } from './audioContentService';
+import { contentBlobName, FileMetadata, StorageResult } from './storage';
+import type { UploadedAudio } from './audioProcessingService';
+import type { AnalysisJob, AnalysisJobMetadata } from './jobs';
+
+export interface AdmittedUpload {
+    analysisOptions: AnalysisEntitlement;
+    quota: QuotaCharge;
+    contentHash: string; // SHA-256 of the audio
+}
+
+export class UploadIntakeService {
+    constructor(
+        private scanner: AntivirusService = antivirusService,
+        private quota: QuotaService = quotaService,
+        private jobs: AnalysisJobService = analysisJobService,
+        private contents: AudioContentService = audioContentService
+    ) {}
+
+    /**
+     * Scan, check the plan and charge the quota; throws the error to answer with
+     */
+    async admit(user: AuthenticatedUser, audio: UploadedAudio, options: OptionParams): Promise<AdmittedUpload> {
+        const scan = await this.scanner.scanFile({
+            buffer: audio.buffer,
+            mimeType: audio.mimeType,
+            originalName: audio.originalName,
+            size: audio.size
+        });
+        if (!scan.clean) {
+            logger.warn('Upload rejected by antivirus scan', { userId: user.userId, originalName: audio.originalName, threat: scan.threat });
+            throw new ValidationError('Arquivo rejeitado pela verificação de segurança', {
+                operation: 'admitUpload',
+                userId: user.userId,
+                metadata: { threat: scan.threat }
+            });
+        }
+
+        const authorized = authorizeAnalysisUpload(options, user, audio.buffer);
+        const quota = await this.quota.charge(user, authorized.durationSeconds);
+        return { analysisOptions: authorized.options, quota, contentHash: AudioContentService.hash(audio.buffer) };
+    }
+
+    /**
+     * Keep the admitted audio under its hash; the reference goes to the job submitted with it
+     */
+    async store(audio: UploadedAudio, admitted: AdmittedUpload, metadata: FileMetadata): Promise<StorageResult<StoredContent>> {
+        return this.contents.storeAudio(audio.buffer, metadata, audio.mimeType, admitted.contentHash);
+    }
+
+    /**
+     * Queue the analysis of an admitted upload, refunding the charge if queuing fails
+     */
+    async submit(audio: UploadedAudio, admitted: AdmittedUpload, metadata: Partial<AnalysisJobMetadata>): Promise<AnalysisJob> {
+        try {
+            return await this.jobs.submit(audio.buffer, {
+                originalName: audio.originalName,
+                mimeType: audio.mimeType,
+                sessionId: audio.metadata.sessionId,
+                participantId: audio.metadata.participantId,
+                ...metadata,
+                analysisOptions: admitted.analysisOptions,
+                quota: admitted.quota,
+                contentHash: admitted.contentHash
+            });
+        } catch (error) {
+            // Never queued, so never analysed: the upload is not charged and its stored copy is not kept
+            await this.release(admitted);
+            if (metadata.blobName === contentBlobName(admitted.contentHash)) await this.contents.release(admitted.contentHash);
+            throw error;
+        }
+    }
+
+    /**
+     * Give the charge back when an admitted upload is dropped before it is queued
+     */
+    async release(admitted: AdmittedUpload): Promise<void> {
+        try {
+            await this.quota.refund(admitted.quota);
+        } catch (error) {
+            logger.error('Failed to refund analysis quota', error as Error, { userId: admitted.quota.userId });
+        }
+    }
+}
+
+export const uploadIntakeService = new UploadIntakeService();
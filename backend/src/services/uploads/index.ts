@@ -0,0 +1,52 @@
+/**
+ * Upload session store selection
+ * UPLOAD_STORE=memory|redis; without it Redis is used when REDIS_CONNECTION_STRING
+ * is configured and memory otherwise. With memory, a resumed upload must reach
+ * the same process that started it
+ */
+
+import { logger } from '../../utils/logger';
+import { UploadSessionStore, UploadStoreName } from './uploadSessionStore';
+import { MemoryUploadSessionStore } from './memoryUploadSessionStore';
+import { RedisUploadSessionStore } from './redisUploadSessionStore';
+
+export * from './uploadSessionStore';
+export { MemoryUploadSessionStore } from './memoryUploadSessionStore';
+export { RedisUploadSessionStore } from './redisUploadSessionStore';
+export type { RedisUploadSessionStoreOptions } from './redisUploadSessionStore';
+
+let store: UploadSessionStore | null = null;
+
+export function createUploadSessionStore(name: UploadStoreName = resolveStoreName()): UploadSessionStore {
+    switch (name) {
+        case 'memory':
+            return new MemoryUploadSessionStore();
+        case 'redis': {
+            const url = process.env.REDIS_CONNECTION_STRING;
+            if (!url) {
+                throw new Error('UPLOAD_STORE=redis requires REDIS_CONNECTION_STRING');
+            }
+            return RedisUploadSessionStore.fromUrl(url, { keyPrefix: process.env.UPLOAD_STORE_PREFIX });
+        }
+        default:
+            throw new Error(`Unknown upload store: ${name}`);
+    }
+}
+
+export function getUploadSessionStore(): UploadSessionStore {
+    if (!store) {
+        store = createUploadSessionStore();
+        logger.info('Upload session store initialized', { store: store.name });
+    }
+    return store;
+}
+
+export function setUploadSessionStore(instance: UploadSessionStore | null): void {
+    store = instance;
+}
+
+function resolveStoreName(): UploadStoreName {
+    const configured = process.env.UPLOAD_STORE as UploadStoreName | undefined;
+    if (configured) return configured;
+    return process.env.REDIS_CONNECTION_STRING ? 'redis' : 'memory';
+}
@@ -0,0 +1,52 @@
+/**
+ * In-memory upload sessions for tests and single-process development
+ * Expired sessions are dropped when they are next read
+ */
+
+import { AppendOutcome, ChunkAppend, UploadOutcome, UploadSession, UploadSessionStore, UploadStoreName } from './uploadSessionStore';
+
+export class MemoryUploadSessionStore implements UploadSessionStore {
+    readonly name: UploadStoreName = 'memory';
+    private sessions = new Map<string, UploadSession>();
+
+    async create(session: UploadSession): Promise<void> {
+        this.sessions.set(session.id, { ...session, blockIds: [...session.blockIds] });
+    }
+
+    async get(uploadId: string): Promise<UploadSession | null> {
+        const session = this.live(uploadId);
+        return session ? { ...session, blockIds: [...session.blockIds] } : null;
+    }
+
+    async append(uploadId: string, chunk: ChunkAppend): Promise<AppendOutcome> {
+        const session = this.live(uploadId);
+        if (!session) return 'unknown';
+        if (session.status !== 'uploading' || session.offset !== chunk.fromOffset) return 'conflict';
+
+        session.offset = chunk.toOffset;
+        if (chunk.blockId) session.blockIds.push(chunk.blockId);
+        if (session.offset >= session.length) session.status = 'processing';
+        return 'appended';
+    }
+
+    async finish(uploadId: string, outcome: UploadOutcome): Promise<void> {
+        const session = this.live(uploadId);
+        if (session) Object.assign(session, outcome);
+    }
+
+    async delete(uploadId: string): Promise<UploadSession | null> {
+        const session = this.live(uploadId);
+        this.sessions.delete(uploadId);
+        return session;
+    }
+
+    private live(uploadId: string): UploadSession | null {
+        const session = this.sessions.get(uploadId);
+        if (!session) return null;
+        if (new Date(session.expiresAt).getTime() <= Date.now()) {
+            this.sessions.delete(uploadId);
+            return null;
+        }
+        return session;
+    }
+}
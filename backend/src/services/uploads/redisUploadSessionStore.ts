@@ -0,0 +1,92 @@
+/**
+ * Redis upload sessions, shared by every instance pointing at the same server
+ * Each session is a JSON document plus a list of its block ids (kept apart
+ * because Lua's cjson turns an empty array into an object); both expire at the
+ * session's expiresAt. Appending runs as a Lua script so the offset
+ * compare-and-set and the block push are atomic
+ */
+
+import Redis from 'ioredis';
+import { AppendOutcome, ChunkAppend, UploadOutcome, UploadSession, UploadSessionStore, UploadStoreName } from './uploadSessionStore';
+
+export interface RedisUploadSessionStoreOptions {
+    keyPrefix?: string;
+}
+
+// KEYS session, blocks; ARGV fromOffset, toOffset, blockId ('' for none)
+const APPEND_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return 'unknown' end
+local session = cjson.decode(raw)
+if session.status ~= 'uploading' or session.offset ~= tonumber(ARGV[1]) then return 'conflict' end
+session.offset = tonumber(ARGV[2])
+if session.offset >= session.length then session.status = 'processing' end
+redis.call('SET', KEYS[1], cjson.encode(session), 'KEEPTTL')
+if ARGV[3] ~= '' then
+  redis.call('RPUSH', KEYS[2], ARGV[3])
+  local ttl = redis.call('PTTL', KEYS[1])
+  if ttl > 0 then redis.call('PEXPIRE', KEYS[2], ttl) end
+end
+return 'appended'
+`;
+
+type StoredSession = Omit<UploadSession, 'blockIds'>;
+
+export class RedisUploadSessionStore implements UploadSessionStore {
+    readonly name: UploadStoreName = 'redis';
+    private readonly prefix: string;
+
+    constructor(private client: Redis, options: RedisUploadSessionStoreOptions = {}) {
+        this.prefix = options.keyPrefix || 'qmm:uploads:';
+    }
+
+    static fromUrl(url: string, options: RedisUploadSessionStoreOptions = {}): RedisUploadSessionStore {
+        return new RedisUploadSessionStore(new Redis(url, { maxRetriesPerRequest: 3 }), options);
+    }
+
+    async create(session: UploadSession): Promise<void> {
+        const { blockIds, ...stored } = session;
+        const ttlMs = Math.max(1, new Date(session.expiresAt).getTime() - Date.now());
+        const multi = this.client.multi()
+            .set(this.key(session.id), JSON.stringify(stored), 'PX', ttlMs)
+            .del(this.blocksKey(session.id));
+        if (blockIds.length) multi.rpush(this.blocksKey(session.id), ...blockIds).pexpire(this.blocksKey(session.id), ttlMs);
+        await multi.exec();
+    }
+
+    async get(uploadId: string): Promise<UploadSession | null> {
+        const [[, raw], [, blockIds]] = await this.client.multi()
+            .get(this.key(uploadId))
+            .lrange(this.blocksKey(uploadId), 0, -1)
+            .exec() as [[Error | null, string | null], [Error | null, string[]]];
+        if (!raw) return null;
+        return { ...JSON.parse(raw) as StoredSession, blockIds };
+    }
+
+    async append(uploadId: string, chunk: ChunkAppend): Promise<AppendOutcome> {
+        return await this.client.eval(
+            APPEND_SCRIPT, 2, this.key(uploadId), this.blocksKey(uploadId), chunk.fromOffset, chunk.toOffset, chunk.blockId ?? ''
+        ) as AppendOutcome;
+    }
+
+    async finish(uploadId: string, outcome: UploadOutcome): Promise<void> {
+        const raw = await this.client.get(this.key(uploadId));
+        if (!raw) return;
+        // Only the request that completed the upload gets here, so there is no race to guard
+        await this.client.set(this.key(uploadId), JSON.stringify({ ...JSON.parse(raw), ...outcome }), 'KEEPTTL');
+    }
+
+    async delete(uploadId: string): Promise<UploadSession | null> {
+        const session = await this.get(uploadId);
+        await this.client.del(this.key(uploadId), this.blocksKey(uploadId));
+        return session;
+    }
+
+    private key(uploadId: string): string {
+        return `${this.prefix}${uploadId}`;
+    }
+
+    private blocksKey(uploadId: string): string {
+        return `${this.prefix}${uploadId}:blocks`;
+    }
+}
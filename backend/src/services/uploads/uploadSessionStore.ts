@@ -0,0 +1,52 @@
+/**
+ * State of uploads that bypass the multipart endpoint, between requests
+ * A session records the declared length, the offset reached so far and the ids
+ * of the blocks already staged in storage, in order. Chunks are appended with a
+ * compare-and-set on the offset, so two requests resuming from the same offset
+ * cannot both land. Sessions expire at expiresAt, whatever their status
+ */
+
+export type UploadStoreName = 'memory' | 'redis';
+
+// 'processing': every byte arrived and the file is being validated and queued
+export type UploadStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+// 'tus': chunks sent through the API; 'direct': the client writes the blob itself with a SAS URL
+export type UploadTransfer = 'tus' | 'direct';
+
+export interface UploadSession {
+    id: string;
+    userId: string;
+    transfer: UploadTransfer;
+    length: number;
+    offset: number;
+    blobName: string;
+    blockIds: string[];
+    metadata: Record<string, string>; // Decoded Upload-Metadata
+    status: UploadStatus;
+    createdAt: string;
+    expiresAt: string;
+    jobId?: string; // Once completed
+    error?: string; // Once failed
+}
+
+export interface ChunkAppend {
+    fromOffset: number;
+    toOffset: number;
+    blockId?: string; // A direct upload arrives as a single chunk with no block to record
+}
+
+// 'conflict': the offset moved or the upload no longer takes chunks; 'unknown': expired or terminated
+export type AppendOutcome = 'appended' | 'conflict' | 'unknown';
+
+export type UploadOutcome = Pick<UploadSession, 'jobId' | 'error'> & { status: 'completed' | 'failed' };
+
+export interface UploadSessionStore {
+    readonly name: UploadStoreName;
+    create(session: UploadSession): Promise<void>;
+    get(uploadId: string): Promise<UploadSession | null>;
+    // The chunk that reaches the declared length moves the session to 'processing'
+    append(uploadId: string, chunk: ChunkAppend): Promise<AppendOutcome>;
+    finish(uploadId: string, outcome: UploadOutcome): Promise<void>;
+    delete(uploadId: string): Promise<UploadSession | null>;
+}
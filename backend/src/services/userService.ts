@@ -0,0 +1,139 @@
+/**
+ * User accounts: registration, login, token refresh, logout, sessions and profile
+ * Passwords and tokens are handled by JWTAuthService; this service owns the
+ * accounts themselves and decides which role goes into each token
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { AuthenticationError, ConflictError, NotFoundError, ValidationError } from '../core/errors/CustomErrors';
+import { authSchema, loginSchema, refreshTokenSchema } from '../core/validation/schemas';
+import { getJwtAuthService, JWTAuthService, SessionContext, SessionInfo, TokenPair } from './jwtAuthService';
+import { getUserStore, PublicUser, UserStore, toPublicUser } from './users';
+
+export interface AuthSession {
+    user: PublicUser;
+    tokens: TokenPair;
+}
+
+export interface UserSession extends SessionInfo {
+    current: boolean; // The session of the token making the request
+}
+
+// Compared against when the email is unknown, so a miss costs as much as a wrong password
+const DUMMY_PASSWORD_HASH = '$2b$12$lFBrjJR1743hf0DqbzDd6OMOnazwVE6v4DbLzri.8TxmSrVy9iMFO';
+
+const INVALID_CREDENTIALS = 'Email ou senha inválidos';
+
+export class UserService {
+    constructor(
+        private storeOverride: UserStore | null = null,
+        private authOverride: JWTAuthService | null = null
+    ) {}
+
+    // Both resolved lazily so importing the service needs neither secrets nor storage
+    private get store(): UserStore {
+        return this.storeOverride || getUserStore();
+    }
+
+    private get auth(): JWTAuthService {
+        return this.authOverride || getJwtAuthService();
+    }
+
+    async register(input: unknown, session: SessionContext = {}): Promise<AuthSession> {
+        const { email, password } = this.parse(authSchema, input, 'register');
+        if (await this.store.getByEmail(email)) {
+            throw new ConflictError('Email já cadastrado', { operation: 'register' });
+        }
+
+        const { hash } = await this.auth.hashPassword(password);
+        const now = new Date();
+        const user = await this.store.create({
+            id: uuidv4(),
+            email,
+            passwordHash: hash,
+            role: 'user',
+            createdAt: now,
+            updatedAt: now,
+            lastLoginAt: now
+        });
+
+        logger.info('User registered', { userId: user.id });
+        return {
+            user: toPublicUser(user),
+            tokens: await this.auth.generateTokens(user.id, user.email, user.role, session)
+        };
+    }
+
+    async login(input: unknown, session: SessionContext = {}): Promise<AuthSession> {
+        const { email, password } = this.parse(loginSchema, input, 'login');
+        const user = await this.store.getByEmail(email);
+
+        const valid = await this.auth.verifyPassword(password, user ? user.passwordHash : DUMMY_PASSWORD_HASH);
+        if (!user || !valid) {
+            logger.warn('Login failed', { reason: user ? 'wrong password' : 'unknown email' });
+            throw new AuthenticationError(INVALID_CREDENTIALS, undefined, { operation: 'login' });
+        }
+
+        const updated = await this.store.update(user.id, { lastLoginAt: new Date() });
+        logger.info('User logged in', { userId: user.id });
+        return {
+            user: toPublicUser(updated || user),
+            tokens: await this.auth.generateTokens(user.id, user.email, user.role, session)
+        };
+    }
+
+    /**
+     * Rotate the refresh token of a session. The new pair carries the account's
+     * current role; a deleted account ends the session
+     */
+    async refresh(input: unknown): Promise<TokenPair> {
+        const { refreshToken } = this.parse(refreshTokenSchema, input, 'refresh');
+        return this.auth.refreshTokens(refreshToken, async userId => (await this.store.getById(userId))?.role || null);
+    }
+
+    /**
+     * End the session the access token belongs to, on this device only
+     */
+    async logout(accessToken: string): Promise<void> {
+        const payload = await this.auth.validateAccessToken(accessToken);
+        await this.auth.revokeToken(accessToken);
+        await this.auth.revokeSession(payload.fid);
+        logger.info('User logged out', { userId: payload.sub });
+    }
+
+    // Log out of every device
+    async logoutAll(userId: string): Promise<number> {
+        return this.auth.revokeAllSessions(userId);
+    }
+
+    async listSessions(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+        const sessions = await this.auth.listSessions(userId);
+        return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+    }
+
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        if (!await this.auth.revokeSession(sessionId, userId)) {
+            throw new NotFoundError(`Sessão não encontrada: ${sessionId}`, { operation: 'revokeSession', userId });
+        }
+    }
+
+    async me(userId: string): Promise<PublicUser> {
+        const user = await this.store.getById(userId);
+        if (!user) {
+            throw new NotFoundError('Conta não encontrada', { operation: 'me', userId });
+        }
+        return toPublicUser(user);
+    }
+
+    private parse<T extends z.ZodTypeAny>(schema: T, input: unknown, operation: string): z.infer<T> {
+        const parsed = schema.safeParse(input);
+        if (!parsed.success) {
+            throw new ValidationError(parsed.error.issues.map(issue => issue.message).join('; '), { operation });
+        }
+        return parsed.data;
+    }
+}
+
+export const userService = new UserService();
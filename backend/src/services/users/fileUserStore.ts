@@ -0,0 +1,88 @@
+/**
+ * User accounts in a local JSON file
+ * Same approach as the file analysis history: everything in memory, rewritten
+ * through a temp file + rename on each change. Single instance only
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { UserChanges, UserRecord, UserStoreName } from './userStore';
+import { MemoryUserStore } from './memoryUserStore';
+
+type StoredUser = Omit<UserRecord, 'createdAt' | 'updatedAt' | 'lastLoginAt'> & {
+    createdAt: string;
+    updatedAt: string;
+    lastLoginAt?: string;
+};
+
+export class FileUserStore extends MemoryUserStore {
+    readonly name: UserStoreName = 'file';
+    private loading: Promise<void> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {
+        super();
+    }
+
+    async create(user: UserRecord): Promise<UserRecord> {
+        await this.load();
+        return super.create(user);
+    }
+
+    async getById(id: string): Promise<UserRecord | null> {
+        await this.load();
+        return super.getById(id);
+    }
+
+    async getByEmail(email: string): Promise<UserRecord | null> {
+        await this.load();
+        return super.getByEmail(email);
+    }
+
+    async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+        await this.load();
+        return super.update(id, changes);
+    }
+
+    protected async persist(): Promise<void> {
+        const snapshot = JSON.stringify([...this.users.values()], null, 2);
+        // Writes are chained so an older snapshot never lands after a newer one
+        this.writing = this.writing.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const temp = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(temp, snapshot, { encoding: 'utf8', mode: 0o600 });
+            await fs.rename(temp, this.filePath);
+        });
+        return this.writing;
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readFile();
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<void> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+            throw error;
+        }
+
+        for (const stored of JSON.parse(content) as StoredUser[]) {
+            const user: UserRecord = {
+                ...stored,
+                createdAt: new Date(stored.createdAt),
+                updatedAt: new Date(stored.updatedAt),
+                lastLoginAt: stored.lastLoginAt ? new Date(stored.lastLoginAt) : undefined
+            };
+            this.users.set(user.id, user);
+            this.idsByEmail.set(user.email, user.id);
+        }
+        logger.info('User accounts loaded', { filePath: this.filePath, count: this.users.size });
+    }
+}
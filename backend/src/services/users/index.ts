@@ -0,0 +1,40 @@
+/**
+ * User store selection
+ * USER_STORE=file|memory; defaults to a local JSON file (USER_STORE_PATH,
+ * default ./data/users.json)
+ */
+
+import * as path from 'path';
+import { logger } from '../../utils/logger';
+import { UserStore, UserStoreName } from './userStore';
+import { MemoryUserStore } from './memoryUserStore';
+import { FileUserStore } from './fileUserStore';
+
+export * from './userStore';
+export { MemoryUserStore } from './memoryUserStore';
+export { FileUserStore } from './fileUserStore';
+
+let store: UserStore | null = null;
+
+export function createUserStore(name: UserStoreName = (process.env.USER_STORE as UserStoreName) || 'file'): UserStore {
+    switch (name) {
+        case 'memory':
+            return new MemoryUserStore();
+        case 'file':
+            return new FileUserStore(path.resolve(process.env.USER_STORE_PATH || path.join('data', 'users.json')));
+        default:
+            throw new Error(`Unknown user store: ${name}`);
+    }
+}
+
+export function getUserStore(): UserStore {
+    if (!store) {
+        store = createUserStore();
+        logger.info('User store initialized', { store: store.name });
+    }
+    return store;
+}
+
+export function setUserStore(instance: UserStore | null): void {
+    store = instance;
+}
@@ -0,0 +1,50 @@
+/**
+ * In-memory user accounts for tests and single-process development
+ */
+
+import { ConflictError } from '../../core/errors/CustomErrors';
+import { UserChanges, UserRecord, UserStore, UserStoreName } from './userStore';
+
+export class MemoryUserStore implements UserStore {
+    readonly name: UserStoreName = 'memory';
+    protected users = new Map<string, UserRecord>();
+    protected idsByEmail = new Map<string, string>();
+
+    async create(user: UserRecord): Promise<UserRecord> {
+        const email = user.email.toLowerCase();
+        if (this.idsByEmail.has(email) || this.users.has(user.id)) {
+            throw new ConflictError('Email já cadastrado', { operation: 'createUser' });
+        }
+
+        const stored = { ...structuredClone(user), email };
+        this.users.set(stored.id, stored);
+        this.idsByEmail.set(email, stored.id);
+        await this.persist();
+        return structuredClone(stored);
+    }
+
+    async getById(id: string): Promise<UserRecord | null> {
+        const user = this.users.get(id);
+        return user ? structuredClone(user) : null;
+    }
+
+    async getByEmail(email: string): Promise<UserRecord | null> {
+        const id = this.idsByEmail.get(email.toLowerCase());
+        return id ? this.getById(id) : null;
+    }
+
+    async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+        const user = this.users.get(id);
+        if (!user) return null;
+
+        const updated = { ...user, ...structuredClone(changes), updatedAt: new Date() };
+        this.users.set(id, updated);
+        await this.persist();
+        return structuredClone(updated);
+    }
+
+    // Hook for subclasses that keep the accounts somewhere durable
+    protected async persist(): Promise<void> {
+        return undefined;
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * User account contract
+ * Emails are unique and stored lowercased (authSchema normalizes them). The
+ * password hash never leaves the service layer: responses use PublicUser
+ */
+
+import type { TokenPayload } from '../jwtAuthService';
+
+export type UserStoreName = 'memory' | 'file';
+
+export type UserRole = TokenPayload['role'];
+
+export interface UserRecord {
+    id: string;
+    email: string;
+    passwordHash: string;
+    role: UserRole;
+    createdAt: Date;
+    updatedAt: Date;
+    lastLoginAt?: Date;
+}
+
+export type PublicUser = Omit<UserRecord, 'passwordHash'>;
+
+export type UserChanges = Partial<Pick<UserRecord, 'passwordHash' | 'role' | 'lastLoginAt'>>;
+
+export interface UserStore {
+    readonly name: UserStoreName;
+
+    // Throws ConflictError when the email is taken
+    create(user: UserRecord): Promise<UserRecord>;
+    getById(id: string): Promise<UserRecord | null>;
+    getByEmail(email: string): Promise<UserRecord | null>;
+    update(id: string, changes: UserChanges): Promise<UserRecord | null>;
+}
+
+export function toPublicUser(user: UserRecord): PublicUser {
+    const { passwordHash: _passwordHash, ...rest } = user;
+    return rest;
+}
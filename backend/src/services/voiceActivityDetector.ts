@@ -0,0 +1,215 @@
+/**
+ * Voice activity detection
+ * Energy + spectral flatness VAD over decoded PCM, producing speech/silence
+ * intervals and pause statistics measured from the audio itself
+ */
+
+import { DecodedPcm, mixToMono } from './audioDecoder';
+import { nextPowerOfTwo, powerSpectrum, hannWindow, decimate } from '../utils/dsp';
+
+export interface VadOptions {
+    frameSeconds?: number;
+    hopSeconds?: number;
+    minPauseSeconds?: number; // silences shorter than this are bridged (closures, breaths between syllables)
+    minSpeechSeconds?: number; // speech bursts shorter than this are dropped (clicks)
+}
+
+export interface VoiceSegment {
+    type: 'speech' | 'silence';
+    start: number; // seconds
+    end: number; // seconds
+}
+
+export interface PauseStatistics {
+    count: number;
+    meanLength: number; // seconds
+    maxLength: number; // seconds
+    totalLength: number; // seconds
+    ratio: number; // pause time / speech span (first to last speech)
+    frequency: number; // pauses per second of speech span
+}
+
+export interface VoiceActivityResult {
+    duration: number;
+    segments: VoiceSegment[]; // contiguous timeline covering the whole clip
+    speechDuration: number;
+    pauses: PauseStatistics; // only silences between speech, leading/trailing silence excluded
+    noiseFloorDb: number;
+    thresholdDb: number;
+}
+
+const DEFAULT_OPTIONS: Required<VadOptions> = {
+    frameSeconds: 0.02,
+    hopSeconds: 0.01,
+    minPauseSeconds: 0.2,
+    minSpeechSeconds: 0.1
+};
+
+const MAX_ANALYSIS_RATE = 16000;
+const ABSOLUTE_FLOOR_DB = -60;
+const NOISE_MARGIN_DB = 12;
+const DYNAMIC_RANGE_DB = 40;
+const SPEECH_HEADROOM_DB = 10; // keeps the threshold under the speech level when the clip has little silence
+// White noise periodograms sit around 0.56; voiced speech is far below. Unvoiced
+// consonants are recovered by bridging the short gaps between voiced frames
+const MAX_SPEECH_FLATNESS = 0.3;
+const SPEECH_BAND_HZ: [number, number] = [100, 4000];
+
+/**
+ * Classify the clip into speech and silence intervals
+ */
+export function detectVoiceActivity(pcm: DecodedPcm, options: VadOptions = {}): VoiceActivityResult {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const mono = mixToMono(pcm);
+    const duration = pcm.sampleRate > 0 ? mono.length / pcm.sampleRate : 0;
+
+    const factor = Math.max(1, Math.floor(pcm.sampleRate / MAX_ANALYSIS_RATE));
+    const signal = decimate(mono, factor);
+    const rate = pcm.sampleRate / factor;
+
+    const frameSize = Math.max(1, Math.round(config.frameSeconds * rate));
+    const hopSize = Math.max(1, Math.round(config.hopSeconds * rate));
+    const fftSize = nextPowerOfTwo(frameSize);
+    const window = hannWindow(frameSize);
+    const lowBin = Math.max(1, Math.floor(SPEECH_BAND_HZ[0] * fftSize / rate));
+    const highBin = Math.min(fftSize >> 1, Math.ceil(SPEECH_BAND_HZ[1] * fftSize / rate));
+
+    const energyDb: number[] = [];
+    const flatness: number[] = [];
+    for (let start = 0; start + frameSize <= signal.length; start += hopSize) {
+        const frame = signal.subarray(start, start + frameSize);
+        let sumSquares = 0;
+        for (let i = 0; i < frame.length; i++) sumSquares += frame[i] * frame[i];
+        energyDb.push(toDecibels(sumSquares / frame.length));
+        flatness.push(spectralFlatness(powerSpectrum(frame, fftSize, window), lowBin, highBin));
+    }
+
+    // Noise floor is the quietest decile; threshold adapts to it and to the loudest frame
+    // (in clips that are almost all speech the quietest decile is speech, hence the headroom cap)
+    const sorted = [...energyDb].sort((a, b) => a - b);
+    const noiseFloorDb = sorted.length > 0 ? sorted[Math.floor(sorted.length * 0.1)] : ABSOLUTE_FLOOR_DB;
+    const loudestDb = sorted.length > 0 ? sorted[sorted.length - 1] : ABSOLUTE_FLOOR_DB;
+    const thresholdDb = Math.max(
+        ABSOLUTE_FLOOR_DB,
+        loudestDb - DYNAMIC_RANGE_DB,
+        Math.min(noiseFloorDb + NOISE_MARGIN_DB, loudestDb - SPEECH_HEADROOM_DB)
+    );
+
+    const speech = energyDb.map((db, i) => db >= thresholdDb && flatness[i] <= MAX_SPEECH_FLATNESS);
+
+    const hopSeconds = hopSize / rate;
+    fillShortRuns(speech, false, Math.round(config.minPauseSeconds / hopSeconds), true);
+    fillShortRuns(speech, true, Math.round(config.minSpeechSeconds / hopSeconds), false);
+
+    const segments = toSegments(speech, hopSeconds, duration);
+    const speechDuration = segments
+        .filter(segment => segment.type === 'speech')
+        .reduce((total, segment) => total + segment.end - segment.start, 0);
+
+    return {
+        duration,
+        segments,
+        speechDuration,
+        pauses: computePauseStatistics(segments),
+        noiseFloorDb,
+        thresholdDb
+    };
+}
+
+/**
+ * Pause statistics from a speech/silence timeline
+ */
+export function computePauseStatistics(segments: VoiceSegment[]): PauseStatistics {
+    const firstSpeech = segments.findIndex(segment => segment.type === 'speech');
+    const lastSpeech = segments.map(segment => segment.type).lastIndexOf('speech');
+    if (firstSpeech < 0 || lastSpeech <= firstSpeech) {
+        return { count: 0, meanLength: 0, maxLength: 0, totalLength: 0, ratio: 0, frequency: 0 };
+    }
+
+    const pauses = segments
+        .slice(firstSpeech, lastSpeech + 1)
+        .filter(segment => segment.type === 'silence')
+        .map(segment => segment.end - segment.start);
+    const totalLength = pauses.reduce((a, b) => a + b, 0);
+    const span = segments[lastSpeech].end - segments[firstSpeech].start;
+
+    return {
+        count: pauses.length,
+        meanLength: pauses.length > 0 ? totalLength / pauses.length : 0,
+        maxLength: pauses.length > 0 ? Math.max(...pauses) : 0,
+        totalLength,
+        ratio: span > 0 ? totalLength / span : 0,
+        frequency: span > 0 ? pauses.length / span : 0
+    };
+}
+
+/**
+ * Seconds of silence inside [start, end)
+ */
+export function silenceWithin(result: VoiceActivityResult, start: number, end: number): number {
+    return result.segments
+        .filter(segment => segment.type === 'silence')
+        .reduce((total, segment) => total + Math.max(0, Math.min(end, segment.end) - Math.max(start, segment.start)), 0);
+}
+
+/**
+ * Geometric over arithmetic mean of the power spectrum: ~1 for noise, low for harmonic speech
+ */
+function spectralFlatness(power: Float64Array, lowBin: number, highBin: number): number {
+    let logSum = 0;
+    let sum = 0;
+    let count = 0;
+    for (let k = lowBin; k <= highBin && k < power.length; k++) {
+        const value = Math.max(power[k], 1e-20);
+        logSum += Math.log(value);
+        sum += value;
+        count++;
+    }
+    if (count === 0 || sum <= 0) return 1;
+    return Math.exp(logSum / count) / (sum / count);
+}
+
+/**
+ * Flip runs of `value` shorter than `minLength` frames (only runs between other frames when `interiorOnly`)
+ */
+function fillShortRuns(flags: boolean[], value: boolean, minLength: number, interiorOnly: boolean): void {
+    let i = 0;
+    while (i < flags.length) {
+        if (flags[i] !== value) {
+            i++;
+            continue;
+        }
+        let j = i;
+        while (j < flags.length && flags[j] === value) j++;
+        const interior = i > 0 && j < flags.length;
+        if (j - i < minLength && (interior || !interiorOnly)) {
+            flags.fill(!value, i, j);
+        }
+        i = j;
+    }
+}
+
+function toSegments(speech: boolean[], hopSeconds: number, duration: number): VoiceSegment[] {
+    const segments: VoiceSegment[] = [];
+    for (let i = 0; i < speech.length; i++) {
+        const type = speech[i] ? 'speech' : 'silence';
+        const start = i * hopSeconds;
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) {
+            last.end = start + hopSeconds;
+        } else {
+            if (last) last.end = start;
+            segments.push({ type, start, end: start + hopSeconds });
+        }
+    }
+
+    if (segments.length === 0) {
+        return duration > 0 ? [{ type: 'silence', start: 0, end: duration }] : [];
+    }
+    segments[segments.length - 1].end = duration;
+    return segments;
+}
+
+function toDecibels(power: number): number {
+    return power > 1e-12 ? 10 * Math.log10(power) : -120;
+}
@@ -4,6 +4,8 @@
 import express from 'express';
 import cors from 'cors';
 import { logger } from './utils/logger';
+import { rateLimit } from './middleware/rateLimit';
+import { BaseError } from './core/errors/CustomErrors';
 
 const app = express();
 const PORT = process.env.PORT || 7071;
@@ -13,7 +15,7 @@ app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 
 // Health check endpoint
-app.get('/api/health', (_req, res) => {
+app.get('/api/health', rateLimit('health'), (_req, res) => {
     const healthStatus = {
         status: 'healthy',
         timestamp: new Date().toISOString(),
@@ -31,7 +33,7 @@ app.get('/api/health', (_req, res) => {
 });
 
 // Audio upload endpoint (mock)
-app.post('/api/audioUpload', (req, res) => {
+app.post('/api/audioUpload', rateLimit('upload'), (req, res) => {
     logger.info('Audio upload requested', {
         contentType: req.headers['content-type'],
         contentLength: req.headers['content-length']
@@ -68,6 +70,15 @@ app.get('/', (_req, res) => {
 
 // Error handling middleware
 app.use((error: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    if (error instanceof BaseError && error.isOperational) {
+        res.status(error.statusCode).json({
+            error: error.message,
+            code: error.code,
+            timestamp: new Date().toISOString()
+        });
+        return;
+    }
+
     logger.error('Server error', error, {
         url: req.url,
         method: req.method
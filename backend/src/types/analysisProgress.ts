@@ -0,0 +1,59 @@
+/**
+ * Progress of a comprehensive analysis, step by step
+ * Kept apart from the service so queues and streams can use the step list
+ * without loading the Azure clients
+ */
+
+import type { CrossAnalysisInsights } from './comprehensive';
+import type { SentimentAnalysisResult } from '../services/textAnalyticsService';
+import type { LieIndicator, LieDetectionResult } from '../services/lieDetectionService';
+import type {
+    TranscriptionSummary,
+    OverallScore,
+    ExecutiveSummary,
+    DetailedFindings,
+    Recommendation,
+    QualityMetrics
+} from '../services/comprehensiveAnalysisService';
+
+// The nine steps of analyzeComprehensively, in order
+export const ANALYSIS_STEPS = [
+    'speechRecognition',
+    'textAnalytics',
+    'lieDetection',
+    'crossAnalysis',
+    'overallScore',
+    'executiveSummary',
+    'detailedFindings',
+    'recommendations',
+    'qualityMetrics'
+] as const;
+
+export type AnalysisStep = typeof ANALYSIS_STEPS[number];
+
+// Partial result available when each step completes
+export interface AnalysisStepResults {
+    speechRecognition: TranscriptionSummary | null;
+    textAnalytics: {
+        sentiment: SentimentAnalysisResult | null;
+        keyPhrases: string[];
+    };
+    lieDetection: {
+        overallLieScore: number;
+        confidence: number;
+        riskLevel: LieDetectionResult['riskLevel'];
+        indicators: LieIndicator[];
+    } | null;
+    crossAnalysis: CrossAnalysisInsights;
+    overallScore: OverallScore;
+    executiveSummary: ExecutiveSummary;
+    detailedFindings: DetailedFindings;
+    recommendations: Recommendation[];
+    qualityMetrics: QualityMetrics;
+}
+
+export type AnalysisProgressEvent =
+    | { step: AnalysisStep; status: 'started' | 'skipped' }
+    | { [S in AnalysisStep]: { step: S; status: 'completed'; data: AnalysisStepResults[S] } }[AnalysisStep];
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
@@ -7,7 +7,10 @@ import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/fu
 import { audioProcessingService } from '@/services/audioProcessingService';
 import { lieDetectionService } from '@/services/lieDetectionService';
 import { logger } from '@/utils/logger';
-import { ValidationError, RateLimitError } from '@/core/errors/CustomErrors';
+import { ValidationError, RateLimitError, AuthenticationError, AuthorizationError } from '@/core/errors/CustomErrors';
+import { authenticate, AuthenticatedUser } from '@/middleware/auth';
+import { assertPermissions, maxAudioDurationFor } from '@/core/authorization/permissions';
+import { withRateLimit } from '@/middleware/rateLimit';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -65,31 +68,26 @@ export async function audioUpload(
     }
     
     // Extrair e validar token de autenticação
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      logger.warn('Tentativa de acesso sem autenticação');
+    let user: AuthenticatedUser;
+    try {
+      user = await authenticate(request);
+    } catch (error) {
+      logger.warn('Tentativa de acesso sem autenticação válida');
       return {
         status: 401,
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'WWW-Authenticate': 'Bearer',
+        },
         body: JSON.stringify({
-          error: 'Authentication required',
+          error: error instanceof AuthenticationError ? error.message : 'Authentication required',
           requestId,
         }),
       };
     }
     
-    // TODO: Validar JWT token
-    const userId = 'mock-user-id'; // Substituir por validação real
-    
-    // Verificar rate limiting
-    const isRateLimited = await checkRateLimit(userId);
-    if (isRateLimited) {
-      throw new RateLimitError(
-        'Muitas requisições. Tente novamente em alguns minutos.',
-        60,
-        { userId, requestId }
-      );
-    }
+    const { userId } = user;
+    assertPermissions(user, ['analysis:create'], 'audioUpload');
     
     // Processar upload do áudio
     const formData = await request.formData();
@@ -127,6 +125,7 @@ export async function audioUpload(
       audioId: requestId, // Usando requestId como audioId temporariamente
       userId,
       fileId: requestId,
+      maxDurationSeconds: maxAudioDurationFor(user.role),
     };
     const processedAudio = await audioProcessingService.processAudioFile(audioInput, processingContext);
     
@@ -227,6 +226,18 @@ export async function audioUpload(
       };
     }
     
+    if (error instanceof AuthorizationError) {
+      return {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: error.message,
+          code: error.code,
+          requestId,
+        }),
+      };
+    }
+    
     if (error instanceof RateLimitError) {
       return {
         status: 429,
@@ -254,18 +265,11 @@ export async function audioUpload(
   }
 }
 
-// Função auxiliar para rate limiting
-async function checkRateLimit(_userId: string): Promise<boolean> {
-  // TODO: Implementar rate limiting real com Redis
-  // Por enquanto, sempre permite
-  return false;
-}
-
-// Registrar função no Azure Functions
+// Registrar função no Azure Functions (rate limit por usuário, ver middleware/rateLimit)
 app.http('audioUpload', {
   methods: ['POST'],
   authLevel: 'anonymous',
-  handler: audioUpload,
+  handler: withRateLimit(audioUpload, 'upload'),
 });
 
 // Health check endpoint
@@ -288,5 +292,5 @@ export async function healthCheck(
 app.http('health', {
   methods: ['GET'],
   authLevel: 'anonymous',
-  handler: healthCheck,
+  handler: withRateLimit(healthCheck, 'health'),
 });
@@ -0,0 +1,223 @@
+/**
+ * DSP primitives for acoustic analysis
+ * Radix-2 FFT, windows, mel filterbank, DCT and resampling used by the audio analysis services
+ */
+
+/**
+ * Smallest power of two >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+    let size = 1;
+    while (size < n) size <<= 1;
+    return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length
+ */
+export function fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+    if (n !== imag.length || (n & (n - 1)) !== 0) {
+        throw new Error(`FFT size must be a power of two, got ${n}`);
+    }
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const angle = -2 * Math.PI / size;
+        const stepReal = Math.cos(angle);
+        const stepImag = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let wReal = 1;
+            let wImag = 0;
+            for (let k = 0; k < half; k++) {
+                const a = start + k;
+                const b = a + half;
+                const tReal = real[b] * wReal - imag[b] * wImag;
+                const tImag = real[b] * wImag + imag[b] * wReal;
+                real[b] = real[a] - tReal;
+                imag[b] = imag[a] - tImag;
+                real[a] += tReal;
+                imag[a] += tImag;
+                const nextReal = wReal * stepReal - wImag * stepImag;
+                wImag = wReal * stepImag + wImag * stepReal;
+                wReal = nextReal;
+            }
+        }
+    }
+}
+
+/**
+ * Power spectrum (|X|^2) of a real frame, bins 0..fftSize/2
+ */
+export function powerSpectrum(frame: ArrayLike<number>, fftSize: number, window?: Float64Array): Float64Array {
+    const real = new Float64Array(fftSize);
+    const imag = new Float64Array(fftSize);
+    const length = Math.min(frame.length, fftSize);
+    for (let i = 0; i < length; i++) {
+        real[i] = window ? frame[i] * window[i] : frame[i];
+    }
+    fft(real, imag);
+
+    const bins = (fftSize >> 1) + 1;
+    const power = new Float64Array(bins);
+    for (let k = 0; k < bins; k++) {
+        power[k] = real[k] * real[k] + imag[k] * imag[k];
+    }
+    return power;
+}
+
+/**
+ * Periodic Hann window
+ */
+export function hannWindow(length: number): Float64Array {
+    const window = new Float64Array(length);
+    for (let i = 0; i < length; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / length);
+    }
+    return window;
+}
+
+export function hzToMel(hz: number): number {
+    return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * Triangular mel filterbank over the bins of a power spectrum
+ */
+export function melFilterbank(
+    filterCount: number,
+    fftSize: number,
+    sampleRate: number,
+    minHz: number = 0,
+    maxHz: number = sampleRate / 2
+): Float64Array[] {
+    const bins = (fftSize >> 1) + 1;
+    const minMel = hzToMel(minHz);
+    const maxMel = hzToMel(maxHz);
+    const centers: number[] = [];
+    for (let i = 0; i < filterCount + 2; i++) {
+        const hz = melToHz(minMel + (maxMel - minMel) * i / (filterCount + 1));
+        centers.push(hz * fftSize / sampleRate);
+    }
+
+    const filters: Float64Array[] = [];
+    for (let m = 1; m <= filterCount; m++) {
+        const filter = new Float64Array(bins);
+        const [left, center, right] = [centers[m - 1], centers[m], centers[m + 1]];
+        for (let k = 0; k < bins; k++) {
+            if (k > left && k <= center) filter[k] = (k - left) / (center - left);
+            else if (k > center && k < right) filter[k] = (right - k) / (right - center);
+        }
+        filters.push(filter);
+    }
+    return filters;
+}
+
+/**
+ * Orthonormal DCT-II, keeping the first `count` coefficients
+ */
+export function dct(input: ArrayLike<number>, count: number = input.length): number[] {
+    const n = input.length;
+    const output: number[] = [];
+    for (let k = 0; k < Math.min(count, n); k++) {
+        let sum = 0;
+        for (let i = 0; i < n; i++) {
+            sum += input[i] * Math.cos(Math.PI * k * (2 * i + 1) / (2 * n));
+        }
+        output.push(sum * Math.sqrt((k === 0 ? 1 : 2) / n));
+    }
+    return output;
+}
+
+/**
+ * Low-pass (windowed sinc) and keep every `factor`-th sample
+ */
+export function decimate(signal: Float32Array, factor: number): Float32Array {
+    if (factor <= 1) return signal;
+
+    const halfTaps = 8 * factor;
+    const cutoff = 0.5 / factor;
+    const taps = new Float64Array(2 * halfTaps + 1);
+    let tapSum = 0;
+    for (let n = -halfTaps; n <= halfTaps; n++) {
+        const sinc = n === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * n) / (Math.PI * n);
+        const hamming = 0.54 + 0.46 * Math.cos(Math.PI * n / halfTaps);
+        taps[n + halfTaps] = sinc * hamming;
+        tapSum += taps[n + halfTaps];
+    }
+
+    const output = new Float32Array(Math.floor(signal.length / factor));
+    for (let o = 0; o < output.length; o++) {
+        const center = o * factor;
+        let sum = 0;
+        for (let n = -halfTaps; n <= halfTaps; n++) {
+            const index = center + n;
+            if (index >= 0 && index < signal.length) sum += signal[index] * taps[n + halfTaps];
+        }
+        output[o] = sum / tapSum;
+    }
+    return output;
+}
+
+/**
+ * Band-limited resampling with a Hann-windowed sinc interpolator
+ */
+export function resample(signal: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) return signal;
+
+    const ratio = toRate / fromRate;
+    const cutoff = Math.min(1, ratio); // low-pass at the lower Nyquist
+    const halfWidth = Math.ceil(8 / cutoff);
+    const output = new Float32Array(Math.floor(signal.length * ratio));
+
+    for (let o = 0; o < output.length; o++) {
+        const position = o / ratio;
+        const center = Math.floor(position);
+        let sum = 0;
+        let weightSum = 0;
+        for (let i = center - halfWidth + 1; i <= center + halfWidth; i++) {
+            if (i < 0 || i >= signal.length) continue;
+            const x = position - i;
+            const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+            const window = 0.5 + 0.5 * Math.cos(Math.PI * x / halfWidth);
+            const weight = sinc * window;
+            sum += signal[i] * weight;
+            weightSum += weight;
+        }
+        output[o] = weightSum !== 0 ? sum / weightSum : 0;
+    }
+    return output;
+}
+
+export function mean(values: ArrayLike<number>): number {
+    if (values.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    return sum / values.length;
+}
+
+/**
+ * Population standard deviation
+ */
+export function standardDeviation(values: ArrayLike<number>): number {
+    if (values.length === 0) return 0;
+    const avg = mean(values);
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += (values[i] - avg) * (values[i] - avg);
+    return Math.sqrt(sum / values.length);
+}
@@ -0,0 +1,94 @@
+/**
+ * Respostas HTTP padronizadas para as Azure Functions
+ * Erros operacionais (BaseError) usam o próprio statusCode; o resto vira 500 sem detalhes
+ */
+
+import { HttpRequest, HttpResponseInit } from '@azure/functions';
+import { AuthenticationError, BaseError, QuotaExceededError, RateLimitError, ValidationError } from '../core/errors/CustomErrors';
+import { logger } from './logger';
+
+export function jsonResponse(
+    status: number,
+    body: unknown,
+    requestId: string,
+    headers: Record<string, string> = {}
+): HttpResponseInit {
+    return {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Request-ID': requestId,
+            ...headers
+        },
+        body: JSON.stringify(body)
+    };
+}
+
+export function errorResponse(error: unknown, requestId: string): HttpResponseInit {
+    if (error instanceof BaseError && error.isOperational) {
+        return jsonResponse(error.statusCode, {
+            success: false,
+            error: error.message,
+            code: error.code,
+            ...errorDetails(error),
+            requestId
+        }, requestId, errorHeaders(error));
+    }
+
+    logger.error('Unhandled error in function', error instanceof Error ? error : new Error(String(error)), {
+        requestId
+    });
+    return jsonResponse(500, {
+        success: false,
+        error: 'Internal server error',
+        requestId
+    }, requestId);
+}
+
+// Plain header objects keep their casing; Headers instances and pairs are flattened
+export function withHeaders(response: HttpResponseInit, headers: Record<string, string>): HttpResponseInit {
+    const current = response.headers;
+    const base = current instanceof Headers || Array.isArray(current)
+        ? Object.fromEntries(new Headers(current as ConstructorParameters<typeof Headers>[0]).entries())
+        : current as Record<string, string> | undefined;
+    return { ...response, headers: { ...base, ...headers } };
+}
+
+// Raw body, read as it streams in and rejected once it passes maxBytes
+export async function readBody(body: AsyncIterable<Uint8Array> | null | undefined, maxBytes: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body ?? []) {
+        size += chunk.length;
+        if (size > maxBytes) {
+            throw new ValidationError(`Corpo da requisição excede ${maxBytes} bytes`, { operation: 'readBody' });
+        }
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+// Empty body reads as {}, so schemas report the missing fields
+export async function readJson(request: Pick<HttpRequest, 'text'>): Promise<unknown> {
+    const text = await request.text();
+    if (!text.trim()) return {};
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ValidationError('Corpo da requisição não é um JSON válido');
+    }
+}
+
+// Extra body fields the client needs to act on the error
+function errorDetails(error: BaseError): Record<string, unknown> {
+    if (error instanceof QuotaExceededError) {
+        return { quota: { period: error.period, resetAt: error.resetAt.toISOString() } };
+    }
+    return {};
+}
+
+function errorHeaders(error: BaseError): Record<string, string> {
+    if (error instanceof RateLimitError || error instanceof QuotaExceededError) return { 'Retry-After': String(error.retryAfter) };
+    if (error instanceof AuthenticationError) return { 'WWW-Authenticate': 'Bearer' };
+    return {};
+}
@@ -11,6 +11,7 @@ import {
 } from '@/core/errors/CustomErrors';
 import { CircuitBreaker } from '@/utils/circuitBreaker';
 import { RetryPolicy } from '@/utils/retryPolicy';
+import { LocaleLexicons, resolveLocalePack } from '@/core/locales/localePacks';
 
 export interface LieDetectionInput {
   transcription: {
@@ -196,6 +197,7 @@ export class LieDetectionService {
   
   private async analyzeLinguisticPatterns(transcription: any): Promise<number> {
     let score = 0;
+    const { lexicons } = resolveLocalePack(transcription.language).pack;
     
     // Detectar hesitações
     const hesitations = this.countHesitations(transcription.text);
@@ -208,7 +210,7 @@ export class LieDetectionService {
     else if (fillerWords > 2) score += 7;
     
     // Detectar negações excessivas
-    const negations = this.countNegations(transcription.text);
+    const negations = this.countNegations(transcription.text, lexicons);
     if (negations > 4) score += 15;
     else if (negations > 2) score += 8;
     
@@ -218,12 +220,12 @@ export class LieDetectionService {
     else if (complexity > 0.5) score += 10;
     
     // Detectar mudanças de tempo verbal
-    const tenseChanges = this.detectTenseChanges(transcription.text);
+    const tenseChanges = this.detectTenseChanges(transcription.text, lexicons);
     if (tenseChanges > 3) score += 15;
     else if (tenseChanges > 1) score += 7;
     
     // Analisar distanciamento (uso de terceira pessoa)
-    const distancing = this.detectDistancing(transcription.text);
+    const distancing = this.detectDistancing(transcription.text, lexicons);
     if (distancing) score += 15;
     
     return Math.min(100, score);
@@ -290,7 +292,8 @@ export class LieDetectionService {
     else if (inconsistency > 20) score += 15;
     
     // Verificar consistência temporal
-    const temporalInconsistencies = this.checkTemporalConsistency(input.transcription.text);
+    const { lexicons } = resolveLocalePack(input.transcription.language).pack;
+    const temporalInconsistencies = this.checkTemporalConsistency(input.transcription.text, lexicons);
     if (temporalInconsistencies > 2) score += 25;
     else if (temporalInconsistencies > 0) score += 12;
     
@@ -411,9 +414,8 @@ export class LieDetectionService {
     return (text.match(fillerPatterns) || []).length;
   }
   
-  private countNegations(text: string): number {
-    const negationPatterns = /\b(não|nunca|jamais|nada|nenhum|nem)\b/gi;
-    return (text.match(negationPatterns) || []).length;
+  private countNegations(text: string, lexicons: LocaleLexicons): number {
+    return (text.match(this.termPattern(lexicons.negations)) || []).length;
   }
   
   private analyzeComplexity(text: string): number {
@@ -422,38 +424,36 @@ export class LieDetectionService {
     return Math.min(1, avgWordsPerSentence / 30);
   }
   
-  private detectTenseChanges(text: string): number {
+  private detectTenseChanges(text: string, lexicons: LocaleLexicons): number {
     // Simplificado - conta mudanças entre passado/presente/futuro
-    const pastPatterns = /\b(foi|era|tinha|estava|fiz|fez)\b/gi;
-    const presentPatterns = /\b(é|sou|tenho|estou|faço|faz)\b/gi;
-    const futurePatterns = /\b(será|vou|vai|terei|estarei|farei)\b/gi;
-    
-    const hasPast = pastPatterns.test(text);
-    const hasPresent = presentPatterns.test(text);
-    const hasFuture = futurePatterns.test(text);
+    const hasPast = this.termPattern(lexicons.tenseMarkers.past).test(text);
+    const hasPresent = this.termPattern(lexicons.tenseMarkers.present).test(text);
+    const hasFuture = this.termPattern(lexicons.tenseMarkers.future).test(text);
     
     return [hasPast, hasPresent, hasFuture].filter(Boolean).length - 1;
   }
   
-  private detectDistancing(text: string): boolean {
-    const firstPerson = /\b(eu|me|mim|meu|minha)\b/gi;
-    const thirdPerson = /\b(ele|ela|dele|dela|aquilo|isso)\b/gi;
-    
-    const firstCount = (text.match(firstPerson) || []).length;
-    const thirdCount = (text.match(thirdPerson) || []).length;
+  private detectDistancing(text: string, lexicons: LocaleLexicons): boolean {
+    const firstCount = (text.match(this.termPattern(lexicons.firstPersonPronouns)) || []).length;
+    const thirdCount = (text.match(this.termPattern(lexicons.thirdPersonPronouns)) || []).length;
     
     return thirdCount > firstCount * 1.5;
   }
   
-  private checkTemporalConsistency(text: string): number {
+  private checkTemporalConsistency(text: string, lexicons: LocaleLexicons): number {
     // Detecta inconsistências temporais básicas
-    const timeMarkers = /(ontem|hoje|amanhã|semana passada|ano passado|agora|depois|antes)/gi;
-    const matches = text.match(timeMarkers) || [];
+    const matches = text.match(this.termPattern(lexicons.timeWords)) || [];
     
     // Verifica se há muitas mudanças temporais (possível sinal de confusão/mentira)
     return matches.length > 5 ? Math.floor(matches.length / 3) : 0;
   }
   
+  // Termos do pacote de idioma como palavras inteiras; \b não reconhece letras acentuadas
+  private termPattern(terms: string[]): RegExp {
+    const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+  }
+  
   private findContradictions(text: string): number {
     // Detecta padrões contraditórios simples
     const contradictionPatterns = [
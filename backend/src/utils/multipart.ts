@@ -0,0 +1,228 @@
+/**
+ * Streaming multipart/form-data parser
+ * Reads the body chunk by chunk and enforces the limits as bytes arrive, so an
+ * oversized upload is rejected without buffering it first. Works with any
+ * async-iterable body: the Azure Functions web ReadableStream or an Express
+ * request
+ */
+
+import { ValidationError } from '../core/errors/CustomErrors';
+
+export interface MultipartFile {
+    fieldName: string;
+    filename: string;
+    contentType: string;
+    data: Buffer;
+}
+
+export interface MultipartForm {
+    fields: Record<string, string>;
+    files: MultipartFile[];
+}
+
+export interface MultipartLimits {
+    fileSize: number; // per kept file part
+    fieldSize: number; // per text field
+    parts: number;
+    headerSize: number; // per part
+    bodySize: number; // whole request, discarded parts included
+}
+
+export interface MultipartOptions {
+    // File parts to keep; others are read and discarded
+    fileFields: string[];
+    limits?: Partial<MultipartLimits>;
+}
+
+const DEFAULT_LIMITS: MultipartLimits = {
+    fileSize: 10 * 1024 * 1024,
+    fieldSize: 64 * 1024,
+    parts: 20,
+    headerSize: 8 * 1024,
+    bodySize: 11 * 1024 * 1024
+};
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+type ParserState = 'preamble' | 'delimiter' | 'headers' | 'body' | 'epilogue';
+
+interface PartHeaders {
+    name: string;
+    filename?: string;
+    contentType: string;
+}
+
+export function multipartBoundary(contentType: string | null): string | null {
+    if (!contentType || !/^multipart\/form-data\b/i.test(contentType.trim())) return null;
+    const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    const boundary = match?.[1] ?? match?.[2];
+    return boundary && boundary.length <= 70 ? boundary : null;
+}
+
+export async function parseMultipart(
+    body: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+    contentType: string | null,
+    options: MultipartOptions
+): Promise<MultipartForm> {
+    const boundary = multipartBoundary(contentType);
+    if (!boundary) {
+        throw new ValidationError('Content-Type deve ser multipart/form-data com boundary', { operation: 'parseMultipart' });
+    }
+    const parser = new MultipartParser(boundary, options);
+    for await (const chunk of body) {
+        parser.push(chunk);
+    }
+    return parser.end();
+}
+
+class MultipartParser {
+    private readonly limits: MultipartLimits;
+    private readonly delimiter: Buffer;
+    private readonly form: MultipartForm = { fields: {}, files: [] };
+
+    private state: ParserState = 'preamble';
+    // The first boundary has no CRLF before it; starting with one lets every delimiter match the same way
+    private pending: Buffer = CRLF;
+    private bodySize = 0;
+    private parts = 0;
+    private part: PartHeaders | null = null;
+    private keep = false;
+    private received = 0;
+    private chunks: Buffer[] = [];
+
+    constructor(boundary: string, private options: MultipartOptions) {
+        this.limits = { ...DEFAULT_LIMITS, ...options.limits };
+        this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    }
+
+    push(chunk: Uint8Array): void {
+        this.bodySize += chunk.length;
+        if (this.bodySize > this.limits.bodySize) {
+            this.fail(`Requisição muito grande. Máximo: ${this.limits.bodySize / 1024 / 1024}MB`);
+        }
+        if (this.state === 'epilogue') return;
+        this.pending = this.pending.length ? Buffer.concat([this.pending, chunk]) : Buffer.from(chunk);
+        while (this.step()) { /* consume everything the buffered bytes allow */ }
+    }
+
+    end(): MultipartForm {
+        if (this.state !== 'epilogue') this.fail('Corpo multipart incompleto');
+        return this.form;
+    }
+
+    private step(): boolean {
+        switch (this.state) {
+            case 'preamble': {
+                const index = this.pending.indexOf(this.delimiter);
+                if (index < 0) {
+                    this.pending = this.pending.subarray(Math.max(0, this.pending.length - this.delimiter.length + 1));
+                    return false;
+                }
+                this.pending = this.pending.subarray(index + this.delimiter.length);
+                this.state = 'delimiter';
+                return true;
+            }
+            case 'delimiter': {
+                if (this.pending.length < 2) return false;
+                const marker = this.pending.subarray(0, 2).toString('latin1');
+                if (marker === '--') {
+                    this.state = 'epilogue';
+                    this.pending = Buffer.alloc(0);
+                    return false;
+                }
+                if (marker !== '\r\n') this.fail('Corpo multipart malformado');
+                this.pending = this.pending.subarray(2);
+                this.state = 'headers';
+                return true;
+            }
+            case 'headers': {
+                const index = this.pending.indexOf(HEADER_END);
+                if (index < 0) {
+                    if (this.pending.length > this.limits.headerSize) this.fail('Cabeçalhos de parte multipart muito grandes');
+                    return false;
+                }
+                if (++this.parts > this.limits.parts) this.fail(`Número máximo de partes (${this.limits.parts}) excedido`);
+                this.part = parsePartHeaders(this.pending.subarray(0, index).toString('utf8'));
+                this.keep = this.part.filename === undefined || this.options.fileFields.includes(this.part.name);
+                this.received = 0;
+                this.pending = this.pending.subarray(index + HEADER_END.length);
+                this.state = 'body';
+                return true;
+            }
+            case 'body': {
+                const index = this.pending.indexOf(this.delimiter);
+                if (index < 0) {
+                    // Keep a tail that could be the start of a delimiter split across chunks
+                    const safe = this.pending.length - this.delimiter.length + 1;
+                    if (safe > 0) {
+                        this.write(this.pending.subarray(0, safe));
+                        this.pending = this.pending.subarray(safe);
+                    }
+                    return false;
+                }
+                this.write(this.pending.subarray(0, index));
+                this.finishPart();
+                this.pending = this.pending.subarray(index + this.delimiter.length);
+                this.state = 'delimiter';
+                return true;
+            }
+            default:
+                return false;
+        }
+    }
+
+    private write(data: Buffer): void {
+        if (!this.part || data.length === 0) return;
+        this.received += data.length;
+        if (this.part.filename === undefined) {
+            if (this.received > this.limits.fieldSize) this.fail(`Campo "${this.part.name}" excede ${this.limits.fieldSize} bytes`);
+        } else if (this.keep && this.received > this.limits.fileSize) {
+            this.fail(`Arquivo muito grande. Máximo: ${this.limits.fileSize / 1024 / 1024}MB`);
+        }
+        // Copied so the chunk does not pin the larger buffer it was sliced from
+        if (this.keep) this.chunks.push(Buffer.from(data));
+    }
+
+    private finishPart(): void {
+        const part = this.part;
+        if (!part) return;
+        if (part.filename === undefined) {
+            this.form.fields[part.name] = Buffer.concat(this.chunks).toString('utf8');
+        } else if (this.keep) {
+            this.form.files.push({ fieldName: part.name, filename: part.filename, contentType: part.contentType, data: Buffer.concat(this.chunks) });
+        }
+        this.part = null;
+        this.chunks = [];
+    }
+
+    private fail(message: string): never {
+        throw new ValidationError(message, { operation: 'parseMultipart', metadata: { field: this.part?.name } });
+    }
+}
+
+function parsePartHeaders(raw: string): PartHeaders {
+    let disposition = '';
+    let contentType = 'application/octet-stream';
+    for (const line of raw.split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator < 0) continue;
+        const name = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+        if (name === 'content-disposition') disposition = value;
+        if (name === 'content-type') contentType = value.toLowerCase();
+    }
+
+    const name = dispositionParam(disposition, 'name');
+    if (!/^form-data\b/i.test(disposition) || name === undefined) {
+        throw new ValidationError('Parte multipart sem Content-Disposition form-data', { operation: 'parseMultipart' });
+    }
+    return { name, filename: dispositionParam(disposition, 'filename'), contentType };
+}
+
+// Browsers send quoted values as-is (a '"' becomes %22), so a path like C:\fakepath\a.wav keeps its backslashes
+function dispositionParam(disposition: string, param: string): string | undefined {
+    const match = new RegExp(`;\\s*${param}="([^"]*)"`, 'i').exec(disposition)
+        || new RegExp(`;\\s*${param}=([^;\\s]+)`, 'i').exec(disposition);
+    return match?.[1];
+}
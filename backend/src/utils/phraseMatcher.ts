@@ -0,0 +1,180 @@
+/**
+ * Multi-word phrase matching for linguistic markers
+ * Accent- and case-insensitive tokenizer plus an Aho-Corasick automaton over
+ * token sequences; matches are non-overlapping (leftmost, then longest) and
+ * carry character offsets into the original text
+ */
+
+export interface Token {
+    text: string; // as written
+    normalized: string; // lowercase, no diacritics
+    start: number; // character offsets into the source text
+    end: number;
+}
+
+export interface PhraseMatch {
+    phrase: string; // the pattern as configured
+    text: string; // the matched slice of the source text
+    start: number;
+    end: number;
+    tokenStart: number; // index of the first matched token
+    tokenEnd: number; // index after the last matched token
+}
+
+// Words with internal apostrophes stay whole ("don't", "d'água")
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+const DIACRITICS = /\p{M}+/gu;
+
+export function normalizeText(text: string): string {
+    return text.normalize('NFD').replace(DIACRITICS, '').replace(/’/g, '\'').toLowerCase();
+}
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const start = match.index ?? 0;
+        tokens.push({
+            text: match[0],
+            normalized: normalizeText(match[0]),
+            start,
+            end: start + match[0].length
+        });
+    }
+    return tokens;
+}
+
+interface AutomatonNode {
+    next: Map<string, number>;
+    fail: number;
+    outputs: number[]; // pattern indices ending here, including via failure links
+}
+
+export class PhraseMatcher {
+    private readonly nodes: AutomatonNode[] = [{ next: new Map(), fail: 0, outputs: [] }];
+    private readonly patterns: Array<{ phrase: string; length: number }> = [];
+
+    constructor(phrases: readonly string[]) {
+        const seen = new Set<string>();
+        for (const phrase of phrases) {
+            const tokens = tokenize(phrase).map(token => token.normalized);
+            const key = tokens.join(' ');
+            if (tokens.length === 0 || seen.has(key)) continue;
+            seen.add(key);
+            this.insert(tokens, this.patterns.length);
+            this.patterns.push({ phrase, length: tokens.length });
+        }
+        this.buildFailureLinks();
+    }
+
+    get size(): number {
+        return this.patterns.length;
+    }
+
+    /**
+     * Non-overlapping matches in text order
+     */
+    findAll(input: string | Token[]): PhraseMatch[] {
+        const tokens = typeof input === 'string' ? tokenize(input) : input;
+        const source = typeof input === 'string' ? input : null;
+        const candidates: PhraseMatch[] = [];
+
+        let state = 0;
+        tokens.forEach((token, index) => {
+            state = this.step(state, token.normalized);
+            for (const patternIndex of this.nodes[state].outputs) {
+                const pattern = this.patterns[patternIndex];
+                const first = tokens[index - pattern.length + 1];
+                candidates.push({
+                    phrase: pattern.phrase,
+                    text: source !== null
+                        ? source.slice(first.start, token.end)
+                        : tokens.slice(index - pattern.length + 1, index + 1).map(t => t.text).join(' '),
+                    start: first.start,
+                    end: token.end,
+                    tokenStart: index - pattern.length + 1,
+                    tokenEnd: index + 1
+                });
+            }
+        });
+
+        // Leftmost first, longest among those starting together
+        candidates.sort((a, b) => a.tokenStart - b.tokenStart || b.tokenEnd - a.tokenEnd);
+        const matches: PhraseMatch[] = [];
+        let cursor = 0;
+        for (const candidate of candidates) {
+            if (candidate.tokenStart < cursor) continue;
+            matches.push(candidate);
+            cursor = candidate.tokenEnd;
+        }
+        return matches;
+    }
+
+    count(input: string | Token[]): number {
+        return this.findAll(input).length;
+    }
+
+    private insert(tokens: string[], patternIndex: number): void {
+        let state = 0;
+        for (const token of tokens) {
+            let next = this.nodes[state].next.get(token);
+            if (next === undefined) {
+                next = this.nodes.length;
+                this.nodes.push({ next: new Map(), fail: 0, outputs: [] });
+                this.nodes[state].next.set(token, next);
+            }
+            state = next;
+        }
+        this.nodes[state].outputs.push(patternIndex);
+    }
+
+    private buildFailureLinks(): void {
+        const queue: number[] = [];
+        for (const child of this.nodes[0].next.values()) {
+            queue.push(child);
+        }
+
+        while (queue.length > 0) {
+            const state = queue.shift()!;
+            for (const [token, child] of this.nodes[state].next) {
+                const fail = this.step(this.nodes[state].fail, token, child);
+                this.nodes[child].fail = fail;
+                this.nodes[child].outputs.push(...this.nodes[fail].outputs);
+                queue.push(child);
+            }
+        }
+    }
+
+    // Follow failure links until a transition on token exists (root absorbs everything)
+    private step(state: number, token: string, self?: number): number {
+        let current = state;
+        for (;;) {
+            const next = this.nodes[current].next.get(token);
+            if (next !== undefined && next !== self) return next;
+            if (current === 0) return 0;
+            current = this.nodes[current].fail;
+        }
+    }
+}
+
+// Marker lists are long-lived (locale packs), so compiled matchers are cached per array
+const matcherCache = new WeakMap<readonly string[], PhraseMatcher>();
+
+export function getPhraseMatcher(phrases: readonly string[]): PhraseMatcher {
+    let matcher = matcherCache.get(phrases);
+    if (!matcher) {
+        matcher = new PhraseMatcher(phrases);
+        matcherCache.set(phrases, matcher);
+    }
+    return matcher;
+}
+
+export function matchPhrases(input: string | Token[], phrases: readonly string[]): PhraseMatch[] {
+    return getPhraseMatcher(phrases).findAll(input);
+}
+
+/**
+ * Distinct configured phrases that occur, in first-occurrence order
+ */
+export function matchedPhrases(matches: PhraseMatch[]): string[] {
+    return Array.from(new Set(matches.map(match => match.phrase)));
+}
@@ -13,11 +13,30 @@ export function createRequestLogger(input: string | Record<string, unknown>): an
   };
 }
 
-// Fix para SpeechRecognitionResult - propriedades básicas
+// Palavra reconhecida com tempo (segundos) e confiança individual
+export interface RecognizedWord {
+  word: string;
+  startTime: number;
+  endTime: number;
+  confidence: number;
+}
+
+export interface RecognizedSegment {
+  text: string;
+  startTime: number;
+  endTime: number;
+  confidence: number;
+  words?: RecognizedWord[];
+}
+
+// Fix para SpeechRecognitionResult - formato comum a todos os provedores de STT
 export interface SpeechRecognitionResult {
   success: boolean;
   recognizedText?: string;
-  segments?: any[];
+  segments?: RecognizedSegment[];
+  words?: RecognizedWord[];
+  language?: string;
+  provider?: string;
   duration?: number;
   audioQuality?: string;
   confidence?: number;
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for live analysis events (SSE)
+ */
+
+import {
+    AnalysisEventService,
+    AnalysisStreamEvent,
+    analysisEventService,
+    formatSseEvent,
+    parseLastEventId
+} from '../src/services/analysisEventService';
+import { AnalysisJobService } from '../src/services/analysisJobService';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { analysisEvents } from '../src/functions/analysisEvents';
+import { JWTAuthService, setJwtAuthService } from '../src/services/jwtAuthService';
+import { MemoryTokenStore } from '../src/services/tokens';
+
+const transcript = { text: 'eu estava em casa', language: 'pt', confidence: 90, words: [] };
+
+describe('AnalysisEventService', () => {
+    test('should replay events after Last-Event-ID and then deliver live ones', () => {
+        const events = new AnalysisEventService();
+        events.publish('a1', 'step', { step: 'speechRecognition', status: 'started' });
+        events.publishStepResult('a1', 'speechRecognition', transcript);
+        events.publish('a1', 'step', { step: 'speechRecognition', status: 'completed' });
+
+        const received: AnalysisStreamEvent[] = [];
+        const unsubscribe = events.subscribe('a1', 1, event => received.push(event));
+        events.publish('a1', 'completed', { resultUrl: '/api/jobs/a1/result' });
+        unsubscribe();
+        events.publish('a1', 'status', { status: 'queued', attempt: 0, maxAttempts: 3, progress: 0 });
+
+        expect(received.map(event => [event.id, event.type])).toEqual([
+            [2, 'transcript'],
+            [3, 'step'],
+            [4, 'completed']
+        ]);
+        expect(received[0].data).toEqual(transcript);
+        expect(events.getEvents('a1')).toHaveLength(5);
+    });
+
+    test('should cap the log and format events for the wire', () => {
+        const events = new AnalysisEventService({ maxEvents: 2 });
+        for (let i = 0; i < 3; i++) {
+            events.publish('a2', 'step', { step: 'validation', status: 'started' });
+        }
+
+        expect(events.getEvents('a2').map(event => event.id)).toEqual([2, 3]);
+        expect(formatSseEvent(events.getEvents('a2')[0])).toBe(
+            'id: 2\nevent: step\ndata: {"step":"validation","status":"started"}\n\n'
+        );
+        expect(parseLastEventId('7')).toBe(7);
+        expect(parseLastEventId('abc')).toBeNull();
+        expect(parseLastEventId(null)).toBeNull();
+    });
+});
+
+describe('analysis job events', () => {
+    let auth: JWTAuthService;
+
+    beforeAll(() => {
+        process.env.JWT_SECRET = 'test-access-secret-with-at-least-32-chars';
+        process.env.JWT_REFRESH_SECRET = 'test-refresh-secret-with-at-least-32-chars';
+        auth = new JWTAuthService(new MemoryTokenStore());
+        setJwtAuthService(auth);
+    });
+
+    afterAll(() => setJwtAuthService(null));
+
+    test('should publish status, step transitions and partial results of a job', async () => {
+        const events = new AnalysisEventService();
+        const service = new AnalysisJobService(new MemoryJobQueue(), async (_audio, _job, onProgress) => {
+            onProgress({ step: 'validation', status: 'started' });
+            onProgress({ step: 'validation', status: 'completed' });
+            onProgress({ step: 'speechRecognition', status: 'started' });
+            onProgress({ step: 'speechRecognition', status: 'completed', data: transcript });
+            onProgress({ step: 'textAnalytics', status: 'skipped' });
+            onProgress({ step: 'lieDetection', status: 'started' });
+            throw new Error('Lie detection timeout');
+        }, { maxAttempts: 1, autoStart: false }, events);
+
+        const job = await service.submit(Buffer.from('audio'));
+        await service.processNext();
+
+        const types = events.getEvents(job.id).map(event =>
+            event.type === 'step' ? `${event.data.step}:${event.data.status}` : event.type === 'status' ? `status:${event.data.status}` : event.type
+        );
+        expect(types).toEqual([
+            'status:queued',
+            'status:running',
+            'validation:started',
+            'validation:completed',
+            'speechRecognition:started',
+            'speechRecognition:completed',
+            'transcript',
+            'textAnalytics:skipped',
+            'lieDetection:started',
+            'lieDetection:failed',
+            'status:failed',
+            'failed'
+        ]);
+        expect(events.getEvents(job.id).find(event => event.type === 'transcript')?.data).toEqual(transcript);
+    });
+
+    test('should stream events over SSE and resume from Last-Event-ID', async () => {
+        // Shares the default queue and event log with the endpoint; no worker runs the job
+        const submitter = new AnalysisJobService(null, async () => {
+            throw new Error('not run');
+        }, { autoStart: false });
+
+        const job = await submitter.submit(Buffer.from('audio'), { userId: 'owner-1' });
+        analysisEventService.publishStepResult(job.id, 'speechRecognition', transcript);
+        analysisEventService.publish(job.id, 'completed', { resultUrl: `/api/jobs/${job.id}/result` });
+
+        const requestAs = async (userId: string | null, id = job.id) => {
+            const headers = new Headers({ 'Last-Event-ID': '1' });
+            if (userId) {
+                const { accessToken } = await auth.generateTokens(userId, `${userId}@example.com`);
+                headers.set('authorization', `Bearer ${accessToken}`);
+            }
+            return { params: { id }, headers, query: new URLSearchParams() };
+        };
+        const request = await requestAs('owner-1');
+        const response = await analysisEvents(request as never, { invocationId: 'sse-test' } as never);
+        expect(response.status).toBe(200);
+        expect((response.headers as Record<string, string>)['Content-Type']).toContain('text/event-stream');
+
+        const body = await new Response(response.body as ReadableStream).text();
+        expect(body).toBe([
+            'retry: 3000\n\n',
+            `id: 2\nevent: transcript\ndata: ${JSON.stringify(transcript)}\n\n`,
+            `id: 3\nevent: completed\ndata: {"resultUrl":"/api/jobs/${job.id}/result"}\n\n`
+        ].join(''));
+
+        const missing = await analysisEvents(await requestAs('owner-1', 'missing') as never, { invocationId: 'sse-404' } as never);
+        expect(missing.status).toBe(404);
+
+        // Another user's analysis is reported as missing, and the stream needs a token
+        const foreign = await analysisEvents(await requestAs('other-1') as never, { invocationId: 'sse-foreign' } as never);
+        expect(foreign.status).toBe(404);
+        const anonymous = await analysisEvents(await requestAs(null) as never, { invocationId: 'sse-401' } as never);
+        expect(anonymous.status).toBe(401);
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the persistent analysis history
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import {
+    FileAnalysisRepository,
+    MemoryAnalysisRepository,
+    buildQuerySpec,
+    riskLevelOf
+} from '../src/services/history';
+import { AnalysisHistoryService } from '../src/services/analysisHistoryService';
+import { AnalysisJobService } from '../src/services/analysisJobService';
+import { AnalysisEventService } from '../src/services/analysisEventService';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { encodeWav } from '../src/services/audioDecoder';
+import { AnalysisResult } from '../src/core/validation/schemas';
+import { NotFoundError, ValidationError } from '../src/core/errors/CustomErrors';
+import type { ComprehensiveAnalysisResult } from '../src/services/comprehensiveAnalysisService';
+
+const alice = randomUUID();
+const bob = randomUUID();
+
+function record(overrides: { userId?: string; timestamp?: string; lieScore?: number; classification?: 'truth' | 'lie' | 'uncertain' } = {}): AnalysisResult {
+    return {
+        id: randomUUID(),
+        userId: overrides.userId || alice,
+        timestamp: new Date(overrides.timestamp || '2026-03-01T12:00:00Z'),
+        audio: { url: 'https://storage.example/audio.wav', duration: 3, format: 'audio/wav', sampleRate: 16000, bitRate: 256000, size: 96044 },
+        transcription: { text: 'eu estava em casa', language: 'pt', confidence: 90, words: [] },
+        analysis: {
+            lieScore: overrides.lieScore ?? 20,
+            confidence: 80,
+            linguistic: { complexity: 0.4, hesitations: 1, fillerWords: ['tipo'], contradictions: [] },
+            sentiment: { overall: 'neutral', scores: { positive: 0.1, negative: 0.1, neutral: 0.8 } },
+            verdict: { classification: overrides.classification || 'truth', explanation: 'ok', keyIndicators: [], suggestions: [] }
+        },
+        metadata: { processingTime: 120, aiModel: 'test', modelVersion: '1.0.0' }
+    };
+}
+
+describe('MemoryAnalysisRepository', () => {
+    test('should filter by user, dates, risk level and classification', async () => {
+        const repository = new MemoryAnalysisRepository();
+        const low = await repository.save(record({ timestamp: '2026-01-10T10:00:00Z', lieScore: 10 }));
+        const medium = await repository.save(record({ timestamp: '2026-02-10T10:00:00Z', lieScore: 50, classification: 'uncertain' }));
+        const high = await repository.save(record({ timestamp: '2026-03-10T10:00:00Z', lieScore: 85, classification: 'lie' }));
+        await repository.save(record({ userId: bob, lieScore: 90, classification: 'lie' }));
+
+        const ids = async (query: object) => (await repository.query({ limit: 10, ...query })).items.map(item => item.id);
+
+        expect(await ids({ userId: alice })).toEqual([high.id, medium.id, low.id]);
+        expect(await ids({ userId: alice, riskLevel: 'medium' })).toEqual([medium.id]);
+        expect(await ids({ userId: alice, classification: 'lie' })).toEqual([high.id]);
+        expect(await ids({ userId: alice, from: new Date('2026-02-01'), to: new Date('2026-02-28') })).toEqual([medium.id]);
+        expect(riskLevelOf(30)).toBe('low');
+        expect(riskLevelOf(70.5)).toBe('high');
+    });
+
+    test('should page with a cursor and validate every write', async () => {
+        const repository = new MemoryAnalysisRepository();
+        const saved: string[] = [];
+        for (let day = 1; day <= 5; day++) {
+            saved.unshift((await repository.save(record({ timestamp: `2026-04-0${day}T08:00:00Z` }))).id);
+        }
+
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await repository.query({ limit: 2, cursor });
+            seen.push(...page.items.map(item => item.id));
+            cursor = page.nextCursor || undefined;
+        } while (cursor);
+
+        expect(seen).toEqual(saved);
+        await expect(repository.query({ limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow(ValidationError);
+        await expect(repository.save({ ...record(), userId: 'nobody' })).rejects.toThrow(ValidationError);
+        await expect(repository.save({ ...record(), analysis: { ...record().analysis, lieScore: 150 } })).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('FileAnalysisRepository', () => {
+    test('should keep records across instances', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'qmm-history-'));
+        const filePath = path.join(dir, 'analyses.json');
+        try {
+            const first = new FileAnalysisRepository(filePath);
+            const kept = await first.save(record());
+            const removed = await first.save(record());
+            expect(await first.delete(removed.id)).toBe(true);
+
+            const second = new FileAnalysisRepository(filePath);
+            expect(await second.get(kept.id)).toEqual(kept);
+            expect(await second.get(removed.id)).toBeNull();
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Cosmos query', () => {
+    test('should translate filters into a parameterized query', () => {
+        const spec = buildQuerySpec({ userId: alice, riskLevel: 'medium', classification: 'uncertain', limit: 20 });
+
+        expect(spec.query).toBe(
+            'SELECT * FROM c WHERE c.userId = @userId AND c.analysis.verdict.classification = @classification'
+            + ' AND c.analysis.lieScore > @riskAbove AND c.analysis.lieScore <= @riskUpTo ORDER BY c.timestamp DESC'
+        );
+        expect(spec.parameters).toEqual([
+            { name: '@userId', value: alice },
+            { name: '@classification', value: 'uncertain' },
+            { name: '@riskAbove', value: 30 },
+            { name: '@riskUpTo', value: 70 }
+        ]);
+    });
+});
+
+describe('AnalysisHistoryService', () => {
+    test('should store finished jobs of a user under the job id', async () => {
+        const history = new AnalysisHistoryService(new MemoryAnalysisRepository());
+        const result = {
+            success: true,
+            requestId: 'req',
+            overallScore: { truthfulnessScore: 0.2, confidenceLevel: 0.7, riskAssessment: 'high', reliability: 'good', primaryIndicators: ['hesitação'] },
+            comprehensiveAnalysis: { lieDetection: { success: false } },
+            executiveSummary: { overallAssessment: 'Sinais de engano' },
+            recommendations: [{ action: 'Peça detalhes' }],
+            transcription: { text: 'eu estava em casa', language: 'pt', confidence: 90, words: [] },
+            processingTime: 250
+        } as unknown as ComprehensiveAnalysisResult;
+
+        const jobs = new AnalysisJobService(new MemoryJobQueue(), async () => result, { autoStart: false }, new AnalysisEventService(), history);
+        const audio = encodeWav(new Float32Array(16000), 16000);
+        const anonymous = await jobs.submit(audio);
+        const owned = await jobs.submit(audio, { userId: alice, mimeType: 'audio/wav' });
+        await jobs.processNext();
+        await jobs.processNext();
+
+        const stored = await history.get(owned.id);
+        expect(stored).toMatchObject({
+            userId: alice,
+            audio: { url: `urn:uuid:${owned.id}`, duration: 1, sampleRate: 16000, format: 'audio/wav' },
+            analysis: { lieScore: 80, confidence: 70, verdict: { classification: 'lie', suggestions: ['Peça detalhes'] } }
+        });
+        await expect(history.get(anonymous.id)).rejects.toThrow(NotFoundError);
+        await expect(history.get(owned.id, bob)).rejects.toThrow(NotFoundError);
+        await expect(history.delete(owned.id, bob)).rejects.toThrow(NotFoundError);
+
+        expect((await history.list({ userId: alice, riskLevel: 'high' })).items).toHaveLength(1);
+        await expect(history.list({ limit: 500 })).rejects.toThrow(ValidationError);
+
+        await history.delete(owned.id);
+        await expect(history.delete(owned.id)).rejects.toThrow(NotFoundError);
+    });
+});
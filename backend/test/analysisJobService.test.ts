@@ -0,0 +1,128 @@
+/**
+ * Unit tests for asynchronous analysis jobs
+ */
+
+import { AnalysisJobService, JobProcessor } from '../src/services/analysisJobService';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { ComprehensiveAnalysisResult } from '../src/services/comprehensiveAnalysisService';
+import { ANALYSIS_STEPS, AnalysisProgressEvent } from '../src/types/analysisProgress';
+import { BusinessLogicError, NotFoundError, ValidationError } from '../src/core/errors/CustomErrors';
+
+const result = { success: true, requestId: 'r1', processingTime: 0 } as ComprehensiveAnalysisResult;
+const audio = Buffer.from('audio');
+
+describe('AnalysisJobService', () => {
+    let queue: MemoryJobQueue;
+
+    const createService = (processor: JobProcessor, maxAttempts = 3) =>
+        new AnalysisJobService(queue, processor, { maxAttempts, retryDelayMs: 0, autoStart: false });
+
+    beforeEach(() => {
+        queue = new MemoryJobQueue();
+    });
+
+    test('should run a queued job and report per-stage progress', async () => {
+        const seen: number[] = [];
+        const service = createService(async (_audio, job, onProgress) => {
+            onProgress({ step: 'validation', status: 'started' });
+            onProgress({ step: 'validation', status: 'completed' });
+            onProgress({ step: 'speechRecognition', status: 'started' });
+            onProgress({ step: 'speechRecognition', status: 'completed', data: null });
+            onProgress({ step: 'textAnalytics', status: 'skipped' });
+            await new Promise(resolve => setImmediate(resolve)); // progress is written in the background
+            seen.push((await queue.getJob(job.id))!.progress);
+            for (const step of ANALYSIS_STEPS.slice(2)) {
+                onProgress({ step, status: 'started' });
+                onProgress({ step, status: 'completed', data: null } as AnalysisProgressEvent);
+            }
+            return result;
+        });
+
+        const job = await service.submit(audio, { requestId: 'r1' });
+        expect(job.status).toBe('queued');
+        expect(await service.getResult(job.id)).toBeNull();
+
+        expect(await service.processNext()).toBe(true);
+        expect(await service.processNext()).toBe(false);
+
+        const done = await service.getJob(job.id);
+        expect(done.status).toBe('succeeded');
+        expect(done.attempts).toBe(1);
+        expect(done.progress).toBe(100);
+        expect(done.stages.textAnalytics.status).toBe('skipped');
+        expect(done.stages.lieDetection.finishedAt).toBeDefined();
+        expect(seen).toEqual([30]);
+        expect(await service.getResult(job.id)).toEqual(result);
+        expect(await queue.getPayload(job.id)).toBeNull();
+    });
+
+    test('should retry transient failures and then succeed', async () => {
+        let calls = 0;
+        const service = createService(async (_audio, _job, onProgress) => {
+            onProgress({ step: 'speechRecognition', status: 'started' });
+            if (++calls < 3) throw new Error('Speech service timeout');
+            return result;
+        });
+
+        const job = await service.submit(audio);
+        await service.processNext();
+
+        const retrying = await service.getJob(job.id);
+        expect(retrying.status).toBe('queued');
+        expect(retrying.lastError).toBe('Speech service timeout');
+        expect(retrying.stages.speechRecognition.status).toBe('failed');
+        expect(retrying.nextAttemptAt).toBeDefined();
+
+        while (await service.processNext()) {
+            // drain
+        }
+        const done = await service.getJob(job.id);
+        expect(done.status).toBe('succeeded');
+        expect(done.attempts).toBe(3);
+        expect(done.lastError).toBeUndefined();
+    });
+
+    test('should dead-letter a job that keeps failing and allow redriving it', async () => {
+        let healthy = false;
+        const service = createService(async () => {
+            if (!healthy) throw new Error('Text Analytics unavailable');
+            return result;
+        }, 2);
+
+        const job = await service.submit(audio);
+        while (await service.processNext()) {
+            // drain
+        }
+
+        const failed = await service.getJob(job.id);
+        expect(failed.status).toBe('failed');
+        expect(failed.attempts).toBe(2);
+        expect(failed.deadLettered).toBe(true);
+        expect((await service.listDeadLetters()).map(dead => dead.id)).toEqual([job.id]);
+        await expect(service.getResult(job.id)).rejects.toBeInstanceOf(BusinessLogicError);
+
+        healthy = true;
+        const redriven = await service.redrive(job.id);
+        expect(redriven).toMatchObject({ status: 'queued', attempts: 0, deadLettered: false });
+        expect(await service.listDeadLetters()).toEqual([]);
+
+        await service.processNext();
+        expect((await service.getJob(job.id)).status).toBe('succeeded');
+        await expect(service.redrive(job.id)).rejects.toBeInstanceOf(BusinessLogicError);
+    });
+
+    test('should not retry invalid audio', async () => {
+        const processor = jest.fn<ReturnType<JobProcessor>, Parameters<JobProcessor>>(async () => {
+            throw new ValidationError('Áudio muito curto');
+        });
+        const service = createService(processor);
+
+        const job = await service.submit(audio);
+        await service.processNext();
+
+        expect(processor).toHaveBeenCalledTimes(1);
+        expect(await service.getJob(job.id)).toMatchObject({ status: 'failed', deadLettered: true, attempts: 1 });
+        await expect(service.getJob('missing')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(service.submit(Buffer.alloc(0))).rejects.toBeInstanceOf(ValidationError);
+    });
+});
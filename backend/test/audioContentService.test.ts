@@ -0,0 +1,171 @@
+/**
+ * Unit tests for content-addressed audio and analysis reuse
+ */
+
+import { randomUUID } from 'crypto';
+import { AudioContentService } from '../src/services/audioContentService';
+import { MemoryContentStore } from '../src/services/content';
+import { contentBlobName, FileMetadata, MemoryStorageBackend } from '../src/services/storage';
+import { AnalysisHistoryService } from '../src/services/analysisHistoryService';
+import { AnalysisJobService } from '../src/services/analysisJobService';
+import { AnalysisEventService } from '../src/services/analysisEventService';
+import { QuotaService } from '../src/services/quotaService';
+import { MemoryQuotaStore } from '../src/services/quota';
+import { MemoryAnalysisRepository } from '../src/services/history';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { encodeWav } from '../src/services/audioDecoder';
+import type { ComprehensiveAnalysisResult } from '../src/services/comprehensiveAnalysisService';
+
+const metadataFor = (data: Buffer): FileMetadata => ({
+    originalName: 'fala.wav',
+    uploadTimestamp: '2026-10-19T15:00:00.000Z',
+    fileId: randomUUID(),
+    contentType: 'audio/wav',
+    fileSize: data.length
+});
+
+const result = {
+    success: true,
+    requestId: 'first',
+    overallScore: { truthfulnessScore: 0.6, confidenceLevel: 0.8, riskAssessment: 'medium', reliability: 'good', primaryIndicators: [] },
+    comprehensiveAnalysis: { lieDetection: { success: false } },
+    executiveSummary: { overallAssessment: 'Inconclusivo' },
+    recommendations: [],
+    transcription: { text: 'eu estava em casa', language: 'pt', confidence: 90, words: [] },
+    processingTime: 250
+} as unknown as ComprehensiveAnalysisResult;
+
+describe('AudioContentService', () => {
+    let storage: MemoryStorageBackend;
+    let contents: AudioContentService;
+
+    beforeEach(() => {
+        storage = new MemoryStorageBackend();
+        contents = new AudioContentService(new MemoryContentStore(), storage);
+    });
+
+    test('should store identical audio once and delete it only with the last reference', async () => {
+        const wav = encodeWav(new Float32Array(8000), 16000);
+        const first = await contents.storeAudio(wav, metadataFor(wav), 'audio/wav');
+        const second = await contents.storeAudio(wav, metadataFor(wav), 'audio/wav');
+        const other = await contents.storeAudio(Buffer.from('other audio'), metadataFor(wav));
+
+        const contentHash = AudioContentService.hash(wav);
+        expect(first.data).toMatchObject({ contentHash, blobName: contentBlobName(contentHash), deduplicated: false });
+        expect(second.data).toMatchObject({ contentHash, blobName: first.data!.blobName, blobUrl: first.data!.blobUrl, deduplicated: true });
+        expect((await storage.listAudioFiles()).data).toHaveLength(2);
+        expect(await contents.references(contentHash)).toBe(2);
+
+        await contents.release(contentHash);
+        expect((await storage.downloadAudioFile(first.data!.blobName)).data!.equals(wav)).toBe(true);
+        await contents.release(contentHash);
+        expect(await storage.getBlobInfo(first.data!.blobName)).toEqual({ success: true, data: null });
+        expect(await contents.references(contentHash)).toBe(0);
+        expect((await storage.listAudioFiles()).data).toEqual([other.data!.blobName]);
+    });
+
+    test('should reuse a finished analysis of the same audio and options without charging for it', async () => {
+        const user = { userId: randomUUID(), role: 'user' as const };
+        const quota = new QuotaService(new MemoryQuotaStore());
+        const history = new AnalysisHistoryService(new MemoryAnalysisRepository(), contents);
+        let runs = 0;
+        const jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            runs++;
+            return result;
+        }, { autoStart: false }, new AnalysisEventService(), history, quota, contents);
+
+        const wav = encodeWav(new Float32Array(16000), 16000);
+        const submit = async (requestId: string, reportingLevel: 'basic' | 'detailed' = 'basic') => {
+            const stored = await contents.storeAudio(wav, metadataFor(wav), 'audio/wav');
+            return jobs.submit(wav, {
+                requestId,
+                userId: user.userId,
+                mimeType: 'audio/wav',
+                blobName: stored.data!.blobName,
+                blobUrl: stored.data!.blobUrl,
+                contentHash: stored.data!.contentHash,
+                analysisOptions: { enableDeepAnalysis: false, reportingLevel, maxDurationSeconds: 60 },
+                quota: await quota.charge(user, 1)
+            });
+        };
+
+        const first = await submit('first');
+        await jobs.processNext();
+
+        const reused = await submit('second');
+        expect(reused).toMatchObject({ status: 'succeeded', progress: 100, metadata: { reusedFrom: first.id } });
+        expect(reused.stages.lieDetection.status).toBe('skipped');
+        expect(await jobs.processNext()).toBe(false);
+        expect(await jobs.getResult(reused.id)).toEqual({ ...result, requestId: 'second' });
+        expect(runs).toBe(1);
+        expect((await quota.usage(user)).day.used.analyses).toBe(1);
+
+        const otherOptions = await submit('third', 'detailed');
+        expect(otherOptions.status).toBe('queued');
+
+        // Both history entries point at the same blob, which outlives the first deletion
+        const contentHash = AudioContentService.hash(wav);
+        expect((await history.get(reused.id)).audio).toMatchObject({ contentHash, url: first.metadata.blobUrl });
+        await history.delete(first.id);
+        expect(await contents.references(contentHash)).toBe(2);
+        await history.delete(reused.id);
+        expect((await storage.getBlobInfo(contentBlobName(contentHash))).data).not.toBeNull();
+    });
+
+    test('should analyse audio scored against a participant afresh for every submission', async () => {
+        const quota = new QuotaService(new MemoryQuotaStore());
+        let runs = 0;
+        const jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            runs++;
+            return result;
+        }, { autoStart: false }, new AnalysisEventService(), new AnalysisHistoryService(new MemoryAnalysisRepository(), contents), quota, contents);
+
+        const wav = encodeWav(new Float32Array(16000), 16000);
+        const submit = async (userId: string) => {
+            const stored = await contents.storeAudio(wav, metadataFor(wav), 'audio/wav');
+            return jobs.submit(wav, {
+                userId,
+                participantId: 'p-ana',
+                mimeType: 'audio/wav',
+                blobName: stored.data!.blobName,
+                blobUrl: stored.data!.blobUrl,
+                contentHash: stored.data!.contentHash,
+                analysisOptions: { enableDeepAnalysis: false, reportingLevel: 'basic', maxDurationSeconds: 60 },
+                quota: await quota.charge({ userId, role: 'user' }, 1)
+            });
+        };
+
+        await submit('ana');
+        await jobs.processNext();
+
+        // Another account naming the same participant must not get ana's baseline deviations back
+        const other = await submit('bia');
+        expect(other.status).toBe('queued');
+        expect(other.metadata.reusedFrom).toBeUndefined();
+        await jobs.processNext();
+        expect(runs).toBe(2);
+    });
+
+    test('should give back the stored audio of a job that fails for good', async () => {
+        const history = new AnalysisHistoryService(new MemoryAnalysisRepository(), contents);
+        const jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            throw new Error('Speech service unavailable');
+        }, { maxAttempts: 1, autoStart: false }, new AnalysisEventService(), history, new QuotaService(new MemoryQuotaStore()), contents);
+
+        const wav = encodeWav(new Float32Array(8000), 16000);
+        const stored = await contents.storeAudio(wav, metadataFor(wav), 'audio/wav');
+        const job = await jobs.submit(wav, {
+            userId: randomUUID(),
+            blobName: stored.data!.blobName,
+            blobUrl: stored.data!.blobUrl,
+            contentHash: stored.data!.contentHash
+        });
+        await jobs.processNext();
+
+        const failed = await jobs.getJob(job.id);
+        expect(failed).toMatchObject({ status: 'failed', deadLettered: true });
+        expect(failed.metadata.blobName).toBeUndefined();
+        expect(await contents.references(stored.data!.contentHash)).toBe(0);
+        expect(await storage.getBlobInfo(stored.data!.blobName)).toEqual({ success: true, data: null });
+    });
+});
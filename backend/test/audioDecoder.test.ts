@@ -0,0 +1,214 @@
+/**
+ * Unit tests for audioDecoder container parsing and quality metrics
+ * Audio fixtures are synthesized in memory so the expected values are exact
+ */
+
+import { probeAudio, decodePcm, measureQuality, detectContainer } from '../src/services/audioDecoder';
+
+function createWav(samples: number[], sampleRate: number = 8000, channels: number = 1): Buffer {
+    const dataLength = samples.length * 2;
+    const buffer = Buffer.alloc(44 + dataLength);
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataLength, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20);
+    buffer.writeUInt16LE(channels, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * channels * 2, 28);
+    buffer.writeUInt16LE(channels * 2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataLength, 40);
+    samples.forEach((sample, i) => {
+        buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample * 32767))), 44 + i * 2);
+    });
+    return buffer;
+}
+
+function sine(seconds: number, sampleRate: number, amplitude: number, noise: number = 0): number[] {
+    const samples: number[] = [];
+    for (let i = 0; i < seconds * sampleRate; i++) {
+        // Deterministic pseudo-noise keeps the fixtures reproducible
+        const n = noise * Math.sin(i * 12.9898) * 0.5;
+        samples.push(amplitude * Math.sin(2 * Math.PI * 220 * i / sampleRate) + n);
+    }
+    return samples;
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo, no padding: 417-byte frames
+function createMp3(frameCount: number, xingFrames?: number): Buffer {
+    const frameLength = 417;
+    const buffer = Buffer.alloc(frameLength * frameCount);
+    for (let i = 0; i < frameCount; i++) {
+        buffer.writeUInt32BE(0xfffb9040, i * frameLength);
+    }
+    if (xingFrames !== undefined) {
+        const tagOffset = 4 + 32;
+        buffer.write('Xing', tagOffset, 'ascii');
+        buffer.writeUInt32BE(0x1, tagOffset + 4);
+        buffer.writeUInt32BE(xingFrames, tagOffset + 8);
+    }
+    return buffer;
+}
+
+function box(type: string, ...children: Buffer[]): Buffer {
+    const body = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + body.length, 0);
+    header.write(type, 4, 'ascii');
+    return Buffer.concat([header, body]);
+}
+
+function createM4a(durationSeconds: number, sampleRate: number, channels: number, avgBitrate: number): Buffer {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(1000, 12);
+    mvhd.writeUInt32BE(durationSeconds * 1000, 16);
+
+    const mdhd = Buffer.alloc(24);
+    mdhd.writeUInt32BE(sampleRate, 12);
+    mdhd.writeUInt32BE(durationSeconds * sampleRate, 16);
+
+    const hdlr = Buffer.alloc(24);
+    hdlr.write('soun', 8, 'ascii');
+
+    // ES_Descriptor -> DecoderConfigDescriptor (AAC, object type 0x40)
+    const decoderConfig = Buffer.alloc(13);
+    decoderConfig[0] = 0x40;
+    decoderConfig[1] = 0x15;
+    decoderConfig.writeUInt32BE(avgBitrate, 5);
+    decoderConfig.writeUInt32BE(avgBitrate, 9);
+    const esDescriptor = Buffer.concat([
+        Buffer.from([0x03, 3 + 2 + decoderConfig.length, 0x00, 0x01, 0x00]),
+        Buffer.from([0x04, decoderConfig.length]),
+        decoderConfig
+    ]);
+    const esds = box('esds', Buffer.alloc(4), esDescriptor);
+
+    const entryFields = Buffer.alloc(28);
+    entryFields.writeUInt16BE(1, 6);
+    entryFields.writeUInt16BE(channels, 16);
+    entryFields.writeUInt16BE(16, 18);
+    entryFields.writeUInt32BE(sampleRate * 65536, 24);
+    const mp4a = box('mp4a', entryFields, esds);
+
+    const stsdHeader = Buffer.alloc(8);
+    stsdHeader.writeUInt32BE(1, 4);
+
+    const trak = box('trak',
+        box('mdia',
+            box('mdhd', mdhd),
+            box('hdlr', hdlr),
+            box('minf', box('stbl', box('stsd', stsdHeader, mp4a)))
+        )
+    );
+
+    return Buffer.concat([
+        box('ftyp', Buffer.from('M4A \0\0\0\0M4A mp42', 'binary')),
+        box('moov', box('mvhd', mvhd), trak),
+        box('mdat', Buffer.alloc(4096))
+    ]);
+}
+
+function oggPage(granule: bigint, serial: number, body: Buffer): Buffer {
+    const header = Buffer.alloc(28);
+    header.write('OggS', 0, 'ascii');
+    header.writeBigInt64LE(granule, 6);
+    header.writeUInt32LE(serial, 14);
+    header[26] = 1;
+    header[27] = body.length;
+    return Buffer.concat([header, body]);
+}
+
+function createOggVorbis(sampleRate: number, channels: number, totalSamples: number): Buffer {
+    const idHeader = Buffer.alloc(30);
+    idHeader[0] = 0x01;
+    idHeader.write('vorbis', 1, 'ascii');
+    idHeader[11] = channels;
+    idHeader.writeUInt32LE(sampleRate, 12);
+    idHeader.writeInt32LE(96000, 20);
+    return Buffer.concat([
+        oggPage(BigInt(0), 42, idHeader),
+        oggPage(BigInt(totalSamples / 2), 42, Buffer.alloc(200)),
+        oggPage(BigInt(totalSamples), 42, Buffer.alloc(200))
+    ]);
+}
+
+describe('audioDecoder', () => {
+    describe('probeAudio', () => {
+        test('should read duration and format from a PCM WAV', () => {
+            const wav = createWav(sine(2, 8000, 0.5), 8000);
+            const info = probeAudio(wav);
+
+            expect(detectContainer(wav)).toBe('wav');
+            expect(info.container).toBe('wav');
+            expect(info.codec).toBe('pcm_s16le');
+            expect(info.sampleRate).toBe(8000);
+            expect(info.channels).toBe(1);
+            expect(info.bitrate).toBe(128000);
+            expect(info.duration).toBeCloseTo(2, 5);
+        });
+
+        test('should count frames of a CBR MP3 without a VBR header', () => {
+            const info = probeAudio(createMp3(100));
+
+            expect(info.container).toBe('mp3');
+            expect(info.codec).toBe('mp3');
+            expect(info.sampleRate).toBe(44100);
+            expect(info.channels).toBe(2);
+            expect(info.duration).toBeCloseTo(100 * 1152 / 44100, 5);
+            expect(Math.round(info.bitrate / 1000)).toBe(128);
+        });
+
+        test('should trust the Xing frame count when present', () => {
+            const info = probeAudio(createMp3(10, 5000));
+            expect(info.duration).toBeCloseTo(5000 * 1152 / 44100, 5);
+        });
+
+        test('should read mvhd/mdhd duration and the esds bitrate from M4A', () => {
+            const info = probeAudio(createM4a(12, 44100, 2, 128000));
+
+            expect(info.container).toBe('m4a');
+            expect(info.codec).toBe('aac');
+            expect(info.duration).toBeCloseTo(12, 5);
+            expect(info.sampleRate).toBe(44100);
+            expect(info.channels).toBe(2);
+            expect(info.bitrate).toBe(128000);
+        });
+
+        test('should use the last Ogg granule position for duration', () => {
+            const info = probeAudio(createOggVorbis(48000, 1, 48000 * 7));
+
+            expect(info.container).toBe('ogg');
+            expect(info.codec).toBe('vorbis');
+            expect(info.channels).toBe(1);
+            expect(info.sampleRate).toBe(48000);
+            expect(info.duration).toBeCloseTo(7, 5);
+        });
+
+        test('should reject unknown containers', () => {
+            expect(() => probeAudio(Buffer.from('definitely not an audio file'))).toThrow('Unrecognized audio container');
+        });
+    });
+
+    describe('measureQuality', () => {
+        test('should report a clean signal with high SNR', () => {
+            const samples = [...new Array(8000).fill(0.0005), ...sine(2, 8000, 0.5)];
+            const metrics = measureQuality(decodePcm(createWav(samples))!);
+
+            expect(metrics.clippingRatio).toBe(0);
+            expect(metrics.silenceRatio).toBeCloseTo(1 / 3, 1);
+            expect(metrics.snrDb).toBeGreaterThan(30);
+        });
+
+        test('should detect clipping', () => {
+            const metrics = measureQuality(decodePcm(createWav(sine(1, 8000, 2)))!);
+            expect(metrics.clippingRatio).toBeGreaterThan(0.3);
+        });
+
+        test('should not decode compressed formats', () => {
+            expect(decodePcm(createMp3(10))).toBeNull();
+        });
+    });
+});
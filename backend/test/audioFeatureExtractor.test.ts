@@ -0,0 +1,57 @@
+/**
+ * Unit tests for acoustic feature extraction on synthetic voiced signals
+ */
+
+import { extractAcousticFeatures } from '../src/services/audioFeatureExtractor';
+
+// Harmonic "vowel" at 150 Hz with 4 Hz syllable modulation, split by a 0.5 s pause
+function syntheticSpeech(sampleRate: number): Float32Array {
+    const segment = (seconds: number, voiced: boolean): number[] =>
+        Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => {
+            if (!voiced) return 0;
+            const t = i / sampleRate;
+            const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * 4 * t);
+            return envelope * 0.3 * (
+                Math.sin(2 * Math.PI * 150 * t) +
+                0.5 * Math.sin(2 * Math.PI * 300 * t) +
+                0.25 * Math.sin(2 * Math.PI * 450 * t)
+            );
+        });
+    return Float32Array.from([...segment(1, true), ...segment(0.5, false), ...segment(1, true)]);
+}
+
+describe('audioFeatureExtractor', () => {
+    test.each([16000, 44100])('should track pitch, pauses and syllables at %d Hz', (sampleRate) => {
+        const features = extractAcousticFeatures({
+            sampleRate,
+            channels: 1,
+            channelData: [syntheticSpeech(sampleRate)]
+        });
+        const { summary, frames, vocalAnalysis } = features;
+
+        expect(summary.duration).toBeCloseTo(2.5, 5);
+        expect(summary.pitchMean).toBeGreaterThan(148);
+        expect(summary.pitchMean).toBeLessThan(152);
+        expect(summary.pitchStd).toBeLessThan(2);
+        expect(summary.jitter).toBeLessThan(0.01);
+        expect(summary.syllableCount).toBe(8);
+        expect(summary.pauseRatio).toBeCloseTo(0.2, 1);
+        expect(summary.mfccMean).toHaveLength(13);
+
+        expect(frames.pitch).toHaveLength(frames.time.length);
+        expect(frames.voiced.some(voiced => !voiced)).toBe(true);
+
+        expect(vocalAnalysis.pitchMean).toBe(summary.pitchMean);
+        expect(vocalAnalysis.speakingRate).toBeCloseTo(8 / 1.6 / (2.5 / 60), 5);
+        expect(vocalAnalysis.energyMean).toBeGreaterThan(0);
+    });
+
+    test('should place the spectral centroid near a pure tone', () => {
+        const sampleRate = 16000;
+        const tone = Float32Array.from({ length: sampleRate }, (_, i) => 0.5 * Math.sin(2 * Math.PI * 1000 * i / sampleRate));
+        const { summary } = extractAcousticFeatures({ sampleRate, channels: 1, channelData: [tone] });
+
+        expect(Math.abs(summary.spectralCentroidMean - 1000)).toBeLessThan(100);
+        expect(summary.zeroCrossingRateMean).toBeCloseTo(2000 / sampleRate, 2);
+    });
+});
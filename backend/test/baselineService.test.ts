@@ -0,0 +1,146 @@
+/**
+ * Unit tests for per-speaker baseline calibration
+ */
+
+import {
+    BaselineService,
+    InMemoryBaselineStore,
+    MAX_BASELINE_SAMPLES,
+    compareToBaseline,
+    computeBaselineProfile
+} from '../src/services/baselineService';
+import { FixtureSpeechProvider, setSpeechToTextProvider } from '../src/services/speech';
+import { lieDetectionService } from '../src/services/lieDetectionService';
+import { encodeWav } from '../src/services/audioDecoder';
+import { ConflictError, NotFoundError, ValidationError, BusinessLogicError } from '../src/core/errors/CustomErrors';
+
+const SAMPLE_RATE = 16000;
+
+function answer(pitchHz: number, pauseSeconds: number): Buffer {
+    const tone = (seconds: number) => Array.from({ length: seconds * SAMPLE_RATE }, (_, i) =>
+        0.3 * Math.sin(2 * Math.PI * pitchHz * i / SAMPLE_RATE) + 0.15 * Math.sin(2 * Math.PI * 2 * pitchHz * i / SAMPLE_RATE));
+    const silence = (seconds: number) => new Array(Math.round(seconds * SAMPLE_RATE)).fill(0);
+    return encodeWav(Float32Array.from([...tone(1), ...silence(pauseSeconds), ...tone(1)]), SAMPLE_RATE);
+}
+
+describe('BaselineService', () => {
+    const provider = new FixtureSpeechProvider();
+    let service: BaselineService;
+
+    beforeEach(() => {
+        setSpeechToTextProvider(provider);
+        service = new BaselineService(new InMemoryBaselineStore(), async () => ({ positive: 0.6, negative: 0.2 }));
+    });
+
+    afterAll(() => setSpeechToTextProvider(null));
+
+    test('should become ready after two truthful answers and profile their features', async () => {
+        const first = answer(140, 0.5);
+        const second = answer(150, 0.7);
+        provider.register(first, { text: 'eu estava em casa com a minha irmã' });
+        provider.register(second, { text: 'tipo eu fui ao mercado de manhã cedo' });
+
+        const partial = await service.addSample('player-1', first);
+        expect(partial.ready).toBe(false);
+
+        const baseline = await service.addSample('player-1', second);
+        expect(baseline.ready).toBe(true);
+        expect(baseline.samples).toHaveLength(2);
+        expect(baseline.typicalSentiment).toBe('positive');
+        expect(baseline.profile.pitchMean!.mean).toBeGreaterThan(130);
+        expect(baseline.profile.pitchMean!.mean).toBeLessThan(160);
+        expect(baseline.profile.pauseRatio!.count).toBe(2);
+        expect(baseline.profile.fillerRate!.mean).toBeCloseTo(100 / 8 / 2, 5);
+        expect(await service.getReadyBaseline('player-1')).not.toBeNull();
+    });
+
+    test('should update, drop samples and delete baselines', async () => {
+        const audio = answer(140, 0.5);
+        provider.register(audio, { text: 'eu estava em casa' });
+        const created = await service.addSample('player-2', audio);
+
+        const updated = await service.updateBaseline('player-2', {
+            typicalSentiment: 'neutral',
+            removeSamples: [created.samples[0].id]
+        });
+        expect(updated.samples).toHaveLength(0);
+        expect(updated.typicalSentiment).toBe('neutral');
+        expect(updated.createdAt).toBe(created.createdAt);
+
+        expect(await service.deleteBaseline('player-2')).toBe(true);
+        expect(await service.getBaseline('player-2')).toBeNull();
+        await expect(service.updateBaseline('player-2', {})).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    test('should hide a baseline from accounts other than the one that calibrated it', async () => {
+        const audio = answer(140, 0.5);
+        provider.register(audio, { text: 'eu estava em casa' });
+        const created = await service.addSample('player-4', audio, { ownerId: 'host-1' });
+        expect(created.ownerId).toBe('host-1');
+
+        expect(await service.getBaseline('player-4', 'host-2')).toBeNull();
+        await expect(service.addSample('player-4', audio, { ownerId: 'host-2' })).rejects.toBeInstanceOf(ConflictError);
+        await expect(service.updateBaseline('player-4', {}, 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        expect(await service.deleteBaseline('player-4', 'host-2')).toBe(false);
+
+        expect((await service.addSample('player-4', audio, { ownerId: 'host-1' })).samples).toHaveLength(2);
+        expect(await service.getBaseline('player-4')).not.toBeNull();
+        expect(await service.deleteBaseline('player-4', 'host-1')).toBe(true);
+    });
+
+    test('should reject invalid ids, undecodable audio and extra samples', async () => {
+        await expect(service.addSample('../etc', answer(140, 0.5))).rejects.toBeInstanceOf(ValidationError);
+        await expect(service.addSample('player-3', Buffer.from('not audio'))).rejects.toBeInstanceOf(ValidationError);
+
+        const audio = answer(140, 0.5);
+        provider.register(audio, { text: 'eu estava em casa' });
+        for (let i = 0; i < MAX_BASELINE_SAMPLES; i++) {
+            await service.addSample('player-3', audio);
+        }
+        await expect(service.addSample('player-3', audio)).rejects.toBeInstanceOf(BusinessLogicError);
+    });
+});
+
+describe('baseline scoring', () => {
+    const profile = computeBaselineProfile([
+        { speechRate: 160, pauseRatio: 0.2, pitchMean: 140, pitchStd: 20, fillerRate: 20, hesitationRate: 20, sentimentPositive: null, sentimentNegative: null },
+        { speechRate: 180, pauseRatio: 0.3, pitchMean: 150, pitchStd: 25, fillerRate: 30, hesitationRate: 30, sentimentPositive: null, sentimentNegative: null }
+    ]);
+
+    test('should express deviations in standard deviations with a per-feature floor', () => {
+        const comparison = compareToBaseline(
+            { speechRate: 200, pauseRatio: 0.25, pitchMean: 145, pitchStd: 22.5, fillerRate: 25, hesitationRate: 25, sentimentPositive: 0.5, sentimentNegative: null },
+            profile,
+            'player-1'
+        );
+
+        expect(comparison.sampleCount).toBe(2);
+        expect(comparison.deviations.speechRate).toBeCloseTo(3, 5); // (200 - 170) / 10
+        expect(comparison.deviations.fillerRate).toBeCloseTo(0, 5);
+        expect(comparison.deviations.sentimentPositive).toBeUndefined();
+    });
+
+    test('should not penalize a habitual filler user who speaks as usual', async () => {
+        const text = 'tipo eu estava tipo em casa né';
+        const speechResult = {
+            success: true,
+            recognizedText: text,
+            segments: [{ text, startTime: 0, endTime: 3, confidence: 0.9 }],
+            duration: 3,
+            confidence: 0.9
+        };
+
+        const population = await lieDetectionService.detectLies({ requestId: 'population', speechResult });
+        const personal = await lieDetectionService.detectLies({
+            requestId: 'personal',
+            speechResult,
+            baseline: { participantId: 'player-1', sampleCount: 2, deviations: { hesitationRate: 0, fillerRate: 0.2 } }
+        });
+
+        expect(population.analysis.linguisticFactors.hesitationMarkers.score).toBe(1);
+        expect(personal.analysis.linguisticFactors.hesitationMarkers.score).toBe(0);
+        expect(personal.analysis.linguisticFactors.fillerWords.score).toBeCloseTo(0.2 / 3, 5);
+        expect(personal.baseline?.participantId).toBe('player-1');
+        expect(personal.overallLieScore).toBeLessThan(population.overallLieScore);
+    });
+});
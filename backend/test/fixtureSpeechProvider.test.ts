@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the deterministic fixture speech-to-text provider
+ */
+
+import { FixtureSpeechProvider, hashAudio } from '../src/services/speech/fixtureSpeechProvider';
+import { encodeWav } from '../src/services/audioDecoder';
+
+const SAMPLE_RATE = 16000;
+
+function burstsWithPause(): Buffer {
+    const tone = (seconds: number) => Array.from({ length: seconds * SAMPLE_RATE }, (_, i) =>
+        0.3 * Math.sin(2 * Math.PI * 140 * i / SAMPLE_RATE) + 0.15 * Math.sin(2 * Math.PI * 280 * i / SAMPLE_RATE));
+    const silence = (seconds: number) => new Array(seconds * SAMPLE_RATE).fill(0);
+    return encodeWav(Float32Array.from([...tone(1), ...silence(1), ...tone(1)]), SAMPLE_RATE);
+}
+
+describe('FixtureSpeechProvider', () => {
+    test('should return the registered transcript with word timings inside speech intervals', async () => {
+        const audio = burstsWithPause();
+        const provider = new FixtureSpeechProvider();
+        provider.register(audio, { text: 'eu estava em casa ontem', confidence: 0.9 });
+
+        const result = await provider.transcribe(audio);
+
+        expect(result.success).toBe(true);
+        expect(result.provider).toBe('fixture');
+        expect(result.recognizedText).toBe('eu estava em casa ontem');
+        expect(result.duration).toBeCloseTo(3, 5);
+        expect(result.segments).toHaveLength(2);
+        expect(result.words!.map(word => word.word)).toEqual(['eu', 'estava', 'em', 'casa', 'ontem']);
+        expect(result.words!.every(word => word.confidence === 0.9)).toBe(true);
+
+        // Nenhuma palavra deve cair na pausa entre 1s e 2s
+        for (const word of result.words!) {
+            expect(word.endTime <= 1.05 || word.startTime >= 1.95).toBe(true);
+        }
+    });
+
+    test('should be reproducible for the same audio', async () => {
+        const audio = burstsWithPause();
+        const provider = new FixtureSpeechProvider({ fixtures: { [hashAudio(audio)]: { text: 'mesma coisa' } } });
+
+        expect(await provider.transcribe(audio)).toEqual(await provider.transcribe(Buffer.from(audio)));
+    });
+
+    test('should fail for unknown audio unless a default fixture is set', async () => {
+        const audio = burstsWithPause();
+
+        const missing = await new FixtureSpeechProvider().transcribe(audio);
+        expect(missing.success).toBe(false);
+        expect(missing.error).toContain(hashAudio(audio));
+
+        const fallback = await new FixtureSpeechProvider({ defaultFixture: { text: 'texto padrão' } }).transcribe(audio);
+        expect(fallback.success).toBe(true);
+        expect(fallback.recognizedText).toBe('texto padrão');
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for multiplayer game sessions
+ */
+
+import { GameSessionService, InMemoryGameSessionStore, AnswerAnalyzer } from '../src/services/gameSessionService';
+import { LieDetectionResult } from '../src/services/lieDetectionService';
+import { BaselineService, InMemoryBaselineStore, SpeakerBaseline } from '../src/services/baselineService';
+import { BusinessLogicError, NotFoundError, ValidationError } from '../src/core/errors/CustomErrors';
+
+// Each "recording" is just its lie score as text, so tests control the outcome
+const audio = (score: number) => Buffer.from(String(score));
+
+const analyzer: AnswerAnalyzer = async (recording, context) => ({
+    success: true,
+    requestId: context.requestId,
+    overallLieScore: Number(recording.toString()),
+    confidence: 0.8,
+    riskLevel: 'low',
+    indicators: [],
+    analysis: {} as LieDetectionResult['analysis'],
+    recommendations: [],
+    processingTime: 0
+});
+
+describe('GameSessionService', () => {
+    let service: GameSessionService;
+
+    beforeEach(() => {
+        service = new GameSessionService(new InMemoryGameSessionStore(), analyzer);
+    });
+
+    test('should play a game and rank who lied least by average lie score', async () => {
+        const game = await service.createGame({ name: 'Sexta', totalRounds: 2 });
+        const ana = await service.joinGame(game.id, { name: 'Ana' });
+        const bia = await service.joinGame(game.id, { name: 'Bia' });
+        const caio = await service.joinGame(game.id, { name: 'Caio' });
+
+        await service.startRound(game.id, { prompt: 'Onde você estava ontem?' });
+        await Promise.all([
+            service.submitAnswer(game.id, 1, ana.id, audio(0.6)),
+            service.submitAnswer(game.id, 1, bia.id, audio(0.2)),
+            service.submitAnswer(game.id, 1, caio.id, audio(0.4))
+        ]);
+
+        const afterFirst = await service.getGame(game.id);
+        expect(afterFirst.rounds[0].status).toBe('closed');
+        expect(afterFirst.rounds[0].answers).toHaveLength(3);
+
+        await service.startRound(game.id);
+        await service.submitAnswer(game.id, 2, ana.id, audio(0.1));
+        await service.submitAnswer(game.id, 2, bia.id, audio(0.5));
+
+        const { game: finished, ranking } = await service.finishGame(game.id);
+        expect(finished.status).toBe('finished');
+        expect(finished.rounds[1].status).toBe('closed');
+        expect(finished.scores[ana.id].answeredRounds).toBe(2);
+        expect(finished.scores[ana.id].totalLieScore).toBeCloseTo(0.7, 5);
+
+        expect(ranking.map(entry => entry.name)).toEqual(['Ana', 'Bia', 'Caio']);
+        expect(ranking[0]).toMatchObject({ rank: 1, answeredRounds: 2 });
+        expect(ranking[0].averageLieScore).toBeCloseTo(0.35, 5);
+        expect(ranking[2].averageLieScore).toBeCloseTo(0.4, 5);
+    });
+
+    test('should flag a recording already submitted earlier in the game', async () => {
+        const game = await service.createGame({ totalRounds: 2 });
+        const ana = await service.joinGame(game.id, { name: 'Ana' });
+        const bia = await service.joinGame(game.id, { name: 'Bia' });
+
+        await service.startRound(game.id);
+        const first = await service.submitAnswer(game.id, 1, ana.id, audio(0.3));
+        const fresh = await service.submitAnswer(game.id, 1, bia.id, audio(0.5));
+        await service.startRound(game.id);
+        const replayed = await service.submitAnswer(game.id, 2, bia.id, audio(0.3));
+
+        expect(first.audioHash).toMatch(/^[a-f0-9]{64}$/);
+        expect(first.reusedAudio).toBeUndefined();
+        expect(fresh.reusedAudio).toBeUndefined();
+        expect(replayed).toMatchObject({ audioHash: first.audioHash, reusedAudio: { round: 1, playerId: ana.id } });
+        expect((await service.getGame(game.id)).rounds[1].answers[0].reusedAudio).toEqual({ round: 1, playerId: ana.id });
+    });
+
+    test('should rank players who never answered last', async () => {
+        const game = await service.createGame({ totalRounds: 1 });
+        const ana = await service.joinGame(game.id, { name: 'Ana' });
+        await service.joinGame(game.id, { name: 'Bia' });
+        await service.startRound(game.id);
+        await service.submitAnswer(game.id, 1, ana.id, audio(0.9));
+
+        const ranking = await service.getRanking(game.id);
+        expect(ranking.map(entry => [entry.name, entry.averageLieScore])).toEqual([['Ana', 0.9], ['Bia', null]]);
+    });
+
+    test('should enforce the game lifecycle', async () => {
+        const game = await service.createGame({ totalRounds: 1 });
+        const ana = await service.joinGame(game.id, { name: 'Ana' });
+
+        await expect(service.startRound(game.id)).rejects.toBeInstanceOf(BusinessLogicError);
+        await expect(service.joinGame(game.id, { name: 'ana' })).rejects.toBeInstanceOf(ValidationError);
+        await expect(service.submitAnswer(game.id, 1, ana.id, audio(0.1))).rejects.toBeInstanceOf(BusinessLogicError);
+
+        await service.joinGame(game.id, { name: 'Bia' });
+        await service.startRound(game.id);
+        await expect(service.joinGame(game.id, { name: 'Caio' })).rejects.toBeInstanceOf(BusinessLogicError);
+        await expect(service.startRound(game.id)).rejects.toBeInstanceOf(BusinessLogicError);
+        await expect(service.submitAnswer(game.id, 1, 'ghost', audio(0.1))).rejects.toBeInstanceOf(NotFoundError);
+
+        await service.submitAnswer(game.id, 1, ana.id, audio(0.1));
+        await expect(service.submitAnswer(game.id, 1, ana.id, audio(0.1))).rejects.toBeInstanceOf(BusinessLogicError);
+
+        await service.finishGame(game.id);
+        await expect(service.finishGame(game.id)).rejects.toBeInstanceOf(BusinessLogicError);
+        await expect(service.getGame('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    test('should hide a game from accounts other than its host', async () => {
+        const game = await service.createGame({}, 'host-1');
+        expect(game.ownerId).toBe('host-1');
+
+        await expect(service.getGame(game.id, 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(service.joinGame(game.id, { name: 'Ana' }, 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        const ana = await service.joinGame(game.id, { name: 'Ana' }, 'host-1');
+        await service.joinGame(game.id, { name: 'Bia' }, 'host-1');
+        await service.startRound(game.id, {}, 'host-1');
+
+        await expect(service.submitAnswer(game.id, 1, ana.id, audio(0.1), 'req-1', 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(service.getRanking(game.id, 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        await expect(service.finishGame(game.id, 'host-2')).rejects.toBeInstanceOf(NotFoundError);
+        expect(await service.submitAnswer(game.id, 1, ana.id, audio(0.1), 'req-1', 'host-1')).toMatchObject({ playerId: ana.id });
+    });
+
+    test('should only seat participants calibrated by the host and score with the host baselines', async () => {
+        const store = new InMemoryBaselineStore();
+        const baseline = (participantId: string, ownerId: string): SpeakerBaseline => ({
+            participantId,
+            ownerId,
+            language: 'pt-BR',
+            samples: [],
+            profile: {},
+            typicalSentiment: 'neutral',
+            ready: true,
+            createdAt: '2026-10-19T15:00:00.000Z',
+            updatedAt: '2026-10-19T15:00:00.000Z'
+        });
+        await store.put(baseline('p-ana', 'host-1'));
+        await store.put(baseline('p-bia', 'host-2'));
+
+        const contexts: Parameters<AnswerAnalyzer>[1][] = [];
+        const scored = new GameSessionService(new InMemoryGameSessionStore(), async (recording, context) => {
+            contexts.push(context);
+            return analyzer(recording, context);
+        }, new BaselineService(store, async () => null));
+
+        const game = await scored.createGame({}, 'host-1');
+        await expect(scored.joinGame(game.id, { name: 'Bia', participantId: 'p-bia' }, 'host-1')).rejects.toBeInstanceOf(ValidationError);
+        const ana = await scored.joinGame(game.id, { name: 'Ana', participantId: 'p-ana' }, 'host-1');
+        await scored.joinGame(game.id, { name: 'Caio' }, 'host-1');
+        await scored.startRound(game.id, {}, 'host-1');
+        await scored.submitAnswer(game.id, 1, ana.id, audio(0.3), 'req-1', 'host-1');
+
+        expect(contexts).toEqual([{ requestId: 'req-1', sessionId: game.id, participantId: 'p-ana', ownerId: 'host-1' }]);
+    });
+
+    test('should not let callers mutate stored games', async () => {
+        const game = await service.createGame();
+        game.players.push({ id: 'x', name: 'Intruso', joinedAt: '' });
+
+        expect((await service.getGame(game.id)).players).toHaveLength(0);
+        await expect(service.createGame({ totalRounds: 0 })).rejects.toBeInstanceOf(ValidationError);
+    });
+});
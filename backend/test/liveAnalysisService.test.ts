@@ -0,0 +1,229 @@
+/**
+ * Unit tests for live (WebSocket) analysis
+ */
+
+import { createServer, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { LiveAnalysisService, LiveAnalysisSession, LiveAnalysisUpdate } from '../src/services/liveAnalysisService';
+import { attachLiveAnalysisSocket } from '../src/realtime/liveAnalysisSocket';
+import { FixtureSpeechProvider } from '../src/services/speech/fixtureSpeechProvider';
+import type { SpeechToTextProvider } from '../src/services/speech';
+import { QuotaService } from '../src/services/quotaService';
+import { BaselineService, InMemoryBaselineStore, computeBaselineProfile } from '../src/services/baselineService';
+import { MemoryQuotaStore } from '../src/services/quota';
+import { AuthenticationError, NotFoundError, QuotaExceededError, ValidationError } from '../src/core/errors/CustomErrors';
+import type { AuthenticatedUser } from '../src/middleware/auth';
+
+const SAMPLE_RATE = 16000;
+const transcriber = new FixtureSpeechProvider({ defaultFixture: { text: 'então eu estava em casa' } });
+
+function voiced(seconds: number): number[] {
+    return Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => {
+        const t = i / SAMPLE_RATE;
+        return 0.3 * (Math.sin(2 * Math.PI * 140 * t) + 0.5 * Math.sin(2 * Math.PI * 280 * t));
+    });
+}
+
+function silence(seconds: number): number[] {
+    return new Array(Math.round(seconds * SAMPLE_RATE)).fill(0);
+}
+
+function pcm16(samples: number[]): Buffer {
+    const buffer = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, i) => buffer.writeInt16LE(Math.round(sample * 32767), i * 2));
+    return buffer;
+}
+
+function chunks(buffer: Buffer, size: number): Buffer[] {
+    const parts: Buffer[] = [];
+    for (let offset = 0; offset < buffer.length; offset += size) parts.push(buffer.subarray(offset, offset + size));
+    return parts;
+}
+
+const speech = pcm16([...voiced(1), ...silence(0.6), ...voiced(1), ...silence(0.6), ...voiced(1)]);
+
+describe('LiveAnalysisSession', () => {
+    test('should push transcript and rolling indicators, then finalize a full result', async () => {
+        const session = new LiveAnalysisSession({ transcriber, updateIntervalSeconds: 1, windowSeconds: 4 });
+        const updates: LiveAnalysisUpdate[] = [];
+        session.setListener(update => updates.push(update));
+
+        // Let each scheduled update run, as it would between chunks arriving over the network
+        for (const chunk of chunks(speech, 6400)) {
+            session.append(chunk);
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        const result = await session.finalize();
+
+        const transcripts = updates.filter(update => update.type === 'transcript');
+        const indicators = updates.flatMap(update => update.type === 'indicators' ? [update.indicators] : []);
+        expect(transcripts.length).toBeGreaterThan(0);
+        expect(indicators.length).toBeGreaterThan(0);
+        expect(indicators[0].window.end - indicators[0].window.start).toBeLessThanOrEqual(4);
+        expect(indicators[0].speechRatio).toBeGreaterThan(0);
+        // No words before the first pause, then the score of the transcript so far
+        expect(indicators[0].nervousness).toBeNull();
+        expect(indicators[indicators.length - 1].nervousness).not.toBeNull();
+
+        expect(result.success).toBe(true);
+        expect(session.state).toBe('finished');
+        expect(session.receivedSeconds).toBeCloseTo(4.2, 5);
+        expect(session.transcript).toContain('eu estava em casa');
+        expect(await session.finalize()).toBe(result);
+        expect(() => session.append(Buffer.alloc(2))).toThrow(ValidationError);
+    });
+
+    test('should score only against a baseline of the account that owns the stream', async () => {
+        const store = new InMemoryBaselineStore();
+        const sample = { speechRate: 150, pauseRatio: 0.2, pitchMean: 140, pitchStd: 20, fillerRate: 10, hesitationRate: 10, sentimentPositive: null, sentimentNegative: null };
+        await store.put({
+            participantId: 'p-ana',
+            ownerId: 'ana',
+            language: 'pt-BR',
+            samples: [],
+            profile: computeBaselineProfile([sample, sample]),
+            typicalSentiment: 'neutral',
+            ready: true,
+            createdAt: '2026-10-19T15:00:00.000Z',
+            updatedAt: '2026-10-19T15:00:00.000Z'
+        });
+        const baselines = new BaselineService(store, async () => null);
+
+        const finalize = (userId: string) => {
+            const session = new LiveAnalysisSession({ transcriber, baselines, participantId: 'p-ana', userId });
+            session.append(speech);
+            return session.finalize();
+        };
+
+        expect((await finalize('ana')).baseline).toMatchObject({ participantId: 'p-ana' });
+        expect((await finalize('bia')).baseline).toBeUndefined();
+    });
+
+    test('should stop at the maximum duration and keep split samples', () => {
+        const session = new LiveAnalysisSession({ transcriber, maxDurationSeconds: 1 });
+
+        expect(session.append(Buffer.alloc(3))).toMatchObject({ receivedBytes: 3, limitReached: false });
+        const last = session.append(Buffer.alloc(40000));
+
+        expect(last.limitReached).toBe(true);
+        expect(last.receivedBytes).toBe(SAMPLE_RATE * 2);
+        expect(last.receivedSeconds).toBe(1);
+        expect(() => new LiveAnalysisSession({ transcriber, sampleRate: 1000 })).toThrow(ValidationError);
+    });
+
+    test('should signal backpressure until transcription catches up', async () => {
+        const session = new LiveAnalysisSession({ transcriber, updateIntervalSeconds: 1, maxSegmentSeconds: 1, maxPendingSeconds: 0 });
+
+        const appended = session.append(pcm16(voiced(5)));
+        expect(appended.backpressure).toBe(true);
+
+        await session.whenDrained();
+        expect(session.pendingSeconds).toBeLessThanOrEqual(2);
+    });
+});
+
+describe('LiveAnalysisService', () => {
+    test('should resume a dropped stream only with its token and within the grace period', async () => {
+        const service = new LiveAnalysisService({ resumeGraceMs: 20, sessionDefaults: { transcriber } });
+        const { session, resumeToken } = service.open();
+        session.append(Buffer.alloc(100));
+
+        service.detach(session.id);
+        expect(() => service.resume(session.id, 'wrong')).toThrow(NotFoundError);
+        expect(service.resume(session.id, resumeToken).receivedBytes).toBe(100);
+
+        service.detach(session.id);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(() => service.resume(session.id, resumeToken)).toThrow(NotFoundError);
+        expect(session.state).toBe('finished');
+    });
+
+    test('should charge the final analysis to the owner and refund it when it fails', async () => {
+        const quota = new QuotaService(new MemoryQuotaStore());
+        const owner = { userId: 'ana', role: 'user' as const };
+        const failing: SpeechToTextProvider = {
+            name: 'fixture',
+            transcribe: async () => {
+                throw new Error('Speech service unavailable');
+            }
+        };
+
+        const charged = new LiveAnalysisService({ quota, sessionDefaults: { transcriber } }).open(owner).session;
+        charged.append(speech);
+        await charged.finalize();
+        await charged.finalize();
+        expect((await quota.usage(owner)).day.used).toEqual({ analyses: 1, audioSeconds: 5 });
+
+        const refunded = new LiveAnalysisService({ quota, sessionDefaults: { transcriber: failing } }).open(owner).session;
+        refunded.append(speech);
+        await expect(refunded.finalize()).rejects.toThrow('Speech service unavailable');
+        expect((await quota.usage(owner)).day.used).toEqual({ analyses: 1, audioSeconds: 5 });
+
+        // Once the plan's daily audio is spent, the stream ends without an analysis
+        await quota.charge(owner, 10 * 60 - 5);
+        const over = new LiveAnalysisService({ quota, sessionDefaults: { transcriber } }).open(owner).session;
+        over.append(speech);
+        await expect(over.finalize()).rejects.toBeInstanceOf(QuotaExceededError);
+    });
+});
+
+describe('live analysis socket', () => {
+    type Message = { type: string; [key: string]: any };
+
+    function converse(url: string, send: (ws: WebSocket) => void = () => undefined): Promise<{ messages: Message[]; code: number }> {
+        return new Promise((resolve, reject) => {
+            const ws = new WebSocket(url);
+            const messages: Message[] = [];
+            ws.on('open', () => send(ws));
+            ws.on('message', data => messages.push(JSON.parse(data.toString())));
+            ws.on('close', code => resolve({ messages, code }));
+            ws.on('error', reject);
+        });
+    }
+
+    // Each access token is simply the user id
+    async function authenticate(request: IncomingMessage): Promise<AuthenticatedUser> {
+        const token = new URL(request.url || '', 'http://localhost').searchParams.get('access_token');
+        if (!token) throw new AuthenticationError('Autenticação necessária');
+        return { userId: token, email: `${token}@example.com`, role: 'user', tokenId: token, sessionId: token, expiresAt: new Date(Date.now() + 60000) };
+    }
+
+    test('should stream audio, return the final result and replay it on reconnect', async () => {
+        const server = createServer();
+        const wss = attachLiveAnalysisSocket(server, {
+            service: new LiveAnalysisService({ quota: new QuotaService(new MemoryQuotaStore()), sessionDefaults: { transcriber } }),
+            authenticate
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const base = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/api/live`;
+
+        try {
+            await expect(converse(`${base}?sampleRate=16000`)).rejects.toThrow('Unexpected server response: 401');
+
+            const first = await converse(`${base}?access_token=ana&sampleRate=16000&language=pt-BR`, ws => {
+                for (const chunk of chunks(speech, 16000)) ws.send(chunk);
+                ws.send(JSON.stringify({ type: 'end' }));
+            });
+            const ready = first.messages[0];
+            expect(ready).toMatchObject({ type: 'ready', state: 'streaming', sampleRate: SAMPLE_RATE, receivedBytes: 0 });
+            expect(first.messages.some(message => message.type === 'transcript')).toBe(true);
+            expect(first.messages[first.messages.length - 1]).toMatchObject({ type: 'final', result: { success: true } });
+            expect(first.code).toBe(1000);
+
+            const resumed = await converse(`${base}?access_token=ana&streamId=${ready.streamId}&resumeToken=${ready.resumeToken}`);
+            expect(resumed.messages.map(message => message.type)).toEqual(['ready', 'final']);
+            expect(resumed.messages[0]).toMatchObject({ state: 'finished', receivedBytes: speech.length });
+
+            const rejected = await converse(`${base}?access_token=ana&streamId=${ready.streamId}&resumeToken=wrong`);
+            expect(rejected.messages[0]).toMatchObject({ type: 'error' });
+            expect(rejected.code).toBe(1008);
+
+            const stranger = await converse(`${base}?access_token=bia&streamId=${ready.streamId}&resumeToken=${ready.resumeToken}`);
+            expect(stranger.messages[0]).toMatchObject({ type: 'error' });
+        } finally {
+            wss.close();
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
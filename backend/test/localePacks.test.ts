@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the deception-marker locale packs
+ */
+
+import {
+    availableLocales,
+    localeFallbackChain,
+    registerLocalePack,
+    resolveLocalePack
+} from '../src/core/locales/localePacks';
+import { lieDetectionService } from '../src/services/lieDetectionService';
+
+describe('locale packs', () => {
+    test('should ship validated pt-BR, en-US and es packs', () => {
+        expect(availableLocales().sort()).toEqual(['en-US', 'es', 'pt-BR']);
+        expect(resolveLocalePack('pt-BR').report).toEqual({
+            requested: 'pt-BR',
+            locale: 'pt-BR',
+            version: '1.1.0',
+            fallback: false,
+            chain: ['pt-BR']
+        });
+    });
+
+    test('should fall back from a regional code to the base language, then to pt-BR', () => {
+        expect(localeFallbackChain('es_mx')).toEqual(['es-MX', 'es', 'pt-BR']);
+
+        const spanish = resolveLocalePack('es-MX').report;
+        expect(spanish.locale).toBe('es');
+        expect(spanish.fallback).toBe(true);
+        expect(spanish.chain).toEqual(['es-MX', 'es']);
+
+        expect(resolveLocalePack('en').report.locale).toBe('en-US');
+        expect(resolveLocalePack('pt').report.locale).toBe('pt-BR');
+
+        const unknown = resolveLocalePack('fr-FR').report;
+        expect(unknown.locale).toBe('pt-BR');
+        expect(unknown.chain).toEqual(['fr-FR', 'fr', 'pt-BR']);
+    });
+
+    test('should reject packs that do not match the schema', () => {
+        expect(() => registerLocalePack({ locale: 'de', version: '1', name: 'Deutsch', lexicons: {} })).toThrow();
+    });
+
+    test('should score English speech with the en-US lexicons and report the pack', async () => {
+        const text = 'um well I mean I was at home you know um maybe';
+        const result = await lieDetectionService.detectLies({
+            requestId: 'test-locale',
+            speechResult: {
+                success: true,
+                recognizedText: text,
+                segments: [{ text, startTime: 0, endTime: 5, confidence: 0.9 }],
+                duration: 5,
+                confidence: 0.9,
+                language: 'en-GB'
+            }
+        });
+
+        expect(result.locale).toMatchObject({ requested: 'en-GB', locale: 'en-US', fallback: true });
+        const hesitation = result.analysis.linguisticFactors.hesitationMarkers;
+        expect(hesitation.types).toEqual(expect.arrayContaining(['um', 'well']));
+        expect(result.analysis.linguisticFactors.fillerWords.evidence.map(span => span.text))
+            .toEqual(expect.arrayContaining(['I mean', 'you know']));
+    });
+
+    test('should let the declared language override the recognizer', async () => {
+        const text = 'bueno o sea no sé';
+        const result = await lieDetectionService.detectLies({
+            requestId: 'test-declared',
+            speechResult: {
+                success: true,
+                recognizedText: text,
+                segments: [{ text, startTime: 0, endTime: 2, confidence: 0.9 }],
+                duration: 2,
+                confidence: 0.9,
+                language: 'pt-BR'
+            },
+            analysisOptions: { language: 'es' }
+        });
+
+        expect(result.locale?.locale).toBe('es');
+        expect(result.analysis.emotionalFactors.anxietyMarkers.manifestations).toEqual(['no sé']);
+    });
+});
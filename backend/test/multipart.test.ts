@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the streaming multipart parser and upload validation
+ * Bodies are fed in small chunks so boundaries split across reads are covered
+ */
+
+import { ReadableStream } from 'stream/web';
+import { parseMultipart, multipartBoundary } from '../src/utils/multipart';
+import { validateUploadRequest } from '../src/services/audioProcessingService';
+import { ValidationError } from '../src/core/errors/CustomErrors';
+
+const BOUNDARY = '----qmm-test-boundary';
+const CONTENT_TYPE = `multipart/form-data; boundary=${BOUNDARY}`;
+
+interface Part {
+    name: string;
+    value: string | Buffer;
+    filename?: string;
+    contentType?: string;
+}
+
+function multipartBody(parts: Part[]): Buffer {
+    const chunks: Buffer[] = [Buffer.from('preamble is ignored\r\n')];
+    for (const part of parts) {
+        let headers = `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${part.name}"`;
+        if (part.filename !== undefined) headers += `; filename="${part.filename}"`;
+        if (part.contentType) headers += `\r\nContent-Type: ${part.contentType}`;
+        chunks.push(Buffer.from(`${headers}\r\n\r\n`), Buffer.from(part.value), Buffer.from('\r\n'));
+    }
+    chunks.push(Buffer.from(`--${BOUNDARY}--\r\n`));
+    return Buffer.concat(chunks);
+}
+
+function* chunked(body: Buffer, size: number): Generator<Buffer> {
+    for (let offset = 0; offset < body.length; offset += size) yield body.subarray(offset, offset + size);
+}
+
+function createWav(seconds: number, sampleRate: number = 8000): Buffer {
+    const dataLength = seconds * sampleRate * 2;
+    const buffer = Buffer.alloc(44 + dataLength);
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataLength, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20);
+    buffer.writeUInt16LE(1, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataLength, 40);
+    return buffer;
+}
+
+function uploadRequest(body: Buffer, headers: Record<string, string> = {}) {
+    return {
+        method: 'POST',
+        headers: new Headers({ 'content-type': CONTENT_TYPE, ...headers }),
+        body: new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const chunk of chunked(body, 1000)) controller.enqueue(chunk);
+                controller.close();
+            }
+        })
+    };
+}
+
+describe('parseMultipart', () => {
+    const audio = Buffer.from(`RIFF\r\n--${BOUNDARY.slice(0, 10)}\r\n\r\nnot quite a boundary`);
+    const body = multipartBody([
+        { name: 'language', value: 'pt' },
+        { name: 'cover', value: Buffer.alloc(64, 1), filename: 'cover.png', contentType: 'image/png' },
+        { name: 'audio', value: audio, filename: 'fala.wav', contentType: 'Audio/WAV' },
+        { name: 'note', value: 'olá, mundo' }
+    ]);
+
+    test.each([1, 7, 64, body.length])('should parse fields and kept files from %i-byte chunks', async size => {
+        const form = await parseMultipart(chunked(body, size), CONTENT_TYPE, { fileFields: ['audio'] });
+
+        expect(form.fields).toEqual({ language: 'pt', note: 'olá, mundo' });
+        expect(form.files).toHaveLength(1);
+        expect(form.files[0]).toMatchObject({ fieldName: 'audio', filename: 'fala.wav', contentType: 'audio/wav' });
+        expect(form.files[0].data.equals(audio)).toBe(true);
+    });
+
+    test('should read the boundary from the content type', () => {
+        expect(multipartBoundary('multipart/form-data; charset=utf-8; boundary="a b"')).toBe('a b');
+        expect(multipartBoundary('multipart/form-data')).toBeNull();
+        expect(multipartBoundary('application/json; boundary=x')).toBeNull();
+    });
+
+    test('should stop reading as soon as a kept file passes its limit', async () => {
+        let read = 0;
+        const big = multipartBody([{ name: 'audio', value: Buffer.alloc(10_000), filename: 'a.wav' }]);
+        async function* source() {
+            for (const chunk of chunked(big, 100)) {
+                read += chunk.length;
+                yield chunk;
+            }
+        }
+
+        await expect(parseMultipart(source(), CONTENT_TYPE, { fileFields: ['audio'], limits: { fileSize: 1000 } }))
+            .rejects.toThrow('Arquivo muito grande');
+        expect(read).toBeLessThan(1300);
+    });
+
+    test('should bound discarded parts, fields and the number of parts', async () => {
+        const other = multipartBody([{ name: 'other', value: Buffer.alloc(5000), filename: 'x.bin' }]);
+        await expect(parseMultipart(chunked(other, 100), CONTENT_TYPE, { fileFields: ['audio'], limits: { bodySize: 2000 } }))
+            .rejects.toThrow('Requisição muito grande');
+
+        const field = multipartBody([{ name: 'language', value: 'x'.repeat(100) }]);
+        await expect(parseMultipart([field], CONTENT_TYPE, { fileFields: [], limits: { fieldSize: 10 } }))
+            .rejects.toThrow('Campo "language"');
+
+        const many = multipartBody(Array.from({ length: 4 }, (_, i) => ({ name: `f${i}`, value: 'v' })));
+        await expect(parseMultipart([many], CONTENT_TYPE, { fileFields: [], limits: { parts: 3 } }))
+            .rejects.toThrow('Número máximo de partes');
+    });
+
+    test('should reject truncated and malformed bodies', async () => {
+        const body = multipartBody([{ name: 'language', value: 'pt' }]);
+        await expect(parseMultipart([body.subarray(0, body.length - 10)], CONTENT_TYPE, { fileFields: [] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(parseMultipart([Buffer.from(`--${BOUNDARY}xx`)], CONTENT_TYPE, { fileFields: [] }))
+            .rejects.toThrow('malformado');
+        await expect(parseMultipart([body], 'audio/wav', { fileFields: [] }))
+            .rejects.toThrow('multipart/form-data');
+    });
+});
+
+describe('validateUploadRequest', () => {
+    test('should extract the audio and the form fields from a streamed request', async () => {
+        const wav = createWav(2);
+        const result = await validateUploadRequest(uploadRequest(multipartBody([
+            { name: 'audio', value: wav, filename: 'C:\\fakepath\\fala.wav', contentType: 'application/octet-stream' },
+            { name: 'language', value: 'en' },
+            { name: 'isPublic', value: 'true' },
+            { name: 'sessionId', value: '0b6f5a4e-3c0f-4d43-9a3e-6d2f5f8b1c2a' }
+        ])));
+
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({
+            originalName: 'fala.wav',
+            mimeType: 'audio/wav',
+            size: wav.length,
+            metadata: { duration: 2, language: 'en', isPublic: true, sessionId: '0b6f5a4e-3c0f-4d43-9a3e-6d2f5f8b1c2a' }
+        });
+        expect(result.data!.buffer.equals(wav)).toBe(true);
+    });
+
+    test('should enforce audioUploadSchema on the parts', async () => {
+        const invalid = await validateUploadRequest(uploadRequest(multipartBody([
+            { name: 'audio', value: createWav(1), filename: 'fala.ogg', contentType: 'audio/ogg' },
+            { name: 'duration', value: '900' },
+            { name: 'language', value: 'fr' }
+        ])));
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain('Formato não suportado');
+        expect(invalid.error).toContain('Áudio muito longo');
+        expect(invalid.error).toContain('Idioma não suportado');
+
+        const missing = await validateUploadRequest(uploadRequest(multipartBody([{ name: 'language', value: 'pt' }])));
+        expect(missing).toEqual({ success: false, error: 'Arquivo de áudio não encontrado (campo "audio")' });
+    });
+
+    test('should reject an oversized upload from its declared length without reading it', async () => {
+        const request = uploadRequest(Buffer.alloc(0), { 'content-length': String(60 * 1024 * 1024) });
+        const result = await validateUploadRequest(request);
+
+        expect(result).toEqual({ success: false, error: 'Arquivo muito grande. Máximo: 50MB' });
+        expect(request.body.locked).toBe(false);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for role permissions and premium analysis options
+ */
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { JWTAuthService, setJwtAuthService } from '../src/services/jwtAuthService';
+import { MemoryTokenStore } from '../src/services/tokens';
+import { withAuth } from '../src/middleware/auth';
+import { authorizeAnalysisUpload } from '../src/middleware/analysisEntitlement';
+import {
+    hasPermission,
+    resolveAnalysisEntitlement,
+    STANDARD_AUDIO_MAX_DURATION,
+    Role
+} from '../src/core/authorization/permissions';
+import { AUDIO_MAX_DURATION } from '../src/core/validation/schemas';
+import { AuthorizationError, ErrorCode, ValidationError } from '../src/core/errors/CustomErrors';
+
+const subject = (role: Role) => ({ role, userId: `${role}-1` });
+
+describe('permissions', () => {
+    test('should grant premium features by role', () => {
+        expect(hasPermission('user', 'analysis:create')).toBe(true);
+        expect(hasPermission('user', 'analysis:deep')).toBe(false);
+        expect(hasPermission('premium', 'analysis:deep')).toBe(true);
+        expect(hasPermission('premium', 'admin:metrics')).toBe(false);
+        expect(hasPermission('admin', 'jobs:manage')).toBe(true);
+    });
+
+    test('should default analysis options to the best the plan allows', () => {
+        expect(resolveAnalysisEntitlement(subject('user'))).toEqual({
+            enableDeepAnalysis: false,
+            reportingLevel: 'detailed',
+            maxDurationSeconds: STANDARD_AUDIO_MAX_DURATION
+        });
+        expect(resolveAnalysisEntitlement(subject('premium'), { deepAnalysis: false }, 200)).toEqual({
+            enableDeepAnalysis: false,
+            reportingLevel: 'comprehensive',
+            maxDurationSeconds: AUDIO_MAX_DURATION
+        });
+    });
+
+    test('should reject premium options and long audio for standard users', () => {
+        const user = subject('user');
+        expect(() => resolveAnalysisEntitlement(user, { deepAnalysis: true })).toThrow(AuthorizationError);
+        expect(() => resolveAnalysisEntitlement(user, { reportingLevel: 'comprehensive' })).toThrow('analysis:report:comprehensive');
+        expect(() => resolveAnalysisEntitlement(user, {}, 200)).toThrow('audio:extended');
+        expect(resolveAnalysisEntitlement(user, { reportingLevel: 'basic' }, 60).reportingLevel).toBe('basic');
+    });
+
+    test('should read analysis options from the upload query', () => {
+        const query = (search: string) => new URLSearchParams(search);
+        const user = { userId: 'u1', email: 'u1@example.com', role: 'premium' as const, tokenId: 't', sessionId: 's', expiresAt: new Date() };
+
+        const { options } = authorizeAnalysisUpload(query('deepAnalysis=true&reportingLevel=basic&lang=pt'), user, Buffer.alloc(0));
+        expect(options).toMatchObject({ enableDeepAnalysis: true, reportingLevel: 'basic' });
+        expect(() => authorizeAnalysisUpload(query('deepAnalysis=sim'), user, Buffer.alloc(0))).toThrow(ValidationError);
+    });
+
+    describe('withAuth', () => {
+        let auth: JWTAuthService;
+
+        beforeAll(() => {
+            process.env.JWT_SECRET = 'test-access-secret-with-at-least-32-chars';
+            process.env.JWT_REFRESH_SECRET = 'test-refresh-secret-with-at-least-32-chars';
+            auth = new JWTAuthService(new MemoryTokenStore());
+            setJwtAuthService(auth);
+        });
+
+        afterAll(() => setJwtAuthService(null));
+
+        test('should answer 403 when the role lacks a declared permission', async () => {
+            const context = { invocationId: 'req-1', functionName: 'adminMetrics' } as InvocationContext;
+            const handler = withAuth(async () => ({ status: 200 }), ['admin:metrics']);
+            const request = async (role: Role) => {
+                const { accessToken } = await auth.generateTokens(`${role}-1`, `${role}@example.com`, role);
+                return { headers: new Headers({ authorization: `Bearer ${accessToken}` }) } as unknown as HttpRequest;
+            };
+
+            const denied = await handler(await request('premium'), context);
+            expect(denied.status).toBe(403);
+            expect(JSON.parse(denied.body as string)).toMatchObject({ code: ErrorCode.INSUFFICIENT_PERMISSIONS });
+
+            expect((await handler(await request('admin'), context)).status).toBe(200);
+        });
+    });
+});
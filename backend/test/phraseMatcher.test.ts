@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the Aho-Corasick phrase matcher
+ */
+
+import { PhraseMatcher, tokenize, normalizeText, matchedPhrases } from '../src/utils/phraseMatcher';
+
+describe('tokenize', () => {
+    test('should fold case and accents and keep character offsets', () => {
+        const tokens = tokenize('Não, É  "Verdade"!');
+        expect(tokens.map(token => token.normalized)).toEqual(['nao', 'e', 'verdade']);
+        expect(tokens[2]).toMatchObject({ text: 'Verdade', start: 9, end: 16 });
+        expect(normalizeText('I DON’T')).toBe('i don\'t');
+    });
+});
+
+describe('PhraseMatcher', () => {
+    test('should match multi-word phrases as a whole and ignore substrings', () => {
+        const matcher = new PhraseMatcher(['meio que', 'acho que', 'talvez', 'por assim dizer']);
+        const text = 'Acho que foi, meio que por assim dizer, talvezinho não';
+        const matches = matcher.findAll(text);
+
+        expect(matches.map(match => match.phrase)).toEqual(['acho que', 'meio que', 'por assim dizer']);
+        expect(matches[0]).toMatchObject({ text: 'Acho que', start: 0, end: 8 });
+        expect(text.slice(matches[2].start, matches[2].end)).toBe('por assim dizer');
+    });
+
+    test('should prefer the leftmost, then longest, non-overlapping match', () => {
+        const matcher = new PhraseMatcher(['tipo', 'tipo assim', 'assim', 'na verdade', 'verdade']);
+        const matches = matcher.findAll('tipo assim na verdade assim');
+
+        expect(matches.map(match => match.phrase)).toEqual(['tipo assim', 'na verdade', 'assim']);
+        expect(matchedPhrases(matcher.findAll('tipo tipo assim tipo'))).toEqual(['tipo', 'tipo assim']);
+    });
+
+    test('should follow failure links into shorter suffix patterns', () => {
+        const matcher = new PhraseMatcher(['a b c d', 'b c', 'c']);
+        const matches = matcher.findAll('a b c x');
+
+        expect(matches.map(match => match.phrase)).toEqual(['b c']);
+        expect(matcher.count('a b c d c')).toBe(2);
+    });
+
+    test('should match accent-insensitively against configured phrases', () => {
+        const matcher = new PhraseMatcher(['não sei', 'sem dúvida']);
+        expect(matcher.findAll('NAO SEI, sem duvida').map(match => match.phrase)).toEqual(['não sei', 'sem dúvida']);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for per-plan analysis quotas
+ */
+
+import { QuotaService } from '../src/services/quotaService';
+import { MemoryQuotaStore } from '../src/services/quota';
+import { AnalysisJobService } from '../src/services/analysisJobService';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { ErrorCode, QuotaExceededError } from '../src/core/errors/CustomErrors';
+import { errorResponse } from '../src/utils/httpResponse';
+
+const user = { userId: 'u1', role: 'user' as const };
+
+describe('QuotaService', () => {
+    let service: QuotaService;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+        service = new QuotaService(new MemoryQuotaStore());
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should charge analyses until the daily limit and report when it resets', async () => {
+        for (let i = 0; i < 10; i++) await service.charge(user, 30);
+
+        const error = await service.charge(user, 30).catch(caught => caught);
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error).toMatchObject({ statusCode: 429, period: 'day', resetAt: new Date('2026-10-20T00:00:00Z') });
+
+        const response = errorResponse(error, 'r1');
+        expect(response.headers).toMatchObject({ 'Retry-After': String(9 * 3600) });
+        expect(JSON.parse(response.body as string)).toMatchObject({ code: ErrorCode.QUOTA_EXCEEDED, quota: { period: 'day', resetAt: '2026-10-20T00:00:00.000Z' } });
+    });
+
+    test('should limit audio seconds and keep the month counting across days', async () => {
+        await service.charge(user, 590);
+        await expect(service.charge(user, 10.5)).rejects.toMatchObject({ period: 'day' });
+
+        jest.setSystemTime(new Date('2026-10-20T08:00:00Z'));
+        await service.charge(user, 10.5);
+        const usage = await service.usage(user);
+        expect(usage.day).toEqual({
+            used: { analyses: 1, audioSeconds: 11 },
+            limit: { analyses: 10, audioSeconds: 600 },
+            remaining: { analyses: 9, audioSeconds: 589 },
+            resetAt: '2026-10-21T00:00:00.000Z'
+        });
+        expect(usage.month).toMatchObject({ used: { analyses: 2, audioSeconds: 601 }, resetAt: '2026-11-01T00:00:00.000Z' });
+    });
+
+    test('should give a refunded charge back to every period', async () => {
+        const charge = await service.charge(user, 120);
+        await service.charge(user, 60);
+        await service.refund(charge);
+
+        const usage = await service.usage(user);
+        expect(usage.day.used).toEqual({ analyses: 1, audioSeconds: 60 });
+        expect(usage.month.used).toEqual({ analyses: 1, audioSeconds: 60 });
+    });
+
+    test('should count admin usage without limits', async () => {
+        const admin = { userId: 'a1', role: 'admin' as const };
+        for (let i = 0; i < 20; i++) await service.charge(admin, 3600);
+
+        const usage = await service.usage(admin);
+        expect(usage.day).toMatchObject({ used: { analyses: 20, audioSeconds: 72_000 }, limit: null, remaining: null });
+    });
+
+    test('should refund the owner once when a job is dead-lettered', async () => {
+        const jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            throw new Error('speech service unavailable');
+        }, { maxAttempts: 1, retryDelayMs: 0, autoStart: false }, undefined, undefined, service);
+
+        const job = await jobs.submit(Buffer.from('audio'), { userId: user.userId, quota: await service.charge(user, 300) });
+        expect((await service.usage(user)).day.used).toEqual({ analyses: 1, audioSeconds: 300 });
+
+        await jobs.processNext();
+        expect(await jobs.getJob(job.id)).toMatchObject({ deadLettered: true, metadata: { quota: undefined } });
+        expect((await service.usage(user)).day.used).toEqual({ analyses: 0, audioSeconds: 0 });
+
+        // A redriven job that fails again was already refunded
+        await service.charge(user, 60);
+        await jobs.redrive(job.id);
+        await jobs.processNext();
+        expect((await service.usage(user)).day.used).toEqual({ analyses: 1, audioSeconds: 60 });
+    });
+});
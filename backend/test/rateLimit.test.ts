@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the rate limiter and its HTTP wrappers
+ */
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import type { NextFunction, Request, Response } from 'express';
+import { RateLimitService, setRateLimitService } from '../src/services/rateLimitService';
+import { JWTAuthService, setJwtAuthService } from '../src/services/jwtAuthService';
+import { MemoryTokenStore } from '../src/services/tokens';
+import { clientIp, rateLimit, withRateLimit } from '../src/middleware/rateLimit';
+import { ErrorCode, RateLimitError } from '../src/core/errors/CustomErrors';
+
+function memoryLimiter(): RateLimitService {
+    return new RateLimitService({
+        fallbackToMemory: true,
+        defaultLimits: { requests: 30, windowMs: 60000, burstAllowance: 5 },
+        keyPrefix: 'test_rl:'
+    });
+}
+
+function httpRequest(headers: Record<string, string> = {}): HttpRequest {
+    return { headers: new Headers(headers) } as unknown as HttpRequest;
+}
+
+describe('RateLimitService', () => {
+    test('should spend the budget in weighted units and report when it frees up', async () => {
+        const limiter = memoryLimiter();
+
+        const first = await limiter.checkRateLimit({ identifier: 'u1', action: 'default', weight: 25 });
+        expect(first).toMatchObject({ allowed: true, limit: 30, remaining: 5 });
+
+        const heavy = await limiter.checkRateLimit({ identifier: 'u1', action: 'default', weight: 6 });
+        expect(heavy).toMatchObject({ allowed: false, remaining: 5 });
+        expect(heavy.retryAfter).toBe(60);
+
+        const light = await limiter.checkRateLimit({ identifier: 'u1', action: 'default', weight: 5 });
+        expect(light).toMatchObject({ allowed: true, remaining: 0 });
+
+        // Another identifier has its own budget
+        expect((await limiter.checkRateLimit({ identifier: 'u2', action: 'default' })).allowed).toBe(true);
+    });
+
+    test('should let token-bucket actions burst above their rate', async () => {
+        const limiter = memoryLimiter();
+
+        // upload: 10 units per minute plus a burst of 5, 5 units per upload
+        const uploads = [];
+        for (let i = 0; i < 4; i++) uploads.push(await limiter.checkRateLimit({ identifier: 'u1', action: 'upload' }));
+        expect(uploads.map(result => result.allowed)).toEqual([true, true, true, false]);
+        expect(uploads[3]).toMatchObject({ limit: 15, remaining: 0, metadata: { algorithm: 'token-bucket', store: 'memory' } });
+        expect(uploads[3].retryAfter).toBe(30);
+    });
+});
+
+describe('rate limit middleware', () => {
+    const context = { invocationId: 'req-1' } as InvocationContext;
+    let auth: JWTAuthService;
+
+    beforeAll(() => {
+        process.env.JWT_SECRET = 'test-access-secret-with-at-least-32-chars';
+        process.env.JWT_REFRESH_SECRET = 'test-refresh-secret-with-at-least-32-chars';
+        auth = new JWTAuthService(new MemoryTokenStore());
+        setJwtAuthService(auth);
+    });
+
+    beforeEach(() => setRateLimitService(memoryLimiter()));
+
+    afterAll(() => {
+        setRateLimitService(null);
+        setJwtAuthService(null);
+    });
+
+    test('should add RateLimit headers and answer 429 with Retry-After', async () => {
+        const handler = withRateLimit(async () => ({ status: 200, headers: { 'X-Request-ID': 'req-1' } }), 'auth');
+        const request = httpRequest({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' });
+
+        const allowed = await handler(request, context);
+        expect(allowed.headers).toMatchObject({ 'X-Request-ID': 'req-1', 'RateLimit-Limit': '5', 'RateLimit-Remaining': '4' });
+
+        for (let i = 0; i < 4; i++) await handler(request, context);
+        const limited = await handler(request, context);
+        expect(limited.status).toBe(429);
+        expect(limited.headers).toMatchObject({ 'RateLimit-Remaining': '0', 'Retry-After': '300' });
+        expect(JSON.parse(limited.body as string).code).toBe(ErrorCode.RATE_LIMIT_EXCEEDED);
+
+        // A different client IP is counted separately
+        expect((await handler(httpRequest({ 'x-forwarded-for': '198.51.100.2' }), context)).status).toBe(200);
+    });
+
+    test('should key on the address the platform appended, not one the client sent', async () => {
+        const handler = withRateLimit(async () => ({ status: 200 }), 'auth');
+        const spoofed = (forgedIp: string) => httpRequest({ 'x-forwarded-for': `${forgedIp}, 203.0.113.9:51234` });
+
+        for (let i = 0; i < 5; i++) {
+            expect((await handler(spoofed(`192.0.2.${i}`), context)).status).toBe(200);
+        }
+        expect((await handler(spoofed('192.0.2.99'), context)).status).toBe(429);
+        expect(clientIp(httpRequest({ 'x-forwarded-for': '[2001:db8::1]:443' }))).toBe('2001:db8::1');
+        expect(clientIp(httpRequest())).toBeUndefined();
+    });
+
+    test('should key on the authenticated user rather than the IP', async () => {
+        const handler = withRateLimit(async () => ({ status: 200 }), 'upload', { weight: 6 });
+        const { accessToken } = await auth.generateTokens('u1', 'u1@example.com');
+        const fromIp = (ip: string) => httpRequest({ authorization: `Bearer ${accessToken}`, 'x-forwarded-for': ip });
+
+        expect((await handler(fromIp('203.0.113.7'), context)).status).toBe(200);
+        expect((await handler(fromIp('198.51.100.2'), context)).status).toBe(200);
+        expect((await handler(fromIp('192.0.2.1'), context)).status).toBe(429);
+
+        // A forged token falls back to the IP instead of spending the user's budget
+        expect((await handler(httpRequest({ authorization: 'Bearer forged', 'x-forwarded-for': '192.0.2.1' }), context)).status).toBe(200);
+    });
+
+    test('should pass RateLimitError to the Express error handler', async () => {
+        const middleware = rateLimit('default', { weight: () => 30 });
+        const run = () => new Promise<{ error?: unknown; headers: Record<string, string> }>(resolve => {
+            const headers: Record<string, string> = {};
+            const req = { ip: '203.0.113.7', get: () => undefined } as unknown as Request;
+            const res = { set: (values: Record<string, string>) => Object.assign(headers, values) } as unknown as Response;
+            middleware(req, res, ((error?: unknown) => resolve({ error, headers })) as NextFunction);
+        });
+
+        expect(await run()).toMatchObject({ error: undefined, headers: { 'RateLimit-Remaining': '0' } });
+        const limited = await run();
+        expect(limited.error).toBeInstanceOf(RateLimitError);
+        expect(limited.headers['Retry-After']).toBe('60');
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Conformance tests shared by every rate limit store
+ * The same scenarios run against memory and, when REDIS_TEST_URL points at a
+ * disposable server, Redis, so both stores must reach identical decisions
+ */
+
+import { randomUUID } from 'crypto';
+import { LimitPolicy, MemoryRateLimitStore, RateLimitStore, RedisRateLimitStore } from '../src/services/rateLimit';
+
+const redisUrl = process.env.REDIS_TEST_URL;
+
+const stores: Array<[string, () => RateLimitStore]> = [
+    ['memory', () => new MemoryRateLimitStore()]
+];
+if (redisUrl) stores.push(['redis', () => RedisRateLimitStore.fromUrl(redisUrl)]);
+
+const T0 = 1_700_000_000_000;
+
+const slidingWindow: LimitPolicy = { algorithm: 'sliding-window', limit: 5, windowMs: 10_000, burst: 0 };
+const tokenBucket: LimitPolicy = { algorithm: 'token-bucket', limit: 5, windowMs: 10_000, burst: 3 };
+
+describe.each(stores)('%s rate limit store', (_name, createStore) => {
+    let store: RateLimitStore;
+    let key: string;
+
+    beforeEach(() => {
+        store = createStore();
+        key = `qmm:test:rl:${randomUUID()}`;
+    });
+
+    afterEach(async () => {
+        await store.reset(key);
+        if (store instanceof RedisRateLimitStore) await store.quit();
+    });
+
+    describe('sliding-window', () => {
+        test('should count weighted units over the window', async () => {
+            expect(await store.consume(key, slidingWindow, 2, T0)).toEqual({ allowed: true, limit: 5, remaining: 3, resetAt: T0 + 10_000, retryAt: undefined });
+            expect(await store.consume(key, slidingWindow, 3, T0 + 1_000)).toMatchObject({ allowed: true, remaining: 0 });
+
+            // Two units must leave the window: both came with the first request
+            expect(await store.consume(key, slidingWindow, 2, T0 + 2_000)).toEqual({
+                allowed: false, limit: 5, remaining: 0, resetAt: T0 + 10_000, retryAt: T0 + 10_000
+            });
+            // Three units need the second request to expire too
+            expect((await store.consume(key, slidingWindow, 3, T0 + 2_000)).retryAt).toBe(T0 + 11_000);
+        });
+
+        test('should free units exactly when they leave the window', async () => {
+            await store.consume(key, slidingWindow, 5, T0);
+            expect((await store.consume(key, slidingWindow, 1, T0 + 9_999)).allowed).toBe(false);
+            expect(await store.consume(key, slidingWindow, 1, T0 + 10_000)).toMatchObject({ allowed: true, remaining: 4, resetAt: T0 + 20_000 });
+        });
+
+        test('should report without spending and reject requests larger than the limit', async () => {
+            expect(await store.consume(key, slidingWindow, 0, T0)).toEqual({ allowed: true, limit: 5, remaining: 5, resetAt: T0, retryAt: undefined });
+            expect(await store.consume(key, slidingWindow, 6, T0)).toMatchObject({ allowed: false, remaining: 5, retryAt: T0 + 10_000 });
+        });
+    });
+
+    describe('token-bucket', () => {
+        test('should start full and allow a burst up to the capacity', async () => {
+            expect(await store.consume(key, tokenBucket, 8, T0)).toEqual({ allowed: true, limit: 8, remaining: 0, resetAt: T0 + 16_000, retryAt: undefined });
+            // One token every 2s
+            expect(await store.consume(key, tokenBucket, 3, T0 + 1_000)).toEqual({
+                allowed: false, limit: 8, remaining: 0, resetAt: T0 + 16_000, retryAt: T0 + 6_000
+            });
+            expect(await store.consume(key, tokenBucket, 3, T0 + 6_000)).toMatchObject({ allowed: true, remaining: 0 });
+        });
+
+        test('should refill continuously and never above the capacity', async () => {
+            await store.consume(key, tokenBucket, 5, T0);
+            expect(await store.consume(key, tokenBucket, 1, T0 + 3_000)).toMatchObject({ allowed: true, remaining: 3 });
+            expect(await store.consume(key, tokenBucket, 0, T0 + 60_000)).toMatchObject({ allowed: true, remaining: 8, resetAt: T0 + 60_000 });
+        });
+
+        test('should keep fractional tokens between requests', async () => {
+            await store.consume(key, tokenBucket, 8, T0);
+            expect(await store.consume(key, tokenBucket, 1, T0 + 1_000)).toMatchObject({ allowed: false, remaining: 0, retryAt: T0 + 2_000 });
+            expect(await store.consume(key, tokenBucket, 1, T0 + 2_000)).toMatchObject({ allowed: true, remaining: 0, resetAt: T0 + 18_000 });
+        });
+
+        test('should reject requests larger than the capacity', async () => {
+            expect(await store.consume(key, tokenBucket, 9, T0)).toMatchObject({ allowed: false, remaining: 8, retryAt: T0 + 10_000 });
+        });
+    });
+
+    test('should forget a key on reset', async () => {
+        await store.consume(key, slidingWindow, 5, T0);
+        await store.reset(key);
+        expect((await store.consume(key, slidingWindow, 5, T0 + 1)).allowed).toBe(true);
+    });
+});
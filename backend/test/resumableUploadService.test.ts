@@ -0,0 +1,245 @@
+/**
+ * Unit tests for tus resumable uploads and direct (SAS) uploads
+ * Storage is a fake block blob; the intake is the real one over in-memory quota, job and content stores
+ */
+
+import { ResumableUploadService, BlockStorage, parseUploadMetadata } from '../src/services/resumableUploadService';
+import { MemoryUploadSessionStore } from '../src/services/uploads';
+import { UploadIntakeService } from '../src/services/uploadIntakeService';
+import { AntivirusService } from '../src/services/antivirusService';
+import { QuotaService } from '../src/services/quotaService';
+import { MemoryQuotaStore } from '../src/services/quota';
+import { AnalysisJobService } from '../src/services/analysisJobService';
+import { MemoryJobQueue } from '../src/services/jobs';
+import { AudioContentService } from '../src/services/audioContentService';
+import { MemoryContentStore } from '../src/services/content';
+import { contentBlobName, MemoryStorageBackend } from '../src/services/storage';
+import { ConflictError, NotFoundError, ValidationError } from '../src/core/errors/CustomErrors';
+
+const user = { userId: 'u1', email: 'u1@example.com', role: 'user' as const, tokenId: 't', sessionId: 's', expiresAt: new Date() };
+
+function createWav(seconds: number, sampleRate: number = 8000): Buffer {
+    const dataLength = seconds * sampleRate * 2;
+    const buffer = Buffer.alloc(44 + dataLength);
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataLength, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20);
+    buffer.writeUInt16LE(1, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataLength, 40);
+    return buffer;
+}
+
+// Block blob semantics: staged blocks are invisible until a block list commits them
+class FakeBlockStorage implements BlockStorage {
+    staged = new Map<string, Buffer>();
+    blobs = new Map<string, Buffer>();
+    contentTypes = new Map<string, string>();
+
+    // What a client does with the SAS URL
+    put(blobName: string, data: Buffer, contentType: string): void {
+        this.blobs.set(blobName, data);
+        this.contentTypes.set(blobName, contentType);
+    }
+
+    async stageBlock(_blobName: string, blockId: string, data: Buffer) {
+        this.staged.set(blockId, Buffer.from(data));
+        return { success: true, data: true };
+    }
+
+    async commitBlockList(blobName: string, blockIds: string[]) {
+        const data = Buffer.concat(blockIds.map(id => this.staged.get(id)!));
+        this.blobs.set(blobName, data);
+        return { success: true, data: { blobName, blobUrl: `https://blobs/${blobName}`, uploadSize: data.length } };
+    }
+
+    async generateUploadUrl(blobName: string, expiresOn: Date) {
+        return { success: true, data: `https://blobs/${blobName}?sp=cw&se=${expiresOn.toISOString()}` };
+    }
+
+    async getBlobInfo(blobName: string) {
+        const data = this.blobs.get(blobName);
+        if (!data) return { success: true, data: null };
+        return { success: true, data: { blobUrl: `https://blobs/${blobName}`, contentLength: data.length, contentType: this.contentTypes.get(blobName), metadata: {} } };
+    }
+
+    async downloadAudioFile(blobName: string) {
+        const data = this.blobs.get(blobName);
+        return data ? { success: true, data } : { success: false, error: 'not found' };
+    }
+
+    async deleteAudioFile(blobName: string) {
+        return { success: this.blobs.delete(blobName), data: true };
+    }
+
+    generateBlobName(originalFileName: string, fileId: string): string {
+        return `audio/${fileId}-${originalFileName}`;
+    }
+}
+
+describe('ResumableUploadService', () => {
+    let storage: FakeBlockStorage;
+    let contentStorage: MemoryStorageBackend;
+    let quota: QuotaService;
+    let jobs: AnalysisJobService;
+    let service: ResumableUploadService;
+
+    beforeEach(() => {
+        storage = new FakeBlockStorage();
+        contentStorage = new MemoryStorageBackend();
+        quota = new QuotaService(new MemoryQuotaStore());
+        jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            throw new Error('not processed in these tests');
+        }, { autoStart: false }, undefined, undefined, quota);
+        service = new ResumableUploadService(
+            new MemoryUploadSessionStore(),
+            storage,
+            new UploadIntakeService(new AntivirusService(), quota, jobs, new AudioContentService(new MemoryContentStore(), contentStorage)),
+            { expirationSeconds: 60 }
+        );
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test('should assemble the chunks in order and queue the analysis of the whole file', async () => {
+        const wav = createWav(3);
+        const upload = await service.create(user, wav.length, { filename: 'fala.wav', filetype: 'audio/wav', language: 'en' });
+
+        let offset = 0;
+        let last = upload;
+        for (const size of [10_000, 30_000, wav.length - 40_000]) {
+            last = await service.append(upload.id, user, offset, wav.subarray(offset, offset + size));
+            offset += size;
+        }
+
+        expect(last).toMatchObject({ status: 'completed', offset: wav.length });
+        const contentHash = AudioContentService.hash(wav);
+        expect(storage.blobs.has(upload.blobName)).toBe(false);
+        expect((await contentStorage.downloadAudioFile(contentBlobName(contentHash))).data!.equals(wav)).toBe(true);
+
+        const job = await jobs.getJob(last.jobId!);
+        expect(job.metadata).toMatchObject({
+            originalName: 'fala.wav',
+            mimeType: 'audio/wav',
+            blobName: contentBlobName(contentHash),
+            contentHash,
+            userId: 'u1'
+        });
+        expect((await quota.usage(user)).day.used).toEqual({ analyses: 1, audioSeconds: 3 });
+        expect(await service.get(upload.id, 'u1')).toMatchObject({ status: 'completed', jobId: job.id });
+    });
+
+    test('should reject a chunk sent from a stale offset without staging it', async () => {
+        const upload = await service.create(user, 1000, { filename: 'fala.wav' });
+        await service.append(upload.id, user, 0, Buffer.alloc(400));
+
+        await expect(service.append(upload.id, user, 0, Buffer.alloc(400))).rejects.toBeInstanceOf(ConflictError);
+        await expect(service.append(upload.id, user, 400, Buffer.alloc(700))).rejects.toBeInstanceOf(ValidationError);
+        expect(storage.staged.size).toBe(1);
+        expect(await service.get(upload.id, 'u1')).toMatchObject({ offset: 400, status: 'uploading' });
+    });
+
+    test('should hide uploads from other users and forget them once expired or terminated', async () => {
+        jest.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z'), doNotFake: ['setImmediate', 'nextTick'] });
+        const upload = await service.create(user, 1000, {});
+        await expect(service.get(upload.id, 'someone-else')).rejects.toBeInstanceOf(NotFoundError);
+
+        jest.setSystemTime(new Date('2026-10-19T15:01:00Z'));
+        await expect(service.append(upload.id, user, 0, Buffer.alloc(10))).rejects.toBeInstanceOf(NotFoundError);
+
+        const other = await service.create(user, 1000, {});
+        await service.terminate(other.id, 'u1');
+        await expect(service.get(other.id, 'u1')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    test('should mark a file that fails validation as failed, delete it and not charge the quota', async () => {
+        const notAudio = Buffer.from('MZ'.padEnd(2000, 'x'));
+        const upload = await service.create(user, notAudio.length, { filename: 'fala.wav', filetype: 'audio/wav', language: 'fr' });
+
+        await expect(service.append(upload.id, user, 0, notAudio)).rejects.toThrow('Idioma não suportado');
+        expect(await service.get(upload.id, 'u1')).toMatchObject({ status: 'failed', error: expect.stringContaining('Idioma') });
+        expect(storage.blobs.size).toBe(0);
+        expect((await contentStorage.listAudioFiles()).data).toEqual([]);
+        expect((await quota.usage(user)).day.used).toEqual({ analyses: 0, audioSeconds: 0 });
+        await expect(service.append(upload.id, user, notAudio.length, Buffer.alloc(1))).rejects.toBeInstanceOf(ConflictError);
+    });
+});
+
+describe('ResumableUploadService direct uploads', () => {
+    let storage: FakeBlockStorage;
+    let contentStorage: MemoryStorageBackend;
+    let quota: QuotaService;
+    let jobs: AnalysisJobService;
+    let service: ResumableUploadService;
+
+    beforeEach(() => {
+        storage = new FakeBlockStorage();
+        contentStorage = new MemoryStorageBackend();
+        quota = new QuotaService(new MemoryQuotaStore());
+        jobs = new AnalysisJobService(new MemoryJobQueue(), async () => {
+            throw new Error('not processed in these tests');
+        }, { autoStart: false }, undefined, undefined, quota);
+        service = new ResumableUploadService(
+            new MemoryUploadSessionStore(),
+            storage,
+            new UploadIntakeService(new AntivirusService(), quota, jobs, new AudioContentService(new MemoryContentStore(), contentStorage)),
+            { expirationSeconds: 3600, sasExpirationSeconds: 600 }
+        );
+    });
+
+    test('should issue a short-lived URL for one blob and queue the analysis once it is written', async () => {
+        const wav = createWav(2);
+        const intent = await service.createIntent(user, { filename: 'fala.wav', contentType: 'audio/wav', length: wav.length, fields: { language: 'en' } });
+
+        expect(intent.uploadUrl).toContain(intent.upload.blobName);
+        expect(intent.headers).toEqual({ 'x-ms-blob-type': 'BlockBlob', 'Content-Type': 'audio/wav' });
+        expect(new Date(intent.uploadExpiresAt).getTime() - Date.now()).toBeLessThanOrEqual(600_000);
+        await expect(service.append(intent.upload.id, user, 0, wav)).rejects.toBeInstanceOf(ConflictError);
+        await expect(service.completeIntent(intent.upload.id, user)).rejects.toThrow('ainda não enviado');
+
+        storage.put(intent.upload.blobName, wav, 'audio/wav');
+        const upload = await service.completeIntent(intent.upload.id, user);
+
+        expect(upload).toMatchObject({ status: 'completed', offset: wav.length });
+        expect((await jobs.getJob(upload.jobId!)).metadata).toMatchObject({ blobName: contentBlobName(AudioContentService.hash(wav)), originalName: 'fala.wav' });
+        expect(storage.blobs.has(intent.upload.blobName)).toBe(false);
+        await expect(service.completeIntent(intent.upload.id, user)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    test('should reject and delete a blob that does not match what was declared', async () => {
+        const wav = createWav(2);
+        const larger = await service.createIntent(user, { filename: 'fala.wav', contentType: 'audio/wav', length: 1000 });
+        storage.put(larger.upload.blobName, wav, 'audio/wav');
+        await expect(service.completeIntent(larger.upload.id, user)).rejects.toThrow('difere do declarado');
+        expect(storage.blobs.has(larger.upload.blobName)).toBe(false);
+        expect(await service.get(larger.upload.id, 'u1')).toMatchObject({ status: 'failed' });
+
+        const retyped = await service.createIntent(user, { filename: 'fala.wav', contentType: 'audio/wav', length: wav.length });
+        storage.put(retyped.upload.blobName, wav, 'text/html');
+        await expect(service.completeIntent(retyped.upload.id, user)).rejects.toThrow('Content-Type');
+        expect((await quota.usage(user)).day.used).toEqual({ analyses: 0, audioSeconds: 0 });
+    });
+
+    test('should refuse an intent above the size limit', async () => {
+        await expect(service.createIntent(user, { filename: 'fala.wav', contentType: 'audio/wav', length: 60 * 1024 * 1024 }))
+            .rejects.toThrow('Arquivo muito grande');
+    });
+});
+
+describe('parseUploadMetadata', () => {
+    test('should decode base64 values and allow keys without one', () => {
+        expect(parseUploadMetadata(`filename ${Buffer.from('fala é.wav').toString('base64')},isPublic`))
+            .toEqual({ filename: 'fala é.wav', isPublic: '' });
+        expect(parseUploadMetadata(null)).toEqual({});
+        expect(() => parseUploadMetadata('filename not base64!')).toThrow(ValidationError);
+    });
+});
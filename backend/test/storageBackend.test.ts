@@ -0,0 +1,147 @@
+/**
+ * Contract tests shared by every audio storage backend
+ * Memory and filesystem always run; Azure Blob runs too when AZURITE_CONNECTION_STRING
+ * points at an Azurite (or real) account
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import {
+    AzureStorageBackend,
+    FileMetadata,
+    FsStorageBackend,
+    MemoryStorageBackend,
+    StorageBackend
+} from '../src/services/storage';
+
+const metadataFor = (fileId: string, data: Buffer): FileMetadata => ({
+    originalName: 'fala.wav',
+    uploadTimestamp: '2026-10-19T15:00:00.000Z',
+    fileId,
+    contentType: 'audio/wav',
+    fileSize: data.length,
+    userId: 'u1'
+});
+
+const blockId = (n: number) => Buffer.from(`block-${String(n).padStart(6, '0')}`).toString('base64');
+
+let tempDir: string;
+
+beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'qmm-storage-'));
+});
+
+afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => StorageBackend]> = [
+    ['memory', () => new MemoryStorageBackend()],
+    ['fs', () => new FsStorageBackend(path.join(tempDir, randomUUID()))]
+];
+if (process.env.AZURITE_CONNECTION_STRING) {
+    backends.push(['azure', () => new AzureStorageBackend({
+        connectionString: process.env.AZURITE_CONNECTION_STRING!,
+        containerName: `contract-${randomUUID()}`,
+        maxRetries: 1,
+        retryDelayMs: 100
+    })]);
+}
+
+describe.each(backends)('%s storage backend', (_name, create) => {
+    let storage: StorageBackend;
+
+    beforeEach(() => {
+        storage = create();
+    });
+
+    test('should store a file and give back the same bytes, headers and metadata', async () => {
+        const data = Buffer.from('RIFF audio bytes');
+        const fileId = randomUUID();
+        const upload = await storage.uploadAudioFile(data, 'Fala.WAV', metadataFor(fileId, data), 'audio/wav');
+
+        expect(upload.success).toBe(true);
+        expect(upload.data).toMatchObject({ blobName: expect.stringMatching(new RegExp(`^audio/.+/${fileId}\\.wav$`)), uploadSize: data.length });
+        expect(upload.data!.blobUrl).toContain(upload.data!.blobName);
+        expect(upload.data!.contentMD5).toBe(createHash('md5').update(data).digest('base64'));
+
+        const download = await storage.downloadAudioFile(upload.data!.blobName);
+        expect(download.success).toBe(true);
+        expect(download.data!.equals(data)).toBe(true);
+
+        const info = await storage.getBlobInfo(upload.data!.blobName);
+        expect(info).toEqual({
+            success: true,
+            data: {
+                blobUrl: upload.data!.blobUrl,
+                contentLength: data.length,
+                contentType: 'audio/wav',
+                metadata: expect.objectContaining({ fileId, fileSize: String(data.length), userId: 'u1' })
+            }
+        });
+    });
+
+    test('should refuse invalid uploads without storing anything', async () => {
+        const empty = await storage.uploadAudioFile(Buffer.alloc(0), 'fala.wav', metadataFor('f1', Buffer.alloc(0)));
+        expect(empty).toEqual({ success: false, error: 'File buffer is empty' });
+
+        const data = Buffer.from('x');
+        expect(await storage.uploadAudioFile(data, ' ', metadataFor('f2', data))).toMatchObject({ success: false });
+        expect(await storage.listAudioFiles()).toEqual({ success: true, data: [] });
+    });
+
+    test('should assemble committed blocks in the listed order and ignore the rest', async () => {
+        const blobName = storage.generateBlobName('fala.wav', randomUUID());
+        for (const [n, text] of [[1, 'first-'], [2, 'second-'], [3, 'never committed']] as const) {
+            expect(await storage.stageBlock(blobName, blockId(n), Buffer.from(text))).toEqual({ success: true, data: true });
+        }
+        expect((await storage.getBlobInfo(blobName)).data).toBeNull();
+
+        const data = Buffer.from('first-second-');
+        const commit = await storage.commitBlockList(blobName, [blockId(1), blockId(2)], metadataFor('f', data), 'audio/wav');
+        expect(commit.data).toMatchObject({ blobName, uploadSize: data.length });
+        expect((await storage.downloadAudioFile(blobName)).data!.toString()).toBe('first-second-');
+
+        const unknown = await storage.commitBlockList(blobName, [blockId(9)], metadataFor('f', data));
+        expect(unknown.success).toBe(false);
+    });
+
+    test('should list by prefix in name order and delete once', async () => {
+        const names: string[] = [];
+        for (const fileId of ['b', 'a', 'c']) {
+            const data = Buffer.from(fileId);
+            const upload = await storage.uploadAudioFile(data, `${fileId}.mp3`, metadataFor(fileId, data));
+            names.push(upload.data!.blobName);
+        }
+
+        const all = await storage.listAudioFiles('audio/');
+        expect(all).toEqual({ success: true, data: [...names].sort() });
+        expect((await storage.listAudioFiles('audio/', 2)).data).toHaveLength(2);
+        expect((await storage.listAudioFiles('other/')).data).toEqual([]);
+
+        expect(await storage.deleteAudioFile(names[0])).toEqual({ success: true, data: true });
+        expect(await storage.deleteAudioFile(names[0])).toEqual({ success: true, data: false });
+        expect(await storage.downloadAudioFile(names[0])).toMatchObject({ success: false, error: expect.stringContaining('not found') });
+        expect(await storage.getBlobInfo(names[0])).toEqual({ success: true, data: null });
+    });
+});
+
+describe('FsStorageBackend', () => {
+    test('should keep files across instances and stay inside its root', async () => {
+        const root = path.join(tempDir, randomUUID());
+        const data = Buffer.from('persisted');
+        const upload = await new FsStorageBackend(root).uploadAudioFile(data, 'fala.wav', metadataFor('p1', data), 'audio/wav');
+        const blobName = upload.data!.blobName;
+
+        const sidecar = JSON.parse(await fs.readFile(path.join(root, `${blobName}.meta.json`), 'utf8'));
+        expect(sidecar).toMatchObject({ contentType: 'audio/wav', metadata: { originalName: 'fala.wav' } });
+
+        const reopened = new FsStorageBackend(root);
+        expect((await reopened.downloadAudioFile(blobName)).data!.toString()).toBe('persisted');
+        expect((await reopened.listAudioFiles()).data).toEqual([blobName]);
+        expect(await reopened.downloadAudioFile('../outside.wav')).toMatchObject({ success: false });
+        expect(await reopened.generateUploadUrl()).toMatchObject({ success: false });
+    });
+});
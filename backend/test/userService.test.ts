@@ -0,0 +1,128 @@
+/**
+ * Unit tests for user accounts and the auth middleware
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { UserService } from '../src/services/userService';
+import { JWTAuthService, setJwtAuthService } from '../src/services/jwtAuthService';
+import { FileUserStore, MemoryUserStore } from '../src/services/users';
+import { MemoryTokenStore } from '../src/services/tokens';
+import { authenticate, withAuth } from '../src/middleware/auth';
+import { AuthenticationError, ConflictError, ErrorCode, NotFoundError, ValidationError } from '../src/core/errors/CustomErrors';
+
+const credentials = { email: ' Ana@Example.com ', password: 'Segura#2026' };
+
+function bearer(token?: string): HttpRequest {
+    const headers = new Headers(token ? { authorization: `Bearer ${token}` } : {});
+    return { headers } as unknown as HttpRequest;
+}
+
+describe('UserService', () => {
+    let auth: JWTAuthService;
+
+    beforeAll(() => {
+        process.env.JWT_SECRET = 'test-access-secret-with-at-least-32-chars';
+        process.env.JWT_REFRESH_SECRET = 'test-refresh-secret-with-at-least-32-chars';
+        auth = new JWTAuthService(new MemoryTokenStore());
+        setJwtAuthService(auth);
+    });
+
+    afterAll(() => setJwtAuthService(null));
+
+    test('should register, log in and identify the user from the token', async () => {
+        const users = new UserService(new MemoryUserStore(), auth);
+
+        const registered = await users.register(credentials);
+        expect(registered.user).toMatchObject({ email: 'ana@example.com', role: 'user' });
+        expect(registered.user).not.toHaveProperty('passwordHash');
+
+        await expect(users.register(credentials)).rejects.toThrow(ConflictError);
+        await expect(users.register({ email: 'bia@example.com', password: 'fraca' })).rejects.toThrow(ValidationError);
+        // Any non-alphanumeric character counts as special, in the schema and when hashing alike
+        expect((await users.register({ email: 'caio@example.com', password: 'Password1_' })).user.email).toBe('caio@example.com');
+        await expect(auth.hashPassword('Password1')).rejects.toThrow(ValidationError);
+        await expect(users.login({ ...credentials, password: 'Errada#2026' })).rejects.toThrow(AuthenticationError);
+        await expect(users.login({ email: 'ninguem@example.com', password: 'Segura#2026' })).rejects.toThrow('Email ou senha inválidos');
+
+        const { tokens } = await users.login(credentials);
+        const identity = await authenticate(bearer(tokens.accessToken));
+        expect(identity).toMatchObject({ userId: registered.user.id, email: 'ana@example.com', role: 'user' });
+        expect((await users.me(identity.userId)).id).toBe(registered.user.id);
+    });
+
+    test('should end the session on logout', async () => {
+        const users = new UserService(new MemoryUserStore(), auth);
+        const { tokens } = await users.register(credentials);
+
+        const rotated = await users.refresh({ refreshToken: tokens.refreshToken });
+        await users.logout(rotated.accessToken);
+        await expect(authenticate(bearer(rotated.accessToken))).rejects.toThrow('Token revogado');
+        await expect(users.refresh({ refreshToken: rotated.refreshToken })).rejects.toThrow('Refresh token revogado');
+    });
+
+    test('should revoke the whole family when a rotated refresh token is reused', async () => {
+        const users = new UserService(new MemoryUserStore(), auth);
+        const { tokens } = await users.register(credentials);
+
+        const rotated = await users.refresh({ refreshToken: tokens.refreshToken });
+        const stolen = users.refresh({ refreshToken: tokens.refreshToken });
+        await expect(stolen).rejects.toThrow('Refresh token reutilizado; sessão encerrada');
+
+        // The legitimate holder is logged out too: the family is gone
+        await expect(users.refresh({ refreshToken: rotated.refreshToken })).rejects.toThrow('Refresh token revogado');
+        await expect(authenticate(bearer(rotated.accessToken))).rejects.toThrow('Sessão encerrada');
+    });
+
+    test('should list sessions per device and log out of all of them', async () => {
+        const users = new UserService(new MemoryUserStore(), auth);
+        const { user, tokens: phone } = await users.register(credentials, { userAgent: 'phone' });
+        const { tokens: laptop } = await users.login(credentials, { userAgent: 'laptop', ipAddress: '203.0.113.7' });
+        const other = await users.register({ email: 'bia@example.com', password: credentials.password });
+
+        const current = await authenticate(bearer(laptop.accessToken));
+        const sessions = await users.listSessions(user.id, current.sessionId);
+        expect(sessions.map(session => [session.userAgent, session.current])).toEqual([['laptop', true], ['phone', false]]);
+        expect(sessions[0]).not.toHaveProperty('currentJti');
+
+        await expect(users.revokeSession(other.user.id, current.sessionId)).rejects.toThrow(NotFoundError);
+
+        expect(await users.logoutAll(user.id)).toBe(2);
+        await expect(authenticate(bearer(phone.accessToken))).rejects.toThrow('Sessão encerrada');
+        await expect(users.refresh({ refreshToken: laptop.refreshToken })).rejects.toThrow(AuthenticationError);
+        expect(await users.listSessions(user.id)).toEqual([]);
+        await expect(authenticate(bearer(other.tokens.accessToken))).resolves.toMatchObject({ userId: other.user.id });
+    });
+
+    test('should keep accounts in the user file', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'qmm-users-'));
+        const filePath = path.join(dir, 'users.json');
+        try {
+            const { user } = await new UserService(new FileUserStore(filePath), auth).register(credentials);
+
+            const reloaded = new UserService(new FileUserStore(filePath), auth);
+            expect((await reloaded.login(credentials)).user.id).toBe(user.id);
+            await expect(reloaded.register(credentials)).rejects.toThrow(ConflictError);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('should only run wrapped handlers with a valid access token', async () => {
+        const context = { invocationId: 'req-1' } as InvocationContext;
+        const handler = withAuth(async (_request, _context, user) => ({ status: 200, jsonBody: { userId: user.userId } }));
+
+        const missing = await handler(bearer(), context);
+        expect(missing.status).toBe(401);
+        expect(missing.headers).toMatchObject({ 'WWW-Authenticate': 'Bearer' });
+
+        const forged = await handler(bearer('not.a.jwt'), context);
+        expect(JSON.parse(forged.body as string).code).toBe(ErrorCode.TOKEN_INVALID);
+
+        const { user, tokens } = await new UserService(new MemoryUserStore(), auth).register(credentials);
+        const allowed = await handler(bearer(tokens.accessToken), context);
+        expect(allowed).toMatchObject({ status: 200, jsonBody: { userId: user.id } });
+    });
+});
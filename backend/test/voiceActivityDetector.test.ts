@@ -0,0 +1,75 @@
+/**
+ * Unit tests for voice activity detection and pause statistics
+ */
+
+import { detectVoiceActivity, computePauseStatistics } from '../src/services/voiceActivityDetector';
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic LCG noise so the fixture does not change between runs
+function noise(length: number, amplitude: number): number[] {
+    let state = 12345;
+    return Array.from({ length }, () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return amplitude * (state / 1073741824 - 1);
+    });
+}
+
+function voiced(seconds: number): number[] {
+    return Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => {
+        const t = i / SAMPLE_RATE;
+        return 0.3 * (Math.sin(2 * Math.PI * 140 * t) + 0.5 * Math.sin(2 * Math.PI * 280 * t));
+    });
+}
+
+function silence(seconds: number): number[] {
+    return new Array(Math.round(seconds * SAMPLE_RATE)).fill(0);
+}
+
+function pcm(samples: number[]) {
+    return { sampleRate: SAMPLE_RATE, channels: 1, channelData: [Float32Array.from(samples)] };
+}
+
+describe('voiceActivityDetector', () => {
+    test('should find speech intervals and measure the pauses between them', () => {
+        const samples = [...silence(0.5), ...voiced(1), ...silence(0.6), ...voiced(0.8), ...silence(0.3), ...voiced(0.5), ...silence(0.4)];
+        const background = noise(samples.length, 0.002);
+        const result = detectVoiceActivity(pcm(samples.map((s, i) => s + background[i])));
+
+        const speech = result.segments.filter(segment => segment.type === 'speech');
+        expect(speech).toHaveLength(3);
+        expect(speech[0].start).toBeCloseTo(0.5, 1);
+        expect(speech[2].end).toBeCloseTo(3.7, 1);
+
+        expect(result.pauses.count).toBe(2);
+        expect(result.pauses.maxLength).toBeCloseTo(0.6, 1);
+        expect(result.pauses.meanLength).toBeCloseTo(0.45, 1);
+        expect(result.pauses.ratio).toBeCloseTo(0.9 / 3.2, 1);
+        expect(result.segments[0].start).toBe(0);
+        expect(result.segments[result.segments.length - 1].end).toBeCloseTo(result.duration, 5);
+    });
+
+    test('should bridge gaps shorter than the minimum pause', () => {
+        const result = detectVoiceActivity(pcm([...voiced(0.5), ...silence(0.1), ...voiced(0.5)]));
+
+        expect(result.segments.filter(segment => segment.type === 'speech')).toHaveLength(1);
+        expect(result.pauses.count).toBe(0);
+    });
+
+    test('should not report speech in stationary noise', () => {
+        const result = detectVoiceActivity(pcm(noise(SAMPLE_RATE * 2, 0.05)));
+        expect(result.speechDuration).toBe(0);
+    });
+
+    test('should ignore leading and trailing silence in pause statistics', () => {
+        const stats = computePauseStatistics([
+            { type: 'silence', start: 0, end: 1 },
+            { type: 'speech', start: 1, end: 2 },
+            { type: 'silence', start: 2, end: 2.5 },
+            { type: 'speech', start: 2.5, end: 3 },
+            { type: 'silence', start: 3, end: 5 }
+        ]);
+
+        expect(stats).toEqual({ count: 1, meanLength: 0.5, maxLength: 0.5, totalLength: 0.5, ratio: 0.25, frequency: 0.5 });
+    });
+});